@@ -0,0 +1,124 @@
+// =============================================================
+// Server-side AI quota for the proxy functions.
+//
+// Every proxied AI call is counted by the consume_ai_quota() database
+// function (supabase/migrations/0005_ai_quota.sql) before it reaches the
+// upstream provider:
+//   * Authorization: Bearer <supabase access token>  -> counted per user.
+//     The token is verified against Supabase Auth, so it cannot be forged.
+//   * No token: counted per client IP, as Netlify reports it in
+//     x-nf-client-connection-ip (the caller can't set that header). Only a
+//     salted hash of the address is stored. Visitors behind one NAT share
+//     the allowance, so keep the anonymous limit small (3 per day by
+//     default) and point them to signing in.
+//   * Every upstream call counts, schema-repair retries included: nothing
+//     the caller sends can make a call free.
+//
+// REQUIRED Netlify environment variables:
+//   - SUPABASE_SERVICE_ROLE_KEY (same one delete-account.ts uses)
+//   - SUPABASE_URL, or the VITE_SUPABASE_URL that is already set
+// =============================================================
+
+export interface AIQuota {
+  used: number;
+  limit: number;
+  reset_at: string;
+}
+
+export type QuotaCheck =
+  | { ok: true; quota: AIQuota }
+  | { ok: false; status: number; body: Record<string, unknown>; quota?: AIQuota };
+
+type HeaderGetter = (name: string) => string | null | undefined;
+
+/** The key anonymous calls are counted under: a hash of the caller's IP. */
+async function anonymousKey(header: HeaderGetter, salt: string): Promise<string | null> {
+  const ip = header("x-nf-client-connection-ip")?.trim();
+  if (!ip) return null;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${ip}`));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `ip:${hex}`;
+}
+
+/** Response headers that let the app show the server's count. */
+export function quotaHeaders(quota: AIQuota): Record<string, string> {
+  return {
+    "X-AI-Quota-Used": String(quota.used),
+    "X-AI-Quota-Limit": String(quota.limit),
+    "X-AI-Quota-Reset": quota.reset_at,
+    "Access-Control-Expose-Headers": "X-AI-Quota-Used, X-AI-Quota-Limit, X-AI-Quota-Reset",
+  };
+}
+
+export async function consumeQuota(header: HeaderGetter): Promise<QuotaCheck> {
+  const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const SERVICE_ROLE = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!SUPABASE_URL || !SERVICE_ROLE) {
+    return {
+      ok: false,
+      status: 500,
+      body: { error: "AI quota is not configured. Missing SUPABASE_SERVICE_ROLE_KEY.", code: "provider_error" },
+    };
+  }
+
+  const authHeader = header("authorization");
+  const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
+
+  // 1) Who is calling?
+  let userId: string | null = null;
+  if (token) {
+    try {
+      const userRes = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+        headers: { Authorization: `Bearer ${token}`, apikey: SERVICE_ROLE },
+      });
+      if (!userRes.ok) {
+        return { ok: false, status: 401, body: { error: "Invalid or expired session", code: "unauthorized" } };
+      }
+      const user = await userRes.json();
+      userId = user?.id ?? null;
+    } catch (err) {
+      return { ok: false, status: 502, body: { error: `Could not verify session: ${(err as Error).message}`, code: "provider_error" } };
+    }
+  }
+
+  const sessionId = userId ? null : await anonymousKey(header, SERVICE_ROLE);
+  if (!userId && !sessionId) {
+    return { ok: false, status: 401, body: { error: "Sign in to use AI features", code: "unauthorized" } };
+  }
+
+  // 2) Count the call; the database refuses once the daily limit is hit.
+  let result: AIQuota & { allowed: boolean };
+  try {
+    const rpcRes = await fetch(`${SUPABASE_URL}/rest/v1/rpc/consume_ai_quota`, {
+      method: "POST",
+      headers: {
+        apikey: SERVICE_ROLE,
+        Authorization: `Bearer ${SERVICE_ROLE}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ _user_id: userId, _session_id: sessionId }),
+    });
+    if (!rpcRes.ok) {
+      const detail = await rpcRes.text().catch(() => "");
+      return { ok: false, status: 500, body: { error: `Quota check failed: ${detail}`.trim(), code: "provider_error" } };
+    }
+    result = await rpcRes.json();
+  } catch (err) {
+    return { ok: false, status: 502, body: { error: `Quota check failed: ${(err as Error).message}`, code: "provider_error" } };
+  }
+
+  const quota: AIQuota = { used: result.used, limit: result.limit, reset_at: result.reset_at };
+  if (!result.allowed) {
+    return {
+      ok: false,
+      status: 429,
+      quota,
+      body: {
+        error: userId ? "Daily AI limit reached" : "Daily AI limit reached. Sign in for more AI calls.",
+        code: "quota_exceeded",
+        quota,
+      },
+    };
+  }
+  return { ok: true, quota };
+}
@@ -0,0 +1,82 @@
+// =============================================================
+// Shared upstream setup for the AI proxy functions (openrouter.ts and
+// openrouter-stream.ts). Not a function itself: Netlify only deploys
+// top-level files and folders that contain an index / same-named file.
+//
+// The upstream defaults to OpenRouter but can be any OpenAI-compatible server:
+//   AI_BASE_URL       e.g. https://api.openai.com/v1 or a self-hosted Ollama
+//   AI_API_KEY        falls back to OPENROUTER_API_KEY; optional for local servers
+//   AI_TEXT_MODEL     forces the model for text requests
+//   AI_VISION_MODEL   forces the model for image requests
+// =============================================================
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+export interface ProxyPayload {
+  messages?: unknown;
+  model?: string;
+  vision?: boolean;
+  jsonMode?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/** Returns an error message when the payload cannot be forwarded. */
+export function validatePayload(payload: ProxyPayload): string | null {
+  if (!payload.messages || !Array.isArray(payload.messages)) return "messages is required";
+  return null;
+}
+
+/**
+ * Builds the upstream chat completions request, or returns a config error
+ * (missing key) for the caller to report as a 500.
+ */
+export function upstreamRequest(
+  payload: ProxyPayload,
+  stream = false
+): { url: string; init: RequestInit } | { error: string } {
+  const baseUrl = (process.env.AI_BASE_URL || OPENROUTER_BASE_URL).replace(/\/+$/, "");
+  const isOpenRouter = baseUrl === OPENROUTER_BASE_URL;
+  const apiKey = process.env.AI_API_KEY || process.env.OPENROUTER_API_KEY;
+  if (!apiKey && isOpenRouter) {
+    return { error: "Server is missing OPENROUTER_API_KEY environment variable" };
+  }
+
+  const forcedModel = payload.vision ? process.env.AI_VISION_MODEL : process.env.AI_TEXT_MODEL;
+  const body: Record<string, unknown> = {
+    model: forcedModel || payload.model || "openai/gpt-4o-mini",
+    messages: payload.messages,
+    temperature: payload.temperature ?? 0.4,
+    max_tokens: payload.maxTokens ?? 1500,
+  };
+  if (payload.jsonMode) {
+    body.response_format = { type: "json_object" };
+  }
+  if (stream) {
+    body.stream = true;
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  if (isOpenRouter) {
+    headers["HTTP-Referer"] = process.env.ALLOWED_ORIGIN || "https://worldlens.app";
+    headers["X-Title"] = "WorldLens";
+  }
+
+  return {
+    url: `${baseUrl}/chat/completions`,
+    init: { method: "POST", headers, body: JSON.stringify(body) },
+  };
+}
+
+/** Pulls a readable message out of an upstream error body. */
+export async function upstreamErrorDetail(res: Response): Promise<string> {
+  let detail = await res.text().catch(() => "");
+  try {
+    const errJson = JSON.parse(detail);
+    detail = errJson?.error?.message || detail;
+  } catch {
+    // Not JSON; keep the raw text.
+  }
+  return detail.trim() || `Upstream error ${res.status}`;
+}
@@ -0,0 +1,14 @@
+// =============================================================
+// Shared request guards for the proxy functions (AI and places).
+// Not a function itself: Netlify only deploys top-level files and folders
+// that contain an index / same-named file.
+// =============================================================
+
+/**
+ * Optional same-origin guard. Set ALLOWED_ORIGIN in Netlify to your site URL
+ * (e.g. https://your-app.netlify.app) to reject requests from other origins.
+ */
+export function isAllowedOrigin(origin: string | null | undefined): boolean {
+  const allowedOrigin = process.env.ALLOWED_ORIGIN;
+  return !allowedOrigin || !origin || origin === allowedOrigin;
+}
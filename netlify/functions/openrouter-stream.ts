@@ -0,0 +1,81 @@
+// =============================================================
+// Netlify Function: streaming AI proxy (PRODUCTION)
+//
+// Same request body as openrouter.ts, but the upstream completion is
+// requested with `stream: true` and its server-sent events are piped
+// straight back to the browser. Uses the Functions v2 signature (a
+// Request in, a Response out) because the classic handler cannot stream.
+//
+// If the browser aborts, req.signal aborts the upstream request too, so a
+// cancelled plan stops costing tokens. Quota is enforced exactly as in
+// openrouter.ts.
+// =============================================================
+
+import { isAllowedOrigin } from "./_shared/origin";
+import {
+  upstreamErrorDetail,
+  upstreamRequest,
+  validatePayload,
+  type ProxyPayload,
+} from "./_shared/aiUpstream";
+import { consumeQuota, quotaHeaders } from "./_shared/aiQuota";
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+export default async (req: Request) => {
+  if (req.method !== "POST") {
+    return json(405, { error: "Method not allowed" });
+  }
+
+  if (!isAllowedOrigin(req.headers.get("origin"))) {
+    return json(403, { error: "Forbidden origin" });
+  }
+
+  let payload: ProxyPayload;
+  try {
+    payload = await req.json();
+  } catch {
+    return json(400, { error: "Invalid JSON body" });
+  }
+
+  const invalid = validatePayload(payload);
+  if (invalid) {
+    return json(400, { error: invalid });
+  }
+
+  const request = upstreamRequest(payload, true);
+  if ("error" in request) {
+    return json(500, { error: request.error });
+  }
+
+  const check = await consumeQuota((name) => req.headers.get(name));
+  if (check.ok === false) {
+    return json(check.status, check.body, check.quota ? quotaHeaders(check.quota) : {});
+  }
+  const headers = quotaHeaders(check.quota);
+
+  let res: Response;
+  try {
+    res = await fetch(request.url, { ...request.init, signal: req.signal });
+  } catch (err) {
+    return json(502, { error: `Failed to reach AI provider: ${(err as Error).message}` });
+  }
+
+  if (!res.ok || !res.body) {
+    return json(res.ok ? 502 : res.status, { error: await upstreamErrorDetail(res) }, headers);
+  }
+
+  return new Response(res.body, {
+    status: 200,
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+};
@@ -6,14 +6,23 @@
 // (set in the Netlify dashboard -> Site settings -> Environment variables)
 // so the key is never shipped to the browser and users never see a popup.
 //
-// SECURITY NOTE: As written, anyone who discovers this endpoint URL could
-// use your OpenRouter credits. Before charging real users you should:
-//   1. Require a valid Supabase session (verify the Authorization JWT), and
-//   2. Check that the user has an active subscription / quota.
-// A basic same-origin guard is included below via the ALLOWED_ORIGIN env var.
+// Every call is counted against the caller's daily quota first (see
+// _shared/aiQuota.ts): the Supabase JWT is verified, ai_usage is incremented
+// atomically, and over-quota callers get a 429 with code "quota_exceeded".
+// A basic same-origin guard is included via the ALLOWED_ORIGIN env var.
+//
+// The upstream (OpenRouter or any OpenAI-compatible server) is configured in
+// _shared/aiUpstream.ts. openrouter-stream.ts is the streaming twin.
 // =============================================================
 
-const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
+import { isAllowedOrigin } from "./_shared/origin";
+import {
+  upstreamErrorDetail,
+  upstreamRequest,
+  validatePayload,
+  type ProxyPayload,
+} from "./_shared/aiUpstream";
+import { consumeQuota, quotaHeaders } from "./_shared/aiQuota";
 
 interface NetlifyEvent {
   httpMethod: string;
@@ -30,83 +39,50 @@ export const handler = async (event: NetlifyEvent) => {
     return { statusCode: 405, headers: corsHeaders, body: JSON.stringify({ error: "Method not allowed" }) };
   }
 
-  // Optional same-origin guard. Set ALLOWED_ORIGIN in Netlify to your site URL
-  // (e.g. https://your-app.netlify.app) to reject requests from other origins.
-  const allowedOrigin = process.env.ALLOWED_ORIGIN;
-  if (allowedOrigin) {
-    const origin = event.headers["origin"] || event.headers["Origin"];
-    if (origin && origin !== allowedOrigin) {
-      return { statusCode: 403, headers: corsHeaders, body: JSON.stringify({ error: "Forbidden origin" }) };
-    }
+  if (!isAllowedOrigin(event.headers["origin"] || event.headers["Origin"])) {
+    return { statusCode: 403, headers: corsHeaders, body: JSON.stringify({ error: "Forbidden origin" }) };
   }
 
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    return {
-      statusCode: 500,
-      headers: corsHeaders,
-      body: JSON.stringify({ error: "Server is missing OPENROUTER_API_KEY environment variable" }),
-    };
-  }
-
-  let payload: {
-    messages?: unknown;
-    model?: string;
-    jsonMode?: boolean;
-    maxTokens?: number;
-    temperature?: number;
-  };
+  let payload: ProxyPayload;
   try {
     payload = JSON.parse(event.body || "{}");
   } catch {
     return { statusCode: 400, headers: corsHeaders, body: JSON.stringify({ error: "Invalid JSON body" }) };
   }
 
-  if (!payload.messages || !Array.isArray(payload.messages)) {
-    return { statusCode: 400, headers: corsHeaders, body: JSON.stringify({ error: "messages is required" }) };
+  const invalid = validatePayload(payload);
+  if (invalid) {
+    return { statusCode: 400, headers: corsHeaders, body: JSON.stringify({ error: invalid }) };
   }
 
-  const body: Record<string, unknown> = {
-    model: payload.model || "openai/gpt-4o-mini",
-    messages: payload.messages,
-    temperature: payload.temperature ?? 0.4,
-    max_tokens: payload.maxTokens ?? 1500,
-  };
-  if (payload.jsonMode) {
-    body.response_format = { type: "json_object" };
+  const request = upstreamRequest(payload);
+  if ("error" in request) {
+    return { statusCode: 500, headers: corsHeaders, body: JSON.stringify({ error: request.error }) };
+  }
+
+  const check = await consumeQuota((name) => event.headers[name] ?? event.headers[name.toLowerCase()]);
+  if (check.ok === false) {
+    const headers = check.quota ? { ...corsHeaders, ...quotaHeaders(check.quota) } : corsHeaders;
+    return { statusCode: check.status, headers, body: JSON.stringify(check.body) };
   }
+  const headers = { ...corsHeaders, ...quotaHeaders(check.quota) };
 
   try {
-    const res = await fetch(OPENROUTER_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-        "HTTP-Referer": allowedOrigin || "https://worldlens.app",
-        "X-Title": "WorldLens",
-      },
-      body: JSON.stringify(body),
-    });
+    const res = await fetch(request.url, request.init);
 
     if (!res.ok) {
-      let detail = "";
-      try {
-        const errJson = await res.json();
-        detail = errJson?.error?.message || JSON.stringify(errJson);
-      } catch {
-        detail = await res.text().catch(() => "");
-      }
-      return { statusCode: res.status, headers: corsHeaders, body: JSON.stringify({ error: `${res.status} ${detail}`.trim() }) };
+      // Pass the upstream status through; the client maps it to an error code.
+      return { statusCode: res.status, headers, body: JSON.stringify({ error: await upstreamErrorDetail(res) }) };
     }
 
     const json = await res.json();
     const content: string = json?.choices?.[0]?.message?.content ?? "";
-    return { statusCode: 200, headers: corsHeaders, body: JSON.stringify({ content }) };
+    return { statusCode: 200, headers, body: JSON.stringify({ content }) };
   } catch (err) {
     return {
       statusCode: 502,
       headers: corsHeaders,
-      body: JSON.stringify({ error: `Failed to reach OpenRouter: ${(err as Error).message}` }),
+      body: JSON.stringify({ error: `Failed to reach AI provider: ${(err as Error).message}` }),
     };
   }
 };
@@ -0,0 +1,146 @@
+// =============================================================
+// Netlify Function: places proxy (PRODUCTION)
+//
+// Nearby-place and destination search for the map, the Location page and
+// the Human Needs sheet. The TomTom key stays here instead of in the
+// bundle, results are normalized into the app's Place shape with the same
+// code the browser uses (src/lib/tomtomPlaces.ts), and repeated
+// lookups are answered from a short-lived in-memory cache.
+//
+//   GET ?lat=&lon=&radius=&limit=&categorySet=7397,7326   category search
+//   GET ?lat=&lon=&radius=&limit=&query=public%20toilet   text POI search
+//   GET ?geocode=Lisbon                                   destination lookup
+//
+// Callers are rate limited per IP (a warm instance keeps its counters; a
+// cold start resets them, which is fine for keeping one client from
+// burning the TomTom quota).
+//
+// REQUIRED Netlify environment variables:
+//   - TOMTOM_API_KEY
+// =============================================================
+
+import { distanceMeters, normalizeTomTom, type TomTomResult } from "../../src/lib/tomtomPlaces";
+import type { Place } from "../../src/lib/places";
+import { isAllowedOrigin } from "./_shared/origin";
+
+interface NetlifyEvent {
+  httpMethod: string;
+  headers: Record<string, string | undefined>;
+  queryStringParameters: Record<string, string | undefined> | null;
+}
+
+const TOMTOM_SEARCH = "https://api.tomtom.com/search/2";
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+const RATE_WINDOW_MS = 60 * 1000;
+// The Map's Tourist tab alone makes four searches at once
+const RATE_LIMIT = 120;
+
+const cache = new Map<string, { at: number; places: Place[] }>();
+const hits = new Map<string, number[]>();
+
+const json = (statusCode: number, body: unknown, extra: Record<string, string> = {}) => ({
+  statusCode,
+  headers: { "Content-Type": "application/json", ...extra },
+  body: JSON.stringify(body),
+});
+
+function rateLimited(ip: string): boolean {
+  const now = Date.now();
+  if (hits.size > 10_000) {
+    for (const [key, times] of hits) {
+      if (now - times[times.length - 1] >= RATE_WINDOW_MS) hits.delete(key);
+    }
+  }
+  const recent = (hits.get(ip) || []).filter((t) => now - t < RATE_WINDOW_MS);
+  recent.push(now);
+  hits.set(ip, recent);
+  return recent.length > RATE_LIMIT;
+}
+
+function clamp(value: string | undefined, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback;
+}
+
+export const handler = async (event: NetlifyEvent) => {
+  if (event.httpMethod !== "GET") {
+    return json(405, { error: "Method not allowed" });
+  }
+  if (!isAllowedOrigin(event.headers["origin"] || event.headers["Origin"])) {
+    return json(403, { error: "Forbidden origin" });
+  }
+
+  const key = process.env.TOMTOM_API_KEY;
+  if (!key) {
+    return json(500, { error: "Places search is not configured. Missing TOMTOM_API_KEY." });
+  }
+
+  const ip =
+    event.headers["x-nf-client-connection-ip"] ||
+    event.headers["x-forwarded-for"]?.split(",")[0].trim() ||
+    "unknown";
+  if (rateLimited(ip)) {
+    return json(429, { error: "Too many place searches. Try again in a minute.", code: "rate_limited" }, { "Retry-After": "60" });
+  }
+
+  const params = event.queryStringParameters || {};
+  const geocode = params.geocode?.trim();
+  const query = params.query?.trim();
+  const categorySet = params.categorySet?.trim();
+  const lat = Number(params.lat);
+  const lon = Number(params.lon);
+
+  let upstream: string;
+  let cacheKey: string;
+  if (geocode) {
+    if (geocode.length > 120) return json(400, { error: "geocode is too long" });
+    upstream = `${TOMTOM_SEARCH}/geocode/${encodeURIComponent(geocode)}.json?key=${key}&limit=1`;
+    cacheKey = `geocode:${geocode.toLowerCase()}`;
+  } else {
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return json(400, { error: "lat and lon are required" });
+    }
+    if (!categorySet && !query) return json(400, { error: "categorySet or query is required" });
+    if (categorySet && !/^\d+(,\d+)*$/.test(categorySet)) return json(400, { error: "Invalid categorySet" });
+    if (query && query.length > 120) return json(400, { error: "query is too long" });
+
+    const radius = clamp(params.radius, 50, 20000, 2000);
+    const limit = clamp(params.limit, 1, 100, 20);
+    const near = `lat=${lat}&lon=${lon}&radius=${radius}&limit=${limit}`;
+    upstream = categorySet
+      ? `${TOMTOM_SEARCH}/nearbySearch/.json?key=${key}&${near}&categorySet=${categorySet}`
+      : `${TOMTOM_SEARCH}/search/${encodeURIComponent(query)}.json?key=${key}&${near}&idxSet=POI`;
+    // ~100 m cells: people standing next to each other share results
+    cacheKey = `${categorySet || `q:${query.toLowerCase()}`}:${lat.toFixed(3)}:${lon.toFixed(3)}:${radius}:${limit}`;
+  }
+
+  // Distances are re-measured from this caller, not whoever filled the cache
+  const withDistances = (places: Place[]) =>
+    geocode ? places : places.map((p) => ({ ...p, distanceMeters: distanceMeters(lat, lon, p.lat, p.lng) }));
+
+  const cached = cache.get(cacheKey);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) {
+    return json(200, { places: withDistances(cached.places) }, { "X-Cache": "HIT" });
+  }
+
+  try {
+    const res = await fetch(upstream);
+    if (!res.ok) {
+      const status = res.status === 429 ? 429 : 502;
+      return json(status, { error: `Places provider error (${res.status})`, code: status === 429 ? "rate_limited" : "provider_error" });
+    }
+    const data = await res.json();
+    const places = ((data.results || []) as TomTomResult[])
+      .map((item) => normalizeTomTom(item, query || geocode || "Nearby place"))
+      .filter(Boolean) as Place[];
+
+    if (cache.size >= CACHE_MAX_ENTRIES) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    cache.set(cacheKey, { at: Date.now(), places });
+    return json(200, { places: withDistances(places) }, { "X-Cache": "MISS", "Cache-Control": "public, max-age=300" });
+  } catch (err) {
+    return json(502, { error: (err as Error).message || "Places provider unreachable", code: "network" });
+  }
+};
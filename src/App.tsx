@@ -1,9 +1,11 @@
+import { lazy, Suspense } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
+import { Loader2 } from "lucide-react";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { ProfileProvider } from "@/contexts/ProfileContext";
@@ -12,22 +14,36 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { ApiKeyDialog } from "@/components/ai/ApiKeyDialog";
 import Home from "./pages/Home";
 
-import Scan from "./pages/Scan";
-import Location from "./pages/Location";
-import Safety from "./pages/Safety";
-import Translate from "./pages/Translate";
-import Spending from "./pages/Spending";
-import Journal from "./pages/Journal";
-import Settings from "./pages/Settings";
-import Map from "./pages/Map";
-import PlanTrip from "./pages/PlanTrip";
-import SharedTrip from "./pages/SharedTrip";
-import NotFound from "./pages/NotFound";
-import ResetPassword from "./pages/ResetPassword";
-import Privacy from "./pages/Privacy";
+// Everything but the home page is split out so the entry chunk stays small
+// enough for the service worker to precache.
+const Scan = lazy(() => import("./pages/Scan"));
+const PhotoImport = lazy(() => import("./pages/PhotoImport"));
+const Location = lazy(() => import("./pages/Location"));
+const Safety = lazy(() => import("./pages/Safety"));
+const Translate = lazy(() => import("./pages/Translate"));
+const Spending = lazy(() => import("./pages/Spending"));
+const Journal = lazy(() => import("./pages/Journal"));
+const Settings = lazy(() => import("./pages/Settings"));
+const Map = lazy(() => import("./pages/Map"));
+const PlanTrip = lazy(() => import("./pages/PlanTrip"));
+const TripItinerary = lazy(() => import("./pages/TripItinerary"));
+const TripTimeline = lazy(() => import("./pages/TripTimeline"));
+const SharedTrip = lazy(() => import("./pages/SharedTrip"));
+const JoinTrip = lazy(() => import("./pages/JoinTrip"));
+const NotFound = lazy(() => import("./pages/NotFound"));
+const ResetPassword = lazy(() => import("./pages/ResetPassword"));
+const Privacy = lazy(() => import("./pages/Privacy"));
 
 const queryClient = new QueryClient();
 
+function PageFallback() {
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <Loader2 className="h-8 w-8 text-primary animate-spin" />
+    </div>
+  );
+}
+
 function AnimatedRoutes() {
   const location = useLocation();
 
@@ -39,6 +55,7 @@ function AnimatedRoutes() {
         <Route path="/auth" element={<Navigate to="/?auth=1" replace />} />
         <Route path="/" element={<Home />} />
         <Route path="/scan" element={<Scan />} />
+        <Route path="/scan/import" element={<ProtectedRoute><PhotoImport /></ProtectedRoute>} />
         <Route path="/location" element={<Location />} />
         <Route path="/safety" element={<Safety />} />
         <Route path="/translate" element={<Translate />} />
@@ -46,8 +63,11 @@ function AnimatedRoutes() {
         <Route path="/map" element={<Map />} />
         <Route path="/plan" element={<PlanTrip />} />
         <Route path="/journal" element={<ProtectedRoute><Journal /></ProtectedRoute>} />
+        <Route path="/journal/:tripId/itinerary" element={<ProtectedRoute><TripItinerary /></ProtectedRoute>} />
+        <Route path="/journal/:tripId/timeline" element={<ProtectedRoute><TripTimeline /></ProtectedRoute>} />
         <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
         <Route path="/trip/:shareCode" element={<SharedTrip />} />
+        <Route path="/join/:token" element={<ProtectedRoute><JoinTrip /></ProtectedRoute>} />
         <Route path="/privacy" element={<Privacy />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -66,7 +86,9 @@ const App = () => (
               <Sonner />
               <ApiKeyDialog />
               <BrowserRouter>
-                <AnimatedRoutes />
+                <Suspense fallback={<PageFallback />}>
+                  <AnimatedRoutes />
+                </Suspense>
               </BrowserRouter>
             </TooltipProvider>
           </AIUsageProvider>
@@ -14,6 +14,8 @@ export function AIUsageBadge({ className, showLabel = true }: AIUsageBadgeProps)
   if (isLoading) return null;
 
   const percentage = (remaining / limit) * 100;
+  // Higher tiers get far more calls than fit as pips; show a bar instead.
+  const showPips = limit <= 10;
   const isLow = remaining <= 1;
   const isEmpty = remaining === 0;
 
@@ -35,26 +37,35 @@ export function AIUsageBadge({ className, showLabel = true }: AIUsageBadgeProps)
       
       {/* Visual Progress Bar */}
       <div className="flex items-center gap-1.5">
-        <div className="flex gap-0.5">
-          {Array.from({ length: limit }).map((_, i) => (
-            <motion.div
-              key={i}
-              initial={{ scale: 0 }}
-              animate={{ scale: 1 }}
-              transition={{ delay: i * 0.05 }}
-              className={cn(
-                "w-2 h-3 rounded-sm transition-colors",
-                i < usageCount
-                  ? "bg-muted-foreground/30" // Used
-                  : isEmpty
-                    ? "bg-destructive"
-                    : isLow
-                      ? "bg-warning"
-                      : "bg-primary" // Remaining
-              )}
+        {showPips ? (
+          <div className="flex gap-0.5">
+            {Array.from({ length: limit }).map((_, i) => (
+              <motion.div
+                key={i}
+                initial={{ scale: 0 }}
+                animate={{ scale: 1 }}
+                transition={{ delay: i * 0.05 }}
+                className={cn(
+                  "w-2 h-3 rounded-sm transition-colors",
+                  i < usageCount
+                    ? "bg-muted-foreground/30" // Used
+                    : isEmpty
+                      ? "bg-destructive"
+                      : isLow
+                        ? "bg-warning"
+                        : "bg-primary" // Remaining
+                )}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="w-16 h-2 rounded-full bg-muted-foreground/30 overflow-hidden">
+            <div
+              className={cn("h-full rounded-full", isEmpty ? "bg-destructive" : isLow ? "bg-warning" : "bg-primary")}
+              style={{ width: `${percentage}%` }}
             />
-          ))}
-        </div>
+          </div>
+        )}
         
         {showLabel && (
           <span className="ml-1">
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { BookmarkPlus, IdCard, Loader2, Salad, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PhraseCard } from "@/components/translate/PhraseCard";
+import { useProfile } from "@/contexts/ProfileContext";
+import { usePhrasebook } from "@/hooks/usePhrasebook";
+import { describeAIError } from "@/lib/aiErrors";
+import { ALLERGENS, DIETS, allergyCardText, dietaryProfileFrom, hasDietaryProfile, splitList } from "@/lib/dietary";
+import { languages } from "@/lib/languages";
+import { translatePhrase } from "@/lib/phrasebook";
+
+function toggle(items: string[], item: string): string[] {
+  return items.includes(item) ? items.filter((i) => i !== item) : [...items, item];
+}
+
+// Allergies, diet and dislikes that menu scans are checked against, and an
+// allergy card the user can translate ahead of a trip.
+export function DietaryProfileCard() {
+  const { profile, updateProfile } = useProfile();
+  const { save } = usePhrasebook();
+  const [allergens, setAllergens] = useState<string[]>([]);
+  const [otherAllergens, setOtherAllergens] = useState("");
+  const [severe, setSevere] = useState(false);
+  const [diets, setDiets] = useState<string[]>([]);
+  const [dislikes, setDislikes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [cardLanguage, setCardLanguage] = useState("es");
+  const [card, setCard] = useState<{ translation: string; pronunciation: string; language: string } | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  useEffect(() => {
+    const dietary = dietaryProfileFrom(profile);
+    setAllergens(dietary.allergens.filter((a) => ALLERGENS[a]));
+    setOtherAllergens(dietary.allergens.filter((a) => !ALLERGENS[a]).join(", "));
+    setSevere(dietary.severe);
+    setDiets(dietary.diets);
+    setDislikes(dietary.dislikes.join(", "));
+  }, [profile]);
+
+  const edited = {
+    allergens: [...allergens, ...splitList(otherAllergens).filter((a) => !allergens.includes(a))],
+    diets,
+    dislikes: splitList(dislikes),
+    severe,
+  };
+  const cardText = allergyCardText(edited);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await updateProfile({
+      allergens: edited.allergens,
+      diets: edited.diets,
+      food_dislikes: edited.dislikes,
+      allergy_severe: edited.severe,
+    });
+    setIsSaving(false);
+    if (error) {
+      toast.error("Failed to save dietary profile");
+    } else {
+      toast.success("Dietary profile saved");
+    }
+  };
+
+  const handleMakeCard = async () => {
+    setIsTranslating(true);
+    try {
+      setCard({ ...(await translatePhrase(cardText, cardLanguage)), language: cardLanguage });
+    } catch (error) {
+      toast.error(describeAIError(error, "Couldn't translate the allergy card"));
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-2">
+          <Salad className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Dietary Profile</CardTitle>
+        </div>
+        <CardDescription>Menus and dishes you scan are checked against this</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Allergies</Label>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(ALLERGENS).map(([key, label]) => (
+              <Button
+                key={key}
+                size="sm"
+                variant={allergens.includes(key) ? "default" : "outline"}
+                className="h-8 rounded-full"
+                onClick={() => setAllergens((items) => toggle(items, key))}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Input
+            placeholder="Other allergies, e.g. kiwi, latex"
+            value={otherAllergens}
+            onChange={(e) => setOtherAllergens(e.target.value)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Severe allergy</Label>
+            <p className="text-xs text-muted-foreground">Even traces and shared utensils are dangerous</p>
+          </div>
+          <Switch checked={severe} onCheckedChange={setSevere} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Diet</Label>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(DIETS).map(([key, diet]) => (
+              <Button
+                key={key}
+                size="sm"
+                variant={diets.includes(key) ? "default" : "outline"}
+                className="h-8 rounded-full"
+                onClick={() => setDiets((items) => toggle(items, key))}
+              >
+                {diet.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dislikes">Dislikes</Label>
+          <Input
+            id="dislikes"
+            placeholder="e.g. coriander, offal"
+            value={dislikes}
+            onChange={(e) => setDislikes(e.target.value)}
+          />
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving || !profile} className="w-full">
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Dietary Profile
+        </Button>
+
+        {hasDietaryProfile(edited) && cardText && (
+          <div className="space-y-2 pt-2">
+            <Label>Allergy card</Label>
+            <p className="text-xs text-muted-foreground">{cardText}</p>
+            <div className="flex gap-2">
+              <Select
+                value={cardLanguage}
+                onValueChange={(value) => {
+                  setCardLanguage(value);
+                  setCard(null);
+                }}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {languages
+                    .filter((lang) => lang.code !== "en")
+                    .map((lang) => (
+                      <SelectItem key={lang.code} value={lang.code}>
+                        {lang.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {card ? (
+                <>
+                  <PhraseCard
+                    text={cardText}
+                    translation={card.translation}
+                    pronunciation={card.pronunciation}
+                    language={card.language}
+                    trigger={
+                      <Button variant="outline">
+                        <IdCard className="h-4 w-4 mr-2" />
+                        Show
+                      </Button>
+                    }
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Save to phrasebook"
+                    onClick={() =>
+                      save({
+                        text: cardText,
+                        translation: card.translation,
+                        pronunciation: card.pronunciation,
+                        language: card.language,
+                        category: "Allergies",
+                        pinned: true,
+                        tripId: null,
+                      })
+                    }
+                  >
+                    <BookmarkPlus className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button variant="outline" onClick={handleMakeCard} disabled={isTranslating}>
+                  {isTranslating ? <Loader2 className="h-4 w-4 animate-spin" /> : "Translate"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
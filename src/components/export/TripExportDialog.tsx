@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Copy, Download, FileText, Instagram, Loader2, Share2 } from "lucide-react";
+import { CalendarDays, Copy, Download, FileText, Instagram, Loader2, Share2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -11,8 +11,11 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { loadItinerary, withDates } from "@/lib/itinerary";
+import { buildTripCalendar } from "@/lib/ical";
 
 interface TripData {
+  id?: string;
   name: string;
   destination: string | null;
   start_date: string | null;
@@ -21,6 +24,7 @@ interface TripData {
   shareable_story: string | null;
   ai_overview?: string | null;
   ai_itinerary?: any[] | null;
+  itinerary?: unknown;
   ai_must_try?: any[] | null;
 }
 
@@ -57,15 +61,14 @@ export function TripExportDialog({ trip, trigger }: TripExportDialogProps) {
       content += `${trip.shareable_story}\n\n`;
     }
     
-    if (trip.ai_itinerary && Array.isArray(trip.ai_itinerary) && trip.ai_itinerary.length > 0) {
+    const itinerary = loadItinerary(trip);
+    if (itinerary && itinerary.days.length > 0) {
       content += `## Daily Highlights\n\n`;
-      trip.ai_itinerary.forEach((day: any, index: number) => {
+      itinerary.days.forEach((day, index) => {
         content += `### Day ${index + 1}${day.title ? `: ${day.title}` : ""}\n\n`;
-        if (day.activities) {
-          day.activities.forEach((activity: string) => {
-            content += `- ${activity}\n`;
-          });
-        }
+        day.stops.forEach((stop) => {
+          content += `- ${stop.time ? `${stop.time} ` : ""}${stop.title}${stop.placeName && stop.placeName !== stop.title ? ` (${stop.placeName})` : ""}\n`;
+        });
         content += `\n`;
       });
     }
@@ -164,8 +167,8 @@ export function TripExportDialog({ trip, trigger }: TripExportDialogProps) {
     }
   };
 
-  const downloadAsFile = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: "text/markdown" });
+  const downloadAsFile = (content: string, filename: string, type = "text/markdown") => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
@@ -177,6 +180,18 @@ export function TripExportDialog({ trip, trigger }: TripExportDialogProps) {
     toast.success("File downloaded!");
   };
 
+  const calendarItinerary = loadItinerary(trip);
+  const datedItinerary = calendarItinerary && withDates(calendarItinerary, trip.start_date);
+  const calendarStops = datedItinerary?.days.filter((d) => d.date).reduce((n, d) => n + d.stops.length, 0) ?? 0;
+
+  const downloadCalendar = () => {
+    const ics = buildTripCalendar(
+      { id: trip.id || crypto.randomUUID(), name: trip.name, destination: trip.destination, start_date: trip.start_date, end_date: trip.end_date },
+      datedItinerary
+    );
+    downloadAsFile(ics, `${trip.name.replace(/\s+/g, "-")}.ics`, "text/calendar");
+  };
+
   const blogContent = generateBlogPost();
   const instagramContent = generateInstagramCaption();
   const twitterContent = generateTwitterThread();
@@ -200,7 +215,7 @@ export function TripExportDialog({ trip, trigger }: TripExportDialogProps) {
         </DialogHeader>
 
         <Tabs defaultValue="blog" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="blog" className="text-xs">
               <FileText className="h-3 w-3 mr-1" />
               Blog
@@ -213,6 +228,10 @@ export function TripExportDialog({ trip, trigger }: TripExportDialogProps) {
               <Share2 className="h-3 w-3 mr-1" />
               Twitter/X
             </TabsTrigger>
+            <TabsTrigger value="calendar" className="text-xs">
+              <CalendarDays className="h-3 w-3 mr-1" />
+              Calendar
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="blog" className="space-y-3">
@@ -277,6 +296,30 @@ export function TripExportDialog({ trip, trigger }: TripExportDialogProps) {
               Ready-to-post Twitter/X thread format!
             </p>
           </TabsContent>
+
+          <TabsContent value="calendar" className="space-y-3">
+            <div className="bg-muted/50 rounded-lg p-3 text-sm space-y-1">
+              {trip.start_date ? (
+                <>
+                  <p>{trip.name} as an all-day event{formatDateRange() ? ` (${formatDateRange()})` : ""}</p>
+                  <p className="text-muted-foreground">
+                    {calendarStops > 0
+                      ? `Plus ${calendarStops} itinerary stop${calendarStops === 1 ? "" : "s"}, with places and map coordinates where known.`
+                      : "No itinerary stops yet. Plan or edit the itinerary to add them."}
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">Give the trip a start date to put it in a calendar.</p>
+              )}
+            </div>
+            <Button size="sm" className="w-full" disabled={!trip.start_date} onClick={downloadCalendar}>
+              <Download className="h-4 w-4 mr-1" />
+              Download .ics
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">
+              Opens in Google Calendar, Apple Calendar and Outlook.
+            </p>
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
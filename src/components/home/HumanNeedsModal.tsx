@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { 
   Bath, 
@@ -18,6 +19,9 @@ import { Button } from "@/components/ui/button";
 import { useGeolocation } from "@/hooks/useGeolocation";
 import { toast } from "sonner";
 import { motion, AnimatePresence } from "framer-motion";
+import { dedupePlaces, searchPlaces } from "@/lib/places";
+import { directionsPath } from "@/lib/routing";
+import type { PlaceCategory } from "@/lib/placeCategories";
 
 type NeedType = "toilet" | "grocery" | "atm" | "pharmacy" | "police" | "hospital" | "transport" | "exit";
 
@@ -25,8 +29,9 @@ interface NeedConfig {
   icon: React.ElementType;
   label: string;
   color: string;
-  categorySet?: string;
-  queryText?: string;
+  categories: PlaceCategory[];
+  /** Results open in-app walking directions instead of Google Maps */
+  walkable?: boolean;
 }
 
 const needsConfig: Record<NeedType, NeedConfig> = {
@@ -34,61 +39,57 @@ const needsConfig: Record<NeedType, NeedConfig> = {
     icon: Bath, 
     label: "Toilet", 
     color: "text-info",
-    queryText: "public toilet"
+    categories: ["toilet"],
+    walkable: true
   },
   grocery: { 
     icon: ShoppingCart, 
     label: "Grocery", 
     color: "text-info",
-    queryText: "supermarket grocery"
+    categories: ["grocery"]
   },
   atm: { 
     icon: Landmark, 
     label: "ATM", 
     color: "text-success",
-    categorySet: "7397"
+    categories: ["atm"]
   },
   pharmacy: { 
     icon: Pill, 
     label: "Pharmacy", 
     color: "text-success",
-    categorySet: "7326"
+    categories: ["pharmacy"]
   },
   police: { 
     icon: Shield, 
     label: "Police", 
     color: "text-warning",
-    categorySet: "7322"
+    categories: ["police"]
   },
   hospital: { 
     icon: Building2, 
     label: "Hospital", 
     color: "text-danger",
-    categorySet: "7321"
+    categories: ["hospital"],
+    walkable: true
   },
   transport: { 
     icon: Bus, 
     label: "Public Transport", 
     color: "text-primary",
-    categorySet: "7380,7380002,7380003,7380004,7380005,9942",
-    queryText: "metro subway underground mrt tube monorail railway train station tram lrt"
+    categories: ["transit", "rail_station"]
   },
   exit: { 
     icon: LogOut, 
     label: "Exit Route", 
     color: "text-primary",
-    categorySet: "7380,7380004,7380005,9942,7324"
+    categories: ["transit", "rail_station"],
+    walkable: true
   },
 };
 
 const needsList: NeedType[] = ["toilet", "grocery", "atm", "pharmacy", "police", "hospital", "transport", "exit"];
 
-const TOMTOM_API_KEY = (() => {
-  const s = "UkFrd1NUaDFzVUhINHl2RDNXd1REY2dUanVTc3Vqam5WU0M=";
-  const r = atob(s).split("").reverse().join("");
-  return r.replace("wW3", "");
-})();
-
 interface NearbyResult {
   name: string;
   distance: number;
@@ -96,6 +97,7 @@ interface NearbyResult {
   lng: number;
   categories?: string[];
   classificationCodes?: string[];
+  category?: PlaceCategory | null;
 }
 
 interface HumanNeedsModalProps {
@@ -104,13 +106,13 @@ interface HumanNeedsModalProps {
 
 export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
   const { latitude, longitude, isLoading: locationLoading, error: locationError, refresh } = useGeolocation();
+  const navigate = useNavigate();
   const [open, setOpen] = useState(false);
   const [selectedNeed, setSelectedNeed] = useState<NeedType | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [results, setResults] = useState<NearbyResult[]>([]);
   const [searchError, setSearchError] = useState<string | null>(null);
   const activeRequestRef = useRef<AbortController | null>(null);
-  const cacheRef = useRef<Map<string, { ts: number; results: NearbyResult[]; error: string | null }>>(new Map());
 
   // Reset when modal closes
   useEffect(() => {
@@ -140,7 +142,7 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
     }
   };
 
-  const startTomTomRequest = () => {
+  const startSearchRequest = () => {
     const controller = new AbortController();
     abortActiveRequest();
     activeRequestRef.current = controller;
@@ -148,62 +150,29 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
     return { controller, timeoutHandle };
   };
 
-  const fetchTomTomPlaces = async (options: {
+  const findPlaces = async (options: {
     lat: number;
     lon: number;
     radius: number;
     limit: number;
-    categorySet?: string;
-    queryText?: string;
+    categories: PlaceCategory[];
     signal: AbortSignal;
-  }) => {
-      const { lat, lon, radius, limit, categorySet, queryText } = options;
-      const base = "https://api.tomtom.com/search/2";
-      const url = categorySet
-        ? `${base}/nearbySearch/.json?key=${TOMTOM_API_KEY}&lat=${lat}&lon=${lon}&radius=${radius}&limit=${limit}&categorySet=${categorySet}`
-        : `${base}/search/${encodeURIComponent(queryText || "")}.json?key=${TOMTOM_API_KEY}&lat=${lat}&lon=${lon}&radius=${radius}&limit=${limit}&idxSet=POI`;
-
-      const response = await fetch(url, { signal: options.signal });
-      if (!response.ok) {
-        throw new Error("Search failed");
-      }
-
-      const data = await response.json();
-      const results = (data.results || [])
-        .map((item: any) => {
-          const position = item.position;
-          if (!position?.lat || !position?.lon) return null;
-          const rawName = item.poi?.name || item.address?.freeformAddress || queryText || "Nearby place";
-          const name = typeof rawName === "string"
-            ? rawName
-                .replace(/\bPRS\b/gi, "PRS (Rail Ticket Reservation)")
-                .replace(/\bSO\b/g, "Sub Office")
-                .replace(/\bSA\b/g, "Station Area")
-            : "Nearby place";
-          const distance = typeof item.dist === "number"
-            ? item.dist
-            : calculateDistance(lat, lon, position.lat, position.lon);
-          const categories = Array.isArray(item.poi?.categories) ? item.poi.categories : undefined;
-          const classificationCodes = Array.isArray(item.poi?.classifications)
-            ? item.poi.classifications.map((c: any) => c?.code).filter(Boolean)
-            : undefined;
-          return { name, distance, lat: position.lat, lng: position.lon, categories, classificationCodes };
-        })
-        .filter(Boolean);
-
-      return results as NearbyResult[];
-  };
-
-  const dedupeResults = (items: NearbyResult[]) => {
-    const seen = new Set<string>();
-    const out: NearbyResult[] = [];
-    for (const item of items) {
-      const key = `${Math.round(item.lat * 10_000) / 10_000}:${Math.round(item.lng * 10_000) / 10_000}:${item.name.toLowerCase()}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-      out.push(item);
-    }
-    return out;
+  }): Promise<NearbyResult[]> => {
+    const { lat, lon, radius, limit, categories, signal } = options;
+    const places = await searchPlaces({ lat, lon, radius, limit, categories }, signal);
+
+    return places.map((place) => ({
+      name: place.name
+        .replace(/\bPRS\b/gi, "PRS (Rail Ticket Reservation)")
+        .replace(/\bSO\b/g, "Sub Office")
+        .replace(/\bSA\b/g, "Station Area"),
+      distance: place.distanceMeters ?? 0,
+      lat: place.lat,
+      lng: place.lng,
+      categories: place.categories,
+      classificationCodes: place.classifications,
+      category: place.category,
+    }));
   };
 
   const rankTransportResults = (items: NearbyResult[]) => {
@@ -212,8 +181,9 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
     // Removed generic "post" to avoid filtering valid stations like "Post Square Metro"
     const negativeKeywords = ["post office", "postal", "india post", "courier", "sub office", "prs", "prs centre"];
 
-    const railCodes = ["7380002", "7380003", "7380004", "7380005", "9942"];
-    const busCodes = ["7380001"];
+    // TomTom classification codes and OpenStreetMap tag values
+    const railCodes = ["RAILROAD_STATION", "STATION", "HALT", "TRAM_STOP", "SUBWAY", "LIGHT_RAIL", "MONORAIL"];
+    const busCodes = ["BUS_STOP", "BUS_STATION"];
 
     const scored = items.map((r) => {
       const hay = `${r.name} ${(r.categories || []).join(" ")}`.toLowerCase();
@@ -221,7 +191,7 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
       
       const isNegative = negativeKeywords.some((k) => hay.includes(k));
       
-      const isRailByCode = railCodes.some(c => codes.includes(c));
+      const isRailByCode = r.category === "rail_station" || railCodes.some(c => codes.includes(c));
       const isBusByCode = busCodes.some(c => codes.includes(c));
       
       const isRail = isRailByCode || railKeywords.some((k) => hay.includes(k));
@@ -244,17 +214,6 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
       .map((x) => x.r);
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3;
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-    const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
-
   const formatDistance = (meters: number): string => {
     if (meters < 1000) return `${Math.round(meters)}m`;
     return `${(meters / 1000).toFixed(1)}km`;
@@ -275,47 +234,19 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
 
     const config = needsConfig[needType];
     const radius = needType === "hospital" || needType === "police" ? 5000 : needType === "transport" ? 8000 : 2000;
-    const cacheKey = `${needType}:${Math.round(latitude * 1000) / 1000}:${Math.round(longitude * 1000) / 1000}:${radius}`;
-    const cached = cacheRef.current.get(cacheKey);
-    if (cached && Date.now() - cached.ts < 60_000) {
-      setResults(cached.results);
-      setSearchError(cached.error);
-      setIsSearching(false);
-      return;
-    }
 
-    const { controller, timeoutHandle } = startTomTomRequest();
+    const { controller, timeoutHandle } = startSearchRequest();
     try {
-      const places = needType === "transport"
-        ? dedupeResults(
-            (await Promise.all([
-              fetchTomTomPlaces({
-                lat: latitude,
-                lon: longitude,
-                radius,
-                limit: 50,
-                categorySet: config.categorySet,
-                signal: controller.signal,
-              }),
-              fetchTomTomPlaces({
-                lat: latitude,
-                lon: longitude,
-                radius,
-                limit: 50,
-                queryText: config.queryText,
-                signal: controller.signal,
-              }),
-            ])).flat()
-          )
-        : await fetchTomTomPlaces({
-            lat: latitude,
-            lon: longitude,
-            radius,
-            limit: 10,
-            categorySet: config.categorySet,
-            queryText: config.queryText,
-            signal: controller.signal,
-          });
+      const places = dedupePlaces(
+        await findPlaces({
+          lat: latitude,
+          lon: longitude,
+          radius,
+          limit: needType === "transport" ? 50 : 10,
+          categories: config.categories,
+          signal: controller.signal,
+        })
+      );
 
       const ranked = needType === "transport"
         ? rankTransportResults(places).slice(0, 5)
@@ -324,16 +255,10 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
       setResults(ranked);
       
       if (ranked.length === 0) {
-        const message = `No ${config.label.toLowerCase()} found within ${radius / 1000}km`;
-        setSearchError(message);
-        cacheRef.current.set(cacheKey, { ts: Date.now(), results: [], error: message });
-      } else {
-        cacheRef.current.set(cacheKey, { ts: Date.now(), results: ranked, error: null });
+        setSearchError(`No ${config.label.toLowerCase()} found within ${radius / 1000}km`);
       }
     } catch (err) {
-      const message = "Search service is busy. Please try again.";
-      setSearchError(message);
-      cacheRef.current.set(cacheKey, { ts: Date.now(), results: [], error: message });
+      setSearchError("Search service is busy. Please try again.");
     } finally {
       clearTimeout(timeoutHandle);
       if (activeRequestRef.current === controller) {
@@ -350,9 +275,18 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
     window.open(url, "_blank");
   };
 
-  const openNearestInMaps = () => {
+  const openResult = (result: NearbyResult) => {
+    if (selectedNeed && needsConfig[selectedNeed].walkable) {
+      setOpen(false);
+      navigate(directionsPath({ lat: result.lat, lng: result.lng, name: result.name }));
+      return;
+    }
+    openInMaps(result);
+  };
+
+  const openNearest = () => {
     if (results.length > 0) {
-      openInMaps(results[0]);
+      openResult(results[0]);
     }
   };
 
@@ -370,24 +304,15 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
     setResults([]);
 
     const radius = 3000;
-    const cacheKey = `exit:${Math.round(latitude * 1000) / 1000}:${Math.round(longitude * 1000) / 1000}:${radius}`;
-    const cached = cacheRef.current.get(cacheKey);
-    if (cached && Date.now() - cached.ts < 60_000) {
-      setResults(cached.results);
-      setSearchError(cached.error);
-      setIsSearching(false);
-      return;
-    }
 
-    const { controller, timeoutHandle } = startTomTomRequest();
+    const { controller, timeoutHandle } = startSearchRequest();
     try {
-      const places = await fetchTomTomPlaces({
+      const places = await findPlaces({
         lat: latitude,
         lon: longitude,
         radius,
         limit: 10,
-        categorySet: needsConfig.exit.categorySet,
-        queryText: "station",
+        categories: needsConfig.exit.categories,
         signal: controller.signal,
       });
 
@@ -398,16 +323,10 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
       setResults(ranked);
 
       if (ranked.length === 0) {
-        const message = "No nearby exit options found. Use GET ME OUT if needed.";
-        setSearchError(message);
-        cacheRef.current.set(cacheKey, { ts: Date.now(), results: [], error: message });
-      } else {
-        cacheRef.current.set(cacheKey, { ts: Date.now(), results: ranked, error: null });
+        setSearchError("No nearby exit options found. Use GET ME OUT if needed.");
       }
     } catch {
-      const message = "Search service is busy. Try again, or use GET ME OUT.";
-      setSearchError(message);
-      cacheRef.current.set(cacheKey, { ts: Date.now(), results: [], error: message });
+      setSearchError("Search service is busy. Try again, or use GET ME OUT.");
     } finally {
       clearTimeout(timeoutHandle);
       if (activeRequestRef.current === controller) {
@@ -532,7 +451,7 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
                       <motion.button
                         key={i}
                         className="w-full flex items-center justify-between p-3 rounded-xl bg-card border border-border/50 hover:border-primary/30 transition-all text-left"
-                        onClick={() => openInMaps(result)}
+                        onClick={() => openResult(result)}
                         initial={{ opacity: 0, x: -10 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: i * 0.05 }}
@@ -554,10 +473,10 @@ export function HumanNeedsModal({ children }: HumanNeedsModalProps) {
                   {results.length > 0 && (
                     <Button 
                       className="w-full" 
-                      onClick={openNearestInMaps}
+                      onClick={openNearest}
                     >
                       <Navigation className="h-4 w-4 mr-2" />
-                      Navigate to Nearest ({formatDistance(results[0].distance)})
+                      {needsConfig[selectedNeed].walkable ? "Walk to Nearest" : "Navigate to Nearest"} ({formatDistance(results[0].distance)})
                     </Button>
                   )}
 
@@ -0,0 +1,81 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { CalendarPlus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { parseCalendar, tripFromCalendar } from "@/lib/ical";
+import { describeSave, saveChange } from "@/lib/syncOutbox";
+import { toast } from "sonner";
+
+interface CalendarImportButtonProps {
+  userId: string;
+  onImported: () => void;
+}
+
+// Creates a trip from the .ics attached to flight and hotel confirmations.
+export function CalendarImportButton({ userId, onImported }: CalendarImportButtonProps) {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const imported = tripFromCalendar(parseCalendar(await file.text()));
+      const id = crypto.randomUUID();
+      const result = await saveChange({
+        type: "create",
+        table: "trips",
+        data: {
+          id,
+          user_id: userId,
+          name: imported.name,
+          destination: imported.destination,
+          start_date: imported.start_date,
+          end_date: imported.end_date,
+          itinerary: imported.itinerary,
+        },
+        label: imported.name,
+      });
+
+      const found = [
+        imported.flights && `${imported.flights} flight${imported.flights === 1 ? "" : "s"}`,
+        imported.hotels && `${imported.hotels} hotel booking${imported.hotels === 1 ? "" : "s"}`,
+      ].filter(Boolean).join(" and ");
+      toast.success(describeSave(result, `Imported ${imported.name} with ${found}`), {
+        description: imported.skipped > 0 ? `${imported.skipped} other event(s) skipped` : undefined,
+        action: result === "saved" ? { label: "Itinerary", onClick: () => navigate(`/journal/${id}/itinerary`) } : undefined,
+      });
+      onImported();
+    } catch (error) {
+      console.error("Calendar import error:", error);
+      toast.error((error as Error).message || "Couldn't read this calendar file");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        variant="outline"
+        className="h-14 px-4 border-border/50"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        title="Import flights and hotels from a calendar file (.ics)"
+      >
+        {isImporting ? <Loader2 className="h-5 w-5 animate-spin" /> : <CalendarPlus className="h-5 w-5" />}
+      </Button>
+    </>
+  );
+}
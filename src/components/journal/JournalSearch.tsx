@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from "react";
+import { Book, Camera, Loader2, Search, Sparkles, WifiOff, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAIUsage } from "@/contexts/AIUsageContext";
+import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
+import type { AskJournalResult } from "@/lib/aiSchemas";
+import {
+  askJournalEntries,
+  highlightParts,
+  makeSnippet,
+  questionTerms,
+  searchJournal,
+  searchTerms,
+  type JournalSearchHit,
+} from "@/lib/journalSearch";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface JournalSearchProps {
+  isOffline: boolean;
+  /** Shows the trip an entry belongs to. */
+  onOpenTrip: (tripId: string) => void;
+}
+
+interface Answer {
+  question: string;
+  text: string;
+  sources: JournalSearchHit[];
+}
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightParts(text, terms).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-primary/20 text-foreground rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function HitRow({ hit, terms, onOpenTrip }: { hit: JournalSearchHit; terms: string[]; onOpenTrip: (tripId: string) => void }) {
+  const Icon = hit.kind === "trip" ? Book : Camera;
+  const snippet = hit.body ? makeSnippet(hit.body, terms) : "";
+  return (
+    <button
+      type="button"
+      className="w-full text-left flex gap-3 rounded-lg p-2 hover:bg-muted/50 disabled:cursor-default disabled:hover:bg-transparent"
+      onClick={() => hit.tripId && onOpenTrip(hit.tripId)}
+      disabled={!hit.tripId}
+    >
+      <Icon className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          <Highlighted text={hit.title} terms={terms} />
+        </p>
+        <p className="text-xs text-muted-foreground truncate">
+          {[hit.subtitle, format(new Date(hit.createdAt), "MMM d, yyyy")].filter(Boolean).join(" · ")}
+        </p>
+        {snippet && (
+          <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+            <Highlighted text={snippet} terms={terms} />
+          </p>
+        )}
+      </div>
+    </button>
+  );
+}
+
+// Search box over scans and trips, with an "ask my journal" mode that
+// answers a question from the entries the search finds.
+export function JournalSearch({ isOffline, onOpenTrip }: JournalSearchProps) {
+  const { canUseAI, incrementUsage } = useAIUsage();
+  const [query, setQuery] = useState("");
+  const [isAskMode, setIsAskMode] = useState(false);
+  const [hits, setHits] = useState<JournalSearchHit[] | null>(null);
+  const [source, setSource] = useState<"server" | "device">("server");
+  const [isSearching, setIsSearching] = useState(false);
+  const [answer, setAnswer] = useState<Answer | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const askAbortRef = useRef<AbortController | null>(null);
+
+  // Search as the user types; only the latest query's results are kept.
+  useEffect(() => {
+    if (isAskMode || searchTerms(query).length === 0) {
+      setHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const result = await searchJournal(query, { online: !isOffline });
+        if (cancelled) return;
+        setHits(result.hits);
+        setSource(result.source);
+      } catch (error) {
+        console.error("Journal search error:", error);
+        if (!cancelled) setHits([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, isAskMode, isOffline]);
+
+  useEffect(() => () => askAbortRef.current?.abort(), []);
+
+  const ask = async () => {
+    const question = query.trim();
+    if (!question || isAsking) return;
+
+    askAbortRef.current?.abort();
+    const controller = new AbortController();
+    askAbortRef.current = controller;
+    setIsAsking(true);
+    try {
+      const { hits: found } = await searchJournal(questionTerms(question).join(" "), {
+        online: !isOffline,
+        matchAny: true,
+        limit: 12,
+      });
+      if (found.length === 0) {
+        setAnswer({ question, text: "Nothing in your journal matches that question.", sources: [] });
+        return;
+      }
+      if (isOffline) {
+        // No AI offline; the closest entries are the best answer there is.
+        setAnswer({ question, text: "You're offline, so here are the closest entries in your journal.", sources: found.slice(0, 5) });
+        return;
+      }
+      if (!canUseAI || !(await incrementUsage())) {
+        toast.error("AI usage limit reached for today");
+        return;
+      }
+
+      const { data, error } = await invokeAI<AskJournalResult>("ask-journal", {
+        body: { question, entries: askJournalEntries(found) },
+        signal: controller.signal,
+      });
+      if (error) throw error;
+
+      const sources = data.sources
+        .map((id) => found.find((hit) => hit.id === id))
+        .filter((hit): hit is JournalSearchHit => !!hit);
+      setAnswer({ question, text: data.answer, sources });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error asking journal:", err);
+      toast.error(describeAIError(err, "Couldn't answer that"));
+    } finally {
+      if (askAbortRef.current === controller) setIsAsking(false);
+    }
+  };
+
+  const toggleAskMode = () => {
+    setIsAskMode((current) => !current);
+    setAnswer(null);
+  };
+
+  const clear = () => {
+    setQuery("");
+    setAnswer(null);
+  };
+
+  const terms = searchTerms(isAskMode ? questionTerms(answer?.question ?? "").join(" ") : query);
+
+  return (
+    <div className="space-y-2">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (isAskMode) ask();
+        }}
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={isAskMode ? "Ask your journal, e.g. that ramen place in Osaka?" : "Search scans, notes and trips"}
+            className="pl-9 pr-9 bg-card"
+            aria-label={isAskMode ? "Ask your journal" : "Search your journal"}
+          />
+          {query && (
+            <button
+              type="button"
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              onClick={clear}
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <Button
+          type="button"
+          variant={isAskMode ? "default" : "outline"}
+          size="icon"
+          className="flex-shrink-0"
+          onClick={toggleAskMode}
+          title={isAskMode ? "Back to search" : "Ask my journal"}
+        >
+          <Sparkles className="h-4 w-4" />
+        </Button>
+        {isAskMode && (
+          <Button type="submit" className="flex-shrink-0" disabled={!query.trim() || isAsking}>
+            {isAsking ? <Loader2 className="h-4 w-4 animate-spin" /> : "Ask"}
+          </Button>
+        )}
+      </form>
+
+      {!isAskMode && hits && (
+        <div className="bg-card rounded-xl border border-border/50 p-2 space-y-1">
+          <div className="flex items-center justify-between px-2 pt-1 text-xs text-muted-foreground">
+            <span>
+              {isSearching ? "Searching…" : `${hits.length} result${hits.length === 1 ? "" : "s"}`}
+            </span>
+            {source === "device" && (
+              <span className="flex items-center gap-1">
+                <WifiOff className="h-3 w-3" />
+                Saved on this device
+              </span>
+            )}
+          </div>
+          {hits.length === 0 && !isSearching ? (
+            <p className="px-2 py-3 text-sm text-muted-foreground">Nothing in your journal matches “{query.trim()}”.</p>
+          ) : (
+            hits.map((hit) => <HitRow key={`${hit.kind}-${hit.id}`} hit={hit} terms={terms} onOpenTrip={onOpenTrip} />)
+          )}
+        </div>
+      )}
+
+      {isAskMode && answer && (
+        <div className="bg-card rounded-xl border border-border/50 p-3 space-y-2">
+          <p className="text-sm flex gap-2">
+            <Sparkles className="h-4 w-4 mt-0.5 text-primary flex-shrink-0" />
+            <span>{answer.text}</span>
+          </p>
+          {answer.sources.length > 0 && (
+            <div className="border-t border-border/50 pt-1">
+              {answer.sources.map((hit) => (
+                <HitRow key={`${hit.kind}-${hit.id}`} hit={hit} terms={terms} onOpenTrip={onOpenTrip} />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
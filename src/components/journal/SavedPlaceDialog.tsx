@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Loader2, MapPin } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+import type { SavedPlace, SavedPlacePatch } from "@/lib/savedPlaces";
+
+interface SavedPlaceDialogProps {
+  place: SavedPlace;
+  trips: { id: string; name: string }[];
+  trigger: React.ReactNode;
+  onSave: (place: SavedPlace, patch: SavedPlacePatch) => Promise<void>;
+}
+
+const NO_TRIP = "none";
+
+export function SavedPlaceDialog({ place, trips, trigger, onSave }: SavedPlaceDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [tags, setTags] = useState("");
+  const [visited, setVisited] = useState(false);
+  const [visitedOn, setVisitedOn] = useState("");
+  const [tripId, setTripId] = useState(NO_TRIP);
+
+  // Load the place's current details every time the dialog opens.
+  useEffect(() => {
+    if (!isOpen) return;
+    setNotes(place.notes || "");
+    setTags(place.tags.join(", "));
+    setVisited(place.visited);
+    setVisitedOn(place.visited_on || "");
+    setTripId(place.trip_id || NO_TRIP);
+  }, [isOpen, place]);
+
+  const toggleVisited = (checked: boolean) => {
+    setVisited(checked);
+    if (checked && !visitedOn) setVisitedOn(format(new Date(), "yyyy-MM-dd"));
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(place, {
+        notes: notes.trim() || null,
+        tags: Array.from(new Set(tags.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))),
+        visited,
+        visited_on: visited ? visitedOn || null : null,
+        trip_id: tripId === NO_TRIP ? null : tripId,
+      });
+      setIsOpen(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-primary" />
+            {place.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <Select value={tripId} onValueChange={setTripId}>
+            <SelectTrigger className="bg-background">
+              <SelectValue placeholder="Trip" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TRIP}>No trip</SelectItem>
+              {trips.map((trip) => (
+                <SelectItem key={trip.id} value={trip.id}>
+                  {trip.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Textarea
+            placeholder="Notes (opening hours, what to order, who recommended it…)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="bg-background min-h-[80px]"
+          />
+
+          <Input
+            placeholder="Tags, comma separated (e.g. coffee, rooftop)"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            className="bg-background"
+          />
+
+          <div className="flex items-center justify-between gap-3">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={visited} onCheckedChange={toggleVisited} />
+              Visited
+            </label>
+            {visited && (
+              <Input
+                type="date"
+                value={visitedOn}
+                onChange={(e) => setVisitedOn(e.target.value)}
+                className="w-40 bg-background"
+              />
+            )}
+          </div>
+
+          <Button onClick={save} disabled={isSaving} className="w-full">
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   X, 
@@ -8,11 +8,14 @@ import {
   Filter,
   Grid3X3,
   List,
-  Heart
+  Heart,
+  Search
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { scanDocument, searchDocuments } from "@/lib/journalSearch";
 import { format } from "date-fns";
-import { supabase } from "@/integrations/supabase/client";
+import { describeSave, saveChangeVersioned } from "@/lib/syncOutbox";
 import { toast } from "sonner";
 
 interface ScanEntry {
@@ -22,8 +25,12 @@ interface ScanEntry {
   description: string | null;
   location_name: string | null;
   image_url: string | null;
+  extracted_text?: string | null;
+  notes?: string | null;
+  tips?: string[] | null;
   is_favorite: boolean;
   created_at: string;
+  updated_at?: string;
   trip_id: string | null;
 }
 
@@ -57,6 +64,14 @@ export function ScanGallery({ scans, onClose, onUpdate }: ScanGalleryProps) {
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [localScans, setLocalScans] = useState<ScanEntry[]>(scans);
+  const [query, setQuery] = useState("");
+
+  // Ids of the scans matching the search, best match first; null when not searching.
+  const matchingIds = useMemo(() => {
+    if (!query.trim()) return null;
+    const documents = localScans.map((scan) => scanDocument({ ...scan, extracted_text: scan.extracted_text ?? null }));
+    return searchDocuments(documents, query, { limit: localScans.length }).map((hit) => hit.id);
+  }, [localScans, query]);
 
   const toggleFavorite = async (e: React.MouseEvent, scan: ScanEntry) => {
     e.stopPropagation();
@@ -70,24 +85,40 @@ export function ScanGallery({ scans, onClose, onUpdate }: ScanGalleryProps) {
       setSelectedScan({ ...selectedScan, is_favorite: newFavoriteStatus });
     }
 
-    const { error } = await supabase
-      .from("scan_entries")
-      .update({ is_favorite: newFavoriteStatus })
-      .eq("id", scan.id);
-
-    if (error) {
+    try {
+      const { result, updatedAt } = await saveChangeVersioned({
+        type: "update",
+        table: "scan_entries",
+        data: { id: scan.id, is_favorite: newFavoriteStatus },
+        label: scan.name || scan.category,
+        baseUpdatedAt: scan.updated_at,
+      });
+      if (result === "conflict") {
+        toast.warning(describeSave(result, ""));
+      } else {
+        toast.success(describeSave(result, newFavoriteStatus ? "Added to favorites" : "Removed from favorites"));
+      }
+      if (result === "saved") {
+        // The next toggle is checked against this, so keep the server's new stamp
+        if (updatedAt) {
+          setLocalScans(prev => prev.map(s => (s.id === scan.id ? { ...s, updated_at: updatedAt } : s)));
+          setSelectedScan(prev => (prev?.id === scan.id ? { ...prev, updated_at: updatedAt } : prev));
+        }
+        onUpdate?.();
+      }
+    } catch {
       // Revert on error
       setLocalScans(prev => prev.map(s => 
         s.id === scan.id ? { ...s, is_favorite: !newFavoriteStatus } : s
       ));
       toast.error("Failed to update favorite");
-    } else {
-      toast.success(newFavoriteStatus ? "Added to favorites" : "Removed from favorites");
-      onUpdate?.();
     }
   };
 
-  const filteredScans = localScans.filter(scan => {
+  const searchedScans = matchingIds
+    ? matchingIds.map((id) => localScans.find((s) => s.id === id))
+    : localScans;
+  const filteredScans = searchedScans.filter(scan => {
     const categoryMatch = selectedCategory === "all" || scan.category === selectedCategory;
     const favoriteMatch = !showFavoritesOnly || scan.is_favorite;
     return categoryMatch && favoriteMatch;
@@ -125,6 +156,20 @@ export function ScanGallery({ scans, onClose, onUpdate }: ScanGalleryProps) {
           </div>
         </div>
 
+        {/* Search */}
+        <div className="px-4 pb-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search names, notes and text in photos"
+              className="pl-9 bg-card"
+              aria-label="Search photos"
+            />
+          </div>
+        </div>
+
         {/* Favorites Toggle & Category Filter */}
         <div className="px-4 pb-3 overflow-x-auto">
           <div className="flex gap-2">
@@ -170,11 +215,11 @@ export function ScanGallery({ scans, onClose, onUpdate }: ScanGalleryProps) {
       </div>
 
       {/* Gallery Content */}
-      <div className="p-4 pb-20 overflow-auto h-[calc(100vh-120px)]">
+      <div className="p-4 pb-20 overflow-auto h-[calc(100vh-172px)]">
         {scansWithImages.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
             <Filter className="h-12 w-12 mb-3 opacity-30" />
-            <p>No photos in this category</p>
+            <p>{query.trim() ? "No photos match your search" : "No photos in this category"}</p>
           </div>
         ) : viewMode === "grid" ? (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
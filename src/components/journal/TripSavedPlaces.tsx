@@ -0,0 +1,104 @@
+import { useNavigate } from "react-router-dom";
+import { CheckCircle2, Circle, Navigation, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { format } from "date-fns";
+import { directionsPath } from "@/lib/routing";
+import type { SavedPlace, SavedPlacePatch } from "@/lib/savedPlaces";
+import { SavedPlaceDialog } from "./SavedPlaceDialog";
+
+interface TripSavedPlacesProps {
+  title: string;
+  places: SavedPlace[];
+  trips: { id: string; name: string }[];
+  unsyncedIds?: Set<string>;
+  onUpdate: (place: SavedPlace, patch: SavedPlacePatch, savedMessage?: string) => Promise<void>;
+  onRemove: (place: SavedPlace) => void;
+}
+
+export function TripSavedPlaces({ title, places, trips, unsyncedIds, onUpdate, onRemove }: TripSavedPlacesProps) {
+  const navigate = useNavigate();
+  if (places.length === 0) return null;
+
+  const visitedCount = places.filter((p) => p.visited).length;
+
+  const toggleVisited = (place: SavedPlace) =>
+    onUpdate(
+      place,
+      place.visited
+        ? { visited: false, visited_on: null }
+        : { visited: true, visited_on: place.visited_on || format(new Date(), "yyyy-MM-dd") },
+      place.visited ? "Marked as not visited" : "Marked as visited"
+    );
+
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">
+        {title} · {visitedCount}/{places.length} visited
+      </p>
+      <ul className="space-y-1">
+        {places.map((place) => (
+          <li key={place.id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-background/60">
+            <div className="flex items-center gap-2 min-w-0">
+              <button
+                type="button"
+                onClick={() => toggleVisited(place)}
+                aria-label={place.visited ? "Mark as not visited" : "Mark as visited"}
+                className="shrink-0"
+              >
+                {place.visited ? (
+                  <CheckCircle2 className="h-4 w-4 text-success" />
+                ) : (
+                  <Circle className="h-4 w-4 text-muted-foreground" />
+                )}
+              </button>
+              <span className="text-lg shrink-0">{place.icon || "⭐"}</span>
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">
+                  {place.name}
+                  {unsyncedIds?.has(place.id) && <span className="ml-1 text-xs text-warning">• not synced</span>}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {[
+                    place.visited_on && `Visited ${format(new Date(`${place.visited_on}T00:00:00`), "MMM d")}`,
+                    place.tags.length > 0 && place.tags.map((t) => `#${t}`).join(" "),
+                    place.notes,
+                  ].filter(Boolean).join(" · ") || place.place_type || "place"}
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center shrink-0">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                title="Walking directions"
+                onClick={() => navigate(directionsPath({ lat: place.latitude, lng: place.longitude, name: place.name }))}
+              >
+                <Navigation className="h-4 w-4" />
+              </Button>
+              <SavedPlaceDialog
+                place={place}
+                trips={trips}
+                onSave={(p, patch) => onUpdate(p, patch)}
+                trigger={
+                  <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Edit place">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                aria-label="Remove place"
+                onClick={() => onRemove(place)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
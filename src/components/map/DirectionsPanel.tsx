@@ -0,0 +1,86 @@
+import { Footprints, Loader2, AlertCircle, ExternalLink, X, Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { externalMapsUrl, formatDuration, type WalkingRoute } from "@/lib/routing";
+import type { RouteDestination } from "@/hooks/useWalkingRoute";
+
+interface DirectionsPanelProps {
+  destination: RouteDestination;
+  route: WalkingRoute | null;
+  isLoading: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export function DirectionsPanel({ destination, route, isLoading, error, onRetry, onClose }: DirectionsPanelProps) {
+  const openExternal = () => window.open(externalMapsUrl(destination), "_blank");
+
+  return (
+    <div className="mb-3 p-3 rounded-xl bg-card/50 border border-border/50">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <Footprints className="h-4 w-4 text-primary shrink-0" />
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">Walking to {destination.name}</div>
+            {route && (
+              <div className="text-xs text-muted-foreground">
+                {formatDistance(route.distanceMeters)} • about {formatDuration(route.durationSeconds)}
+              </div>
+            )}
+          </div>
+        </div>
+        <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={onClose} aria-label="Close directions">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground py-3">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Finding a walking route…</span>
+        </div>
+      )}
+
+      {error && !isLoading && (
+        <div className="pt-3 space-y-2">
+          <div className="flex items-start gap-2 text-sm text-muted-foreground">
+            <AlertCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="flex-1" onClick={onRetry}>
+              Try again
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={openExternal}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              Open in Maps
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {route && (
+        <ol className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+          {route.steps.map((step, i) => (
+            <li key={i} className="flex items-start justify-between gap-3 p-2 rounded-lg bg-background/60 text-sm">
+              <span className="flex items-start gap-2 min-w-0">
+                {i === route.steps.length - 1 ? (
+                  <Flag className="h-4 w-4 text-primary shrink-0 mt-0.5" />
+                ) : (
+                  <span className="text-xs text-muted-foreground w-4 shrink-0 mt-0.5">{i + 1}</span>
+                )}
+                <span className="leading-tight">{step.instruction}</span>
+              </span>
+              {step.distanceMeters > 0 && (
+                <span className="text-xs text-muted-foreground shrink-0">{formatDistance(step.distanceMeters)}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
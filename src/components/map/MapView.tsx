@@ -1,6 +1,8 @@
 import { useEffect, useRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { TILE_ATTRIBUTION, TILE_URL_TEMPLATE } from "@/lib/mapTiles";
+import { getMapTile } from "@/lib/offlineStorage";
 
 // Fix default marker icons in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -16,7 +18,7 @@ export interface MapMarker {
   lng: number;
   title: string;
   description?: string;
-  type: "scan" | "poi" | "user";
+  type: "scan" | "poi" | "user" | "saved";
   icon?: string;
 }
 
@@ -25,6 +27,15 @@ interface MapViewProps {
   zoom?: number;
   markers?: MapMarker[];
   onMarkerClick?: (marker: MapMarker) => void;
+  /** Saved places, drawn on their own layer the user can hide */
+  savedMarkers?: MapMarker[];
+  /** Walking route to draw, [lat, lng] pairs */
+  route?: [number, number][];
+  /**
+   * Draw only the first n points of the route boldly, over a faint full
+   * route, and keep the last one in view. For replaying a path.
+   */
+  routeProgress?: number;
   className?: string;
 }
 
@@ -32,46 +43,119 @@ const markerColors: Record<MapMarker["type"], string> = {
   scan: "#8b5cf6", // primary purple
   poi: "#f59e0b", // amber
   user: "#22c55e", // green
+  saved: "#ec4899", // pink
 };
 
 function createCustomIcon(type: MapMarker["type"], icon?: string): L.DivIcon {
   const color = markerColors[type];
-  const emoji = icon || (type === "scan" ? "📷" : type === "poi" ? "📍" : "👤");
-  
+  const emoji = icon || (type === "scan" ? "📷" : type === "poi" ? "📍" : type === "saved" ? "⭐" : "👤");
+
+  // Icons can come from other trip members too, so like the popup the pin
+  // is built from nodes and the emoji goes in as text
+  const pin = document.createElement("div");
+  pin.style.cssText = `
+    background: ${color};
+    width: 36px;
+    height: 36px;
+    border-radius: 50% 50% 50% 0;
+    transform: rotate(-45deg);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+    border: 2px solid white;
+  `;
+  const glyph = document.createElement("span");
+  glyph.style.cssText = "transform: rotate(45deg); font-size: 16px;";
+  glyph.textContent = emoji;
+  pin.appendChild(glyph);
+
   return L.divIcon({
     className: "custom-map-marker",
-    html: `
-      <div style="
-        background: ${color};
-        width: 36px;
-        height: 36px;
-        border-radius: 50% 50% 50% 0;
-        transform: rotate(-45deg);
-        display: flex;
-        align-items: center;
-        justify-content: center;
-        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-        border: 2px solid white;
-      ">
-        <span style="transform: rotate(45deg); font-size: 16px;">${emoji}</span>
-      </div>
-    `,
+    html: pin,
     iconSize: [36, 36],
     iconAnchor: [18, 36],
     popupAnchor: [0, -36],
   });
 }
 
+function addMarker(layer: L.LayerGroup, marker: MapMarker, onMarkerClick?: (marker: MapMarker) => void) {
+  const leafletMarker = L.marker([marker.lat, marker.lng], {
+    icon: createCustomIcon(marker.type, marker.icon),
+  });
+
+  // Add popup. Titles and notes can come from other trip members, so they
+  // go in as text, never as HTML
+  const popup = document.createElement("div");
+  popup.className = "p-2";
+  const title = document.createElement("strong");
+  title.className = "text-sm";
+  title.textContent = marker.title;
+  popup.appendChild(title);
+  if (marker.description) {
+    const description = document.createElement("p");
+    description.className = "text-xs text-gray-600 mt-1";
+    description.textContent = marker.description;
+    popup.appendChild(description);
+  }
+  leafletMarker.bindPopup(popup);
+
+  // Add click handler
+  if (onMarkerClick) {
+    leafletMarker.on("click", () => onMarkerClick(marker));
+  }
+
+  leafletMarker.addTo(layer);
+}
+
+// Tiles from the configured source, served from a downloaded city pack
+// when one has the tile so the map still draws offline
+class OfflineTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement("img");
+    tile.alt = "";
+    tile.setAttribute("role", "presentation");
+
+    const fromNetwork = () => {
+      tile.onload = () => done(undefined, tile);
+      tile.onerror = () => done(new Error("Tile failed to load"), tile);
+      tile.src = this.getTileUrl(coords);
+    };
+
+    getMapTile(coords.z, coords.x, coords.y)
+      .then((blob) => {
+        if (!blob) return fromNetwork();
+        const url = URL.createObjectURL(blob);
+        tile.onload = () => {
+          URL.revokeObjectURL(url);
+          done(undefined, tile);
+        };
+        tile.onerror = fromNetwork;
+        tile.src = url;
+      })
+      .catch(fromNetwork);
+
+    return tile;
+  }
+}
+
 export function MapView({
   center,
   zoom = 14,
   markers = [],
   onMarkerClick,
+  savedMarkers,
+  route,
+  routeProgress,
   className = "",
 }: MapViewProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersLayerRef = useRef<L.LayerGroup | null>(null);
+  const routeLayerRef = useRef<L.LayerGroup | null>(null);
+  const progressLayerRef = useRef<L.LayerGroup | null>(null);
+  const savedLayerRef = useRef<L.LayerGroup | null>(null);
+  const layersControlRef = useRef<L.Control.Layers | null>(null);
 
   // Initialize map
   useEffect(() => {
@@ -83,24 +167,32 @@ export function MapView({
       zoomControl: false,
     });
 
-    // Add tile layer (OpenStreetMap)
-    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-    }).addTo(map);
+    // Add tile layer (OpenStreetMap unless configured otherwise)
+    new OfflineTileLayer(TILE_URL_TEMPLATE, { attribution: TILE_ATTRIBUTION }).addTo(map);
 
     // Add zoom control to bottom right
     L.control.zoom({ position: "bottomright" }).addTo(map);
 
-    // Create markers layer
+    // Route under the markers
+    const routeLayer = L.layerGroup().addTo(map);
+    const progressLayer = L.layerGroup().addTo(map);
+    const savedLayer = L.layerGroup().addTo(map);
     const markersLayer = L.layerGroup().addTo(map);
 
     mapInstanceRef.current = map;
     markersLayerRef.current = markersLayer;
+    routeLayerRef.current = routeLayer;
+    progressLayerRef.current = progressLayer;
+    savedLayerRef.current = savedLayer;
 
     return () => {
       map.remove();
       mapInstanceRef.current = null;
       markersLayerRef.current = null;
+      routeLayerRef.current = null;
+      progressLayerRef.current = null;
+      savedLayerRef.current = null;
+      layersControlRef.current = null;
     };
   }, []);
 
@@ -119,28 +211,58 @@ export function MapView({
     markersLayerRef.current.clearLayers();
 
     // Add new markers
-    markers.forEach((marker) => {
-      const leafletMarker = L.marker([marker.lat, marker.lng], {
-        icon: createCustomIcon(marker.type, marker.icon),
-      });
-
-      // Add popup
-      leafletMarker.bindPopup(`
-        <div class="p-2">
-          <strong class="text-sm">${marker.title}</strong>
-          ${marker.description ? `<p class="text-xs text-gray-600 mt-1">${marker.description}</p>` : ""}
-        </div>
-      `);
-
-      // Add click handler
-      if (onMarkerClick) {
-        leafletMarker.on("click", () => onMarkerClick(marker));
-      }
-
-      leafletMarker.addTo(markersLayerRef.current!);
-    });
+    markers.forEach((marker) => addMarker(markersLayerRef.current!, marker, onMarkerClick));
   }, [markers, onMarkerClick]);
 
+  // Saved places layer, with a toggle once there is something to toggle
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const layer = savedLayerRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    (savedMarkers || []).forEach((marker) => addMarker(layer, marker, onMarkerClick));
+
+    if (savedMarkers?.length && !layersControlRef.current) {
+      layersControlRef.current = L.control
+        .layers(undefined, { "Saved places": layer }, { position: "topright" })
+        .addTo(map);
+    }
+  }, [savedMarkers, onMarkerClick]);
+
+  // Draw the route and fit it on screen; a replay moving along doesn't refit
+  const replaying = routeProgress !== undefined;
+  useEffect(() => {
+    if (!routeLayerRef.current || !mapInstanceRef.current) return;
+    routeLayerRef.current.clearLayers();
+    if (!route || route.length < 2) return;
+
+    const line = L.polyline(route, {
+      color: markerColors.scan,
+      weight: replaying ? 3 : 5,
+      opacity: replaying ? 0.3 : 0.85,
+      dashArray: replaying ? "6 8" : undefined,
+    });
+    line.addTo(routeLayerRef.current);
+    mapInstanceRef.current.fitBounds(line.getBounds(), { padding: [32, 32] });
+  }, [route, replaying]);
+
+  // The replayed part of the route
+  useEffect(() => {
+    const layer = progressLayerRef.current;
+    const map = mapInstanceRef.current;
+    if (!layer || !map) return;
+    layer.clearLayers();
+    if (!route || routeProgress === undefined || routeProgress < 1) return;
+
+    const done = route.slice(0, routeProgress);
+    if (done.length > 1) {
+      L.polyline(done, { color: markerColors.scan, weight: 5, opacity: 0.9 }).addTo(layer);
+    }
+    const last = done[done.length - 1];
+    if (!map.getBounds().pad(-0.1).contains(last)) map.panTo(last);
+  }, [route, routeProgress]);
+
   return (
     <div 
       ref={mapRef} 
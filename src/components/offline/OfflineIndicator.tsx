@@ -1,47 +1,91 @@
-import { WifiOff, RefreshCw, CloudOff } from "lucide-react";
+import { useState } from "react";
+import { WifiOff, RefreshCw, CloudOff, AlertTriangle, Camera } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useCaptureQueue } from "@/hooks/useCaptureQueue";
 import { Button } from "@/components/ui/button";
+import { SyncQueueSheet } from "./SyncQueueSheet";
 
 export function OfflineIndicator() {
-  const { isOffline, isSyncing, pendingCount, syncPendingOperations } = useOfflineSync();
+  const { isOffline, isSyncing, operations, pendingCount, conflictCount, syncPendingOperations } = useOfflineSync();
+  const { captures, isProcessing, processNow } = useCaptureQueue();
+  const [sheetOpen, setSheetOpen] = useState(false);
+
+  const reviewButton = (
+    <Button size="sm" variant="ghost" className="h-6 px-2 ml-2" onClick={() => setSheetOpen(true)}>
+      Review
+    </Button>
+  );
 
   return (
-    <AnimatePresence>
-      {(isOffline || pendingCount > 0) && (
-        <motion.div
-          initial={{ opacity: 0, y: -20 }}
-          animate={{ opacity: 1, y: 0 }}
-          exit={{ opacity: 0, y: -20 }}
-          className="fixed top-0 left-0 right-0 z-50 flex items-center justify-center gap-2 py-2 px-4 text-sm"
-          style={{
-            backgroundColor: isOffline ? 'hsl(var(--destructive))' : 'hsl(var(--warning))',
-            color: isOffline ? 'hsl(var(--destructive-foreground))' : 'hsl(var(--warning-foreground))',
-          }}
-        >
-          {isOffline ? (
-            <>
-              <WifiOff className="h-4 w-4" />
-              <span>You're offline. Changes will sync when connected.</span>
-            </>
-          ) : pendingCount > 0 ? (
-            <>
-              <CloudOff className="h-4 w-4" />
-              <span>{pendingCount} pending change{pendingCount > 1 ? 's' : ''}</span>
-              <Button
-                size="sm"
-                variant="ghost"
-                className="h-6 px-2 ml-2"
-                onClick={syncPendingOperations}
-                disabled={isSyncing}
-              >
-                <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
-                Sync
-              </Button>
-            </>
-          ) : null}
-        </motion.div>
-      )}
-    </AnimatePresence>
+    <>
+      <AnimatePresence>
+        {(isOffline || pendingCount > 0 || conflictCount > 0 || captures.length > 0) && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="fixed top-0 left-0 right-0 z-50 flex items-center justify-center gap-2 py-2 px-4 text-sm"
+            style={{
+              backgroundColor: isOffline ? 'hsl(var(--destructive))' : 'hsl(var(--warning))',
+              color: isOffline ? 'hsl(var(--destructive-foreground))' : 'hsl(var(--warning-foreground))',
+            }}
+          >
+            {isOffline ? (
+              <>
+                <WifiOff className="h-4 w-4" />
+                <span>
+                  You're offline.{" "}
+                  {pendingCount > 0
+                    ? `${pendingCount} change${pendingCount > 1 ? 's' : ''} saved on this device.`
+                    : 'Changes will sync when connected.'}
+                </span>
+                {(operations.length > 0 || captures.length > 0) && reviewButton}
+              </>
+            ) : conflictCount > 0 ? (
+              <>
+                <AlertTriangle className="h-4 w-4" />
+                <span>{conflictCount} conflicting change{conflictCount > 1 ? 's' : ''}</span>
+                {reviewButton}
+              </>
+            ) : pendingCount === 0 ? (
+              <>
+                <Camera className="h-4 w-4" />
+                <span>
+                  {captures.length} photo{captures.length > 1 ? 's' : ''} waiting for analysis
+                </span>
+                {reviewButton}
+              </>
+            ) : (
+              <>
+                <CloudOff className="h-4 w-4" />
+                <span>{pendingCount} pending change{pendingCount > 1 ? 's' : ''}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 ml-2"
+                  onClick={syncPendingOperations}
+                  disabled={isSyncing}
+                >
+                  <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                  Sync
+                </Button>
+                {reviewButton}
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+      <SyncQueueSheet
+        open={sheetOpen}
+        onOpenChange={setSheetOpen}
+        operations={operations}
+        isSyncing={isSyncing}
+        onSync={syncPendingOperations}
+        captures={captures}
+        isProcessing={isProcessing}
+        onProcess={processNow}
+      />
+    </>
   );
 }
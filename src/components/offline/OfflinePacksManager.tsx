@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, HardDrive, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useCityPacks } from "@/hooks/useCityPacks";
+import { geocodeDestination } from "@/lib/places";
+import type { CityPack } from "@/lib/cityPacks";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeContents(pack: CityPack): string {
+  const places = pack.places.tourist.length + pack.places.essentials.length;
+  return [
+    `${places} places`,
+    pack.tileCount > 0 ? `${pack.tileCount} map tiles` : "map needs a connection",
+    pack.phrases.length > 0 && `${pack.phrases.length} phrases`,
+    pack.safety && "safety info",
+    pack.rates && `${pack.currency} rates`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function OfflinePacksManager() {
+  const { packs, isLoading, busyId, isDownloading, download, refresh, remove } = useCityPacks();
+  const [destination, setDestination] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+
+  const totalBytes = packs.reduce((sum, pack) => sum + pack.sizeBytes, 0);
+
+  const handleDownload = async () => {
+    const query = destination.trim();
+    if (!query) return;
+
+    setIsSearching(true);
+    try {
+      const place = await geocodeDestination(query);
+      if (!place) {
+        toast.error(`Couldn't find "${query}"`);
+        return;
+      }
+      if (await download(place)) setDestination("");
+    } catch (error) {
+      console.error("Destination lookup failed:", error);
+      toast.error("Couldn't look up that destination. Check your connection.");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-2">
+          <HardDrive className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Offline Cities</CardTitle>
+        </div>
+        <CardDescription>
+          Places, map, safety info, emergency numbers, exchange rates and phrases for use without a connection
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            placeholder="City to download, e.g. Lisbon"
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleDownload()}
+            disabled={isSearching || isDownloading}
+          />
+          <Button onClick={handleDownload} disabled={!destination.trim() || isSearching || isDownloading}>
+            {isSearching || isDownloading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+
+        {isLoading ? null : packs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No cities downloaded yet. You can also tap the download button on the map.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {packs.map((pack) => (
+              <div
+                key={pack.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg bg-background/60 border border-border/50"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{pack.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatSize(pack.sizeBytes)} · saved {format(new Date(pack.downloadedAt), "MMM d")}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{describeContents(pack)}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => refresh(pack)}
+                    disabled={isDownloading}
+                    title="Refresh"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${busyId === pack.id ? "animate-spin" : ""}`} />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => remove(pack)}
+                    disabled={busyId === pack.id}
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground text-right">Total {formatSize(totalBytes)}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Camera, CloudOff, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { StatusBadge } from "@/components/ui/status-badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { CapturedPhoto, PendingOperation } from "@/lib/offlineStorage";
+import { discardCapture, retryCapture } from "@/lib/captureQueue";
+import { discardOperation, resolveConflict, retryOperation, syncOutbox } from "@/lib/syncOutbox";
+
+interface SyncQueueSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  operations: PendingOperation[];
+  isSyncing: boolean;
+  onSync: () => void;
+  captures: CapturedPhoto[];
+  isProcessing: boolean;
+  onProcess: () => void;
+}
+
+const tableLabels: Record<string, string> = {
+  trips: "Trip",
+  spending_records: "Expense",
+  scan_entries: "Scan",
+  saved_places: "Saved place",
+  phrases: "Phrase",
+};
+
+const typeLabels: Record<PendingOperation["type"], string> = {
+  create: "New",
+  update: "Edit",
+  delete: "Delete",
+};
+
+// Fields that are noise when comparing two versions of a row
+const hiddenFields = new Set(["id", "user_id", "created_at", "updated_at", "image_url", "ai_analysis"]);
+
+function describe(op: PendingOperation): string {
+  if (op.label) return op.label;
+  const row = { ...op.serverRow, ...op.data };
+  if (op.table === "spending_records" && row.amount !== undefined) {
+    const label = row.notes || row.merchant || row.category;
+    return `${row.amount} ${row.currency ?? ""}${label ? ` · ${label}` : ""}`.trim();
+  }
+  return String(row.name || row.category || op.rowId.slice(0, 8));
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function statusLine(op: PendingOperation): string {
+  if (op.status === "failed") return `Gave up after ${op.attempts} attempts: ${op.lastError ?? "unknown error"}`;
+  if (op.nextAttemptAt > Date.now()) {
+    return `Retrying ${formatDistanceToNow(op.nextAttemptAt, { addSuffix: true })}${
+      op.lastError ? ` · ${op.lastError}` : ""
+    }`;
+  }
+  return `Waiting to sync · saved ${formatDistanceToNow(op.timestamp, { addSuffix: true })}`;
+}
+
+function ConflictItem({ op }: { op: PendingOperation }) {
+  const [busy, setBusy] = useState(false);
+  const changed = Object.keys(op.data).filter(
+    (key) => !hiddenFields.has(key) && op.serverRow && formatValue(op.serverRow[key]) !== formatValue(op.data[key])
+  );
+
+  const resolve = async (keep: "mine" | "theirs") => {
+    setBusy(true);
+    try {
+      await resolveConflict(op, keep);
+      if (keep === "mine") await syncOutbox();
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to resolve conflict");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-warning/30 bg-warning/10 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium text-sm truncate">{describe(op)}</p>
+        <StatusBadge variant="warning">
+          {typeLabels[op.type]} {tableLabels[op.table] ?? op.table}
+        </StatusBadge>
+      </div>
+      {!op.serverRow ? (
+        <p className="text-xs text-muted-foreground">This was deleted on another device.</p>
+      ) : op.type === "delete" ? (
+        <p className="text-xs text-muted-foreground">This was edited on another device after you deleted it.</p>
+      ) : changed.length > 0 ? (
+        <div className="grid grid-cols-[auto_1fr_1fr] gap-x-3 gap-y-1 text-xs">
+          <span />
+          <span className="font-medium">Yours</span>
+          <span className="font-medium">Theirs</span>
+          {changed.map((key) => (
+            <div key={key} className="contents">
+              <span className="text-muted-foreground">{key.replace(/_/g, " ")}</span>
+              <span className="break-words">{formatValue(op.data[key])}</span>
+              <span className="break-words">{formatValue(op.serverRow?.[key])}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">This was also edited on another device.</p>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={busy || !op.serverRow}
+          onClick={() => resolve("mine")}
+        >
+          Keep mine
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1" disabled={busy} onClick={() => resolve("theirs")}>
+          Keep theirs
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function PendingItem({ op }: { op: PendingOperation }) {
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-border/50 bg-card p-3">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <p className="font-medium text-sm truncate">{describe(op)}</p>
+          <StatusBadge variant={op.status === "failed" ? "danger" : "default"}>
+            {typeLabels[op.type]} {tableLabels[op.table] ?? op.table}
+          </StatusBadge>
+        </div>
+        <p className="text-xs text-muted-foreground truncate">{statusLine(op)}</p>
+      </div>
+      {op.status === "failed" && (
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => retryOperation(op)}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      )}
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => discardOperation(op)}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+function CaptureItem({ capture }: { capture: CapturedPhoto }) {
+  const status =
+    capture.status === "failed"
+      ? `Gave up after ${capture.attempts} attempts: ${capture.lastError ?? "unknown error"}`
+      : `Taken ${formatDistanceToNow(new Date(capture.capturedAt), { addSuffix: true })}${
+          capture.locationName ? ` · ${capture.locationName}` : ""
+        }`;
+
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-border/50 bg-card p-3">
+      <img src={capture.image} alt="" className="h-10 w-10 shrink-0 rounded-lg object-cover" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <p className="font-medium text-sm">{capture.kind === "receipt" ? "Receipt" : "Scan"}</p>
+          {capture.status === "failed" && <StatusBadge variant="danger">Failed</StatusBadge>}
+        </div>
+        <p className="text-xs text-muted-foreground truncate">{status}</p>
+      </div>
+      {capture.status === "failed" && (
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => retryCapture(capture)}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      )}
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => discardCapture(capture.id)}>
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+export function SyncQueueSheet({
+  open,
+  onOpenChange,
+  operations,
+  isSyncing,
+  onSync,
+  captures,
+  isProcessing,
+  onProcess,
+}: SyncQueueSheetProps) {
+  const conflicts = operations.filter((op) => op.status === "conflict");
+  const pending = operations.filter((op) => op.status !== "conflict");
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[80vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Offline changes</SheetTitle>
+          <SheetDescription>
+            Changes made without a connection are kept on this device until they reach the server.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-5">
+          {conflicts.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="flex items-center gap-2 text-sm font-semibold">
+                <AlertTriangle className="h-4 w-4 text-warning" />
+                Conflicts ({conflicts.length})
+              </h3>
+              {conflicts.map((op) => (
+                <ConflictItem key={op.id} op={op} />
+              ))}
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="flex items-center gap-2 text-sm font-semibold">
+                <CloudOff className="h-4 w-4" />
+                Not synced yet ({pending.length})
+              </h3>
+              <Button size="sm" variant="ghost" onClick={onSync} disabled={isSyncing || pending.length === 0}>
+                <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? "animate-spin" : ""}`} />
+                Sync now
+              </Button>
+            </div>
+            {pending.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Everything is up to date.</p>
+            ) : (
+              pending.map((op) => <PendingItem key={op.id} op={op} />)
+            )}
+          </section>
+
+          {captures.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-sm font-semibold">
+                  <Camera className="h-4 w-4" />
+                  Waiting for analysis ({captures.length})
+                </h3>
+                <Button size="sm" variant="ghost" onClick={onProcess} disabled={isProcessing || !navigator.onLine}>
+                  <RefreshCw className={`h-3 w-3 mr-1 ${isProcessing ? "animate-spin" : ""}`} />
+                  Analyze now
+                </Button>
+              </div>
+              {captures.map((capture) => (
+                <CaptureItem key={capture.id} capture={capture} />
+              ))}
+            </section>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ArrowRight, Loader2, Pause, Play, WifiOff, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useProfile } from "@/contexts/ProfileContext";
+import { useGeolocation } from "@/hooks/useGeolocation";
+import { useLiveTranslate } from "@/hooks/useLiveTranslate";
+import { countryLanguageMap, languages } from "@/lib/languages";
+import { coverBox } from "@/lib/liveOcr";
+
+interface LiveTranslateProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function LanguageSelect({ value, onChange }: { value: string; onChange: (code: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-9 flex-1 bg-background/80 backdrop-blur-sm border-border/50">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {languages.map((lang) => (
+          <SelectItem key={lang.code} value={lang.code}>
+            {lang.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// The camera preview with translations drawn over the text they replace,
+// for street signs and ticket machines. Text is found on the device; only
+// lines that newly come into view are sent off for translation, in one AI
+// call per pass.
+export function LiveTranslate({ isOpen, onClose }: LiveTranslateProps) {
+  const { profile } = useProfile();
+  const { countryCode } = useGeolocation();
+  const [sourceLang, setSourceLang] = useState("en");
+  const [targetLang, setTargetLang] = useState("en");
+  const [offline, setOffline] = useState(!navigator.onLine);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  const viewRef = useRef<HTMLDivElement>(null);
+  const { videoRef, regions, frameSize, status, error, aiError, paused, setPaused } = useLiveTranslate(
+    sourceLang,
+    targetLang,
+    isOpen
+  );
+
+  // Signs are probably in the local language, to be read in the user's own
+  useEffect(() => {
+    if (!isOpen) return;
+    if (countryCode && countryLanguageMap[countryCode]) setSourceLang(countryLanguageMap[countryCode]);
+    if (profile?.preferred_language) setTargetLang(profile.preferred_language);
+  }, [isOpen, countryCode, profile?.preferred_language]);
+
+  useEffect(() => {
+    const handleOnline = () => setOffline(false);
+    const handleOffline = () => setOffline(true);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // Boxes are placed in the preview's own pixels
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!isOpen || !view) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setViewSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    );
+    observer.observe(view);
+    return () => observer.disconnect();
+  }, [isOpen]);
+
+  const placed = frameSize.width > 0 && viewSize.width > 0;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          className="fixed inset-0 z-50 bg-black flex flex-col"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+        >
+          <div ref={viewRef} className="relative flex-1 overflow-hidden">
+            <video ref={videoRef} className="absolute inset-0 h-full w-full object-cover" playsInline muted />
+
+            {placed &&
+              regions.map((region) => {
+                const box = coverBox(region.box, frameSize, viewSize);
+                return region.translation ? (
+                  <div
+                    key={region.id}
+                    className="absolute flex items-center rounded-sm bg-background/90 px-1 text-foreground font-medium leading-none whitespace-nowrap shadow-sm"
+                    style={{
+                      left: box.left,
+                      top: box.top,
+                      minWidth: box.width,
+                      height: box.height,
+                      fontSize: Math.max(11, box.height * 0.75),
+                    }}
+                  >
+                    {region.translation}
+                  </div>
+                ) : (
+                  <div
+                    key={region.id}
+                    className="absolute rounded-sm border-2 border-dashed border-primary/80"
+                    style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+                  />
+                );
+              })}
+
+            {/* Header */}
+            <div className="absolute top-0 inset-x-0 p-4 flex items-center gap-2 bg-gradient-to-b from-black/60 to-transparent">
+              <LanguageSelect value={sourceLang} onChange={setSourceLang} />
+              <ArrowRight className="h-4 w-4 text-white shrink-0" />
+              <LanguageSelect value={targetLang} onChange={setTargetLang} />
+              <Button variant="ghost" size="icon" className="text-white hover:bg-white/10 shrink-0" onClick={onClose}>
+                <X className="h-5 w-5" />
+              </Button>
+            </div>
+
+            {status !== "scanning" && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-8 text-center text-white">
+                {status === "loading" ? (
+                  <>
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                    <p className="text-sm">Loading text recognition…</p>
+                  </>
+                ) : (
+                  <p className="text-sm">{error}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-4 flex items-center justify-between gap-3 bg-black text-white">
+            <p className="text-xs text-white/70 flex items-center gap-1">
+              {offline && <WifiOff className="h-3 w-3" />}
+              {offline
+                ? "Offline: showing translations you've seen before"
+                : aiError
+                  ? aiError
+                  : paused
+                    ? "Frozen"
+                    : "Point at a sign or ticket machine"}
+            </p>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setPaused(!paused)}
+              disabled={status !== "scanning"}
+            >
+              {paused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+              {paused ? "Resume" : "Freeze"}
+            </Button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
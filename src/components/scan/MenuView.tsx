@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  AlertTriangle,
+  BookmarkPlus,
+  CheckCircle2,
+  HelpCircle,
+  IdCard,
+  Loader2,
+  Minus,
+  Plus,
+  Receipt,
+  Sparkles,
+  Utensils,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { PhraseCard } from "@/components/translate/PhraseCard";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { usePhrasebook } from "@/hooks/usePhrasebook";
+import type { AnalyzeMenuResult } from "@/lib/aiSchemas";
+import { formatCurrency } from "@/lib/currency";
+import {
+  allergenLabel,
+  allergyCardText,
+  dishVerdict,
+  hasDietaryProfile,
+  sortConflicts,
+  type DietaryProfile,
+  type DishVerdict,
+  type MenuDish,
+} from "@/lib/dietary";
+import {
+  addToOrder,
+  menuSections,
+  orderLines,
+  orderTotal,
+  recommendedDishes,
+  type MenuOrder,
+  type OrderLine,
+} from "@/lib/menu";
+
+interface MenuViewProps {
+  menu: AnalyzeMenuResult | null;
+  profile: DietaryProfile;
+  isChecking: boolean;
+  /** Saves the estimate as a spending record; resolves true once saved or queued */
+  onAddToSpending?: (lines: OrderLine[], currency: string) => Promise<boolean>;
+}
+
+const verdictBadges: Record<DishVerdict, { variant: "danger" | "warning" | "success"; label: string; icon: React.ReactNode }> = {
+  avoid: { variant: "danger", label: "Avoid", icon: <AlertTriangle className="h-3 w-3" /> },
+  ask: { variant: "warning", label: "Ask staff", icon: <HelpCircle className="h-3 w-3" /> },
+  ok: { variant: "success", label: "Nothing flagged", icon: <CheckCircle2 className="h-3 w-3" /> },
+};
+
+// A scanned menu laid out by section: each dish in the original and in
+// translation, what it is, its price in the home currency too, and how it
+// fares against the user's allergies and diet. Tapping + builds a spending
+// estimate; the bookmark saves the dish to the phrasebook for ordering.
+// The check is the model's reading of the menu and can miss things, which
+// the view says next to the badges.
+export function MenuView({ menu, profile, isChecking, onAddToSpending }: MenuViewProps) {
+  const { save } = usePhrasebook();
+  const { localCurrency, homeCurrency } = useCurrency();
+  const { convert } = useExchangeRates();
+  const [order, setOrder] = useState<MenuOrder>({});
+  const [isSavingOrder, setIsSavingOrder] = useState(false);
+
+  const checked = hasDietaryProfile(profile);
+  const card = menu?.allergy_card;
+  const currency = menu?.currency || localCurrency;
+  const lines = menu ? orderLines(menu.dishes, order) : [];
+  const total = orderTotal(lines);
+  const recommended = menu ? recommendedDishes(menu, profile) : [];
+
+  const formatPrice = (amount: number) => {
+    const home = currency !== homeCurrency ? convert(amount, currency, homeCurrency) : null;
+    return home === null
+      ? formatCurrency(amount, currency)
+      : `${formatCurrency(amount, currency)} ≈ ${formatCurrency(home, homeCurrency)}`;
+  };
+
+  const saveCard = () =>
+    save({
+      text: allergyCardText(profile),
+      translation: card.text,
+      pronunciation: card.pronunciation,
+      language: menu.language,
+      category: "Allergies",
+      pinned: true,
+      tripId: null,
+    });
+
+  const saveDish = (dish: MenuDish) =>
+    save({
+      text: dish.translation,
+      translation: dish.name,
+      pronunciation: dish.pronunciation,
+      language: menu.language,
+      category: "Food",
+      pinned: false,
+      tripId: null,
+    });
+
+  const handleAddToSpending = async () => {
+    setIsSavingOrder(true);
+    try {
+      if (await onAddToSpending(lines, currency)) setOrder({});
+    } finally {
+      setIsSavingOrder(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-sm text-muted-foreground flex items-center gap-1">
+          <Utensils className="h-4 w-4" />
+          Menu
+        </h3>
+        {isChecking && <Loader2 className="h-4 w-4 text-primary animate-spin" />}
+      </div>
+
+      {checked && menu && (
+        <p className="text-xs text-muted-foreground flex items-start gap-1">
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          AI guesses ingredients from the menu and can miss hidden ones. Always confirm your allergies with staff.
+        </p>
+      )}
+
+      {!checked && (
+        <p className="text-xs text-muted-foreground">
+          Add your allergies and diet in{" "}
+          <Link to="/settings" className="text-primary underline-offset-2 hover:underline">
+            Settings
+          </Link>{" "}
+          to have menus checked for you.
+        </p>
+      )}
+
+      {card && (
+        <div className="flex gap-2">
+          <PhraseCard
+            text={allergyCardText(profile)}
+            translation={card.text}
+            pronunciation={card.pronunciation}
+            language={menu.language}
+            trigger={
+              <Button variant="outline" className="flex-1">
+                <IdCard className="h-4 w-4 mr-2" />
+                Show allergy card
+              </Button>
+            }
+          />
+          <Button variant="outline" size="icon" onClick={saveCard} title="Save to phrasebook">
+            <BookmarkPlus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {recommended.length > 0 && (
+        <div className="rounded-xl p-3 border border-primary/30 bg-primary/5 space-y-1">
+          <p className="text-xs font-medium text-primary flex items-center gap-1">
+            <Sparkles className="h-3 w-3" />
+            What to order
+          </p>
+          <p className="font-medium">{recommended.map((dish) => dish.translation).join(" · ")}</p>
+          <p className="text-xs text-muted-foreground">{menu.recommendation.reason}</p>
+        </div>
+      )}
+
+      {menu &&
+        menuSections(menu.dishes).map((section) => (
+          <div key={section.title} className="space-y-2">
+            {section.title && (
+              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{section.title}</p>
+            )}
+            {section.dishes.map(({ dish, index }) => {
+              const verdict = verdictBadges[dishVerdict(dish, profile)];
+              return (
+                <div key={index} className="bg-card rounded-xl p-3 border border-border/50 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium">{dish.translation}</p>
+                      <p className="text-xs text-muted-foreground">
+                        <span lang={menu.language}>{dish.name}</span>
+                        {dish.pronunciation && <span className="italic"> · {dish.pronunciation}</span>}
+                      </p>
+                    </div>
+                    {checked && (
+                      <StatusBadge variant={verdict.variant} icon={verdict.icon} className="shrink-0">
+                        {verdict.label}
+                      </StatusBadge>
+                    )}
+                  </div>
+                  {dish.description && <p className="text-sm text-muted-foreground">{dish.description}</p>}
+                  {sortConflicts(dish.conflicts).map((conflict, j) => (
+                    <p key={j} className="text-xs text-muted-foreground">
+                      <span className={conflict.kind === "dislike" ? "font-medium" : "font-medium text-foreground"}>
+                        {allergenLabel(conflict.item)}
+                      </span>{" "}
+                      ({conflict.confidence}){conflict.reason && `: ${conflict.reason}`}
+                    </p>
+                  ))}
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold">{dish.price !== null && formatPrice(dish.price)}</span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() => saveDish(dish)}
+                        disabled={!menu.language}
+                        title="Save to phrasebook"
+                      >
+                        <BookmarkPlus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={order[index] ? "default" : "outline"}
+                        className="h-8 gap-1"
+                        onClick={() => setOrder((o) => addToOrder(o, index, 1))}
+                        title="Add to estimate"
+                      >
+                        <Plus className="h-4 w-4" />
+                        {order[index] ?? ""}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+      {lines.length > 0 && (
+        <div className="rounded-xl p-3 border border-border/50 bg-muted/40 space-y-2">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <Receipt className="h-3 w-3" />
+            Estimate
+          </p>
+          {lines.map(({ dish, index, quantity }) => (
+            <div key={index} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">
+                {quantity > 1 && `${quantity}× `}
+                {dish.translation}
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0"
+                onClick={() => setOrder((o) => addToOrder(o, index, -1))}
+                title="Remove one"
+              >
+                <Minus className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-2 pt-1 border-t border-border/50">
+            <div>
+              <p className="font-semibold">{formatPrice(total.amount)}</p>
+              {total.unpriced > 0 && (
+                <p className="text-xs text-muted-foreground">Plus {total.unpriced} without a price</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setOrder({})}>
+                Clear
+              </Button>
+              {onAddToSpending && (
+                <Button size="sm" onClick={handleAddToSpending} disabled={isSavingOrder || total.amount === 0}>
+                  {isSavingOrder ? <Loader2 className="h-4 w-4 animate-spin" /> : "Add to spending"}
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ interface ScanResultProps {
     tips?: string[];
   };
   onTranslate?: (text: string) => void;
+  /** A structured menu (see MenuView), shown in place of the flat price list */
+  menu?: React.ReactNode;
 }
 
 const categoryIcons: Record<string, React.ReactNode> = {
@@ -43,7 +45,7 @@ const categoryIcons: Record<string, React.ReactNode> = {
   default: <Sparkles className="h-6 w-6" />,
 };
 
-export function ScanResult({ result, onTranslate }: ScanResultProps) {
+export function ScanResult({ result, onTranslate, menu }: ScanResultProps) {
   const icon = categoryIcons[result.category] || categoryIcons.default;
   const details = (result.details || {}) as Record<string, string | number | boolean>;
   const warnings = result.warnings || [];
@@ -114,8 +116,11 @@ export function ScanResult({ result, onTranslate }: ScanResultProps) {
         </div>
       )}
 
+      {/* Menu */}
+      {menu}
+
       {/* Prices */}
-      {prices.length > 0 && (
+      {!menu && prices.length > 0 && (
         <div className="space-y-2">
           <h3 className="font-semibold text-sm text-muted-foreground">Prices</h3>
           <div className="grid grid-cols-1 gap-2">
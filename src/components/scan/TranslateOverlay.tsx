@@ -20,9 +20,11 @@ import {
 } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
 import { toast } from "sonner";
 import { languages, getLanguageName } from "@/lib/languages";
 import { cacheTranslation, getCachedTranslation, isOnline } from "@/lib/offlineStorage";
+import { canSpeak, speak } from "@/lib/speech";
 
 interface TranslateOverlayProps {
   extractedText: string;
@@ -81,13 +83,7 @@ export function TranslateOverlay({ extractedText, isOpen, onClose }: TranslateOv
       });
 
       if (error) {
-        if (error.message?.includes("429")) {
-          toast.error("Rate limit exceeded. Please try again later.");
-        } else if (error.message?.includes("402")) {
-          toast.error("AI usage limit reached.");
-        } else {
-          toast.error("Translation failed. Please try again.");
-        }
+        toast.error(describeAIError(error, "Translation failed. Please try again."));
         return;
       }
 
@@ -108,43 +104,11 @@ export function TranslateOverlay({ extractedText, isOpen, onClose }: TranslateOv
 
   const handleSpeak = async () => {
     if (!translatedText) return;
-    if (typeof window === "undefined" || !("speechSynthesis" in window)) {
+    if (!canSpeak()) {
       toast.error("Speech synthesis isn't supported in this browser");
       return;
     }
-
-    const synth = window.speechSynthesis;
-    const langMap: Record<string, string> = {
-      ja: "ja-JP", ko: "ko-KR", zh: "zh-CN", es: "es-ES", fr: "fr-FR",
-      de: "de-DE", it: "it-IT", pt: "pt-PT", ru: "ru-RU", ar: "ar-SA",
-      hi: "hi-IN", th: "th-TH", vi: "vi-VN", en: "en-US",
-    };
-    const utterance = new SpeechSynthesisUtterance(translatedText);
-    const lang = langMap[targetLang] || `${targetLang}-${targetLang.toUpperCase()}`;
-    utterance.lang = lang;
-
-    if (synth.getVoices().length === 0) {
-      await new Promise<void>((resolve) => {
-        const handleVoicesChanged = () => {
-          synth.removeEventListener("voiceschanged", handleVoicesChanged);
-          resolve();
-        };
-        synth.addEventListener("voiceschanged", handleVoicesChanged);
-      });
-    }
-
-    const voices = synth.getVoices();
-    const matchedVoice =
-      voices.find((voice) => voice.lang === lang) ||
-      voices.find((voice) => voice.lang.startsWith(targetLang)) ||
-      voices.find((voice) => voice.lang.startsWith(lang.split("-")[0]));
-
-    if (matchedVoice) {
-      utterance.voice = matchedVoice;
-    }
-
-    synth.cancel();
-    setTimeout(() => synth.speak(utterance), 0);
+    await speak(translatedText, targetLang);
   };
 
   const handleCopy = () => {
@@ -25,6 +25,8 @@ import {
   ChartTooltipContent,
 } from "@/components/ui/chart";
 import { PieChart as RechartsPie, Pie, Cell, ResponsiveContainer, Legend } from "recharts";
+import { convertAmount, convertTotals, type ConvertFn } from "@/lib/budget";
+import { settleUp, type SplitShare, type SplitType } from "@/lib/settlement";
 
 interface SpendingRecord {
   id: string;
@@ -37,6 +39,15 @@ interface SpendingRecord {
   notes: string | null;
   trip_id: string | null;
   trip_name: string | null;
+  paid_by_member_id: string | null;
+  split_type: SplitType | null;
+  split_shares: SplitShare[] | null;
+}
+
+interface TripMember {
+  id: string;
+  trip_id: string;
+  display_name: string;
 }
 
 interface Trip {
@@ -45,6 +56,7 @@ interface Trip {
   destination: string | null;
   start_date: string | null;
   end_date: string | null;
+  budget_currency?: string | null;
 }
 
 interface ExpenseReportDialogProps {
@@ -52,6 +64,9 @@ interface ExpenseReportDialogProps {
   trips?: Trip[];
   trigger?: React.ReactNode;
   getSymbol: (currency: string) => string;
+  convert: ConvertFn;
+  defaultCurrency: string;
+  members?: TripMember[];
 }
 
 const COLORS = [
@@ -68,6 +83,9 @@ export function ExpenseReportDialog({
   trips = [],
   trigger,
   getSymbol,
+  convert,
+  defaultCurrency,
+  members = [],
 }: ExpenseReportDialogProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -82,14 +100,13 @@ export function ExpenseReportDialog({
 
   const hasUnassigned = spending.some((s) => !s.trip_id);
 
-  const categoryTotals = filteredSpending.reduce((acc, s) => {
-    acc[s.category] = (acc[s.category] || 0) + Number(s.amount);
-    return acc;
-  }, {} as Record<string, number>);
-
-  const total = Object.values(categoryTotals).reduce((sum, val) => sum + val, 0);
-  const primaryCurrency = filteredSpending[0]?.currency || "USD";
+  // Report in the trip's budget currency when it has one, converting every
+  // record so mixed-currency trips add up correctly.
+  const primaryCurrency = trips.find((t) => t.id === selectedTrip)?.budget_currency || defaultCurrency;
   const symbol = getSymbol(primaryCurrency);
+  const totals = convertTotals(filteredSpending, primaryCurrency, convert);
+  const categoryTotals = totals.byCategory;
+  const total = totals.total;
 
   const chartData = Object.entries(categoryTotals).map(([category, amount], index) => ({
     name: category,
@@ -105,10 +122,14 @@ export function ExpenseReportDialog({
     ])
   );
 
-  const dailyTotals = filteredSpending.reduce((acc, s) => {
-    acc[s.date] = (acc[s.date] || 0) + Number(s.amount);
-    return acc;
-  }, {} as Record<string, number>);
+  const dailyTotals = totals.byDate;
+
+  // Who owes whom, for a single trip that has travel companions.
+  const tripMembers = members.filter((m) => m.trip_id === selectedTrip);
+  const settlement = tripMembers.length > 1
+    ? settleUp(filteredSpending, tripMembers.map((m) => m.id), primaryCurrency, convert)
+    : null;
+  const memberName = (id: string) => tripMembers.find((m) => m.id === id)?.display_name || "Former member";
 
   const generatePDF = async () => {
     setIsGenerating(true);
@@ -174,6 +195,43 @@ export function ExpenseReportDialog({
         styles: { fontSize: 10 },
       });
 
+      // Balances + settle-up for shared trips
+      if (settlement) {
+        const lastTableY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+        const balancesY = lastTableY() || 200;
+        doc.setFontSize(14);
+        doc.text("Shared Expenses", 14, balancesY + 15);
+
+        autoTable(doc, {
+          startY: balancesY + 20,
+          head: [["Member", "Paid", "Share", "Balance"]],
+          body: settlement.balances.map((b) => [
+            memberName(b.memberId),
+            `${symbol}${b.paid.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+            `${symbol}${b.owed.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+            `${b.net < 0 ? "-" : ""}${symbol}${Math.abs(b.net).toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+          ]),
+          theme: "striped",
+          headStyles: { fillColor: [59, 130, 246] },
+          styles: { fontSize: 10 },
+        });
+
+        if (settlement.transfers.length > 0) {
+          autoTable(doc, {
+            startY: lastTableY() + 6,
+            head: [["From", "To", "Amount"]],
+            body: settlement.transfers.map((t) => [
+              memberName(t.from),
+              memberName(t.to),
+              `${symbol}${t.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+            ]),
+            theme: "striped",
+            headStyles: { fillColor: [34, 197, 94] },
+            styles: { fontSize: 10 },
+          });
+        }
+      }
+
       // Transaction Details (new page if needed)
       doc.addPage();
       doc.setFontSize(14);
@@ -181,16 +239,22 @@ export function ExpenseReportDialog({
 
       const transactionData = filteredSpending
         .sort((a, b) => b.date.localeCompare(a.date))
-        .map(s => [
-          format(new Date(s.date), "MMM d"),
-          s.category,
-          s.merchant || s.notes || "-",
-          `${getSymbol(s.currency)}${Number(s.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`
-        ]);
+        .map(s => {
+          const converted = convertAmount(Number(s.amount), s.currency, primaryCurrency, convert);
+          return [
+            format(new Date(s.date), "MMM d"),
+            s.category,
+            s.merchant || s.notes || "-",
+            `${getSymbol(s.currency)}${Number(s.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+            converted === null
+              ? "-"
+              : `${symbol}${converted.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+          ];
+        });
 
       autoTable(doc, {
         startY: 25,
-        head: [["Date", "Category", "Description", "Amount"]],
+        head: [["Date", "Category", "Description", "Amount", primaryCurrency]],
         body: transactionData,
         theme: "striped",
         headStyles: { fillColor: [59, 130, 246] },
@@ -316,6 +380,20 @@ export function ExpenseReportDialog({
             </div>
           )}
 
+          {settlement && settlement.transfers.length > 0 && (
+            <div className="bg-muted/30 rounded-lg p-4 space-y-1.5">
+              <p className="text-sm font-medium">Settle up</p>
+              {settlement.transfers.map((t, i) => (
+                <p key={i} className="text-xs text-muted-foreground">
+                  {memberName(t.from)} pays {memberName(t.to)}{" "}
+                  <span className="font-semibold text-foreground">
+                    {symbol}{t.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </span>
+                </p>
+              ))}
+            </div>
+          )}
+
           <Button
             onClick={generatePDF}
             disabled={isGenerating || chartData.length === 0}
@@ -0,0 +1,87 @@
+import { motion } from "framer-motion";
+import { ArrowRight, CheckCircle2, Scale } from "lucide-react";
+import type { SettlementResult } from "@/lib/settlement";
+import { cn } from "@/lib/utils";
+
+interface TripMember {
+  id: string;
+  display_name: string;
+}
+
+interface SettleUpCardProps {
+  members: TripMember[];
+  settlement: SettlementResult;
+  getSymbol: (currency: string) => string;
+  action?: React.ReactNode;
+}
+
+export function SettleUpCard({ members, settlement, getSymbol, action }: SettleUpCardProps) {
+  const symbol = getSymbol(settlement.currency);
+  const nameOf = (id: string) => members.find((m) => m.id === id)?.display_name || "Former member";
+  const money = (value: number) =>
+    `${symbol}${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <motion.div
+      className="bg-card rounded-2xl p-4 border border-border/50 space-y-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          <Scale className="h-4 w-4 text-primary" />
+          Settle Up
+        </h3>
+        {action}
+      </div>
+
+      <div className="space-y-1.5">
+        {settlement.balances.map((balance) => (
+          <div key={balance.memberId} className="flex items-center justify-between text-sm">
+            <span>{nameOf(balance.memberId)}</span>
+            <span
+              className={cn(
+                "text-xs font-medium",
+                balance.net > 0.004 ? "text-success" : balance.net < -0.004 ? "text-destructive" : "text-muted-foreground"
+              )}
+            >
+              {balance.net > 0.004
+                ? `gets back ${money(balance.net)}`
+                : balance.net < -0.004
+                  ? `owes ${money(balance.net)}`
+                  : "settled"}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {settlement.transfers.length > 0 ? (
+        <div className="space-y-2 border-t border-border/50 pt-3">
+          <p className="text-xs text-muted-foreground">
+            {settlement.transfers.length} {settlement.transfers.length === 1 ? "payment" : "payments"} to clear everything
+          </p>
+          {settlement.transfers.map((transfer, i) => (
+            <div key={i} className="flex items-center gap-2 rounded-lg bg-muted/40 px-3 py-2 text-sm">
+              <span className="font-medium">{nameOf(transfer.from)}</span>
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <span className="font-medium">{nameOf(transfer.to)}</span>
+              <span className="ml-auto font-semibold">{money(transfer.amount)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 text-xs text-success">
+          <CheckCircle2 className="h-4 w-4" />
+          Everyone is square
+        </p>
+      )}
+
+      {settlement.unconverted > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {settlement.unconverted} shared {settlement.unconverted === 1 ? "expense" : "expenses"} not included yet
+          (no exchange rate for {settlement.currency})
+        </p>
+      )}
+    </motion.div>
+  );
+}
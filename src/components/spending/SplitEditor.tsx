@@ -0,0 +1,122 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SplitDraft, SplitType } from "@/lib/settlement";
+
+interface TripMember {
+  id: string;
+  display_name: string;
+}
+
+interface SplitEditorProps {
+  members: TripMember[];
+  value: SplitDraft;
+  onChange: (value: SplitDraft) => void;
+  amount: number;
+  symbol: string;
+}
+
+const splitLabels: Record<SplitType, string> = {
+  equal: "Split equally",
+  percentage: "Split by %",
+  exact: "Exact amounts",
+};
+
+export function SplitEditor({ members, value, onChange, amount, symbol }: SplitEditorProps) {
+  const update = (patch: Partial<SplitDraft>) => onChange({ ...value, ...patch });
+
+  const toggleMember = (memberId: string, checked: boolean) => {
+    update({
+      included: checked
+        ? [...value.included, memberId]
+        : value.included.filter((id) => id !== memberId),
+    });
+  };
+
+  const equalShare = value.included.length > 0 ? amount / value.included.length : 0;
+  const enteredTotal = value.included.reduce((sum, id) => sum + (parseFloat(value.shares[id] || "0") || 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={value.paidBy ?? "none"} onValueChange={(v) => update({ paidBy: v === "none" ? null : v })}>
+          <SelectTrigger className="bg-background">
+            <SelectValue placeholder="Paid by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Paid by…</SelectItem>
+            {members.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.display_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.splitType ?? "none"}
+          onValueChange={(v) => update({ splitType: v === "none" ? null : (v as SplitType) })}
+          disabled={!value.paidBy}
+        >
+          <SelectTrigger className="bg-background">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not shared</SelectItem>
+            {(Object.keys(splitLabels) as SplitType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {splitLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.paidBy && value.splitType && (
+        <div className="space-y-2 rounded-lg bg-muted/40 p-3">
+          {members.map((member) => {
+            const included = value.included.includes(member.id);
+            return (
+              <div key={member.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`split-${member.id}`}
+                  checked={included}
+                  onCheckedChange={(checked) => toggleMember(member.id, checked === true)}
+                />
+                <label htmlFor={`split-${member.id}`} className="text-sm flex-1">
+                  {member.display_name}
+                </label>
+                {included && value.splitType === "equal" && (
+                  <span className="text-xs text-muted-foreground">
+                    {symbol}{equalShare.toFixed(2)}
+                  </span>
+                )}
+                {included && value.splitType !== "equal" && (
+                  <Input
+                    type="number"
+                    placeholder={value.splitType === "percentage" ? "%" : symbol}
+                    value={value.shares[member.id] ?? ""}
+                    onChange={(e) => update({ shares: { ...value.shares, [member.id]: e.target.value } })}
+                    className="h-8 w-24 bg-background"
+                  />
+                )}
+              </div>
+            );
+          })}
+          {value.splitType !== "equal" && (
+            <p className="text-xs text-muted-foreground text-right">
+              {value.splitType === "percentage"
+                ? `${enteredTotal}% of 100%`
+                : `${symbol}${enteredTotal.toFixed(2)} of ${symbol}${amount.toFixed(2)}`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
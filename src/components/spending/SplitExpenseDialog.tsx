@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Loader2, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { SplitEditor } from "@/components/spending/SplitEditor";
+import { describeSave, saveChange } from "@/lib/syncOutbox";
+import {
+  splitDraftFrom,
+  splitFieldsFromDraft,
+  type SharedExpense,
+  type SplitDraft,
+} from "@/lib/settlement";
+import { toast } from "sonner";
+
+interface TripMember {
+  id: string;
+  display_name: string;
+}
+
+interface SplitExpenseDialogProps {
+  expense: SharedExpense & { id: string; title: string; updated_at?: string };
+  members: TripMember[];
+  symbol: string;
+  trigger: React.ReactNode;
+  onSaved: () => void;
+}
+
+export function SplitExpenseDialog({ expense, members, symbol, trigger, onSaved }: SplitExpenseDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<SplitDraft>(() =>
+    splitDraftFrom(expense, members.map((m) => m.id))
+  );
+
+  useEffect(() => {
+    if (isOpen) setDraft(splitDraftFrom(expense, members.map((m) => m.id)));
+  }, [isOpen, expense, members]);
+
+  const saveSplit = async () => {
+    const { fields, error: splitError } = splitFieldsFromDraft(draft, Number(expense.amount));
+    if (splitError) {
+      toast.error(splitError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await saveChange({
+        type: "update",
+        table: "spending_records",
+        data: {
+          id: expense.id,
+          paid_by_member_id: fields.paid_by_member_id,
+          split_type: fields.split_type,
+          split_shares: fields.split_shares,
+        },
+        baseUpdatedAt: expense.updated_at,
+      });
+
+      if (result === "conflict") toast.warning(describeSave(result, "Split saved"));
+      else toast.success(describeSave(result, "Split saved"));
+      setIsOpen(false);
+      onSaved();
+    } catch (err) {
+      console.error("Save split error:", err);
+      toast.error("Failed to save split");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Split {expense.title}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <p className="text-sm text-muted-foreground">
+            {symbol}{Number(expense.amount).toLocaleString(undefined, { minimumFractionDigits: 2 })}
+          </p>
+          <SplitEditor
+            members={members}
+            value={draft}
+            onChange={setDraft}
+            amount={Number(expense.amount)}
+            symbol={symbol}
+          />
+          <Button onClick={saveSplit} disabled={isSaving} className="w-full">
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Split"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
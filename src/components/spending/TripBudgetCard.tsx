@@ -0,0 +1,118 @@
+import { motion } from "framer-motion";
+import { format, parseISO } from "date-fns";
+import { TrendingDown, TrendingUp, Wallet } from "lucide-react";
+import { Line, LineChart, XAxis, YAxis, CartesianGrid } from "recharts";
+import { Progress } from "@/components/ui/progress";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { BudgetSummary } from "@/lib/budget";
+import { cn } from "@/lib/utils";
+
+interface TripBudgetCardProps {
+  summary: BudgetSummary;
+  getSymbol: (currency: string) => string;
+  action?: React.ReactNode;
+}
+
+const chartConfig: ChartConfig = {
+  remaining: { label: "Remaining", color: "hsl(var(--primary))" },
+  projected: { label: "Projected", color: "hsl(38, 92%, 50%)" },
+  ideal: { label: "On pace", color: "hsl(var(--muted-foreground))" },
+};
+
+export function TripBudgetCard({ summary, getSymbol, action }: TripBudgetCardProps) {
+  const symbol = getSymbol(summary.currency);
+  const money = (value: number) =>
+    `${value < 0 ? "-" : ""}${symbol}${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+  const usedPct = summary.budget > 0 ? Math.min(100, (summary.spent / summary.budget) * 100) : 0;
+  const isOver = summary.remaining < 0;
+  const isOverToday = summary.todayAllowance !== null && summary.spentToday > summary.todayAllowance;
+
+  return (
+    <motion.div
+      className="bg-card rounded-2xl p-4 border border-border/50 space-y-4"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          <Wallet className="h-4 w-4 text-primary" />
+          Trip Budget
+        </h3>
+        {action}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-baseline justify-between">
+          <p className="text-2xl font-bold">{money(summary.spent)}</p>
+          <p className="text-sm text-muted-foreground">of {money(summary.budget)}</p>
+        </div>
+        <Progress value={usedPct} className={cn("h-2", isOver && "[&>div]:bg-destructive")} />
+        <div className="flex items-center justify-between text-xs">
+          <span className={cn("flex items-center gap-1", isOver ? "text-destructive" : "text-success")}>
+            {isOver ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+            {isOver ? `${money(-summary.remaining)} over budget` : `${money(summary.remaining)} left`}
+          </span>
+          {summary.remainingPerDay !== null ? (
+            <span className={cn(isOverToday ? "text-warning" : "text-muted-foreground")}>
+              {money(Math.max(0, summary.remainingPerDay))}/day for {summary.daysLeft}{" "}
+              {summary.daysLeft === 1 ? "day" : "days"}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">Trip ended</span>
+          )}
+        </div>
+        {summary.unconverted > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {summary.unconverted} {summary.unconverted === 1 ? "expense" : "expenses"} not included yet
+            (no exchange rate for {summary.unconvertedCurrencies.join(", ")})
+          </p>
+        )}
+      </div>
+
+      {summary.categories.length > 0 && (
+        <div className="space-y-2">
+          {summary.categories.map((item) => (
+            <div key={item.category} className="space-y-1">
+              <div className="flex justify-between text-xs">
+                <span>{item.category}</span>
+                <span className={cn(item.remaining < 0 ? "text-destructive" : "text-muted-foreground")}>
+                  {money(item.spent)} / {money(item.budget)}
+                </span>
+              </div>
+              <Progress
+                value={Math.min(100, (item.spent / item.budget) * 100)}
+                className={cn("h-1.5", item.remaining < 0 && "[&>div]:bg-destructive")}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {summary.burnDown.length > 1 && (
+        <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+          <LineChart data={summary.burnDown} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+            <CartesianGrid vertical={false} strokeDasharray="3 3" />
+            <XAxis
+              dataKey="date"
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+              minTickGap={24}
+            />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line dataKey="ideal" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+            <Line dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} connectNulls={false} />
+            <Line dataKey="projected" stroke="var(--color-projected)" strokeDasharray="2 3" dot={false} />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Loader2, Wallet } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { availableCurrencies, currencySymbols } from "@/lib/currency";
+import { toast } from "sonner";
+
+interface Trip {
+  id: string;
+  name: string;
+  budget_amount: number | null;
+  budget_currency: string | null;
+  category_budgets: Record<string, number> | null;
+}
+
+interface TripBudgetDialogProps {
+  trip: Trip;
+  categories: string[];
+  defaultCurrency: string;
+  trigger: React.ReactNode;
+  onSaved: () => void;
+}
+
+export function TripBudgetDialog({
+  trip,
+  categories,
+  defaultCurrency,
+  trigger,
+  onSaved,
+}: TripBudgetDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [categoryAmounts, setCategoryAmounts] = useState<Record<string, string>>({});
+
+  // Load the trip's current budget every time the dialog opens.
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmount(trip.budget_amount != null ? String(trip.budget_amount) : "");
+    setCurrency(trip.budget_currency || defaultCurrency);
+    setCategoryAmounts(
+      Object.fromEntries(
+        Object.entries(trip.category_budgets || {}).map(([category, value]) => [category, String(value)])
+      )
+    );
+  }, [isOpen, trip, defaultCurrency]);
+
+  const categorySum = Object.values(categoryAmounts).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+
+  const saveBudget = async () => {
+    const total = amount ? parseFloat(amount) : null;
+    if (total !== null && (isNaN(total) || total < 0)) {
+      toast.error("Please enter a valid budget");
+      return;
+    }
+
+    const categoryBudgets: Record<string, number> = {};
+    for (const [category, value] of Object.entries(categoryAmounts)) {
+      const parsed = parseFloat(value);
+      if (!isNaN(parsed) && parsed > 0) categoryBudgets[category] = parsed;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("trips")
+        .update({
+          // Category limits without a total still give a usable overall budget.
+          budget_amount: total ?? (categorySum > 0 ? categorySum : null),
+          budget_currency: currency,
+          category_budgets: categoryBudgets,
+        })
+        .eq("id", trip.id);
+      if (error) throw error;
+
+      toast.success("Budget saved");
+      setIsOpen(false);
+      onSaved();
+    } catch (err) {
+      console.error("Save budget error:", err);
+      toast.error("Failed to save budget");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const symbol = currencySymbols[currency] || currency;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Budget for {trip.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              placeholder={`Total budget (${symbol})`}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="flex-1 bg-background"
+            />
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-28 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableCurrencies.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Expenses in other currencies are converted to {currency} at current rates.
+          </p>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Per category (optional)</p>
+            {categories.map((category) => (
+              <div key={category} className="flex items-center gap-2">
+                <span className="text-sm w-28 shrink-0">{category}</span>
+                <Input
+                  type="number"
+                  placeholder={symbol}
+                  value={categoryAmounts[category] ?? ""}
+                  onChange={(e) =>
+                    setCategoryAmounts((prev) => ({ ...prev, [category]: e.target.value }))
+                  }
+                  className="h-9 bg-background"
+                />
+              </div>
+            ))}
+            {categorySum > 0 && amount && categorySum > parseFloat(amount) && (
+              <p className="text-xs text-warning">
+                Category limits add up to {symbol}{categorySum.toLocaleString()}, more than the total.
+              </p>
+            )}
+          </div>
+
+          <Button onClick={saveBudget} disabled={isSaving} className="w-full">
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save Budget"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Loader2, Trash2, UserPlus, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/contexts/ProfileContext";
+import { toast } from "sonner";
+
+interface TripMember {
+  id: string;
+  trip_id: string;
+  user_id: string | null;
+  display_name: string;
+  email: string | null;
+}
+
+interface TripMembersDialogProps {
+  tripId: string;
+  tripName: string;
+  members: TripMember[];
+  trigger: React.ReactNode;
+  onChanged: () => void;
+}
+
+export function TripMembersDialog({ tripId, tripName, members, trigger, onChanged }: TripMembersDialogProps) {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+
+  const addMember = async () => {
+    if (!user || !name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const rows = [{ trip_id: tripId, display_name: name.trim(), email: email.trim() || null }];
+      // The trip owner has to be a member too, or they could never be the payer.
+      const hasSelf = members.some((m) => m.user_id === user.id);
+      const selfRow = hasSelf
+        ? []
+        : [{ trip_id: tripId, user_id: user.id, display_name: profile?.display_name || "You", email: user.email ?? null, role: "owner" }];
+
+      const { error } = await supabase.from("trip_members").insert([...selfRow, ...rows]);
+      if (error) throw error;
+
+      setName("");
+      setEmail("");
+      onChanged();
+    } catch (err) {
+      console.error("Add member error:", err);
+      toast.error("Failed to add member");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeMember = async (member: TripMember) => {
+    try {
+      const { error } = await supabase.from("trip_members").delete().eq("id", member.id);
+      if (error) throw error;
+      onChanged();
+    } catch (err) {
+      console.error("Remove member error:", err);
+      toast.error("Failed to remove member");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Travelling with
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <p className="text-sm text-muted-foreground">
+            Add everyone sharing costs on {tripName}. They don't need an account.
+          </p>
+
+          {members.length > 0 && (
+            <div className="space-y-2">
+              {members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex items-center justify-between rounded-lg bg-muted/40 px-3 py-2"
+                >
+                  <div>
+                    <p className="text-sm font-medium">
+                      {member.display_name}
+                      {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                    </p>
+                    {member.email && <p className="text-xs text-muted-foreground">{member.email}</p>}
+                  </div>
+                  {member.user_id !== user?.id && (
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => removeMember(member)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Input
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-background"
+            />
+            <Input
+              type="email"
+              placeholder="Email (optional)"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-background"
+            />
+            <Button onClick={addMember} disabled={isSaving} className="w-full gap-2">
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <>
+                  <UserPlus className="h-4 w-4" />
+                  Add Companion
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
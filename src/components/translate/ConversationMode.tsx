@@ -0,0 +1,396 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { BookmarkPlus, FlipVertical2, Loader2, Trash2, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VoiceInputButton } from "@/components/voice/VoiceInputButton";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGeolocation } from "@/hooks/useGeolocation";
+import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
+import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
+import { conversationEntry, turnDirection, type ConversationSide, type ConversationTurn } from "@/lib/conversation";
+import { getLanguageName, getLanguageNative, languages } from "@/lib/languages";
+import { getCachedTranslation, isOnline } from "@/lib/offlineStorage";
+import { voiceErrorMessage } from "@/lib/permissions";
+import { canSpeak, speak, speechLocale, stopSpeaking } from "@/lib/speech";
+import { describeSave, saveChange } from "@/lib/syncOutbox";
+import { canEditTrip, fetchTripRoles } from "@/lib/tripMembers";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface Trip {
+  id: string;
+  name: string;
+}
+
+interface ConversationModeProps {
+  /** The local person's language */
+  theirLang: string;
+  onTheirLangChange: (code: string) => void;
+}
+
+const NO_TRIP = "none";
+
+interface ConversationPanelProps {
+  side: ConversationSide;
+  lang: string;
+  turns: ConversationTurn[];
+  listening: boolean;
+  heard: string;
+  voiceSupported: boolean;
+  onStart: () => void;
+  onStop: () => void;
+  onReplay: (turn: ConversationTurn) => void;
+  className?: string;
+}
+
+// One half of the split screen: every turn in this side's language, with the
+// mic for whoever sits on this side.
+function ConversationPanel({
+  side,
+  lang,
+  turns,
+  listening,
+  heard,
+  voiceSupported,
+  onStart,
+  onStop,
+  onReplay,
+  className,
+}: ConversationPanelProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [turns.length, heard]);
+
+  return (
+    <div className={cn("flex flex-col rounded-2xl border border-border/50 bg-card p-3 min-h-0", className)}>
+      <p className="text-xs font-medium text-muted-foreground">
+        {getLanguageNative(lang)} · {side === "you" ? "You" : "Them"}
+      </p>
+      <div className="flex-1 overflow-y-auto space-y-2 py-2 min-h-0">
+        {turns.map((turn) => {
+          const own = turn.speaker === side;
+          return (
+            <div key={turn.id} className={cn("flex", own ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[85%] rounded-xl px-3 py-2",
+                  own ? "bg-muted/50 text-muted-foreground text-sm" : "bg-primary/10 border border-primary/30"
+                )}
+              >
+                {own ? (
+                  <p>{turn.text}</p>
+                ) : (
+                  <button className="text-left" onClick={() => onReplay(turn)}>
+                    <p className="text-lg font-medium leading-snug">{turn.translation}</p>
+                    {turn.pronunciation && side === "you" && (
+                      <p className="text-xs text-muted-foreground italic">{turn.pronunciation}</p>
+                    )}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {listening && (
+          <p className="text-sm text-right text-muted-foreground italic">{heard || "Listening..."}</p>
+        )}
+        <div ref={endRef} />
+      </div>
+      <div className="flex items-center justify-center gap-3 pt-2 border-t border-border/50">
+        <VoiceInputButton
+          isListening={listening}
+          isSupported={voiceSupported}
+          onStart={onStart}
+          onStop={onStop}
+          size="lg"
+        />
+        <span className="text-xs text-muted-foreground">
+          {listening ? "Tap to finish" : `Tap and speak ${getLanguageName(lang)}`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Split-screen conversation with someone local. The top half faces them, the
+// bottom half faces the user; each has its own mic listening in that side's
+// language. Turns are translated and read aloud, and the whole exchange can be
+// saved to the journal.
+export function ConversationMode({ theirLang, onTheirLangChange }: ConversationModeProps) {
+  const { user } = useAuth();
+  const { latitude, longitude, locationName } = useGeolocation();
+  const [yourLang, setYourLang] = useState("en");
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [readAloud, setReadAloud] = useState(canSpeak());
+  const [faceToFace, setFaceToFace] = useState(true);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripId, setTripId] = useState(NO_TRIP);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const languagePair = useMemo(() => ({ you: yourLang, them: theirLang }), [yourLang, theirLang]);
+
+  const {
+    isListening: youListening,
+    transcript: youTranscript,
+    interimTranscript: youInterim,
+    isSupported: voiceSupported,
+    startListening: startYou,
+    stopListening: stopYou,
+    resetTranscript: resetYou,
+    error: youError,
+  } = useSpeechRecognition(speechLocale(yourLang));
+  const {
+    isListening: themListening,
+    transcript: themTranscript,
+    interimTranscript: themInterim,
+    startListening: startThem,
+    stopListening: stopThem,
+    resetTranscript: resetThem,
+    error: themError,
+  } = useSpeechRecognition(speechLocale(theirLang));
+
+  useEffect(() => {
+    const error = youError || themError;
+    if (!error) return;
+    const msg = voiceErrorMessage(error);
+    if (msg) toast.error(msg);
+  }, [youError, themError]);
+
+  useEffect(() => {
+    if (!user) return;
+    Promise.all([
+      supabase.from("trips").select("id, name").order("created_at", { ascending: false }),
+      fetchTripRoles().catch(() => ({})),
+    ]).then(([{ data }, roles]) => setTrips((data || []).filter((trip) => canEditTrip(roles[trip.id]))));
+  }, [user]);
+
+  // Stop reading aloud when leaving conversation mode
+  useEffect(() => stopSpeaking, []);
+
+  const handleTurn = useCallback(
+    async (text: string, side: ConversationSide) => {
+      const spoken = text.trim();
+      if (!spoken) return;
+      const { speaker, from, to } = turnDirection(spoken, side, languagePair);
+
+      setIsTranslating(true);
+      try {
+        let translation: string;
+        let pronunciation = "";
+        if (!isOnline()) {
+          // Offline, only phrases saved with a city pack can be translated
+          translation = await getCachedTranslation(spoken, from, to);
+          if (!translation) {
+            toast.error("You're offline. Conversation mode needs a connection to translate.");
+            return;
+          }
+        } else {
+          const { data, error } = await invokeAI<{ translation: string; pronunciation?: string }>("translate", {
+            body: { text: spoken, targetLanguage: getLanguageName(to) },
+          });
+          if (error) {
+            toast.error(describeAIError(error, "Translation failed. Please try again."));
+            return;
+          }
+          translation = data.translation;
+          pronunciation = data.pronunciation ?? "";
+        }
+
+        setTurns((current) => [
+          ...current,
+          { id: crypto.randomUUID(), speaker, text: spoken, translation, pronunciation, at: new Date().toISOString() },
+        ]);
+        if (readAloud) await speak(translation, to);
+      } catch (err) {
+        console.error("Conversation translation error:", err);
+        toast.error("Failed to translate");
+      } finally {
+        setIsTranslating(false);
+      }
+    },
+    [languagePair, readAloud]
+  );
+
+  // A turn ends when its mic stops with something heard
+  useEffect(() => {
+    if (!youListening && youTranscript && !youInterim) {
+      resetYou();
+      handleTurn(youTranscript, "you");
+    }
+  }, [youListening, youTranscript, youInterim, resetYou, handleTurn]);
+
+  useEffect(() => {
+    if (!themListening && themTranscript && !themInterim) {
+      resetThem();
+      handleTurn(themTranscript, "them");
+    }
+  }, [themListening, themTranscript, themInterim, resetThem, handleTurn]);
+
+  // One mic at a time, and never while a translation is being read out
+  const listen = (side: ConversationSide) => {
+    stopSpeaking();
+    if (side === "you") {
+      stopThem();
+      startYou();
+    } else {
+      stopYou();
+      startThem();
+    }
+  };
+
+  const replay = (turn: ConversationTurn) => {
+    speak(turn.translation, turn.speaker === "you" ? theirLang : yourLang);
+  };
+
+  const saveToJournal = async () => {
+    if (!user) {
+      toast.error("Sign in to save conversations to your journal");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const saved = await saveChange({
+        type: "create",
+        table: "scan_entries",
+        label: `Conversation in ${getLanguageName(theirLang)}`,
+        data: {
+          id: crypto.randomUUID(),
+          ...conversationEntry(turns, {
+            userId: user.id,
+            tripId: tripId === NO_TRIP ? null : tripId,
+            languages: languagePair,
+            latitude,
+            longitude,
+            locationName,
+          }),
+        },
+      });
+      toast.success(describeSave(saved, "Conversation saved to journal"));
+    } catch (err) {
+      console.error("Save conversation error:", err);
+      toast.error("Failed to save the conversation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 h-[calc(100dvh-12rem)] min-h-[32rem]">
+      <ConversationPanel
+        side="them"
+        lang={theirLang}
+        turns={turns}
+        listening={themListening}
+        heard={themTranscript + themInterim}
+        voiceSupported={voiceSupported}
+        onStart={() => listen("them")}
+        onStop={stopThem}
+        onReplay={replay}
+        className={cn("flex-1", faceToFace && "rotate-180")}
+      />
+
+      <div className="flex items-center gap-2">
+        <Select value={yourLang} onValueChange={setYourLang}>
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languages.map((lang) => (
+              <SelectItem key={lang.code} value={lang.code}>
+                {lang.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">↔</span>
+        <Select value={theirLang} onValueChange={onTheirLangChange}>
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {languages
+              .filter((lang) => lang.code !== yourLang)
+              .map((lang) => (
+                <SelectItem key={lang.code} value={lang.code}>
+                  {lang.name} ({lang.native})
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="icon"
+          variant={faceToFace ? "secondary" : "ghost"}
+          className="h-8 w-8 flex-shrink-0"
+          onClick={() => setFaceToFace((v) => !v)}
+          title="Face to face"
+        >
+          <FlipVertical2 className="h-4 w-4" />
+        </Button>
+        {isTranslating && <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />}
+      </div>
+
+      <ConversationPanel
+        side="you"
+        lang={yourLang}
+        turns={turns}
+        listening={youListening}
+        heard={youTranscript + youInterim}
+        voiceSupported={voiceSupported}
+        onStart={() => listen("you")}
+        onStop={stopYou}
+        onReplay={replay}
+        className="flex-1"
+      />
+
+      <motion.div className="flex items-center gap-2" initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground mr-auto">
+          <Switch checked={readAloud} onCheckedChange={setReadAloud} disabled={!canSpeak()} />
+          <Volume2 className="h-3.5 w-3.5" />
+          Read aloud
+        </label>
+        {trips.length > 0 && (
+          <Select value={tripId} onValueChange={setTripId}>
+            <SelectTrigger className="h-8 w-32 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TRIP}>No trip</SelectItem>
+              {trips.map((trip) => (
+                <SelectItem key={trip.id} value={trip.id}>
+                  {trip.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1"
+          onClick={saveToJournal}
+          disabled={isSaving || turns.length === 0}
+        >
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <BookmarkPlus className="h-4 w-4" />}
+          Save
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={() => setTurns([])}
+          disabled={turns.length === 0}
+          title="Clear conversation"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { FlipVertical2, Volume2 } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { getLanguageName } from "@/lib/languages";
+import { canSpeak, speak } from "@/lib/speech";
+import { cn } from "@/lib/utils";
+
+interface PhraseCardProps {
+  text: string;
+  translation: string;
+  pronunciation?: string | null;
+  language: string;
+  trigger: React.ReactNode;
+}
+
+// A phrase in large type to hold up to someone: the translation fills the
+// screen, with the user's own words small underneath. Works offline; the
+// phrase is already on the device.
+export function PhraseCard({ text, translation, pronunciation, language, trigger }: PhraseCardProps) {
+  const [flipped, setFlipped] = useState(false);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-none w-screen h-[100dvh] sm:rounded-none flex flex-col p-6">
+        <DialogTitle className="sr-only">Phrase in {getLanguageName(language)}</DialogTitle>
+        <div className={cn("flex-1 flex flex-col items-center justify-center gap-6 text-center", flipped && "rotate-180")}>
+          <p className="text-4xl sm:text-5xl font-bold leading-tight break-words" lang={language}>
+            {translation}
+          </p>
+          {pronunciation && <p className="text-lg text-muted-foreground italic">{pronunciation}</p>}
+        </div>
+        <div className="space-y-3 border-t border-border/50 pt-4">
+          <p className="text-sm text-muted-foreground text-center">{text}</p>
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="flex-1 h-12"
+              onClick={() => speak(translation, language)}
+              disabled={!canSpeak()}
+            >
+              <Volume2 className="h-4 w-4 mr-2" />
+              Speak
+            </Button>
+            <Button variant="outline" className="flex-1 h-12" onClick={() => setFlipped((v) => !v)}>
+              <FlipVertical2 className="h-4 w-4 mr-2" />
+              Flip
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
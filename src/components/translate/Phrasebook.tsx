@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { BookOpen, CloudOff, Pin, PinOff, Plus, Trash2, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { getLanguageName, quickPhrases } from "@/lib/languages";
+import { groupPhrases, phraseCategories, type NewPhrase, type Phrase, type PhrasePatch } from "@/lib/phrasebook";
+import { canSpeak, speak } from "@/lib/speech";
+import { PhraseCard } from "./PhraseCard";
+import { SavePhraseDialog } from "./SavePhraseDialog";
+
+interface PhrasebookProps {
+  language: string;
+  phrases: Phrase[];
+  unsyncedIds: Set<string>;
+  isSignedIn: boolean;
+  onSave: (phrase: NewPhrase) => Promise<boolean>;
+  onUpdate: (phrase: Phrase, patch: PhrasePatch) => void;
+  onRemove: (phrase: Phrase) => void;
+  /** Translates one of the starter phrases */
+  onTranslate: (text: string) => void;
+}
+
+const ALL_TRIPS = "all";
+
+function PhraseRow({
+  phrase,
+  unsynced,
+  onUpdate,
+  onRemove,
+}: {
+  phrase: Phrase;
+  unsynced: boolean;
+  onUpdate: PhrasebookProps["onUpdate"];
+  onRemove: PhrasebookProps["onRemove"];
+}) {
+  return (
+    <div className="flex items-center gap-1 p-3 bg-card rounded-xl border border-border/50">
+      <PhraseCard
+        text={phrase.text}
+        translation={phrase.translation}
+        pronunciation={phrase.pronunciation}
+        language={phrase.language}
+        trigger={
+          <button className="flex-1 min-w-0 text-left" title="Show to a local">
+            <p className="font-medium truncate">{phrase.translation}</p>
+            <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+              {unsynced && <CloudOff className="h-3 w-3 flex-shrink-0" />}
+              {phrase.text}
+            </p>
+          </button>
+        }
+      />
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 flex-shrink-0"
+        onClick={() => speak(phrase.translation, phrase.language)}
+        disabled={!canSpeak()}
+        title="Play"
+      >
+        <Volume2 className="h-4 w-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 flex-shrink-0"
+        onClick={() => onUpdate(phrase, { pinned: !phrase.pinned })}
+        title={phrase.pinned ? "Unpin" : "Pin"}
+      >
+        {phrase.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 flex-shrink-0"
+        onClick={() => onRemove(phrase)}
+        title="Remove"
+      >
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+// The user's phrases in the language being translated into, pinned ones
+// first and the rest by category. Starter phrases fill in until the user has
+// saved their own.
+export function Phrasebook({
+  language,
+  phrases,
+  unsyncedIds,
+  isSignedIn,
+  onSave,
+  onUpdate,
+  onRemove,
+  onTranslate,
+}: PhrasebookProps) {
+  const [trips, setTrips] = useState<{ id: string; name: string }[]>([]);
+  const [tripFilter, setTripFilter] = useState(ALL_TRIPS);
+
+  const tripIds = useMemo(
+    () => Array.from(new Set(phrases.map((p) => p.trip_id).filter(Boolean))).sort().join(","),
+    [phrases]
+  );
+
+  // Names for the trips phrases are filed under
+  useEffect(() => {
+    if (!tripIds) {
+      setTrips([]);
+      return;
+    }
+    supabase
+      .from("trips")
+      .select("id, name")
+      .in("id", tripIds.split(","))
+      .then(({ data }) => setTrips(data || []));
+  }, [tripIds]);
+
+  const categories = useMemo(() => phraseCategories(phrases), [phrases]);
+  const { pinned, groups } = useMemo(
+    () => groupPhrases(phrases, { language, tripId: tripFilter === ALL_TRIPS ? null : tripFilter }),
+    [phrases, language, tripFilter]
+  );
+  const isEmpty = pinned.length === 0 && groups.length === 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="font-semibold text-lg flex items-center gap-2">
+          <BookOpen className="h-5 w-5 text-primary" />
+          Phrasebook
+        </h2>
+        <div className="flex items-center gap-2">
+          {trips.length > 0 && (
+            <Select value={tripFilter} onValueChange={setTripFilter}>
+              <SelectTrigger className="h-8 w-32 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TRIPS}>All trips</SelectItem>
+                {trips.map((trip) => (
+                  <SelectItem key={trip.id} value={trip.id}>
+                    {trip.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {isSignedIn && (
+            <SavePhraseDialog
+              language={language}
+              categories={categories}
+              onSave={onSave}
+              trigger={
+                <Button size="sm" variant="outline" className="h-8 gap-1">
+                  <Plus className="h-4 w-4" />
+                  Add
+                </Button>
+              }
+            />
+          )}
+        </div>
+      </div>
+
+      {pinned.length > 0 && (
+        <div className="space-y-2">
+          {pinned.map((phrase) => (
+            <PhraseRow
+              key={phrase.id}
+              phrase={phrase}
+              unsynced={unsyncedIds.has(phrase.id)}
+              onUpdate={onUpdate}
+              onRemove={onRemove}
+            />
+          ))}
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <div key={group.category} className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{group.category}</p>
+          {group.phrases.map((phrase) => (
+            <PhraseRow
+              key={phrase.id}
+              phrase={phrase}
+              unsynced={unsyncedIds.has(phrase.id)}
+              onUpdate={onUpdate}
+              onRemove={onRemove}
+            />
+          ))}
+        </div>
+      ))}
+
+      {isEmpty && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            {isSignedIn
+              ? `Save translations or add your own phrases in ${getLanguageName(language)} to use them offline. Try one of these:`
+              : "Sign in to build your own phrasebook. Try one of these:"}
+          </p>
+          <div className="grid grid-cols-1 gap-2">
+            {quickPhrases.map((phrase, i) => (
+              <motion.button
+                key={i}
+                className="flex items-center justify-between p-4 bg-card rounded-xl border border-border/50 hover:border-primary/30 transition-all text-left"
+                onClick={() => onTranslate(phrase.en)}
+                whileHover={{ scale: 1.01 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <span className="font-medium">{phrase.en}</span>
+                <span className="text-xs text-muted-foreground px-2 py-1 bg-muted rounded-full">
+                  {phrase.category}
+                </span>
+              </motion.button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
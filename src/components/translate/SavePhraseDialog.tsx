@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { describeAIError } from "@/lib/aiErrors";
+import { getLanguageName } from "@/lib/languages";
+import { isOnline } from "@/lib/offlineStorage";
+import { normalizeCategory, translatePhrase, type NewPhrase } from "@/lib/phrasebook";
+import { fetchTripRoles } from "@/lib/tripMembers";
+import { toast } from "sonner";
+
+interface Trip {
+  id: string;
+  name: string;
+}
+
+interface SavePhraseDialogProps {
+  /** Language the phrase is (or will be) translated into */
+  language: string;
+  categories: string[];
+  /** A translation to save; without one the user types a phrase and it is translated on save */
+  initial?: { text: string; translation: string; pronunciation?: string | null };
+  trigger: React.ReactNode;
+  onSave: (phrase: NewPhrase) => Promise<boolean>;
+}
+
+const NEW_CATEGORY = "__new";
+const NO_TRIP = "none";
+
+export function SavePhraseDialog({ language, categories, initial, trigger, onSave }: SavePhraseDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [category, setCategory] = useState(categories[0]);
+  const [newCategory, setNewCategory] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripId, setTripId] = useState(NO_TRIP);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setText(initial?.text ?? "");
+    setNewCategory("");
+    Promise.all([
+      supabase.from("trips").select("id, name").order("created_at", { ascending: false }),
+      fetchTripRoles().catch(() => ({})),
+    ]).then(([{ data }, roles]) => setTrips((data || []).filter((trip) => roles[trip.id])));
+  }, [isOpen, initial?.text]);
+
+  const save = async () => {
+    const phraseText = text.trim();
+    if (!phraseText) return;
+    const chosen = category === NEW_CATEGORY ? normalizeCategory(newCategory, categories) : category;
+
+    setIsSaving(true);
+    try {
+      let translation = initial?.translation;
+      let pronunciation = initial?.pronunciation ?? "";
+      // Edited or typed from scratch: translate it now so it works offline later
+      if (!translation || phraseText !== initial?.text) {
+        if (!isOnline()) {
+          toast.error("Connect to the internet to translate a new phrase");
+          return;
+        }
+        ({ translation, pronunciation } = await translatePhrase(phraseText, language));
+      }
+
+      const saved = await onSave({
+        text: phraseText,
+        translation,
+        pronunciation,
+        language,
+        category: chosen,
+        pinned,
+        tripId: tripId === NO_TRIP ? null : tripId,
+      });
+      if (saved) setIsOpen(false);
+    } catch (err) {
+      console.error("Save phrase error:", err);
+      toast.error(describeAIError(err, "Couldn't save this phrase"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="h-5 w-5 text-primary" />
+            {initial ? "Save to phrasebook" : "Add a phrase"}
+          </DialogTitle>
+          <DialogDescription>
+            Saved in {getLanguageName(language)}, so you can show it or play it back offline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <Input
+            placeholder="e.g. I'm allergic to peanuts"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="bg-background"
+          />
+          {initial && text.trim() === initial.text && (
+            <p className="text-sm rounded-lg bg-muted/40 px-3 py-2">{initial.translation}</p>
+          )}
+
+          <div className="flex gap-2">
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="flex-1 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {c}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_CATEGORY}>New category…</SelectItem>
+              </SelectContent>
+            </Select>
+            {trips.length > 0 && (
+              <Select value={tripId} onValueChange={setTripId}>
+                <SelectTrigger className="flex-1 bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TRIP}>Any trip</SelectItem>
+                  {trips.map((trip) => (
+                    <SelectItem key={trip.id} value={trip.id}>
+                      {trip.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          {category === NEW_CATEGORY && (
+            <Input
+              placeholder="Category name, e.g. Medical"
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              className="bg-background"
+            />
+          )}
+
+          <label className="flex items-center justify-between text-sm">
+            Pin to the top
+            <Switch checked={pinned} onCheckedChange={setPinned} />
+          </label>
+
+          <Button
+            onClick={save}
+            disabled={isSaving || !text.trim() || (category === NEW_CATEGORY && !newCategory.trim())}
+            className="w-full"
+          >
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save phrase"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { BedDouble, Car, FileUp, Loader2, Plane, Ticket, TrainFront, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useAIUsage } from "@/contexts/AIUsageContext";
+import { useCurrency } from "@/hooks/useCurrency";
+import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
+import {
+  BOOKING_KIND_LABELS,
+  bookingStops,
+  spendingCategoryFor,
+  spendingRecordFromBooking,
+  type BookingKind,
+  type ExtractedBooking,
+} from "@/lib/bookings";
+import { compressImage } from "@/lib/imageCompression";
+import { loadItinerary, placeDatedStops } from "@/lib/itinerary";
+import { describeSave, saveChange } from "@/lib/syncOutbox";
+import { toast } from "sonner";
+
+interface BookingImportDialogProps {
+  trip: {
+    id: string;
+    name: string;
+    start_date: string | null;
+    end_date: string | null;
+    itinerary?: unknown;
+    ai_itinerary?: unknown;
+    updated_at?: string;
+  };
+  userId: string;
+  trigger: React.ReactNode;
+  onImported: () => void;
+}
+
+interface Attachment {
+  name: string;
+  dataUrl: string;
+}
+
+const KIND_ICONS: Record<BookingKind, typeof Plane> = {
+  flight: Plane,
+  hotel: BedDouble,
+  train: TrainFront,
+  car_rental: Car,
+  other: Ticket,
+};
+
+// Confirmation PDFs are a page or two; anything bigger is probably not one.
+// Sent base64-encoded (a third larger) in one JSON body, so this also keeps
+// each request under the AI proxy's 6 MB limit.
+const MAX_PDF_BYTES = 4 * 1024 * 1024;
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+function formatWhen(booking: ExtractedBooking): string {
+  const at = (t: ExtractedBooking["start"]) => [t.date, t.time].filter(Boolean).join(" ");
+  return booking.end ? `${at(booking.start)} → ${at(booking.end)}` : at(booking.start);
+}
+
+// Reads reservations out of a pasted confirmation email, a PDF or a
+// screenshot and adds them to the trip's itinerary and spending.
+export function BookingImportDialog({ trip, userId, trigger, onImported }: BookingImportDialogProps) {
+  const navigate = useNavigate();
+  const { canUseAI, incrementUsage } = useAIUsage();
+  const { activeCurrency } = useCurrency();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [attachment, setAttachment] = useState<Attachment | null>(null);
+  const [bookings, setBookings] = useState<ExtractedBooking[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [addCosts, setAddCosts] = useState(true);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start over every time the dialog opens.
+  useEffect(() => {
+    if (!isOpen) return;
+    setText("");
+    setAttachment(null);
+    setBookings(null);
+    setSelected(new Set());
+    setAddCosts(true);
+  }, [isOpen]);
+
+  const attach = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      if (file.type.startsWith("image/")) {
+        setAttachment({ name: file.name, dataUrl: await compressImage(file, 1600, 0.85) });
+      } else if (file.type === "application/pdf") {
+        if (file.size > MAX_PDF_BYTES) {
+          toast.error("That PDF is too large. Try the page with the booking details.");
+          return;
+        }
+        setAttachment({ name: file.name, dataUrl: await readAsDataUrl(file) });
+      } else {
+        toast.error("Drop a PDF or a screenshot of the confirmation");
+        return;
+      }
+      setBookings(null);
+    } catch (error) {
+      console.error("Booking attachment error:", error);
+      toast.error("Couldn't read this file");
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    attach(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    attach(e.dataTransfer.files?.[0]);
+  };
+
+  const extract = async () => {
+    if (!canUseAI || !(await incrementUsage())) {
+      toast.error("AI usage limit reached for today");
+      return;
+    }
+
+    setIsExtracting(true);
+    try {
+      const { data, error } = await invokeAI<{ bookings: ExtractedBooking[] }>("extract-booking", {
+        body: { text: text.trim() || undefined, file: attachment || undefined },
+      });
+      if (error) throw error;
+
+      setBookings(data.bookings);
+      setSelected(new Set(data.bookings.map((_, i) => i)));
+      if (data.bookings.length === 0) toast.info("No reservations found in this confirmation");
+    } catch (err) {
+      console.error("Error extracting booking:", err);
+      toast.error(describeAIError(err, "Couldn't read this confirmation"));
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const attachToTrip = async () => {
+    const chosen = (bookings ?? []).filter((_, i) => selected.has(i));
+    if (chosen.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const placed = placeDatedStops(loadItinerary(trip), trip, chosen.flatMap(bookingStops));
+      const result = await saveChange({
+        type: "update",
+        table: "trips",
+        data: { id: trip.id, itinerary: placed.itinerary, start_date: placed.start_date, end_date: placed.end_date },
+        label: trip.name,
+        baseUpdatedAt: trip.updated_at,
+      });
+
+      // Costs go in only once the stops are on the trip. A queued update can
+      // still conflict later, which would leave costs for stops the trip
+      // doesn't have, and a conflict now would double them on a re-import.
+      let costs = 0;
+      if (addCosts && result === "saved") {
+        for (const booking of chosen) {
+          const record = spendingRecordFromBooking(booking, { userId, tripId: trip.id, currency: activeCurrency });
+          if (!record) continue;
+          await saveChange({
+            type: "create",
+            table: "spending_records",
+            label: `${record.amount} ${record.currency} · ${record.category}`,
+            data: { id: crypto.randomUUID(), ...record },
+          });
+          costs++;
+        }
+      }
+
+      const notify = result === "conflict" ? toast.warning : toast.success;
+      notify(describeSave(result, `Added ${chosen.length} booking${chosen.length === 1 ? "" : "s"} to ${trip.name}`), {
+        description: [
+          costs > 0 && `${costs} cost${costs === 1 ? "" : "s"} added to Spending`,
+          addCosts && result === "conflict" && "Costs weren't added to Spending",
+          addCosts && result === "queued" && "Costs weren't added to Spending while offline",
+          placed.skipped > 0 && `${placed.skipped} stop(s) too far from the trip's dates were left out`,
+        ].filter(Boolean).join(". ") || undefined,
+        action: { label: "Itinerary", onClick: () => navigate(`/journal/${trip.id}/itinerary`) },
+      });
+      setIsOpen(false);
+      onImported();
+    } catch (error) {
+      console.error("Error attaching bookings:", error);
+      toast.error("Couldn't add these bookings to the trip");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canExtract = (text.trim().length > 0 || attachment !== null) && !isExtracting;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5 text-primary" />
+            Import booking
+          </DialogTitle>
+          <DialogDescription>
+            Paste a confirmation email or add its PDF. Flights, hotels, trains and rental cars go on the itinerary.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+          <Textarea
+            placeholder="Paste the confirmation email here…"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="bg-background min-h-[140px] text-sm"
+          />
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/pdf,image/*"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          {attachment ? (
+            <div className="flex items-center gap-2 rounded-lg border border-border/50 bg-background px-3 py-2 text-sm">
+              <FileUp className="h-4 w-4 text-primary flex-shrink-0" />
+              <span className="flex-1 truncate">{attachment.name}</span>
+              <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setAttachment(null)} aria-label="Remove file">
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ) : (
+            <Button variant="outline" className="w-full border-dashed" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Add or drop a PDF or screenshot
+            </Button>
+          )}
+
+          <Button onClick={extract} disabled={!canExtract} className="w-full">
+            {isExtracting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Extract reservations"}
+          </Button>
+
+          {bookings && bookings.length > 0 && (
+            <div className="space-y-2">
+              {bookings.map((booking, i) => {
+                const Icon = KIND_ICONS[booking.kind];
+                return (
+                  <label key={i} className="flex gap-3 rounded-lg border border-border/50 bg-background p-3 cursor-pointer">
+                    <Checkbox checked={selected.has(i)} onCheckedChange={(checked) => toggle(i, checked === true)} />
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <p className="flex items-center gap-1.5 font-medium text-sm">
+                        <Icon className="h-4 w-4 text-primary flex-shrink-0" />
+                        <span className="truncate">{booking.title || BOOKING_KIND_LABELS[booking.kind]}</span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">{formatWhen(booking)}</p>
+                      {booking.startAddress && <p className="text-xs text-muted-foreground truncate">{booking.startAddress}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {[
+                          booking.confirmationNumber && `Ref ${booking.confirmationNumber}`,
+                          booking.cost !== null && `${booking.cost} ${booking.currency || activeCurrency} · ${spendingCategoryFor(booking.kind)}`,
+                        ].filter(Boolean).join(" · ")}
+                      </p>
+                    </div>
+                  </label>
+                );
+              })}
+
+              <label className="flex items-center gap-2 text-sm pt-1">
+                <Switch checked={addCosts} onCheckedChange={setAddCosts} />
+                Add costs to Spending
+              </label>
+
+              <Button onClick={attachToTrip} disabled={isSaving || selected.size === 0} className="w-full">
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : `Attach to ${trip.name}`}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
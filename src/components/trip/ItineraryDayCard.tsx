@@ -0,0 +1,251 @@
+import { useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  GripVertical,
+  Loader2,
+  LocateFixed,
+  MapPin,
+  Plus,
+  Sparkles,
+  Ticket,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { format } from "date-fns";
+import { hasLocation, type ItineraryDay, type ItineraryStop, type StopPosition } from "@/lib/itinerary";
+
+/** What is being dragged: a whole day, or one stop of a day. */
+export type DragItem = { kind: "day"; day: number } | { kind: "stop"; day: number; index: number };
+
+interface ItineraryDayCardProps {
+  day: ItineraryDay;
+  index: number;
+  total: number;
+  isSelected: boolean;
+  isRegenerating: boolean;
+  isLocating: boolean;
+  onSelect: () => void;
+  onTitleChange: (title: string) => void;
+  onMoveDay: (to: number) => void;
+  onRemove: () => void;
+  onAddStop: () => void;
+  onEditStop: (index: number) => void;
+  onRemoveStop: (index: number) => void;
+  onRegenerate: (instructions: string) => void;
+  onLocate: () => void;
+  onDragStart: (item: DragItem) => void;
+  /** `index` is where a dragged stop lands; the day's length means "at the end". */
+  onDrop: (target: StopPosition) => void;
+}
+
+export function ItineraryDayCard({
+  day,
+  index,
+  total,
+  isSelected,
+  isRegenerating,
+  isLocating,
+  onSelect,
+  onTitleChange,
+  onMoveDay,
+  onRemove,
+  onAddStop,
+  onEditStop,
+  onRemoveStop,
+  onRegenerate,
+  onLocate,
+  onDragStart,
+  onDrop,
+}: ItineraryDayCardProps) {
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [instructions, setInstructions] = useState("");
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const allowDrop = (e: React.DragEvent, at: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropIndex(at);
+  };
+
+  const drop = (e: React.DragEvent, at: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropIndex(null);
+    onDrop({ day: index, index: at });
+  };
+
+  const unlocated = day.stops.filter((stop) => stop.placeName && !hasLocation(stop)).length;
+
+  const renderStop = (stop: ItineraryStop, i: number) => (
+    <li
+      key={stop.id}
+      draggable
+      onDragStart={(e) => {
+        e.stopPropagation();
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart({ kind: "stop", day: index, index: i });
+      }}
+      onDragOver={(e) => allowDrop(e, i)}
+      onDragLeave={() => setDropIndex(null)}
+      onDrop={(e) => drop(e, i)}
+      className={`flex items-start gap-2 p-2 rounded-lg bg-background/60 border ${
+        dropIndex === i ? "border-primary border-dashed" : "border-transparent"
+      }`}
+    >
+      <GripVertical className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5 cursor-grab" />
+      <button type="button" className="flex-1 min-w-0 text-left" onClick={() => onEditStop(i)}>
+        <div className="text-sm leading-tight">
+          {stop.time && <span className="font-medium text-primary mr-2">{stop.time}</span>}
+          {stop.title || <span className="text-muted-foreground">Untitled stop</span>}
+        </div>
+        {(stop.placeName || stop.bookings.length > 0 || stop.notes) && (
+          <div className="text-xs text-muted-foreground mt-1 flex flex-wrap items-center gap-x-2 gap-y-0.5">
+            {stop.placeName && (
+              <span className="flex items-center gap-1">
+                <MapPin className={`h-3 w-3 ${hasLocation(stop) ? "text-primary" : ""}`} />
+                {stop.placeName}
+              </span>
+            )}
+            {stop.bookings.map((b, j) => (
+              <span key={j} className="flex items-center gap-1">
+                <Ticket className="h-3 w-3" />
+                {[b.label, b.reference].filter(Boolean).join(" ")}
+              </span>
+            ))}
+            {stop.notes && <span className="line-clamp-1">{stop.notes}</span>}
+          </div>
+        )}
+      </button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+        aria-label="Remove stop"
+        onClick={() => onRemoveStop(i)}
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </li>
+  );
+
+  return (
+    <Card
+      className={`bg-card/50 ${isSelected ? "border-primary/60" : ""}`}
+      onClick={onSelect}
+      onDragOver={(e) => allowDrop(e, day.stops.length)}
+      onDragLeave={() => setDropIndex(null)}
+      onDrop={(e) => drop(e, day.stops.length)}
+    >
+      <CardHeader className="py-3 px-4">
+        <div className="flex items-center gap-2">
+          <span
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              onDragStart({ kind: "day", day: index });
+            }}
+            className="w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs shrink-0 cursor-grab"
+            title="Drag to reorder days"
+          >
+            {index + 1}
+          </span>
+          <Input
+            value={day.title}
+            placeholder={`Day ${index + 1}`}
+            onChange={(e) => onTitleChange(e.target.value)}
+            className="h-8 bg-transparent border-none px-1 font-semibold focus-visible:ring-1"
+          />
+          {/* Keeps the card's own click (select this day) from overriding the move */}
+          <div className="flex items-center shrink-0" onClick={(e) => e.stopPropagation()}>
+            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => onMoveDay(index - 1)} aria-label="Move day up">
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === total - 1} onClick={() => onMoveDay(index + 1)} aria-label="Move day down">
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-muted-foreground hover:text-destructive" onClick={onRemove} aria-label="Remove day">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {day.date && (
+          <p className="text-xs text-muted-foreground pl-8">{format(new Date(`${day.date}T00:00:00`), "EEE, MMM d")}</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="px-4 pb-4 space-y-2">
+        {day.stops.length === 0 ? (
+          <p
+            className={`text-xs text-center text-muted-foreground py-3 rounded-lg border border-dashed ${
+              dropIndex === 0 ? "border-primary" : "border-border/50"
+            }`}
+          >
+            Nothing planned yet. Add a stop or drag one here.
+          </p>
+        ) : (
+          <ol className="space-y-1">{day.stops.map(renderStop)}</ol>
+        )}
+
+        {day.tips.length > 0 && (
+          <ul className="list-disc list-inside text-xs text-muted-foreground pt-1">
+            {day.tips.map((tip, i) => (
+              <li key={i}>{tip}</li>
+            ))}
+          </ul>
+        )}
+
+        {showRegenerate && (
+          <div className="space-y-2 pt-1">
+            <Textarea
+              placeholder="Anything to change? (e.g. more food, less walking, it's going to rain)"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              className="bg-background min-h-[60px] text-sm"
+            />
+            <p className="text-xs text-muted-foreground">Stops with bookings are kept.</p>
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" variant="outline" className="flex-1" onClick={onAddStop}>
+            <Plus className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+          {unlocated > 0 && (
+            <Button size="sm" variant="outline" onClick={onLocate} disabled={isLocating} title="Find these places on the map">
+              {isLocating ? <Loader2 className="h-4 w-4 animate-spin" /> : <LocateFixed className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant={showRegenerate ? "default" : "outline"}
+            className="flex-1"
+            disabled={isRegenerating}
+            onClick={() => {
+              if (!showRegenerate) {
+                setShowRegenerate(true);
+                return;
+              }
+              onRegenerate(instructions);
+              setShowRegenerate(false);
+              setInstructions("");
+            }}
+          >
+            {isRegenerating ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <Sparkles className="h-4 w-4 mr-1" />
+                {showRegenerate ? "Regenerate day" : "Redo with AI"}
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { MapPin, Plus, Trash2, Star } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { BookingRef, ItineraryStop } from "@/lib/itinerary";
+import type { SavedPlace } from "@/lib/savedPlaces";
+
+interface ItineraryStopDialogProps {
+  stop: ItineraryStop | null;
+  savedPlaces: SavedPlace[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (patch: Partial<ItineraryStop>) => void;
+}
+
+export function ItineraryStopDialog({ stop, savedPlaces, onOpenChange, onSave }: ItineraryStopDialogProps) {
+  const [time, setTime] = useState("");
+  const [title, setTitle] = useState("");
+  const [placeName, setPlaceName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [bookings, setBookings] = useState<BookingRef[]>([]);
+  // Coordinates only survive while the place name is the one they belong to.
+  const [picked, setPicked] = useState<Pick<ItineraryStop, "placeId" | "lat" | "lng" | "placeName"> | null>(null);
+
+  useEffect(() => {
+    if (!stop) return;
+    setTime(stop.time || "");
+    setTitle(stop.title);
+    setPlaceName(stop.placeName || "");
+    setNotes(stop.notes || "");
+    setBookings(stop.bookings);
+    setPicked({ placeId: stop.placeId, lat: stop.lat, lng: stop.lng, placeName: stop.placeName });
+  }, [stop]);
+
+  const pickSavedPlace = (place: SavedPlace) => {
+    setPlaceName(place.name);
+    if (!title.trim()) setTitle(place.name);
+    setPicked({ placeId: place.id, lat: place.latitude, lng: place.longitude, placeName: place.name });
+  };
+
+  const updateBooking = (index: number, patch: Partial<BookingRef>) =>
+    setBookings((prev) => prev.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+
+  const save = () => {
+    const name = placeName.trim() || null;
+    const location = picked && picked.placeName === name ? picked : { placeId: null, lat: null, lng: null };
+    onSave({
+      time: time || null,
+      title: title.trim() || name || "Untitled stop",
+      placeName: name,
+      placeId: location.placeId,
+      lat: location.lat,
+      lng: location.lng,
+      notes: notes.trim() || null,
+      bookings: bookings
+        .map((b) => ({ label: b.label.trim(), reference: b.reference.trim(), url: b.url?.trim() || null }))
+        .filter((b) => b.label || b.reference || b.url),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!stop} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-primary" />
+            Edit stop
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="flex gap-2">
+            <Input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="w-32 bg-background"
+            />
+            <Input
+              placeholder="What's the plan?"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="flex-1 bg-background"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Input
+              placeholder="Place (e.g. Castelo de São Jorge)"
+              value={placeName}
+              onChange={(e) => setPlaceName(e.target.value)}
+              className="bg-background"
+            />
+            {savedPlaces.length > 0 && (
+              <div className="flex gap-1 flex-wrap">
+                {savedPlaces.slice(0, 8).map((place) => (
+                  <Button
+                    key={place.id}
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => pickSavedPlace(place)}
+                  >
+                    <Star className="h-3 w-3 mr-1" />
+                    {place.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {picked && picked.placeName === (placeName.trim() || null) && picked.lat != null && (
+              <p className="text-xs text-muted-foreground">On the map at {picked.lat.toFixed(4)}, {picked.lng.toFixed(4)}</p>
+            )}
+          </div>
+
+          <Textarea
+            placeholder="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="bg-background min-h-[70px]"
+          />
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Bookings</p>
+            {bookings.map((booking, i) => (
+              <div key={i} className="space-y-1 p-2 rounded-lg bg-background/60 border border-border/50">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Label (e.g. Dinner)"
+                    value={booking.label}
+                    onChange={(e) => updateBooking(i, { label: e.target.value })}
+                    className="h-8 bg-background"
+                  />
+                  <Input
+                    placeholder="Reference"
+                    value={booking.reference}
+                    onChange={(e) => updateBooking(i, { reference: e.target.value })}
+                    className="h-8 bg-background"
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => setBookings((prev) => prev.filter((_, j) => j !== i))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input
+                  placeholder="Link (optional)"
+                  value={booking.url || ""}
+                  onChange={(e) => updateBooking(i, { url: e.target.value })}
+                  className="h-8 bg-background"
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="text-muted-foreground"
+              onClick={() => setBookings((prev) => [...prev, { label: "", reference: "", url: null }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add booking
+            </Button>
+          </div>
+
+          <Button onClick={save} className="w-full">
+            Done
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
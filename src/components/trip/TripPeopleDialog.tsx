@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link2, Loader2, LogOut, Mail, Trash2, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/contexts/ProfileContext";
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  createInvitation,
+  fetchCollaborators,
+  invitationMailto,
+  invitationUrl,
+  isValidEmail,
+  removeMember,
+  revokeInvitation,
+  setMemberRole,
+  type InvitableRole,
+  type TripCollaborator,
+  type TripInvitation,
+  type TripRole,
+} from "@/lib/tripMembers";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+interface TripPeopleDialogProps {
+  trip: { id: string; name: string; user_id: string };
+  /** The signed-in user's role on the trip */
+  role: TripRole;
+  trigger: React.ReactNode;
+  /** Called after the user leaves the trip */
+  onLeft?: () => void;
+}
+
+function RoleSelect({ value, onChange, disabled }: { value: InvitableRole; onChange: (role: InvitableRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as InvitableRole)} disabled={disabled}>
+      <SelectTrigger className="w-28 bg-background flex-shrink-0">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(["editor", "viewer"] as const).map((r) => (
+          <SelectItem key={r} value={r}>
+            {ROLE_LABELS[r]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Who's on a trip and what they can do. The owner invites people by email or
+// link, changes roles and removes people; everyone else can see the list and
+// leave.
+export function TripPeopleDialog({ trip, role, trigger, onLeft }: TripPeopleDialogProps) {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const [isOpen, setIsOpen] = useState(false);
+  const [people, setPeople] = useState<TripCollaborator[]>([]);
+  const [invitations, setInvitations] = useState<TripInvitation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const isOwner = role === "owner";
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await fetchCollaborators({ id: trip.id, user_id: trip.user_id });
+      setPeople(result.people);
+      setInvitations(result.invitations);
+    } catch (err) {
+      console.error("Error loading trip people:", err);
+      toast.error("Couldn't load who's on this trip");
+    }
+  }, [trip.id, trip.user_id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    refresh().finally(() => setIsLoading(false));
+  }, [isOpen, refresh]);
+
+  const copyLink = async (invitation: TripInvitation) => {
+    const url = invitationUrl(invitation.token);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: trip.name, text: `Join "${trip.name}"`, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast.success("Invite link copied");
+    } catch (err) {
+      if ((err as Error).name === "AbortError") return;
+      toast.error("Couldn't copy the link", { description: url });
+    }
+  };
+
+  const invite = async (byEmail: boolean) => {
+    if (!user) return;
+    if (byEmail && !isValidEmail(email)) {
+      toast.error("Please enter an email address");
+      return;
+    }
+
+    setIsInviting(true);
+    try {
+      const invitation = await createInvitation(trip.id, user.id, { email: byEmail ? email : null, role: inviteRole });
+      setInvitations((current) => [invitation, ...current]);
+      if (byEmail) {
+        setEmail("");
+        // No mail server: the user's own mail app sends it.
+        window.location.href = invitationMailto(invitation, trip.name, profile?.display_name ?? null);
+        toast.success(`Invitation for ${invitation.email} created`, {
+          action: { label: "Copy link", onClick: () => copyLink(invitation) },
+        });
+      } else {
+        await copyLink(invitation);
+      }
+    } catch (err) {
+      console.error("Invite error:", err);
+      toast.error("Couldn't create the invitation");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const changeRole = async (person: TripCollaborator, next: InvitableRole) => {
+    try {
+      await setMemberRole(person.id, next);
+      setPeople((current) => current.map((p) => (p.id === person.id ? { ...p, role: next } : p)));
+    } catch (err) {
+      console.error("Role change error:", err);
+      toast.error("Couldn't change the role");
+    }
+  };
+
+  const remove = async (person: TripCollaborator) => {
+    const leaving = person.userId === user?.id;
+    try {
+      await removeMember(person.id);
+      if (leaving) {
+        setIsOpen(false);
+        toast.success(`You left ${trip.name}`);
+        onLeft?.();
+        return;
+      }
+      setPeople((current) => current.filter((p) => p.id !== person.id));
+    } catch (err) {
+      console.error("Remove member error:", err);
+      toast.error(leaving ? "Couldn't leave the trip" : "Couldn't remove them");
+    }
+  };
+
+  const revoke = async (invitation: TripInvitation) => {
+    try {
+      await revokeInvitation(invitation.id);
+      setInvitations((current) => current.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      console.error("Revoke invitation error:", err);
+      toast.error("Couldn't revoke the invitation");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="bg-card border-border max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            People on {trip.name}
+          </DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "Invite travel companions to add their scans and expenses, or just follow along."
+              : `You're ${role === "editor" ? "an editor" : "a viewer"} on this trip.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {people.map((person) => {
+                const isSelf = person.userId === user?.id;
+                return (
+                  <div key={person.id} className="flex items-center gap-2 rounded-lg bg-muted/40 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {person.displayName}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {person.userId ? ROLE_LABELS[person.role] : "Companion without an account"}
+                        {person.email && ` · ${person.email}`}
+                      </p>
+                    </div>
+                    {isOwner && person.userId && person.role !== "owner" && (
+                      <RoleSelect value={person.role as InvitableRole} onChange={(next) => changeRole(person, next)} />
+                    )}
+                    {person.role !== "owner" && (isOwner || isSelf) && person.userId && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 flex-shrink-0"
+                        onClick={() => remove(person)}
+                        title={isSelf ? "Leave trip" : "Remove from trip"}
+                      >
+                        {isSelf ? <LogOut className="h-4 w-4 text-destructive" /> : <Trash2 className="h-4 w-4 text-destructive" />}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {isOwner && (
+              <>
+                <div className="space-y-2 border-t border-border/50 pt-4">
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      placeholder="Email address"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="bg-background"
+                    />
+                    <RoleSelect value={inviteRole} onChange={setInviteRole} />
+                  </div>
+                  <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+                  <div className="flex gap-2">
+                    <Button className="flex-1 gap-2" onClick={() => invite(true)} disabled={isInviting || !email.trim()}>
+                      {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                      Invite by email
+                    </Button>
+                    <Button variant="outline" className="flex-1 gap-2" onClick={() => invite(false)} disabled={isInviting}>
+                      <Link2 className="h-4 w-4" />
+                      Invite link
+                    </Button>
+                  </div>
+                </div>
+
+                {invitations.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">Pending invitations</p>
+                    {invitations.map((invitation) => (
+                      <div key={invitation.id} className="flex items-center gap-2 rounded-lg border border-border/50 px-3 py-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm truncate">{invitation.email ?? "Anyone with the link"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {ROLE_LABELS[invitation.role]} · expires {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => copyLink(invitation)} title="Copy link">
+                          <Link2 className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => revoke(invitation)} title="Revoke">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
-import { Sparkles, Loader2, Map, Utensils, Luggage, Calendar, DollarSign, Save, Check } from "lucide-react";
+import { Sparkles, Loader2, Map, Utensils, Luggage, Calendar, DollarSign, Save, Check, X, CalendarDays } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -9,7 +10,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
+import { itineraryFromPlan } from "@/lib/itinerary";
 import { toast } from "sonner";
 import { useAIUsage } from "@/contexts/AIUsageContext";
 import { useAuth } from "@/contexts/AuthContext";
@@ -37,6 +41,8 @@ interface TravelPlan {
   };
 }
 
+type ItineraryDay = NonNullable<TravelPlan["itinerary"]>[number];
+
 interface Trip {
   id: string;
   name: string;
@@ -64,6 +70,52 @@ const interestOptions = [
   "Local Experience",
 ];
 
+// Also renders half-streamed days, so every section is optional.
+function DayCard({ day }: { day: Partial<ItineraryDay> }) {
+  return (
+    <Card className="bg-card/50">
+      <CardHeader className="py-3 px-4">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <span className="w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs">
+            {day.day}
+          </span>
+          {day.title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-2 text-sm">
+        {day.morning && (
+          <div>
+            <span className="text-muted-foreground text-xs">Morning:</span>
+            <p>{day.morning}</p>
+          </div>
+        )}
+        {day.afternoon && (
+          <div>
+            <span className="text-muted-foreground text-xs">Afternoon:</span>
+            <p>{day.afternoon}</p>
+          </div>
+        )}
+        {day.evening && (
+          <div>
+            <span className="text-muted-foreground text-xs">Evening:</span>
+            <p>{day.evening}</p>
+          </div>
+        )}
+        {day.tips && day.tips.length > 0 && (
+          <div className="mt-2 pt-2 border-t border-border/50">
+            <span className="text-muted-foreground text-xs">Tips:</span>
+            <ul className="list-disc list-inside text-xs mt-1">
+              {day.tips.map((tip, i) => (
+                <li key={i}>{tip}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function TripPlanner({ 
   destination: initialDestination, 
   tripId: initialTripId, 
@@ -73,14 +125,22 @@ export function TripPlanner({
 }: TripPlannerProps) {
   const { canUseAI, remaining, incrementUsage, isAuthenticated } = useAIUsage();
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [destination, setDestination] = useState(initialDestination || "");
   const [duration, setDuration] = useState("3");
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
+  // The trip the plan was saved to, for "Edit itinerary"
+  const [savedTripId, setSavedTripId] = useState<string | null>(null);
   const [plan, setPlan] = useState<TravelPlan | null>(null);
+  // The plan as it streams in; fields and days may still be incomplete.
+  const [draft, setDraft] = useState<Partial<TravelPlan> | null>(null);
   const [selectedTripId, setSelectedTripId] = useState(initialTripId || "new");
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const toggleInterest = (interest: string) => {
     setSelectedInterests(prev =>
@@ -111,6 +171,9 @@ export function TripPlanner({
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setDraft(null);
     setIsGenerating(true);
     try {
       const { data, error } = await invokeAI<{ plan: TravelPlan }>("plan-trip", {
@@ -120,8 +183,11 @@ export function TripPlanner({
           interests: selectedInterests,
           tripId: selectedTripId !== "new" ? selectedTripId : undefined,
         },
+        signal: controller.signal,
+        onPartial: (partial) => setDraft((partial as { plan?: Partial<TravelPlan> }).plan ?? null),
       });
 
+      if (error?.code === "aborted") return;
       if (error) throw error;
 
       setPlan(data.plan);
@@ -130,8 +196,10 @@ export function TripPlanner({
       toast.success("Travel plan generated!");
     } catch (err) {
       console.error("Error generating plan:", err);
-      toast.error("Failed to generate travel plan");
+      toast.error(describeAIError(err, "Failed to generate travel plan"));
     } finally {
+      abortRef.current = null;
+      setDraft(null);
       setIsGenerating(false);
     }
   };
@@ -142,23 +210,28 @@ export function TripPlanner({
       return;
     }
 
+    // The editable copy; ai_itinerary keeps the planner's original answer
+    const itinerary = plan.itinerary?.length ? itineraryFromPlan(plan.itinerary) : null;
+
     setIsSaving(true);
     try {
       if (selectedTripId === "new") {
         // Create a new trip with the plan
-        const { error } = await supabase.from("trips").insert({
+        const { data, error } = await supabase.from("trips").insert({
           user_id: user.id,
           name: `${destination} Trip`,
           destination,
           ai_overview: plan.overview,
           ai_best_time_to_visit: plan.bestTimeToVisit,
           ai_itinerary: plan.itinerary,
+          itinerary: itinerary as unknown as Json,
           ai_must_try: plan.mustTry,
           ai_packing_tips: plan.packingTips,
           ai_budget_estimate: plan.budgetEstimate,
-        });
+        }).select("id").single();
 
         if (error) throw error;
+        setSavedTripId(data.id);
         toast.success("Trip created and plan saved!");
       } else {
         // Update existing trip with the plan
@@ -169,6 +242,7 @@ export function TripPlanner({
             ai_overview: plan.overview,
             ai_best_time_to_visit: plan.bestTimeToVisit,
             ai_itinerary: plan.itinerary,
+            itinerary: itinerary as unknown as Json,
             ai_must_try: plan.mustTry,
             ai_packing_tips: plan.packingTips,
             ai_budget_estimate: plan.budgetEstimate,
@@ -176,6 +250,7 @@ export function TripPlanner({
           .eq("id", selectedTripId);
 
         if (error) throw error;
+        setSavedTripId(selectedTripId);
         toast.success("Plan saved to trip!");
       }
 
@@ -258,23 +333,47 @@ export function TripPlanner({
             </div>
           )}
 
-          <Button
-            onClick={generatePlan}
-            disabled={isGenerating || !destination.trim() || !canUseAI}
-            className="w-full h-12 bg-gradient-to-r from-primary to-accent"
-          >
-            {isGenerating ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Generating Plan...
-              </>
-            ) : (
-              <>
-                <Sparkles className="h-4 w-4 mr-2" />
-                Generate AI Travel Plan ({remaining} left)
-              </>
-            )}
-          </Button>
+          {isGenerating ? (
+            <Button
+              variant="outline"
+              onClick={() => abortRef.current?.abort()}
+              className="w-full h-12"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Stop generating
+            </Button>
+          ) : (
+            <Button
+              onClick={generatePlan}
+              disabled={!destination.trim() || !canUseAI}
+              className="w-full h-12 bg-gradient-to-r from-primary to-accent"
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Generate AI Travel Plan ({remaining} left)
+            </Button>
+          )}
+
+          {/* Streaming preview */}
+          {isGenerating && (
+            <div className="space-y-3">
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {draft?.itinerary?.length
+                  ? `Planning day ${draft.itinerary.length} of ${duration}...`
+                  : "Generating plan..."}
+              </p>
+              {draft?.overview && (
+                <Card className="bg-gradient-to-br from-primary/10 to-accent/10 border-primary/20">
+                  <CardContent className="pt-4">
+                    <p className="text-sm leading-relaxed">{draft.overview}</p>
+                  </CardContent>
+                </Card>
+              )}
+              {draft?.itinerary?.map((day, i) => (
+                <DayCard key={i} day={day} />
+              ))}
+            </div>
+          )}
         </motion.div>
       )}
 
@@ -321,40 +420,7 @@ export function TripPlanner({
 
             <TabsContent value="itinerary" className="space-y-3 mt-4">
               {plan.itinerary?.map((day) => (
-                <Card key={day.day} className="bg-card/50">
-                  <CardHeader className="py-3 px-4">
-                    <CardTitle className="text-sm flex items-center gap-2">
-                      <span className="w-6 h-6 bg-primary text-primary-foreground rounded-full flex items-center justify-center text-xs">
-                        {day.day}
-                      </span>
-                      {day.title}
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="px-4 pb-4 space-y-2 text-sm">
-                    <div>
-                      <span className="text-muted-foreground text-xs">Morning:</span>
-                      <p>{day.morning}</p>
-                    </div>
-                    <div>
-                      <span className="text-muted-foreground text-xs">Afternoon:</span>
-                      <p>{day.afternoon}</p>
-                    </div>
-                    <div>
-                      <span className="text-muted-foreground text-xs">Evening:</span>
-                      <p>{day.evening}</p>
-                    </div>
-                    {day.tips && day.tips.length > 0 && (
-                      <div className="mt-2 pt-2 border-t border-border/50">
-                        <span className="text-muted-foreground text-xs">Tips:</span>
-                        <ul className="list-disc list-inside text-xs mt-1">
-                          {day.tips.map((tip, i) => (
-                            <li key={i}>{tip}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
+                <DayCard key={day.day} day={day} />
               ))}
             </TabsContent>
 
@@ -429,11 +495,18 @@ export function TripPlanner({
                 {isSaved ? "Saved to Journal" : "Save to Journal"}
               </Button>
             )}
+            {isSaved && savedTripId && (
+              <Button variant="outline" onClick={() => navigate(`/journal/${savedTripId}/itinerary`)}>
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Edit itinerary
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={() => {
                 setPlan(null);
                 setIsSaved(false);
+                setSavedTripId(null);
               }}
               className={user ? "" : "w-full"}
             >
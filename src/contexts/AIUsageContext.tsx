@@ -1,10 +1,12 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
 import { useAuth } from "./AuthContext";
-import { supabase } from "@/integrations/supabase/client";
+import { isProxyMode } from "@/lib/openrouter";
+import { QUOTA_EVENT, fetchServerQuota, type AIQuota } from "@/lib/aiQuota";
 
+// Limits used only when there is no proxy to enforce them (local dev with
+// your own key or model). With the proxy, limits come from the server.
 const ANONYMOUS_LIMIT = 3;
 const AUTHENTICATED_LIMIT = 7;
-const SESSION_KEY = "worldlens_session_id";
 const LOCAL_USAGE_KEY = "worldlens_ai_usage_anonymous";
 
 interface UsageData {
@@ -20,28 +22,25 @@ interface AIUsageContextType {
   isLoading: boolean;
   incrementUsage: () => Promise<boolean>;
   checkUsage: () => { allowed: boolean; remaining: number };
-  sessionId: string;
+  refreshUsage: () => Promise<void>;
   isAuthenticated: boolean;
+  // True when the proxy counts calls and the numbers above are the server's.
+  serverEnforced: boolean;
+  resetAt: string | null;
 }
 
 const AIUsageContext = createContext<AIUsageContextType | undefined>(undefined);
 
-function getSessionId(): string {
-  if (typeof window === "undefined") return "";
-  let sessionId = localStorage.getItem(SESSION_KEY);
-  if (!sessionId) {
-    sessionId = crypto.randomUUID();
-    localStorage.setItem(SESSION_KEY, sessionId);
-  }
-  return sessionId;
+function localUsageKey(userId: string | undefined): string {
+  return userId ? `worldlens_ai_usage_${userId}` : LOCAL_USAGE_KEY;
 }
 
-// Local storage only for anonymous users
-function getLocalUsage(): UsageData {
+// Local storage counter for dev mode
+function getLocalUsage(userId?: string): UsageData {
   if (typeof window === "undefined") return { date: "", count: 0 };
   const today = new Date().toISOString().split("T")[0];
-  const stored = localStorage.getItem(LOCAL_USAGE_KEY);
-  
+  const stored = localStorage.getItem(localUsageKey(userId));
+
   if (stored) {
     try {
       const data = JSON.parse(stored) as UsageData;
@@ -52,23 +51,25 @@ function getLocalUsage(): UsageData {
       // Invalid data, reset
     }
   }
-  
+
   return { date: today, count: 0 };
 }
 
-function setLocalUsage(count: number): void {
+function setLocalUsage(count: number, userId?: string): void {
   if (typeof window === "undefined") return;
   const today = new Date().toISOString().split("T")[0];
-  localStorage.setItem(LOCAL_USAGE_KEY, JSON.stringify({ date: today, count }));
+  localStorage.setItem(localUsageKey(userId), JSON.stringify({ date: today, count }));
 }
 
 export function AIUsageProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [usageCount, setUsageCount] = useState(0);
+  const [serverLimit, setServerLimit] = useState<number | null>(null);
+  const [resetAt, setResetAt] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [sessionId] = useState(getSessionId);
+  const serverEnforced = isProxyMode();
 
-  const limit = user ? AUTHENTICATED_LIMIT : ANONYMOUS_LIMIT;
+  const limit = serverLimit ?? (user ? AUTHENTICATED_LIMIT : ANONYMOUS_LIMIT);
   const remaining = Math.max(0, limit - usageCount);
   const canUseAI = remaining > 0;
 
@@ -78,146 +79,81 @@ export function AIUsageProvider({ children }: { children: React.ReactNode }) {
     localStorage.removeItem("worldlens_ai_usage");
   }, []);
 
-  // Fetch usage from database for authenticated users, localStorage for anonymous
-  useEffect(() => {
-    const fetchUsage = async () => {
-      setIsLoading(true);
-      
-      if (user) {
-        // Authenticated user - fetch from database
-        const today = new Date().toISOString().split("T")[0];
-        
-        try {
-          const { data, error } = await supabase
-            .from("ai_usage")
-            .select("call_count")
-            .eq("user_id", user.id)
-            .eq("date", today)
-            .maybeSingle();
-          
-          if (error) {
-            console.error("Error fetching AI usage:", error);
-            // Default to 0 on error so user can still use AI
-            setUsageCount(0);
-          } else {
-            setUsageCount(data?.call_count || 0);
-          }
-        } catch (err) {
-          console.error("Exception fetching AI usage:", err);
-          setUsageCount(0);
-        }
+  const applyQuota = useCallback((quota: AIQuota) => {
+    setUsageCount(quota.used);
+    setServerLimit(quota.limit);
+    setResetAt(quota.resetAt);
+  }, []);
+
+  const refreshUsage = useCallback(async () => {
+    if (serverEnforced) {
+      const quota = await fetchServerQuota();
+      if (quota) {
+        applyQuota(quota);
       } else {
-        // Anonymous user - use localStorage
-        const usage = getLocalUsage();
-        setUsageCount(usage.count);
+        // Unknown; let the proxy decide on the next call.
+        setUsageCount(0);
+        setServerLimit(null);
       }
-      
-      setIsLoading(false);
-    };
+    } else {
+      setUsageCount(getLocalUsage(user?.id).count);
+    }
+  }, [serverEnforced, user, applyQuota]);
 
-    fetchUsage();
-  }, [user]);
+  // Load today's usage whenever the signed-in user changes
+  useEffect(() => {
+    setIsLoading(true);
+    refreshUsage().finally(() => setIsLoading(false));
+  }, [refreshUsage]);
+
+  // The proxy reports the new count with every AI response
+  useEffect(() => {
+    if (!serverEnforced) return;
+    const onQuota = (event: Event) => applyQuota((event as CustomEvent<AIQuota>).detail);
+    window.addEventListener(QUOTA_EVENT, onQuota);
+    return () => window.removeEventListener(QUOTA_EVENT, onQuota);
+  }, [serverEnforced, applyQuota]);
 
   const incrementUsage = useCallback(async (): Promise<boolean> => {
-    if (user) {
-      // Authenticated user - update database
-      const today = new Date().toISOString().split("T")[0];
-      
-      try {
-        // First check current usage
-        const { data: existingData, error: fetchError } = await supabase
-          .from("ai_usage")
-          .select("id, call_count")
-          .eq("user_id", user.id)
-          .eq("date", today)
-          .maybeSingle();
-        
-        if (fetchError) {
-          console.error("Error checking AI usage:", fetchError);
-        }
-        
-        const currentCount = existingData?.call_count || 0;
-        
-        if (currentCount >= AUTHENTICATED_LIMIT) {
-          return false;
-        }
-        
-        const newCount = currentCount + 1;
-        
-        if (existingData) {
-          // Update existing record
-          const { error } = await supabase
-            .from("ai_usage")
-            .update({ call_count: newCount, updated_at: new Date().toISOString() })
-            .eq("id", existingData.id);
-          
-          if (error) {
-            console.error("Error updating AI usage:", error);
-            // Allow usage on error to not block the user
-            setUsageCount(newCount);
-            return true;
-          }
-        } else {
-          // Insert new record
-          const { error } = await supabase
-            .from("ai_usage")
-            .insert({
-              user_id: user.id,
-              date: today,
-              call_count: 1
-            });
-          
-          if (error) {
-            console.error("Error inserting AI usage:", error);
-            // Allow usage on error to not block the user
-            setUsageCount(1);
-            return true;
-          }
-        }
-        
-        setUsageCount(newCount);
-        return true;
-      } catch (err) {
-        console.error("Exception in incrementUsage:", err);
-        // Allow usage on exception to not block the user
-        return true;
-      }
-    } else {
-      // Anonymous user - use localStorage
-      const currentUsage = getLocalUsage();
-      
-      if (currentUsage.count >= ANONYMOUS_LIMIT) {
-        return false;
-      }
+    if (serverEnforced) {
+      // The proxy counts the call itself and rejects it when over quota;
+      // here we only stop the user early when we already know they are out.
+      return usageCount < limit;
+    }
 
-      const newCount = currentUsage.count + 1;
-      setLocalUsage(newCount);
-      setUsageCount(newCount);
-      
-      return true;
+    const currentUsage = getLocalUsage(user?.id);
+    if (currentUsage.count >= limit) {
+      return false;
     }
-  }, [user, sessionId]);
+
+    const newCount = currentUsage.count + 1;
+    setLocalUsage(newCount, user?.id);
+    setUsageCount(newCount);
+    return true;
+  }, [serverEnforced, usageCount, limit, user]);
 
   const checkUsage = useCallback((): { allowed: boolean; remaining: number } => {
     const currentRemaining = Math.max(0, limit - usageCount);
-    return { 
-      allowed: usageCount < limit, 
-      remaining: currentRemaining 
+    return {
+      allowed: usageCount < limit,
+      remaining: currentRemaining
     };
   }, [limit, usageCount]);
 
   return (
-    <AIUsageContext.Provider 
-      value={{ 
-        usageCount, 
-        limit, 
-        remaining, 
-        canUseAI, 
-        isLoading, 
-        incrementUsage, 
+    <AIUsageContext.Provider
+      value={{
+        usageCount,
+        limit,
+        remaining,
+        canUseAI,
+        isLoading,
+        incrementUsage,
         checkUsage,
-        sessionId,
-        isAuthenticated: !!user 
+        refreshUsage,
+        isAuthenticated: !!user,
+        serverEnforced,
+        resetAt,
       }}
     >
       {children}
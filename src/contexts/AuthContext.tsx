@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { migrateLocalSavedPlaces } from "@/lib/savedPlaces";
 
 interface AuthContextType {
   user: User | null;
@@ -13,6 +14,12 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Bookmarks made while signed out move into the account
+function adoptLocalData(user: User | null) {
+  if (!user) return;
+  migrateLocalSavedPlaces(user.id).catch((error) => console.error("Saved places migration failed:", error));
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -25,6 +32,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         setIsLoading(false);
+        // Deferred: Supabase calls made inside this callback can deadlock
+        if (event === "SIGNED_IN") setTimeout(() => adoptLocalData(session?.user ?? null), 0);
       }
     );
 
@@ -33,6 +42,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setSession(session);
       setUser(session?.user ?? null);
       setIsLoading(false);
+      adoptLocalData(session?.user ?? null);
     });
 
     return () => subscription.unsubscribe();
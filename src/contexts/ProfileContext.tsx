@@ -17,6 +17,10 @@ interface Profile {
   preferred_language: string;
   preferred_currency: string;
   notification_preferences: NotificationPreferences;
+  allergens: string[];
+  diets: string[];
+  food_dislikes: string[];
+  allergy_severe: boolean;
   created_at: string;
   updated_at: string;
 }
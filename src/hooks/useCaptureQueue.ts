@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAIUsage } from '@/contexts/AIUsageContext';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { getCaptures, isOnline, type CapturedPhoto } from '@/lib/offlineStorage';
+import { CAPTURE_EVENT, processCaptureQueue, type ProcessedCapture } from '@/lib/captureQueue';
+
+export function useCaptureQueue() {
+  const { user } = useAuth();
+  const { incrementUsage } = useAIUsage();
+  const { showNotification } = usePushNotifications();
+  const [captures, setCaptures] = useState<CapturedPhoto[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const refreshCaptures = useCallback(async () => {
+    try {
+      setCaptures(await getCaptures());
+    } catch (error) {
+      console.error('Failed to read capture queue:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCaptures();
+    window.addEventListener(CAPTURE_EVENT, refreshCaptures);
+    return () => window.removeEventListener(CAPTURE_EVENT, refreshCaptures);
+  }, [refreshCaptures]);
+
+  // A system notification when allowed (the app may be in the background
+  // by the time the connection returns), a toast otherwise.
+  const announce = useCallback(async ({ capture, title, body }: ProcessedCapture) => {
+    const shown = await showNotification(title, { body, tag: `capture-${capture.id}` });
+    if (!shown) toast.success(title, { description: body });
+  }, [showNotification]);
+
+  const processNow = useCallback(async () => {
+    if (!user || !isOnline()) return;
+
+    setIsProcessing(true);
+    try {
+      await processCaptureQueue(user.id, {
+        beforeEach: incrementUsage,
+        onProcessed: announce,
+      });
+    } catch (error) {
+      console.error('Processing captures failed:', error);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [user, incrementUsage, announce]);
+
+  // Run when the connection comes back, and for anything left from before
+  useEffect(() => {
+    window.addEventListener('online', processNow);
+    return () => window.removeEventListener('online', processNow);
+  }, [processNow]);
+
+  const hasQueued = captures.some((capture) => capture.status === 'queued');
+  useEffect(() => {
+    if (hasQueued) processNow();
+  }, [hasQueued, processNow]);
+
+  return {
+    captures,
+    isProcessing,
+    processNow,
+  };
+}
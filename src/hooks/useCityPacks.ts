@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  PACKS_EVENT,
+  downloadCityPack,
+  listCityPacks,
+  packIdFor,
+  refreshCityPack,
+  removeCityPack,
+  type CityPack,
+  type PackDestination,
+  type PackProgress,
+} from '@/lib/cityPacks';
+
+// One toast follows a download from Map or Settings through to the end
+const PACK_TOAST_ID = 'city-pack';
+
+export function useCityPacks() {
+  const [packs, setPacks] = useState<CityPack[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refreshList = useCallback(async () => {
+    try {
+      setPacks(await listCityPacks());
+    } catch (error) {
+      console.error('Failed to read city packs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshList();
+    window.addEventListener(PACKS_EVENT, refreshList);
+    return () => window.removeEventListener(PACKS_EVENT, refreshList);
+  }, [refreshList]);
+
+  const run = useCallback(async (id: string, name: string, task: (onProgress: (progress: PackProgress) => void) => Promise<CityPack>) => {
+    setBusyId(id);
+    toast.loading(`Downloading ${name}…`, { id: PACK_TOAST_ID });
+    try {
+      const pack = await task(({ label, fraction }) => {
+        toast.loading(`Downloading ${name} · ${Math.round(fraction * 100)}%`, {
+          id: PACK_TOAST_ID,
+          description: label,
+        });
+      });
+      toast.success(`${pack.name} is ready offline`, { id: PACK_TOAST_ID, description: undefined });
+      return pack;
+    } catch (error) {
+      toast.error((error as Error).message || `Couldn't download ${name}`, { id: PACK_TOAST_ID, description: undefined });
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  }, []);
+
+  const download = useCallback(
+    (destination: PackDestination) =>
+      run(packIdFor(destination.name), destination.name, (onProgress) => downloadCityPack(destination, onProgress)),
+    [run]
+  );
+
+  const refresh = useCallback(
+    (pack: CityPack) => run(pack.id, pack.name, (onProgress) => refreshCityPack(pack, onProgress)),
+    [run]
+  );
+
+  const remove = useCallback(async (pack: CityPack) => {
+    try {
+      await removeCityPack(pack.id);
+      toast.success(`Removed ${pack.name}`);
+    } catch (error) {
+      console.error('Failed to remove city pack:', error);
+      toast.error(`Couldn't remove ${pack.name}`);
+    }
+  }, []);
+
+  return {
+    packs,
+    isLoading,
+    busyId,
+    isDownloading: busyId !== null,
+    download,
+    refresh,
+    remove,
+  };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { invokeAI } from "@/lib/aiInvoke";
+import { offlineRates } from "@/lib/cityPacks";
 
 interface ExchangeRatesState {
   rates: Record<string, number>;
@@ -38,6 +39,9 @@ async function loadRates(base: string): Promise<RatesPayload> {
       ratesCache.set(base, { rates: data.rates, base: data.base, at: Date.now() });
       return { success: true, rates: data.rates, base: data.base };
     }
+    // Rates saved with a city pack are better than nothing when offline
+    const saved = await offlineRates(base);
+    if (saved) return { success: true, rates: saved, base };
     return { success: false, rates: {}, base, error: data?.error || "Failed to fetch rates" };
   })();
 
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAIUsage } from '@/contexts/AIUsageContext';
+import { invokeAI } from '@/lib/aiInvoke';
+import type { TranslateLinesResult } from '@/lib/aiSchemas';
+import { getLanguageName } from '@/lib/languages';
+import {
+  STILL_FRAME_THRESHOLD,
+  createOcrEngine,
+  frameDifference,
+  trackRegions,
+  type LiveRegion,
+  type OcrEngine,
+} from '@/lib/liveOcr';
+import { cacheTranslation, getCachedTranslation, isOnline } from '@/lib/offlineStorage';
+import { CAMERA_BLOCKED_HELP } from '@/lib/permissions';
+
+export type LiveStatus = 'loading' | 'scanning' | 'error';
+
+// Pause between the end of one recognition pass and the next frame
+const FRAME_INTERVAL_MS = 1000;
+// Frames are scaled down to this width before recognition
+const CAPTURE_WIDTH = 960;
+// Size of the thumbnail compared between frames to spot a still camera
+const THUMB_WIDTH = 32;
+const THUMB_HEIGHT = 24;
+
+// Camera preview with the text in it recognized on the device, refreshed
+// about once a second while `active`. Lines new to a pass are translated
+// together in one AI call, which counts against the daily AI limit.
+export function useLiveTranslate(sourceLang: string, targetLang: string, active: boolean) {
+  const usage = useAIUsage();
+  // Read through a ref so a new count doesn't restart the recognition loop
+  const usageRef = useRef(usage);
+  usageRef.current = usage;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const engineRef = useRef<OcrEngine | null>(null);
+  const regionsRef = useRef<LiveRegion[]>([]);
+  const translationsRef = useRef(new Map<string, string>());
+  const lastThumbRef = useRef<Uint8ClampedArray | null>(null);
+  const [regions, setRegions] = useState<LiveRegion[]>([]);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const [engineReady, setEngineReady] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [aiError, setAIError] = useState<string | null>(null);
+
+  const error = cameraError ?? engineError;
+  const status: LiveStatus = error ? 'error' : engineReady ? 'scanning' : 'loading';
+
+  const showRegions = useCallback((next: LiveRegion[]) => {
+    regionsRef.current = next;
+    setRegions(next);
+  }, []);
+
+  // Camera
+  useEffect(() => {
+    if (!active) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    setCameraError(null);
+    setPaused(false);
+    if (!navigator.mediaDevices) {
+      setCameraError("The camera isn't available in this browser.");
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 } }, audio: false })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play().catch(() => undefined);
+        }
+      })
+      .catch((err: DOMException) => {
+        setCameraError(err?.name === 'NotAllowedError' ? CAMERA_BLOCKED_HELP : "The camera isn't available on this device.");
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+      showRegions([]);
+      lastThumbRef.current = null;
+    };
+  }, [active, showRegions]);
+
+  // Text engine for the source language
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    let engine: OcrEngine | null = null;
+
+    setEngineReady(false);
+    setEngineError(null);
+    createOcrEngine(sourceLang)
+      .then((created) => {
+        engine = created;
+        if (cancelled) {
+          created.terminate();
+          return;
+        }
+        engineRef.current = created;
+        lastThumbRef.current = null;
+        setEngineReady(true);
+      })
+      .catch((err) => {
+        console.error('Failed to load text recognition:', err);
+        setEngineError('Text recognition needs a connection the first time it runs.');
+      });
+
+    return () => {
+      cancelled = true;
+      engineRef.current = null;
+      engine?.terminate();
+    };
+  }, [active, sourceLang]);
+
+  // A new target language invalidates every translation on screen
+  useEffect(() => {
+    translationsRef.current = new Map();
+    lastThumbRef.current = null;
+    setAIError(null);
+    showRegions([]);
+  }, [targetLang, sourceLang, showRegions]);
+
+  const translateRegions = useCallback(
+    async (changed: LiveRegion[]) => {
+      const found = new Map<string, string>();
+      const missing: string[] = [];
+      for (const { text } of changed) {
+        const translation =
+          translationsRef.current.get(text) ??
+          (await getCachedTranslation(text, sourceLang, targetLang).catch(() => null));
+        if (translation) found.set(text, translation);
+        else if (!missing.includes(text)) missing.push(text);
+      }
+
+      if (missing.length > 0 && isOnline()) {
+        const { incrementUsage, isAuthenticated } = usageRef.current;
+        const limitReached = isAuthenticated
+          ? 'Daily AI limit reached. New text will be translated again tomorrow.'
+          : 'Daily AI limit reached. Sign in for more AI calls.';
+        if (!(await incrementUsage())) {
+          setAIError(limitReached);
+        } else {
+          const { data, error } = await invokeAI<TranslateLinesResult>('translate-lines', {
+            body: { lines: missing, targetLanguage: getLanguageName(targetLang) },
+          });
+          if (error) {
+            console.error('Live translation failed:', error);
+            setAIError(error.code === 'quota_exceeded' ? limitReached : "Couldn't translate the new text.");
+          } else {
+            setAIError(null);
+            data.translations.forEach((translation, i) => {
+              found.set(missing[i], translation);
+              cacheTranslation(missing[i], translation, sourceLang, targetLang).catch(() => undefined);
+            });
+          }
+        }
+      }
+      if (found.size === 0) return;
+
+      found.forEach((translation, text) => translationsRef.current.set(text, translation));
+      showRegions(
+        regionsRef.current.map((r) =>
+          r.translation === null && found.has(r.text) ? { ...r, translation: found.get(r.text) } : r
+        )
+      );
+    },
+    [sourceLang, targetLang, showRegions]
+  );
+
+  // Recognition loop
+  useEffect(() => {
+    if (!active || paused || status !== 'scanning') return;
+    const frame = document.createElement('canvas');
+    const thumb = document.createElement('canvas');
+    thumb.width = THUMB_WIDTH;
+    thumb.height = THUMB_HEIGHT;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const pass = async () => {
+      const video = videoRef.current;
+      const engine = engineRef.current;
+      if (video && engine && video.readyState >= 2 && video.videoWidth > 0) {
+        const scale = Math.min(1, CAPTURE_WIDTH / video.videoWidth);
+        frame.width = Math.round(video.videoWidth * scale);
+        frame.height = Math.round(video.videoHeight * scale);
+
+        const thumbContext = thumb.getContext('2d', { willReadFrequently: true });
+        thumbContext.drawImage(video, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+        const pixels = thumbContext.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT).data;
+        const still =
+          lastThumbRef.current !== null && frameDifference(pixels, lastThumbRef.current) < STILL_FRAME_THRESHOLD;
+
+        if (!still) {
+          lastThumbRef.current = pixels;
+          frame.getContext('2d').drawImage(video, 0, 0, frame.width, frame.height);
+          try {
+            const found = await engine.recognize(frame);
+            if (stopped) return;
+            const { regions: next, changed } = trackRegions(regionsRef.current, found);
+            setFrameSize({ width: frame.width, height: frame.height });
+            showRegions(next);
+            if (changed.length > 0) {
+              translateRegions(changed).catch((err) => console.error('Live translation failed:', err));
+            }
+          } catch (err) {
+            console.error('Text recognition failed:', err);
+          }
+        }
+      }
+      if (!stopped) timer = window.setTimeout(pass, FRAME_INTERVAL_MS);
+    };
+    timer = window.setTimeout(pass, 0);
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [active, paused, status, translateRegions, showRegions]);
+
+  // Freezing holds the picture so the overlay can be read
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !active) return;
+    if (paused) video.pause();
+    else video.play().catch(() => undefined);
+  }, [paused, active]);
+
+  return { videoRef, regions, frameSize, status, error, aiError, paused, setPaused };
+}
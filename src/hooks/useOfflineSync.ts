@@ -1,38 +1,87 @@
-import { useEffect, useState, useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { 
   initOfflineDB, 
   getPendingOperations, 
-  clearPendingOperation,
   cacheScan,
+  cacheTrips,
   getCachedScans,
-  isOnline 
+  isOnline,
+  type CachedTrip,
+  type PendingOperation,
 } from '@/lib/offlineStorage';
+import { OUTBOX_EVENT, syncOutbox, type SyncSummary } from '@/lib/syncOutbox';
 import { toast } from 'sonner';
 
+// Several components use this hook at once; a fixed toast id keeps one
+// sync run from announcing itself twice.
+const SYNC_TOAST_ID = 'offline-sync';
+const CONNECTION_TOAST_ID = 'offline-connection';
+
+function announce(summary: SyncSummary) {
+  if (summary.conflicts > 0) {
+    toast.warning(
+      `${summary.conflicts} change${summary.conflicts > 1 ? 's' : ''} conflict with newer edits. Review them in the sync panel.`,
+      { id: SYNC_TOAST_ID }
+    );
+  } else if (summary.synced > 0) {
+    toast.success(`${summary.synced} offline change${summary.synced > 1 ? 's' : ''} synced`, { id: SYNC_TOAST_ID });
+  }
+}
+
 export function useOfflineSync() {
   const { user } = useAuth();
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [pendingCount, setPendingCount] = useState(0);
+  const [operations, setOperations] = useState<PendingOperation[]>([]);
+
+  const refreshOperations = useCallback(async () => {
+    try {
+      setOperations(await getPendingOperations());
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+    }
+  }, []);
 
   // Initialize IndexedDB
   useEffect(() => {
     initOfflineDB().catch(console.error);
   }, []);
 
+  // Keep every instance in step with the queue
+  useEffect(() => {
+    refreshOperations();
+    window.addEventListener(OUTBOX_EVENT, refreshOperations);
+    return () => window.removeEventListener(OUTBOX_EVENT, refreshOperations);
+  }, [refreshOperations]);
+
+  const runSync = useCallback(async (retryNow: boolean) => {
+    if (!user || !isOnline()) return;
+
+    setIsSyncing(true);
+    try {
+      announce(await syncOutbox({ retryNow }));
+    } catch (error) {
+      console.error('Sync failed:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [user]);
+
+  // Manual "Sync now": also retries operations that are backing off or gave up
+  const syncPendingOperations = useCallback(() => runSync(true), [runSync]);
+
   // Listen for online/offline events
   useEffect(() => {
     const handleOnline = () => {
       setIsOffline(false);
-      toast.success('Back online! Syncing data...');
-      syncPendingOperations();
+      toast.success('Back online! Syncing data...', { id: CONNECTION_TOAST_ID });
+      runSync(false);
     };
 
     const handleOffline = () => {
       setIsOffline(true);
-      toast.warning('You are offline. Changes will sync when connected.');
+      toast.warning('You are offline. Changes will sync when connected.', { id: CONNECTION_TOAST_ID });
     };
 
     window.addEventListener('online', handleOnline);
@@ -42,44 +91,27 @@ export function useOfflineSync() {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
-
-  // Sync pending operations when coming back online
-  const syncPendingOperations = useCallback(async () => {
-    if (!user || !isOnline()) return;
+  }, [runSync]);
 
-    setIsSyncing(true);
-    try {
-      const pending = await getPendingOperations();
-      setPendingCount(pending.length);
-
-      for (const op of pending) {
-        try {
-          if (op.table === 'scan_entries') {
-            if (op.type === 'update') {
-              const { id, ...updateData } = op.data as { id: string; [key: string]: unknown };
-              await supabase
-                .from('scan_entries')
-                .update(updateData)
-                .eq('id', id);
-            }
-          }
-          await clearPendingOperation(op.id);
-          setPendingCount(prev => prev - 1);
-        } catch (error) {
-          console.error('Failed to sync operation:', error);
-        }
-      }
+  // Flush anything left over from a previous session once signed in
+  useEffect(() => {
+    runSync(false);
+  }, [runSync]);
 
-      if (pending.length > 0) {
-        toast.success('Offline changes synced successfully!');
-      }
-    } catch (error) {
-      console.error('Sync failed:', error);
-    } finally {
-      setIsSyncing(false);
-    }
-  }, [user]);
+  // Wake up for the next scheduled retry
+  useEffect(() => {
+    const now = Date.now();
+    const retries = operations
+      .filter((op) => op.status === 'pending' && op.nextAttemptAt > now)
+      .map((op) => op.nextAttemptAt);
+    if (retries.length === 0) return;
+    const delay = Math.min(...retries) - now;
+    const timer = window.setTimeout(() => runSync(false), delay);
+    return () => window.clearTimeout(timer);
+  }, [operations, runSync]);
+
+  const pendingCount = useMemo(() => operations.filter((op) => op.status !== 'conflict').length, [operations]);
+  const conflictCount = operations.length - pendingCount;
 
   // Cache scans from server for offline access
   const cacheScansForOffline = useCallback(async (scans: Array<{
@@ -91,6 +123,9 @@ export function useOfflineSync() {
     image_url: string | null;
     extracted_text: string | null;
     ai_analysis: Record<string, unknown> | null;
+    notes?: string | null;
+    tips?: string[] | null;
+    trip_id?: string | null;
     is_favorite: boolean;
     created_at: string;
   }>) => {
@@ -118,22 +153,29 @@ export function useOfflineSync() {
     }
   }, []);
 
+  // Cache trips so the journal can still be searched offline
+  const cacheTripsForOffline = useCallback(async (trips: CachedTrip[]) => {
+    try {
+      await cacheTrips(trips);
+    } catch (error) {
+      console.error('Failed to cache trips:', error);
+    }
+  }, []);
+
   // Get cached scans when offline
   const getOfflineScans = useCallback(async () => {
     return getCachedScans();
   }, []);
 
-  // Check pending operations count
-  useEffect(() => {
-    getPendingOperations().then(ops => setPendingCount(ops.length)).catch(() => {});
-  }, []);
-
   return {
     isOffline,
     isSyncing,
+    operations,
     pendingCount,
+    conflictCount,
     syncPendingOperations,
     cacheScansForOffline,
+    cacheTripsForOffline,
     getOfflineScans,
   };
 }
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { OUTBOX_EVENT, describeSave } from '@/lib/syncOutbox';
+import {
+  PHRASEBOOK_EVENT,
+  cachePhraseTranslations,
+  createPhrase,
+  deletePhrase,
+  fetchPhrases,
+  updatePhrase,
+  type NewPhrase,
+  type Phrase,
+  type PhrasePatch,
+} from '@/lib/phrasebook';
+
+// The signed-in user's phrasebook, kept fresh across the outbox syncing and
+// edits made elsewhere on this device.
+export function usePhrasebook() {
+  const { user } = useAuth();
+  const [phrases, setPhrases] = useState<Phrase[]>([]);
+  const [unsyncedIds, setUnsyncedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setPhrases([]);
+      setUnsyncedIds(new Set());
+      setIsLoading(false);
+      return;
+    }
+    try {
+      const result = await fetchPhrases(user.id);
+      setPhrases(result.phrases);
+      setUnsyncedIds(result.unsyncedIds);
+      // Phrases saved on another device work offline here too
+      if (!result.fromCache) cachePhraseTranslations(result.phrases);
+    } catch (error) {
+      console.error('Failed to load phrasebook:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(PHRASEBOOK_EVENT, refresh);
+    window.addEventListener(OUTBOX_EVENT, refresh);
+    return () => {
+      window.removeEventListener(PHRASEBOOK_EVENT, refresh);
+      window.removeEventListener(OUTBOX_EVENT, refresh);
+    };
+  }, [refresh]);
+
+  const save = useCallback(async (phrase: NewPhrase) => {
+    if (!user) {
+      toast.info('Sign in to keep a phrasebook');
+      return false;
+    }
+    const text = phrase.text.trim().toLowerCase();
+    if (phrases.some((p) => p.language === phrase.language && p.text.trim().toLowerCase() === text)) {
+      toast.info('Already in your phrasebook');
+      return false;
+    }
+    try {
+      toast.success(describeSave(await createPhrase(user.id, phrase), 'Saved to phrasebook'));
+      return true;
+    } catch (error) {
+      toast.error((error as Error).message || "Couldn't save this phrase");
+      return false;
+    }
+  }, [phrases, user]);
+
+  const update = useCallback(async (phrase: Phrase, patch: PhrasePatch) => {
+    try {
+      const result = await updatePhrase(phrase, patch);
+      if (result !== 'saved') toast.info(describeSave(result, 'Phrase updated'));
+    } catch (error) {
+      toast.error((error as Error).message || "Couldn't update this phrase");
+    }
+  }, []);
+
+  const remove = useCallback(async (phrase: Phrase) => {
+    try {
+      toast.success(describeSave(await deletePhrase(phrase), 'Removed from phrasebook'));
+    } catch (error) {
+      toast.error((error as Error).message || "Couldn't remove this phrase");
+    }
+  }, []);
+
+  return { phrases, unsyncedIds, isLoading, isSignedIn: !!user, save, update, remove, refresh };
+}
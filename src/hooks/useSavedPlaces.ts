@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { OUTBOX_EVENT, describeSave } from '@/lib/syncOutbox';
+import {
+  SAVED_PLACES_EVENT,
+  createSavedPlace,
+  deleteSavedPlace,
+  fetchSavedPlaces,
+  keyOfSaved,
+  localToSaved,
+  readLocalSavedPlaces,
+  savedPlaceKey,
+  updateSavedPlace,
+  writeLocalSavedPlaces,
+  type NewSavedPlace,
+  type SavedPlace,
+  type SavedPlacePatch,
+} from '@/lib/savedPlaces';
+
+// Saved places for whoever is using the app: the account's synced list when
+// signed in, this browser's list otherwise.
+export function useSavedPlaces() {
+  const { user } = useAuth();
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  const [unsyncedIds, setUnsyncedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setPlaces(readLocalSavedPlaces().map(localToSaved));
+      setUnsyncedIds(new Set());
+      setIsLoading(false);
+      return;
+    }
+    try {
+      const result = await fetchSavedPlaces(user.id);
+      setPlaces(result.places);
+      setUnsyncedIds(result.unsyncedIds);
+    } catch (error) {
+      console.error('Failed to load saved places:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(SAVED_PLACES_EVENT, refresh);
+    window.addEventListener(OUTBOX_EVENT, refresh);
+    return () => {
+      window.removeEventListener(SAVED_PLACES_EVENT, refresh);
+      window.removeEventListener(OUTBOX_EVENT, refresh);
+    };
+  }, [refresh]);
+
+  const save = useCallback(async (place: NewSavedPlace) => {
+    const key = savedPlaceKey(place);
+    if (places.some((p) => keyOfSaved(p) === key)) {
+      toast.info('Already saved');
+      return;
+    }
+
+    if (!user) {
+      const local = readLocalSavedPlaces();
+      writeLocalSavedPlaces([
+        { id: key, name: place.name, lat: place.lat, lng: place.lng, type: place.type || 'place', icon: place.icon || '📍' },
+        ...local,
+      ]);
+      toast.success('Saved');
+      return;
+    }
+
+    try {
+      toast.success(describeSave(await createSavedPlace(user.id, place), 'Saved'));
+    } catch (error) {
+      toast.error((error as Error).message || "Couldn't save this place");
+    }
+  }, [places, user]);
+
+  const update = useCallback(async (place: SavedPlace, patch: SavedPlacePatch, savedMessage = 'Place updated') => {
+    if (!user) {
+      toast.info('Sign in to add notes and trips to saved places');
+      return;
+    }
+    try {
+      toast.success(describeSave(await updateSavedPlace(place, patch), savedMessage));
+    } catch (error) {
+      toast.error((error as Error).message || "Couldn't update this place");
+    }
+  }, [user]);
+
+  const remove = useCallback(async (place: SavedPlace) => {
+    if (!user) {
+      writeLocalSavedPlaces(readLocalSavedPlaces().filter((p) => (p.id || savedPlaceKey(p)) !== place.id));
+      return;
+    }
+    try {
+      toast.success(describeSave(await deleteSavedPlace(place), 'Removed from saved places'));
+    } catch (error) {
+      toast.error((error as Error).message || "Couldn't remove this place");
+    }
+  }, [user]);
+
+  return { places, unsyncedIds, isLoading, isSignedIn: !!user, save, update, remove, refresh };
+}
@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type TripRealtimeTable = 'scan_entries' | 'spending_records';
+
+export interface TripChange {
+  table: TripRealtimeTable;
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  /** The new row, or for deletes what Realtime sends of the old one (at least its id) */
+  record: Record<string, unknown>;
+  /** Made by someone else on the trip, not this user */
+  fromOthers: boolean;
+}
+
+// Changes arriving together (a receipt with several items) are handed over
+// as one batch, so pages refetch once.
+const BATCH_MS = 500;
+// Realtime's `in` filter takes at most 100 values.
+const MAX_TRIPS = 100;
+
+// Scans and expenses filed under the given trips, as members add, edit or
+// delete them. Realtime only delivers rows the user's select policies allow
+// (0010_trip_collaboration.sql).
+export function useTripRealtime(
+  tripIds: string[],
+  onChanges: (changes: TripChange[]) => void,
+  tables: TripRealtimeTable[] = ['scan_entries', 'spending_records']
+) {
+  const { user } = useAuth();
+  const onChangesRef = useRef(onChanges);
+  onChangesRef.current = onChanges;
+
+  const ids = Array.from(new Set(tripIds)).sort().slice(0, MAX_TRIPS).join(',');
+  const tableKey = tables.join(',');
+
+  useEffect(() => {
+    if (!user || !ids) return;
+
+    let pending: TripChange[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+      timer = null;
+      const batch = pending;
+      pending = [];
+      if (batch.length > 0) onChangesRef.current(batch);
+    };
+
+    let channel = supabase.channel(`trip-changes:${user.id}:${tableKey}:${ids}`);
+    for (const table of tableKey.split(',') as TripRealtimeTable[]) {
+      channel = channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `trip_id=in.(${ids})` },
+        (payload) => {
+          const record = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Record<string, unknown>;
+          pending.push({
+            table,
+            event: payload.eventType,
+            record,
+            fromOthers: record.user_id !== undefined && record.user_id !== user.id,
+          });
+          if (!timer) timer = setTimeout(flush, BATCH_MS);
+        }
+      );
+    }
+    channel.subscribe((status) => {
+      if (status === 'CHANNEL_ERROR') console.warn('Trip updates unavailable; changes show up on the next refresh.');
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [user, ids, tableKey]);
+}
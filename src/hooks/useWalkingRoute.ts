@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getWalkingRoute, type LatLng, type WalkingRoute } from '@/lib/routing';
+
+export interface RouteDestination extends LatLng {
+  name: string;
+}
+
+// Walking directions from the current position to one destination at a time
+export function useWalkingRoute() {
+  const [destination, setDestination] = useState<RouteDestination | null>(null);
+  const [route, setRoute] = useState<WalkingRoute | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const clear = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setDestination(null);
+    setRoute(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  const start = useCallback(async (from: LatLng, to: RouteDestination) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setDestination(to);
+    setRoute(null);
+    setError(null);
+    setIsLoading(true);
+    try {
+      const next = await getWalkingRoute(from, to, controller.signal);
+      if (controllerRef.current === controller) setRoute(next);
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') return;
+      if (controllerRef.current === controller) setError((err as Error).message || "Couldn't find a walking route");
+    } finally {
+      if (controllerRef.current === controller) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { destination, route, isLoading, error, start, clear };
+}
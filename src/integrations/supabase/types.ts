@@ -14,6 +14,21 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_role_limits: {
+        Row: {
+          daily_limit: number
+          role: string
+        }
+        Insert: {
+          daily_limit: number
+          role: string
+        }
+        Update: {
+          daily_limit?: number
+          role?: string
+        }
+        Relationships: []
+      }
       ai_usage: {
         Row: {
           call_count: number
@@ -44,11 +59,68 @@ export type Database = {
         }
         Relationships: []
       }
+      phrases: {
+        Row: {
+          category: string
+          created_at: string
+          id: string
+          language: string
+          pinned: boolean
+          pronunciation: string | null
+          source_language: string
+          text: string
+          translation: string
+          trip_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          id?: string
+          language: string
+          pinned?: boolean
+          pronunciation?: string | null
+          source_language?: string
+          text: string
+          translation: string
+          trip_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          id?: string
+          language?: string
+          pinned?: boolean
+          pronunciation?: string | null
+          source_language?: string
+          text?: string
+          translation?: string
+          trip_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phrases_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          allergens: string[]
+          allergy_severe: boolean
           avatar_url: string | null
           created_at: string
+          diets: string[]
           display_name: string | null
+          food_dislikes: string[]
           home_country: string | null
           id: string
           notification_preferences: Json | null
@@ -58,9 +130,13 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          allergens?: string[]
+          allergy_severe?: boolean
           avatar_url?: string | null
           created_at?: string
+          diets?: string[]
           display_name?: string | null
+          food_dislikes?: string[]
           home_country?: string | null
           id?: string
           notification_preferences?: Json | null
@@ -70,9 +146,13 @@ export type Database = {
           user_id: string
         }
         Update: {
+          allergens?: string[]
+          allergy_severe?: boolean
           avatar_url?: string | null
           created_at?: string
+          diets?: string[]
           display_name?: string | null
+          food_dislikes?: string[]
           home_country?: string | null
           id?: string
           notification_preferences?: Json | null
@@ -83,6 +163,68 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_places: {
+        Row: {
+          address: string | null
+          created_at: string
+          icon: string | null
+          id: string
+          latitude: number
+          longitude: number
+          name: string
+          notes: string | null
+          place_type: string | null
+          tags: string[]
+          trip_id: string | null
+          updated_at: string
+          user_id: string
+          visited: boolean
+          visited_on: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          icon?: string | null
+          id?: string
+          latitude: number
+          longitude: number
+          name: string
+          notes?: string | null
+          place_type?: string | null
+          tags?: string[]
+          trip_id?: string | null
+          updated_at?: string
+          user_id: string
+          visited?: boolean
+          visited_on?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          icon?: string | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          name?: string
+          notes?: string | null
+          place_type?: string | null
+          tags?: string[]
+          trip_id?: string | null
+          updated_at?: string
+          user_id?: string
+          visited?: boolean
+          visited_on?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_places_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scan_entries: {
         Row: {
           ai_analysis: Json | null
@@ -99,8 +241,10 @@ export type Database = {
           name: string | null
           notes: string | null
           prices: Json | null
+          search_vector: unknown | null
           tips: string[] | null
           trip_id: string | null
+          updated_at: string
           user_id: string
           warnings: string[] | null
         }
@@ -119,8 +263,10 @@ export type Database = {
           name?: string | null
           notes?: string | null
           prices?: Json | null
+          search_vector?: unknown | null
           tips?: string[] | null
           trip_id?: string | null
+          updated_at?: string
           user_id: string
           warnings?: string[] | null
         }
@@ -139,8 +285,10 @@ export type Database = {
           name?: string | null
           notes?: string | null
           prices?: Json | null
+          search_vector?: unknown | null
           tips?: string[] | null
           trip_id?: string | null
+          updated_at?: string
           user_id?: string
           warnings?: string[] | null
         }
@@ -165,7 +313,12 @@ export type Database = {
           location_name: string | null
           merchant: string | null
           notes: string | null
+          paid_by_member_id: string | null
           scan_entry_id: string | null
+          split_shares: Json | null
+          split_type: string | null
+          trip_id: string | null
+          updated_at: string
           user_id: string
         }
         Insert: {
@@ -178,7 +331,12 @@ export type Database = {
           location_name?: string | null
           merchant?: string | null
           notes?: string | null
+          paid_by_member_id?: string | null
           scan_entry_id?: string | null
+          split_shares?: Json | null
+          split_type?: string | null
+          trip_id?: string | null
+          updated_at?: string
           user_id: string
         }
         Update: {
@@ -191,10 +349,22 @@ export type Database = {
           location_name?: string | null
           merchant?: string | null
           notes?: string | null
+          paid_by_member_id?: string | null
           scan_entry_id?: string | null
+          split_shares?: Json | null
+          split_type?: string | null
+          trip_id?: string | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "spending_records_paid_by_member_id_fkey"
+            columns: ["paid_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "trip_members"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "spending_records_scan_entry_id_fkey"
             columns: ["scan_entry_id"]
@@ -202,6 +372,98 @@ export type Database = {
             referencedRelation: "scan_entries"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "spending_records_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string | null
+          expires_at: string
+          id: string
+          invited_by: string
+          role: string
+          token: string
+          trip_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by: string
+          role?: string
+          token?: string
+          trip_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          token?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_invitations_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_members: {
+        Row: {
+          created_at: string
+          display_name: string
+          email: string | null
+          id: string
+          role: string
+          trip_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          email?: string | null
+          id?: string
+          role?: string
+          trip_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          email?: string | null
+          id?: string
+          role?: string
+          trip_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_members_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
         ]
       }
       trips: {
@@ -213,13 +475,18 @@ export type Database = {
           ai_overview: string | null
           ai_packing_tips: string[] | null
           ai_summary: string | null
+          budget_amount: number | null
+          budget_currency: string | null
+          category_budgets: Json
           cover_image_url: string | null
           created_at: string
           destination: string | null
           end_date: string | null
           id: string
           is_public: boolean | null
+          itinerary: Json | null
           name: string
+          search_vector: unknown | null
           share_code: string | null
           shareable_story: string | null
           start_date: string | null
@@ -234,13 +501,18 @@ export type Database = {
           ai_overview?: string | null
           ai_packing_tips?: string[] | null
           ai_summary?: string | null
+          budget_amount?: number | null
+          budget_currency?: string | null
+          category_budgets?: Json
           cover_image_url?: string | null
           created_at?: string
           destination?: string | null
           end_date?: string | null
           id?: string
           is_public?: boolean | null
+          itinerary?: Json | null
           name: string
+          search_vector?: unknown | null
           share_code?: string | null
           shareable_story?: string | null
           start_date?: string | null
@@ -255,13 +527,18 @@ export type Database = {
           ai_overview?: string | null
           ai_packing_tips?: string[] | null
           ai_summary?: string | null
+          budget_amount?: number | null
+          budget_currency?: string | null
+          category_budgets?: Json
           cover_image_url?: string | null
           created_at?: string
           destination?: string | null
           end_date?: string | null
           id?: string
           is_public?: boolean | null
+          itinerary?: Json | null
           name?: string
+          search_vector?: unknown | null
           share_code?: string | null
           shareable_story?: string | null
           start_date?: string | null
@@ -293,6 +570,26 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_trip_invitation: {
+        Args: { _token: string }
+        Returns: string
+      }
+      ai_daily_limit: {
+        Args: { _user_id: string }
+        Returns: number
+      }
+      can_edit_trip: {
+        Args: { _trip_id: string; _user_id: string }
+        Returns: boolean
+      }
+      consume_ai_quota: {
+        Args: { _session_id: string; _user_id: string }
+        Returns: Json
+      }
+      get_ai_quota: {
+        Args: { _session_id?: string }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -300,9 +597,50 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_trip_member: {
+        Args: {
+          _trip_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      journal_search_vector: {
+        Args: { _a: string; _b: string; _c: string; _d: string }
+        Returns: unknown
+      }
+      search_journal: {
+        Args: { _limit?: number; _match_any?: boolean; _query: string }
+        Returns: {
+          body: string
+          created_at: string
+          id: string
+          kind: string
+          rank: number
+          subtitle: string
+          title: string
+          trip_id: string
+        }[]
+      }
+      trip_invitation_preview: {
+        Args: { _token: string }
+        Returns: {
+          accepted: boolean
+          destination: string
+          email: string
+          expired: boolean
+          invited_by_name: string
+          role: string
+          trip_id: string
+          trip_name: string
+        }[]
+      }
+      trip_role: {
+        Args: { _trip_id: string; _user_id: string }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "admin" | "user"
+      app_role: "admin" | "user" | "subscriber"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -430,7 +768,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "user"],
+      app_role: ["admin", "user", "subscriber"],
     },
   },
 } as const
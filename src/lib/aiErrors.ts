@@ -0,0 +1,116 @@
+// =============================================================
+// Structured AI errors
+//
+// Providers and invokeAI() throw / return AIError instead of a plain Error
+// with the HTTP status glued into its message, so call sites can switch on
+// `error.code` rather than searching the text for "429".
+// =============================================================
+
+export type AIErrorCode =
+  | "missing_key" // no OpenRouter key and the user dismissed the prompt
+  | "unauthorized" // key rejected (401 / 403)
+  | "rate_limited" // 429
+  | "quota_exceeded" // 402, out of credits or over the plan limit
+  | "invalid_request" // bad input, or the provider rejected the payload
+  | "invalid_response" // the model kept answering outside the schema
+  | "not_found"
+  | "network" // provider unreachable
+  | "aborted" // cancelled through an AbortSignal
+  | "provider_error" // 5xx or anything else the provider reported
+  | "unknown";
+
+export class AIError extends Error {
+  readonly code: AIErrorCode;
+  readonly status?: number;
+  // Schema problems from the last attempt, when code is "invalid_response".
+  readonly issues: string[];
+
+  constructor(code: AIErrorCode, message: string, details: { status?: number; issues?: string[] } = {}) {
+    super(message);
+    this.name = "AIError";
+    this.code = code;
+    this.status = details.status;
+    this.issues = details.issues ?? [];
+  }
+
+  /** Worth trying the same request again later. */
+  get retryable(): boolean {
+    return this.code === "rate_limited" || this.code === "network" || this.code === "provider_error";
+  }
+}
+
+export function isAIError(value: unknown): value is AIError {
+  return value instanceof AIError;
+}
+
+export function aiErrorFromStatus(status: number, detail: string): AIError {
+  const message = detail || `AI request failed with status ${status}`;
+  if (status === 401 || status === 403) return new AIError("unauthorized", message, { status });
+  if (status === 402) return new AIError("quota_exceeded", message, { status });
+  if (status === 429) return new AIError("rate_limited", message, { status });
+  if (status === 400 || status === 413 || status === 422) return new AIError("invalid_request", message, { status });
+  return new AIError("provider_error", message, { status });
+}
+
+const CODES = new Set<AIErrorCode>([
+  "missing_key",
+  "unauthorized",
+  "rate_limited",
+  "quota_exceeded",
+  "invalid_request",
+  "invalid_response",
+  "not_found",
+  "network",
+  "aborted",
+  "provider_error",
+  "unknown",
+]);
+
+/**
+ * Reads the error body of a failed chat completion response. Our own proxy
+ * may name the code explicitly ({ error, code }), e.g. a 429 that is the
+ * daily quota rather than the provider's rate limit.
+ */
+export async function aiErrorFromResponse(response: Response): Promise<AIError> {
+  let detail = await response.text().catch(() => "");
+  let code: AIErrorCode | null = null;
+  try {
+    const errJson = JSON.parse(detail);
+    detail = errJson?.error?.message || errJson?.error || detail;
+    if (CODES.has(errJson?.code)) code = errJson.code;
+  } catch {
+    // Not JSON; keep the raw text.
+  }
+  const error = aiErrorFromStatus(response.status, String(detail).trim());
+  return code ? new AIError(code, error.message, { status: response.status }) : error;
+}
+
+export function toAIError(err: unknown, fallback: AIErrorCode = "unknown"): AIError {
+  if (isAIError(err)) return err;
+  // fetch() and stream reads reject with a DOMException named AbortError.
+  if (err instanceof Error && err.name === "AbortError") return new AIError("aborted", "Request cancelled");
+  return new AIError(fallback, err instanceof Error ? err.message : String(err));
+}
+
+/** Short, user-facing text for a toast. Non-AI errors get the fallback. */
+export function describeAIError(error: unknown, fallback = "Something went wrong. Please try again."): string {
+  if (!isAIError(error)) return fallback;
+  switch (error.code) {
+    case "missing_key":
+      return "An OpenRouter API key is required to use AI features.";
+    case "unauthorized":
+      return "Not authorized to use AI features. Try signing in again.";
+    case "rate_limited":
+      return "Rate limit exceeded. Please try again later.";
+    case "quota_exceeded":
+      return "AI usage limit reached.";
+    case "network":
+      return "Could not reach the AI service. Check your connection.";
+    case "aborted":
+      return "Cancelled.";
+    case "invalid_response":
+      return "The AI returned an incomplete answer. Please try again.";
+    default:
+      return fallback;
+  }
+}
@@ -2,53 +2,135 @@
 // Client-side replacement for supabase.functions.invoke(...)
 //
 // Each "edge function" the app used to call is implemented here and runs
-// directly in the browser using the user's OpenRouter API key. The return
-// shape { data, error } matches supabase.functions.invoke so call sites
-// barely change.
+// in the browser against the configured AI provider (see aiProviders.ts).
+// The return shape { data, error } matches supabase.functions.invoke so
+// call sites barely change.
 //
-// NOTE: This exposes the OpenRouter key in the browser and is intended for
-// LOCAL use only. For production, recreate these as Supabase Edge Functions
-// that hold the key as a server secret.
+// NOTE: With the default OpenRouter provider in dev, the user's key lives in
+// the browser. Production builds go through the Netlify proxy instead.
 // =============================================================
 
 import {
-  openRouterChat,
   parseJsonResponse,
+  parsePartialJson,
   requestApiKey,
   isProxyMode,
-  DEFAULT_TEXT_MODEL,
-  DEFAULT_VISION_MODEL,
   type ChatMessage,
+  type ChatOptions,
 } from "./openrouter";
+import { getAIProvider } from "./aiProviders";
+import { AIError, toAIError } from "./aiErrors";
+import {
+  analyzeImageSchema,
+  analyzeMenuSchema,
+  askJournalSchema,
+  extractBookingSchema,
+  formatIssues,
+  planDaySchema,
+  planTripSchema,
+  safetyInfoSchema,
+  scanReceiptSchema,
+  summarySchema,
+  translateLinesSchema,
+  translateSchema,
+} from "./aiSchemas";
 import { supabase } from "@/integrations/supabase/client";
+import { allergyCardText, describeDietaryProfile, hasDietaryProfile, type DietaryProfile } from "./dietary";
+import type { z } from "zod";
 
 interface InvokeOptions {
   body?: Record<string, unknown>;
   headers?: Record<string, string>;
+  // Cancels the call; the result then carries AIError("aborted").
+  signal?: AbortSignal;
+  // plan-trip and generate-summary stream: this receives the partial result
+  // (a best-effort parse of the JSON so far, or the text so far) as it grows.
+  // The final, validated value still arrives as `data`.
+  onPartial?: (partial: unknown) => void;
 }
 
+type StreamOptions = Pick<InvokeOptions, "signal" | "onPartial">;
+
 interface InvokeResult<T = unknown> {
   data: T | null;
-  error: Error | null;
+  error: AIError | null;
 }
 
 // Ensure we have a key (prompts the user via the global dialog if missing).
-// In production proxy mode the server holds the key, so no prompt is needed.
-async function ensureKey(): Promise<Error | null> {
-  if (isProxyMode()) return null;
+// Only the direct OpenRouter provider needs one; the proxy, local servers and
+// the mock do not.
+async function ensureKey(): Promise<AIError | null> {
+  if (!getAIProvider().needsUserKey()) return null;
   const key = await requestApiKey();
   if (!key) {
-    return new Error("OpenRouter API key is required to use AI features.");
+    return new AIError("missing_key", "OpenRouter API key is required to use AI features.");
   }
   return null;
 }
 
+// How many times a malformed answer is sent back to the model to fix.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Asks the provider and validates the answer against `schema`. JSON-mode
+ * answers are parsed first; plain text is validated as-is. On a mismatch
+ * the model sees its own answer plus the list of problems and gets another
+ * go. Throws AIError("invalid_response") once the attempts run out.
+ */
+async function chatValidated<S extends z.ZodTypeAny>(
+  task: string,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  schema: S
+): Promise<z.infer<S>> {
+  const provider = getAIProvider();
+  const conversation = [...messages];
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const raw = await provider.chat(conversation, { ...options, task });
+
+    let candidate: unknown = raw;
+    issues = [];
+    if (options.jsonMode) {
+      try {
+        candidate = parseJsonResponse(raw);
+      } catch {
+        issues = ["The response was not valid JSON."];
+      }
+    }
+
+    if (issues.length === 0) {
+      const result = schema.safeParse(candidate);
+      if (result.success) return result.data;
+      issues = formatIssues(result.error);
+    }
+
+    conversation.push(
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content:
+          "Your previous response did not match the required format:\n" +
+          issues.map((issue) => `- ${issue}`).join("\n") +
+          (options.jsonMode
+            ? "\nReply again with ONLY the corrected JSON object, following the schema exactly."
+            : "\nReply again with the corrected text only."),
+      }
+    );
+  }
+
+  throw new AIError("invalid_response", `The AI response for ${task} did not match the expected format.`, {
+    issues,
+  });
+}
+
 // -------------------------------------------------------------------------
 // analyze-image
 // -------------------------------------------------------------------------
 async function analyzeImage(body: InvokeOptions["body"]): Promise<InvokeResult> {
   const image = body?.image as string;
-  if (!image) return { data: null, error: new Error("No image provided") };
+  if (!image) return { data: null, error: new AIError("invalid_request", "No image provided") };
 
   const messages: ChatMessage[] = [
     {
@@ -75,12 +157,73 @@ async function analyzeImage(body: InvokeOptions["body"]): Promise<InvokeResult>
     },
   ];
 
-  const raw = await openRouterChat(messages, {
-    model: DEFAULT_VISION_MODEL,
-    jsonMode: true,
-    maxTokens: 1200,
-  });
-  return { data: parseJsonResponse(raw), error: null };
+  const data = await chatValidated(
+    "analyze-image",
+    messages,
+    { vision: true, jsonMode: true, maxTokens: 1200 },
+    analyzeImageSchema
+  );
+  return { data, error: null };
+}
+
+// -------------------------------------------------------------------------
+// analyze-menu (a menu or dish photo, checked against the dietary profile)
+// -------------------------------------------------------------------------
+async function analyzeMenu(body: InvokeOptions["body"]): Promise<InvokeResult> {
+  const image = body?.image as string;
+  const profile = body?.profile as DietaryProfile | undefined;
+  if (!image) return { data: null, error: new AIError("invalid_request", "No image provided") };
+
+  const checked = profile && hasDietaryProfile(profile);
+  const card = checked ? allergyCardText(profile) : "";
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content:
+        "You read restaurant menus and dish photos for travelers. " +
+        "List every dish you can read (for a photo of food, the dish shown) in menu order, translated into English, " +
+        "with the menu section it is under, a short description of what it is and its price as a plain number. " +
+        "Then recommend one to three dishes worth ordering (local specialities, good value" +
+        (checked ? ", and safe for the traveler" : "") +
+        "). " +
+        (checked
+          ? "For each dish, flag anything that may conflict with the traveler's dietary profile below: " +
+            "allergens it contains or usually contains in this cuisine (including hidden ones such as nut oils, " +
+            "fish sauce or butter), diet rules it breaks, and disliked ingredients. Rate how sure you are: " +
+            '"high" when the ingredient is named or essential to the dish, "medium" when the dish usually has it, ' +
+            '"low" when it sometimes does or cross-contact is likely. When in doubt, flag it.\n' +
+            `Dietary profile:\n${describeDietaryProfile(profile)}\n` +
+            (card ? `Also translate this ALLERGY CARD into the menu's language: "${card}"\n` : "")
+          : "The traveler has no dietary profile, so leave every conflicts list empty. ") +
+        "Respond ONLY with a JSON object: " +
+        '{"language": string (ISO 639-1 code of the menu, e.g. "ja"), ' +
+        '"currency": string|null (ISO code of the prices), ' +
+        '"dishes": [{"section": string (e.g. "Starters", in English, else ""), "name": string (as written), ' +
+        '"translation": string, "pronunciation": string (romanized if the script is non-Latin, else ""), ' +
+        '"description": string (one sentence), "price": number|null, ' +
+        '"conflicts": [{"kind": "allergen"|"diet"|"dislike", "item": string (e.g. "peanuts", "vegan"), ' +
+        '"confidence": "high"|"medium"|"low", "reason": string (one short sentence)}]}], ' +
+        '"allergy_card": {"text": string (the card in the menu\'s language), ' +
+        '"pronunciation": string (romanized if the script is non-Latin, else "")}|null (null when not asked), ' +
+        '"recommendation": {"dishes": [string] (their names as written), "reason": string}|null}',
+    },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "Check this menu for me." },
+        { type: "image_url", image_url: { url: image } },
+      ],
+    },
+  ];
+
+  const data = await chatValidated(
+    "analyze-menu",
+    messages,
+    { vision: true, jsonMode: true, maxTokens: 4000 },
+    analyzeMenuSchema
+  );
+  return { data, error: null };
 }
 
 // -------------------------------------------------------------------------
@@ -89,7 +232,7 @@ async function analyzeImage(body: InvokeOptions["body"]): Promise<InvokeResult>
 async function translate(body: InvokeOptions["body"]): Promise<InvokeResult> {
   const text = body?.text as string;
   const targetLanguage = body?.targetLanguage as string;
-  if (!text) return { data: null, error: new Error("No text provided") };
+  if (!text) return { data: null, error: new AIError("invalid_request", "No text provided") };
 
   const messages: ChatMessage[] = [
     {
@@ -103,12 +246,44 @@ async function translate(body: InvokeOptions["body"]): Promise<InvokeResult> {
     { role: "user", content: text },
   ];
 
-  const raw = await openRouterChat(messages, {
-    model: DEFAULT_TEXT_MODEL,
-    jsonMode: true,
-    maxTokens: 800,
-  });
-  return { data: parseJsonResponse(raw), error: null };
+  const data = await chatValidated(
+    "translate",
+    messages,
+    { jsonMode: true, maxTokens: 800 },
+    translateSchema
+  );
+  return { data, error: null };
+}
+
+// -------------------------------------------------------------------------
+// translate-lines (several short lines, e.g. the signs in one camera frame,
+// in a single call)
+// -------------------------------------------------------------------------
+async function translateLines(body: InvokeOptions["body"]): Promise<InvokeResult> {
+  const lines = body?.lines as string[];
+  const targetLanguage = body?.targetLanguage as string;
+  if (!lines?.length) return { data: null, error: new AIError("invalid_request", "No lines provided") };
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content:
+        "You are a translation engine. The user sends a JSON array of short lines of text read off signs; " +
+        `translate each line into ${targetLanguage} on its own. ` +
+        "The lines may contain OCR mistakes; translate what was most likely written. " +
+        "Respond ONLY with a JSON object: " +
+        `{"translations": [string] (exactly ${lines.length}, in the same order as the lines)}`,
+    },
+    { role: "user", content: JSON.stringify(lines) },
+  ];
+
+  const data = await chatValidated(
+    "translate-lines",
+    messages,
+    { jsonMode: true, maxTokens: 1500 },
+    translateLinesSchema(lines.length)
+  );
+  return { data, error: null };
 }
 
 // -------------------------------------------------------------------------
@@ -117,7 +292,7 @@ async function translate(body: InvokeOptions["body"]): Promise<InvokeResult> {
 async function scanReceipt(body: InvokeOptions["body"]): Promise<InvokeResult> {
   const image = body?.image as string;
   const currency = (body?.currency as string) || "USD";
-  if (!image) return { data: null, error: new Error("No image provided") };
+  if (!image) return { data: null, error: new AIError("invalid_request", "No image provided") };
 
   const messages: ChatMessage[] = [
     {
@@ -139,12 +314,105 @@ async function scanReceipt(body: InvokeOptions["body"]): Promise<InvokeResult> {
     },
   ];
 
-  const raw = await openRouterChat(messages, {
-    model: DEFAULT_VISION_MODEL,
-    jsonMode: true,
-    maxTokens: 1200,
-  });
-  return { data: parseJsonResponse(raw), error: null };
+  const data = await chatValidated(
+    "scan-receipt",
+    messages,
+    { vision: true, jsonMode: true, maxTokens: 1200 },
+    scanReceiptSchema
+  );
+  return { data, error: null };
+}
+
+// -------------------------------------------------------------------------
+// extract-booking (confirmation email text, a PDF or a screenshot)
+// -------------------------------------------------------------------------
+async function extractBooking(body: InvokeOptions["body"]): Promise<InvokeResult> {
+  const text = ((body?.text as string) || "").trim();
+  const file = body?.file as { name: string; dataUrl: string } | undefined;
+  if (!text && !file) return { data: null, error: new AIError("invalid_request", "No confirmation provided") };
+
+  const attachment: ChatMessage["content"] = [];
+  if (file?.dataUrl.startsWith("data:image/")) {
+    attachment.push({ type: "image_url", image_url: { url: file.dataUrl } });
+  } else if (file) {
+    attachment.push({ type: "file", file: { filename: file.name, file_data: file.dataUrl } });
+  }
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content:
+        "You extract travel reservations from booking confirmations (flights, hotels, trains, rental cars). " +
+        "Respond ONLY with a JSON object: " +
+        '{"bookings": [{"kind": "flight"|"hotel"|"train"|"car_rental"|"other", ' +
+        '"title": string (e.g. "TP 1351 London → Lisbon", "Hotel Avenida"), ' +
+        '"provider": string|null (airline, hotel, operator or rental company), ' +
+        '"confirmationNumber": string|null, ' +
+        '"start": {"date": "YYYY-MM-DD", "time": "HH:mm"|null} (departure, check-in or pick-up, local time), ' +
+        '"end": {"date": "YYYY-MM-DD", "time": "HH:mm"|null}|null (arrival, check-out or drop-off), ' +
+        '"startAddress": string|null (departure station/airport, hotel or pick-up address), ' +
+        '"endAddress": string|null (arrival station/airport or drop-off address), ' +
+        '"cost": number|null (total paid or due for this booking), "currency": string|null (ISO code), ' +
+        '"notes": string|null (seat, room type, baggage, cancellation deadline)}]}. ' +
+        "One entry per reservation; a return flight is two. Use an empty list if there are none. Never invent values.",
+    },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: text ? `Confirmation:\n${text.slice(0, 20_000)}` : "Extract the reservations from this confirmation." },
+        ...attachment,
+      ],
+    },
+  ];
+
+  const data = await chatValidated(
+    "extract-booking",
+    messages,
+    { vision: !!file, jsonMode: true, maxTokens: 1500 },
+    extractBookingSchema
+  );
+  return { data, error: null };
+}
+
+// -------------------------------------------------------------------------
+// ask-journal (answers from entries the app found with journalSearch.ts)
+// -------------------------------------------------------------------------
+async function askJournal(body: InvokeOptions["body"], stream: StreamOptions): Promise<InvokeResult> {
+  const question = ((body?.question as string) || "").trim();
+  const entries = (body?.entries as { id: string; kind: string; title: string; subtitle?: string | null; date?: string; body?: string }[]) || [];
+  if (!question) return { data: null, error: new AIError("invalid_request", "No question provided") };
+
+  const context = entries
+    .map((e) =>
+      [`[${e.id}] ${e.kind} · ${e.title}${e.subtitle ? ` (${e.subtitle})` : ""}${e.date ? ` · ${e.date}` : ""}`, e.body?.slice(0, 800)]
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n\n");
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content:
+        "You answer questions about a traveller's own journal: their scans (places, menus, signs) and trips. " +
+        "Use ONLY the entries provided; if they don't answer the question, say so plainly. " +
+        "Respond ONLY with a JSON object: " +
+        '{"answer": string (1-3 sentences, addressing the traveller as "you"), ' +
+        '"sources": [string] (ids of the entries the answer relies on, most relevant first)}.',
+    },
+    {
+      role: "user",
+      content: `Question: ${question}\n\nJournal entries:\n${context || "(none)"}`,
+    },
+  ];
+
+  const data = await chatValidated(
+    "ask-journal",
+    messages,
+    { jsonMode: true, maxTokens: 600, signal: stream.signal },
+    askJournalSchema
+  );
+  return { data, error: null };
 }
 
 // -------------------------------------------------------------------------
@@ -173,18 +441,19 @@ async function getSafetyInfo(body: InvokeOptions["body"]): Promise<InvokeResult>
     },
   ];
 
-  const raw = await openRouterChat(messages, {
-    model: DEFAULT_TEXT_MODEL,
-    jsonMode: true,
-    maxTokens: 1200,
-  });
-  return { data: parseJsonResponse(raw), error: null };
+  const data = await chatValidated(
+    "get-safety-info",
+    messages,
+    { jsonMode: true, maxTokens: 1200 },
+    safetyInfoSchema
+  );
+  return { data, error: null };
 }
 
 // -------------------------------------------------------------------------
 // plan-trip
 // -------------------------------------------------------------------------
-async function planTrip(body: InvokeOptions["body"]): Promise<InvokeResult> {
+async function planTrip(body: InvokeOptions["body"], stream: StreamOptions): Promise<InvokeResult> {
   const destination = body?.destination as string;
   const duration = (body?.duration as number) || 3;
   const interests = (body?.interests as string[]) || [];
@@ -211,21 +480,76 @@ async function planTrip(body: InvokeOptions["body"]): Promise<InvokeResult> {
     },
   ];
 
-  const raw = await openRouterChat(messages, {
-    model: DEFAULT_TEXT_MODEL,
-    jsonMode: true,
-    maxTokens: 3000,
-  });
-  return { data: parseJsonResponse(raw), error: null };
+  const data = await chatValidated(
+    "plan-trip",
+    messages,
+    {
+      jsonMode: true,
+      maxTokens: 3000,
+      signal: stream.signal,
+      onDelta: stream.onPartial
+        ? (_delta, text) => {
+            const partial = parsePartialJson(text);
+            if (partial) stream.onPartial(partial);
+          }
+        : undefined,
+    },
+    planTripSchema(duration)
+  );
+  return { data, error: null };
+}
+
+// -------------------------------------------------------------------------
+// plan-day (re-plans one day of an itinerary the user has been editing)
+// -------------------------------------------------------------------------
+async function planDay(body: InvokeOptions["body"], stream: StreamOptions): Promise<InvokeResult> {
+  const destination = (body?.destination as string) || "the destination";
+  const dayNumber = (body?.dayNumber as number) || 1;
+  const date = body?.date as string | undefined;
+  // Short "Day 2: Alfama and the castle" lines so the new day doesn't repeat them.
+  const otherDays = (body?.otherDays as string[]) || [];
+  // Stops the user booked; they stay, so the plan has to fit around them.
+  const fixedStops = (body?.fixedStops as string[]) || [];
+  const instructions = ((body?.instructions as string) || "").trim();
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content:
+        "You are an expert travel planner re-planning a single day of an existing itinerary. " +
+        "Respond ONLY with a JSON object: " +
+        '{"day": {"title": string, ' +
+        '"stops": [{"time": "HH:mm", "title": string, "placeName": string|null, "lat": number|null, "lng": number|null, "notes": string|null}], ' +
+        '"tips": [string]}}. ' +
+        "Use 3-6 stops in time order, each a real, specific place with its approximate coordinates. " +
+        "Do not repeat what the other days already cover.",
+    },
+    {
+      role: "user",
+      content:
+        `Re-plan day ${dayNumber}${date ? ` (${date})` : ""} of a trip to ${destination}.` +
+        (otherDays.length ? `\nOther days:\n${otherDays.map((d) => `- ${d}`).join("\n")}` : "") +
+        (fixedStops.length ? `\nAlready booked, keep time free for:\n${fixedStops.map((s) => `- ${s}`).join("\n")}` : "") +
+        (instructions ? `\nTraveler's request: ${instructions}` : ""),
+    },
+  ];
+
+  const data = await chatValidated(
+    "plan-day",
+    messages,
+    { jsonMode: true, maxTokens: 1500, signal: stream.signal },
+    planDaySchema
+  );
+  return { data, error: null };
 }
 
 // -------------------------------------------------------------------------
 // generate-summary (writes result back to the trips table)
 // -------------------------------------------------------------------------
-async function generateSummary(body: InvokeOptions["body"]): Promise<InvokeResult> {
+async function generateSummary(body: InvokeOptions["body"], stream: StreamOptions): Promise<InvokeResult> {
   const tripId = body?.tripId as string;
   const type = (body?.type as "summary" | "story") || "summary";
-  if (!tripId) return { data: null, error: new Error("No tripId provided") };
+  if (!tripId) return { data: null, error: new AIError("invalid_request", "No tripId provided") };
 
   // Gather trip + its scan entries for context.
   const { data: trip, error: tripErr } = await supabase
@@ -234,7 +558,7 @@ async function generateSummary(body: InvokeOptions["body"]): Promise<InvokeResul
     .eq("id", tripId)
     .single();
   if (tripErr || !trip) {
-    return { data: null, error: new Error(tripErr?.message || "Trip not found") };
+    return { data: null, error: new AIError("not_found", tripErr?.message || "Trip not found") };
   }
 
   const { data: entries } = await supabase
@@ -269,17 +593,23 @@ async function generateSummary(body: InvokeOptions["body"]): Promise<InvokeResul
     },
   ];
 
-  const text = await openRouterChat(messages, {
-    model: DEFAULT_TEXT_MODEL,
-    maxTokens: 900,
-  });
+  const text = await chatValidated(
+    "generate-summary",
+    messages,
+    {
+      maxTokens: 900,
+      signal: stream.signal,
+      onDelta: stream.onPartial ? (_delta, text) => stream.onPartial(text) : undefined,
+    },
+    summarySchema
+  );
 
   const updates = isStory
     ? { shareable_story: text.trim() }
     : { ai_summary: text.trim() };
 
   const { error: updErr } = await supabase.from("trips").update(updates).eq("id", tripId);
-  if (updErr) return { data: null, error: new Error(updErr.message) };
+  if (updErr) return { data: null, error: new AIError("unknown", updErr.message) };
 
   return { data: { success: true }, error: null };
 }
@@ -315,10 +645,15 @@ async function getExchangeRates(body: InvokeOptions["body"]): Promise<InvokeResu
 // -------------------------------------------------------------------------
 const AI_FUNCTIONS = new Set([
   "analyze-image",
+  "analyze-menu",
+  "ask-journal",
+  "extract-booking",
   "translate",
+  "translate-lines",
   "scan-receipt",
   "get-safety-info",
   "plan-trip",
+  "plan-day",
   "generate-summary",
 ]);
 
@@ -327,7 +662,7 @@ export async function invokeAI<T = unknown>(
   options: InvokeOptions = {}
 ): Promise<InvokeResult<T>> {
   try {
-    // get-exchange-rates does not need the OpenRouter key.
+    // get-exchange-rates does not need an AI provider.
     if (name !== "get-exchange-rates" && AI_FUNCTIONS.has(name)) {
       const keyErr = await ensureKey();
       if (keyErr) return { data: null, error: keyErr };
@@ -336,22 +671,32 @@ export async function invokeAI<T = unknown>(
     switch (name) {
       case "analyze-image":
         return (await analyzeImage(options.body)) as InvokeResult<T>;
+      case "analyze-menu":
+        return (await analyzeMenu(options.body)) as InvokeResult<T>;
+      case "ask-journal":
+        return (await askJournal(options.body, options)) as InvokeResult<T>;
+      case "extract-booking":
+        return (await extractBooking(options.body)) as InvokeResult<T>;
       case "translate":
         return (await translate(options.body)) as InvokeResult<T>;
+      case "translate-lines":
+        return (await translateLines(options.body)) as InvokeResult<T>;
       case "scan-receipt":
         return (await scanReceipt(options.body)) as InvokeResult<T>;
       case "get-safety-info":
         return (await getSafetyInfo(options.body)) as InvokeResult<T>;
       case "plan-trip":
-        return (await planTrip(options.body)) as InvokeResult<T>;
+        return (await planTrip(options.body, options)) as InvokeResult<T>;
+      case "plan-day":
+        return (await planDay(options.body, options)) as InvokeResult<T>;
       case "generate-summary":
-        return (await generateSummary(options.body)) as InvokeResult<T>;
+        return (await generateSummary(options.body, options)) as InvokeResult<T>;
       case "get-exchange-rates":
         return (await getExchangeRates(options.body)) as InvokeResult<T>;
       default:
-        return { data: null, error: new Error(`Unknown AI function: ${name}`) };
+        return { data: null, error: new AIError("invalid_request", `Unknown AI function: ${name}`) };
     }
   } catch (err) {
-    return { data: null, error: err as Error };
+    return { data: null, error: toAIError(err) };
   }
 }
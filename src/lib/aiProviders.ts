@@ -0,0 +1,327 @@
+// =============================================================
+// AI providers
+//
+// invokeAI() builds the prompts; a provider turns them into text. Which
+// provider runs is chosen at build time with VITE_AI_PROVIDER:
+//
+//   openrouter         OpenRouter with the user's key from the popup, or the
+//                      Netlify proxy when VITE_AI_PROXY_URL / PROD is set.
+//                      This is the default.
+//   openai-compatible  Any server speaking /v1/chat/completions, e.g. Ollama
+//                      (http://localhost:11434/v1) or llama.cpp's server.
+//                      Configure with VITE_AI_BASE_URL, VITE_AI_API_KEY
+//                      (optional), VITE_AI_TEXT_MODEL and VITE_AI_VISION_MODEL.
+//   mock               Deterministic canned answers with no network, for
+//                      tests, demos and offline UI work.
+// =============================================================
+
+import {
+  openRouterChat,
+  openRouterChatStream,
+  readChatStream,
+  isProxyMode,
+  type ChatMessage,
+  type ChatOptions,
+} from "./openrouter";
+import { AIError, aiErrorFromResponse, toAIError } from "./aiErrors";
+
+export type AIProviderId = "openrouter" | "openai-compatible" | "mock";
+
+export interface AIProvider {
+  id: AIProviderId;
+  // Whether invokeAI must prompt for the user's OpenRouter key first.
+  needsUserKey: () => boolean;
+  // Streams through options.onDelta when it is set.
+  chat: (messages: ChatMessage[], options?: ChatOptions) => Promise<string>;
+}
+
+// ---- OpenRouter (direct or via the Netlify proxy) ------------------------
+export const openRouterProvider: AIProvider = {
+  id: "openrouter",
+  needsUserKey: () => !isProxyMode(),
+  chat: (messages, options = {}) =>
+    options.onDelta ? openRouterChatStream(messages, options) : openRouterChat(messages, options),
+};
+
+// ---- OpenAI-compatible servers (Ollama, llama.cpp, vLLM, ...) ------------
+const env = import.meta.env;
+const COMPAT_BASE_URL = ((env.VITE_AI_BASE_URL as string | undefined) || "http://localhost:11434/v1").replace(/\/+$/, "");
+const COMPAT_API_KEY = (env.VITE_AI_API_KEY as string | undefined) || "";
+const COMPAT_TEXT_MODEL = (env.VITE_AI_TEXT_MODEL as string | undefined) || "llama3.2";
+const COMPAT_VISION_MODEL = (env.VITE_AI_VISION_MODEL as string | undefined) || "llava";
+
+export const openAICompatibleProvider: AIProvider = {
+  id: "openai-compatible",
+  needsUserKey: () => false,
+  async chat(messages, options = {}) {
+    const body: Record<string, unknown> = {
+      // OpenRouter model ids ("openai/gpt-4o-mini") mean nothing to a local
+      // server, so only the configured models are used here.
+      model: options.vision ? COMPAT_VISION_MODEL : COMPAT_TEXT_MODEL,
+      messages,
+      temperature: options.temperature ?? 0.4,
+      max_tokens: options.maxTokens ?? 1500,
+      stream: Boolean(options.onDelta),
+    };
+    if (options.jsonMode) {
+      body.response_format = { type: "json_object" };
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (COMPAT_API_KEY) headers.Authorization = `Bearer ${COMPAT_API_KEY}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${COMPAT_BASE_URL}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+    } catch (networkErr) {
+      throw toAIError(networkErr, "network");
+    }
+
+    if (!response.ok) {
+      throw await aiErrorFromResponse(response);
+    }
+    if (options.onDelta) {
+      return readChatStream(response, options.onDelta);
+    }
+
+    const json = await response.json();
+    return (json?.choices?.[0]?.message?.content as string) ?? "";
+  },
+};
+
+// ---- Mock ----------------------------------------------------------------
+// Answers are derived only from the prompt, so the same call always returns
+// the same result.
+
+function userText(messages: ChatMessage[]): string {
+  // The first user turn is the original request; later ones are repair prompts.
+  const user = messages.find((m) => m.role === "user");
+  if (!user) return "";
+  if (typeof user.content === "string") return user.content;
+  return user.content.map((part) => part.text ?? "").join(" ");
+}
+
+function systemText(messages: ChatMessage[]): string {
+  const system = messages.find((m) => m.role === "system");
+  return typeof system?.content === "string" ? system.content : "";
+}
+
+function mockResponse(task: string | undefined, messages: ChatMessage[]): unknown {
+  const input = userText(messages);
+
+  switch (task) {
+    case "analyze-image":
+      return {
+        category: "monument",
+        name: "Sample Landmark",
+        description: "A mock landmark returned by the offline AI provider. Replace VITE_AI_PROVIDER to get real results.",
+        detected_location: null,
+        extracted_text: "",
+        prices: [],
+        warnings: [],
+        tips: ["Visit early in the morning to avoid crowds."],
+        details: {},
+      };
+    case "analyze-menu": {
+      // Flags peanuts only when the profile mentions them, so the offline
+      // provider exercises both the flagged and the clean path.
+      const peanuts = /peanuts/i.test(systemText(messages));
+      return {
+        language: "th",
+        currency: "THB",
+        dishes: [
+          {
+            section: "Mains",
+            name: "ผัดไทย",
+            translation: "Pad thai",
+            pronunciation: "phat thai",
+            description: "Stir-fried rice noodles with egg, tofu and tamarind.",
+            price: 120,
+            conflicts: peanuts
+              ? [{ kind: "allergen", item: "peanuts", confidence: "high", reason: "Served with crushed peanuts." }]
+              : [],
+          },
+          {
+            section: "Mains",
+            name: "ต้มยำกุ้ง",
+            translation: "Tom yum goong",
+            pronunciation: "tom yam kung",
+            description: "Hot and sour shrimp soup with lemongrass.",
+            price: 180,
+            conflicts: [],
+          },
+          {
+            section: "Desserts",
+            name: "ข้าวเหนียวมะม่วง",
+            translation: "Mango sticky rice",
+            pronunciation: "khao niao mamuang",
+            description: "Sweet sticky rice with ripe mango and coconut cream.",
+            price: 90,
+            conflicts: [],
+          },
+        ],
+        allergy_card: systemText(messages).includes("ALLERGY CARD")
+          ? { text: "[Thai] allergy card from the offline AI provider", pronunciation: "" }
+          : null,
+        recommendation: {
+          dishes: ["ต้มยำกุ้ง", "ข้าวเหนียวมะม่วง"],
+          reason: "Mock recommendation from the offline AI provider.",
+        },
+      };
+    }
+    case "translate": {
+      const language = systemText(messages).match(/into (.+?)\. /)?.[1] ?? "target language";
+      return { translation: `[${language}] ${input}`, pronunciation: "" };
+    }
+    case "translate-lines": {
+      const language = systemText(messages).match(/into (.+?) on its own/)?.[1] ?? "target language";
+      const lines = JSON.parse(input) as string[];
+      return { translations: lines.map((line) => `[${language}] ${line}`) };
+    }
+    case "scan-receipt": {
+      const currency = systemText(messages).match(/Default currency is ([A-Z]{3})/)?.[1] ?? "USD";
+      return {
+        items: [
+          { name: "Coffee", price: 3.5, category: "Food" },
+          { name: "Croissant", price: 2.5, category: "Food" },
+        ],
+        merchant: "Sample Café",
+        currency,
+        location: "",
+        date: "",
+        total: 6,
+      };
+    }
+    case "ask-journal": {
+      // Cites the first entry it was given, like a model that found it.
+      const first = input.match(/\[([^\]]+)\] (?:scan|trip) · ([^\n(·]+)/);
+      return first
+        ? { answer: `From your journal: ${first[2].trim()}.`, sources: [first[1]] }
+        : { answer: "I couldn't find that in your journal.", sources: [] };
+    }
+    case "extract-booking":
+      return {
+        bookings: [
+          {
+            kind: "hotel",
+            title: "Sample Hotel",
+            provider: "Sample Hotel",
+            confirmationNumber: "MOCK123",
+            start: { date: "2026-05-01", time: "15:00" },
+            end: { date: "2026-05-04", time: "11:00" },
+            startAddress: "1 Sample Street",
+            endAddress: null,
+            cost: 360,
+            currency: "EUR",
+            notes: "Mock booking from the offline AI provider.",
+          },
+        ],
+      };
+    case "get-safety-info":
+      return {
+        safetyLevel: "safe",
+        alerts: [],
+        tips: [
+          "Keep a copy of your passport separate from the original.",
+          "Use licensed taxis or ride-hailing apps.",
+          "Watch your belongings in crowded places.",
+          "Carry a little local cash for small purchases.",
+          "Save your accommodation address offline.",
+        ],
+        emergencyNumbers: { police: "112", ambulance: "112", fire: "112", tourist_hotline: "" },
+        customsInfo: "Mock safety data for local development.",
+      };
+    case "plan-trip": {
+      const match = input.match(/Plan a (\d+)-day trip to (.+?)\./);
+      const days = match ? Number(match[1]) : 3;
+      const destination = match?.[2] ?? "your destination";
+      return {
+        plan: {
+          overview: `A ${days}-day sample itinerary for ${destination}.`,
+          bestTimeToVisit: "Spring and autumn",
+          itinerary: Array.from({ length: days }, (_, i) => ({
+            day: i + 1,
+            title: `Day ${i + 1} in ${destination}`,
+            morning: "Explore the old town",
+            afternoon: "Visit a museum",
+            evening: "Dinner at a local restaurant",
+            tips: ["Book popular sights in advance."],
+          })),
+          mustTry: [{ name: "Local speciality", description: "Ask at any market stall." }],
+          packingTips: ["Comfortable walking shoes"],
+          budgetEstimate: { budget: "$50/day", midRange: "$120/day", luxury: "$300+/day" },
+        },
+      };
+    }
+    case "plan-day": {
+      const match = input.match(/Re-plan day (\d+).*? of a trip to (.+?)\./);
+      const destination = match?.[2] ?? "your destination";
+      return {
+        day: {
+          title: `A fresh day ${match?.[1] ?? 1} in ${destination}`,
+          stops: [
+            { time: "09:30", title: "Coffee and a walk", placeName: "Old town square", lat: null, lng: null, notes: null },
+            { time: "13:00", title: "Lunch at the market", placeName: "Central market", lat: null, lng: null, notes: "Go early for a seat." },
+            { time: "18:30", title: "Sunset viewpoint", placeName: "City viewpoint", lat: null, lng: null, notes: null },
+          ],
+          tips: ["Mock day from the offline AI provider."],
+        },
+      };
+    }
+    case "generate-summary": {
+      const trip = input.match(/^Trip: (.*)$/m)?.[1] ?? "this trip";
+      return `A short mock recap of ${trip}: plenty of sights, good food and a few surprises along the way.`;
+    }
+    default:
+      return {};
+  }
+}
+
+const MOCK_CHUNK_SIZE = 24;
+
+export const mockProvider: AIProvider = {
+  id: "mock",
+  needsUserKey: () => false,
+  async chat(messages, options = {}) {
+    const result = mockResponse(options.task, messages);
+    const text = typeof result === "string" ? result : JSON.stringify(result);
+    if (options.signal?.aborted) throw new AIError("aborted", "Request cancelled");
+    if (!options.onDelta) return text;
+
+    // Stream in fixed-size chunks so progressive UIs can be exercised offline.
+    let sent = "";
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (options.signal?.aborted) throw new AIError("aborted", "Request cancelled");
+      const delta = text.slice(i, i + MOCK_CHUNK_SIZE);
+      sent += delta;
+      options.onDelta(delta, sent);
+    }
+    return text;
+  },
+};
+
+// ---- selection -----------------------------------------------------------
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  openrouter: openRouterProvider,
+  "openai-compatible": openAICompatibleProvider,
+  mock: mockProvider,
+};
+
+let override: AIProvider | null = null;
+
+export function getAIProvider(): AIProvider {
+  if (override) return override;
+  const configured = (env.VITE_AI_PROVIDER as string | undefined)?.trim() as AIProviderId | undefined;
+  return (configured && PROVIDERS[configured]) || openRouterProvider;
+}
+
+/** Swaps the active provider at runtime (tests, demos). Pass null to reset. */
+export function setAIProvider(provider: AIProvider | AIProviderId | null): void {
+  override = typeof provider === "string" ? PROVIDERS[provider] : provider;
+}
@@ -0,0 +1,59 @@
+// =============================================================
+// AI quota, as counted by the server
+//
+// In proxy mode the Netlify AI proxy counts every call in ai_usage and
+// reports the new total in X-AI-Quota-* response headers. openrouter.ts
+// forwards those numbers through QUOTA_EVENT, and AIUsageContext listens,
+// so the badge always shows what the server will enforce.
+// =============================================================
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const QUOTA_EVENT = "worldlens:ai-quota";
+
+export interface AIQuota {
+  used: number;
+  limit: number;
+  resetAt: string | null;
+}
+
+/**
+ * Identifies the caller to the proxy: the Supabase JWT when signed in.
+ * Signed-out calls are counted by IP on the server, so there's nothing to send.
+ */
+export async function proxyAuthHeaders(): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (token) headers.Authorization = `Bearer ${token}`;
+  return headers;
+}
+
+export function quotaFromHeaders(headers: Headers): AIQuota | null {
+  const used = headers.get("X-AI-Quota-Used");
+  const limit = headers.get("X-AI-Quota-Limit");
+  if (used === null || limit === null) return null;
+  return { used: Number(used), limit: Number(limit), resetAt: headers.get("X-AI-Quota-Reset") };
+}
+
+export function publishQuota(quota: AIQuota): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new CustomEvent<AIQuota>(QUOTA_EVENT, { detail: quota }));
+}
+
+/**
+ * Today's usage for the signed-in user. Anonymous visitors are counted by
+ * IP, which only the proxy sees, so for them this is null until the first
+ * AI response reports the count.
+ */
+export async function fetchServerQuota(): Promise<AIQuota | null> {
+  const { data: session } = await supabase.auth.getSession();
+  if (!session.session) return null;
+  const { data, error } = await supabase.rpc("get_ai_quota", {});
+  if (error || !data) {
+    console.error("Error fetching AI quota:", error);
+    return null;
+  }
+  const quota = data as { used: number; limit: number; reset_at: string | null };
+  return { used: quota.used, limit: quota.limit, resetAt: quota.reset_at };
+}
@@ -0,0 +1,214 @@
+// =============================================================
+// Output schemas for the AI functions
+//
+// Models drop fields, return numbers as strings or invent extra levels.
+// Every invokeAI() handler validates the model's answer against one of
+// these schemas; when validation fails the issues are sent back to the
+// model for another try (see aiInvoke.ts). Small omissions with a safe
+// default (an empty tips list, say) are filled in here instead of costing
+// a round trip.
+// =============================================================
+
+import { z } from "zod";
+
+const text = z.string().trim().min(1);
+const list = <T extends z.ZodTypeAny>(item: T) => z.array(item).default([]);
+// "12.50" -> 12.5; models often quote prices.
+const amount = z.coerce.number().finite();
+
+export const analyzeImageSchema = z.object({
+  category: z
+    .enum(["monument", "restaurant", "menu", "sign", "ticket", "food", "product", "nature", "other"])
+    .catch("other"),
+  name: text,
+  description: text,
+  detected_location: z.string().nullable().default(null),
+  extracted_text: z.string().default(""),
+  prices: list(z.object({ item: text, price: amount, currency: z.string().default("") })),
+  warnings: list(z.string()),
+  tips: list(z.string()),
+  details: z.record(z.unknown()).default({}),
+});
+
+export const translateSchema = z.object({
+  translation: text,
+  pronunciation: z.string().default(""),
+});
+
+/** One translation per line sent, in the same order. */
+export function translateLinesSchema(count: number) {
+  return z.object({
+    translations: z.array(text).length(count, `Expected exactly ${count} translations, one per line`),
+  });
+}
+
+export const scanReceiptSchema = z.object({
+  items: z.array(
+    z.object({
+      name: text,
+      price: amount,
+      category: z.string().trim().min(1).catch("Other"),
+    })
+  ),
+  merchant: z.string().default(""),
+  currency: z.string().default(""),
+  location: z.string().default(""),
+  date: z.string().default(""),
+  total: amount.optional(),
+});
+
+export const safetyInfoSchema = z.object({
+  safetyLevel: z.enum(["safe", "caution", "warning"]),
+  alerts: list(
+    z.object({
+      type: z.string().default("general"),
+      title: text,
+      description: z.string().default(""),
+      severity: z.enum(["low", "medium", "high"]).catch("medium"),
+    })
+  ),
+  tips: z.array(z.string()).min(1),
+  emergencyNumbers: z.object({
+    police: text,
+    ambulance: text,
+    fire: text,
+    tourist_hotline: z.string().default(""),
+  }),
+  customsInfo: z.string().default(""),
+});
+
+/** The itinerary has to cover exactly the requested number of days. */
+export function planTripSchema(duration: number) {
+  return z.object({
+    plan: z.object({
+      overview: text,
+      bestTimeToVisit: z.string().default(""),
+      itinerary: z
+        .array(
+          z.object({
+            day: z.coerce.number().int(),
+            title: text,
+            morning: z.string(),
+            afternoon: z.string(),
+            evening: z.string(),
+            tips: list(z.string()),
+          })
+        )
+        .length(duration, `itinerary must contain exactly ${duration} days`),
+      mustTry: list(z.object({ name: text, description: z.string().default("") })),
+      packingTips: list(z.string()),
+      budgetEstimate: z.object({ budget: z.string(), midRange: z.string(), luxury: z.string() }),
+    }),
+  });
+}
+
+/** One re-planned itinerary day, as stops the editor can place on a map. */
+export const planDaySchema = z.object({
+  day: z.object({
+    title: text,
+    stops: z
+      .array(
+        z.object({
+          time: z.string().regex(/^\d{2}:\d{2}$/).nullable().catch(null).default(null),
+          title: text,
+          placeName: z.string().nullable().default(null),
+          lat: z.number().finite().nullable().catch(null).default(null),
+          lng: z.number().finite().nullable().catch(null).default(null),
+          notes: z.string().nullable().default(null),
+        })
+      )
+      .min(1),
+    tips: list(z.string()),
+  }),
+});
+
+const bookingTime = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  time: z.string().regex(/^\d{2}:\d{2}$/).nullable().catch(null).default(null),
+});
+
+/** Reservations read from a confirmation email or PDF. Empty when there are none. */
+export const extractBookingSchema = z.object({
+  bookings: list(
+    z.object({
+      kind: z.enum(["flight", "hotel", "train", "car_rental", "other"]).catch("other"),
+      title: text,
+      provider: z.string().nullable().default(null),
+      confirmationNumber: z.string().nullable().default(null),
+      start: bookingTime,
+      end: bookingTime.nullable().catch(null).default(null),
+      startAddress: z.string().nullable().default(null),
+      endAddress: z.string().nullable().default(null),
+      cost: amount.nullable().catch(null).default(null),
+      currency: z.string().trim().toUpperCase().nullable().catch(null).default(null),
+      notes: z.string().nullable().default(null),
+    })
+  ),
+});
+
+/**
+ * Every dish on a scanned menu (or the one dish in a food photo) by
+ * section, with anything in it that may clash with the user's dietary
+ * profile. An unrecognised conflict kind is kept as an allergen:
+ * overstating it is safer than dropping it.
+ */
+export const analyzeMenuSchema = z.object({
+  language: z.string().trim().toLowerCase().default(""),
+  currency: z.string().trim().toUpperCase().nullable().catch(null).default(null),
+  dishes: list(
+    z.object({
+      section: z.string().trim().default(""),
+      name: text,
+      translation: text,
+      pronunciation: z.string().default(""),
+      description: z.string().default(""),
+      price: amount.nullable().catch(null).default(null),
+      conflicts: list(
+        z.object({
+          kind: z.enum(["allergen", "diet", "dislike"]).catch("allergen"),
+          item: text,
+          confidence: z.enum(["high", "medium", "low"]).catch("medium"),
+          reason: z.string().default(""),
+        })
+      ),
+    })
+  ),
+  allergy_card: z
+    .object({ text: text, pronunciation: z.string().default("") })
+    .nullable()
+    .catch(null)
+    .default(null),
+  /** Dishes by their `name` as written, and why */
+  recommendation: z
+    .object({ dishes: list(z.string()), reason: text })
+    .nullable()
+    .catch(null)
+    .default(null),
+});
+
+/** An answer from the user's own journal entries, citing them by id. */
+export const askJournalSchema = z.object({
+  answer: text,
+  sources: list(z.string()),
+});
+
+export const summarySchema = text;
+
+export type AnalyzeImageResult = z.infer<typeof analyzeImageSchema>;
+export type TranslateResult = z.infer<typeof translateSchema>;
+export type TranslateLinesResult = z.infer<ReturnType<typeof translateLinesSchema>>;
+export type ScanReceiptResult = z.infer<typeof scanReceiptSchema>;
+export type SafetyInfoResult = z.infer<typeof safetyInfoSchema>;
+export type PlanTripResult = z.infer<ReturnType<typeof planTripSchema>>;
+export type PlanDayResult = z.infer<typeof planDaySchema>;
+export type ExtractBookingResult = z.infer<typeof extractBookingSchema>;
+export type AskJournalResult = z.infer<typeof askJournalSchema>;
+export type AnalyzeMenuResult = z.infer<typeof analyzeMenuSchema>;
+
+/** One line per problem, e.g. `plan.itinerary.2.title: Required`. */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
@@ -0,0 +1,122 @@
+// =============================================================
+// Bookings read from confirmation emails and PDFs
+//
+// The "extract-booking" AI task turns a pasted email, a PDF or a screenshot
+// into reservations (see extractBookingSchema). This module decides what a
+// reservation becomes once the user attaches it to a trip:
+//
+//   - itinerary stops (departure, check-in/check-out, pick-up/drop-off)
+//     carrying the confirmation number as a booking reference, and
+//   - a spending record for the cost, filed as Accommodation or Transport.
+// =============================================================
+
+import { emptyStop, type DatedStop, type ItineraryStop } from "@/lib/itinerary";
+
+export type BookingKind = "flight" | "hotel" | "train" | "car_rental" | "other";
+
+export interface BookingTime {
+  /** yyyy-MM-dd, local to where it happens */
+  date: string;
+  /** "HH:mm" */
+  time: string | null;
+}
+
+/** One reservation as extractBookingSchema returns it. */
+export interface ExtractedBooking {
+  kind: BookingKind;
+  title: string;
+  provider: string | null;
+  confirmationNumber: string | null;
+  /** Departure, check-in or pick-up. */
+  start: BookingTime;
+  /** Arrival, check-out or drop-off. */
+  end: BookingTime | null;
+  startAddress: string | null;
+  endAddress: string | null;
+  cost: number | null;
+  currency: string | null;
+  notes: string | null;
+}
+
+export const BOOKING_KIND_LABELS: Record<BookingKind, string> = {
+  flight: "Flight",
+  hotel: "Hotel",
+  train: "Train",
+  car_rental: "Rental car",
+  other: "Booking",
+};
+
+/** The Spending category a booking's cost is filed under. */
+export function spendingCategoryFor(kind: BookingKind): string {
+  if (kind === "hotel") return "Accommodation";
+  if (kind === "flight" || kind === "train" || kind === "car_rental") return "Transport";
+  return "Other";
+}
+
+function joinNotes(...parts: (string | null | undefined)[]): string | null {
+  const text = parts.map((p) => p?.trim()).filter(Boolean).join("\n");
+  return text || null;
+}
+
+/** The itinerary stops a booking adds, each with the day it belongs to. */
+export function bookingStops(booking: ExtractedBooking): DatedStop[] {
+  const title = booking.title.trim() || booking.provider || BOOKING_KIND_LABELS[booking.kind];
+  const bookings = booking.confirmationNumber
+    ? [{ label: BOOKING_KIND_LABELS[booking.kind], reference: booking.confirmationNumber, url: null }]
+    : [];
+  const stop = (at: BookingTime, patch: Partial<ItineraryStop>): DatedStop => ({
+    date: at.date,
+    stop: emptyStop({ time: at.time, title, bookings, ...patch }),
+  });
+  const { start, end } = booking;
+  const laterDay = end && end.date > start.date;
+
+  switch (booking.kind) {
+    case "flight":
+    case "train": {
+      const arrives = end?.time || booking.endAddress
+        ? [
+            "Arrives",
+            end?.time ? `${laterDay ? `${end.date} ` : ""}${end.time}` : null,
+            booking.endAddress ? `at ${booking.endAddress}` : null,
+          ].filter(Boolean).join(" ") + "."
+        : null;
+      return [stop(start, { placeName: booking.startAddress, notes: joinNotes(arrives, booking.notes) })];
+    }
+    case "hotel": {
+      const stops = [stop(start, { title: `Check in: ${title}`, placeName: booking.startAddress, notes: booking.notes })];
+      if (laterDay) stops.push(stop(end, { title: `Check out: ${title}`, placeName: booking.startAddress }));
+      return stops;
+    }
+    case "car_rental": {
+      const stops = [stop(start, { title: `Pick up: ${title}`, placeName: booking.startAddress, notes: booking.notes })];
+      if (end) stops.push(stop(end, { title: `Drop off: ${title}`, placeName: booking.endAddress || booking.startAddress }));
+      return stops;
+    }
+    default:
+      return [stop(start, { placeName: booking.startAddress, notes: booking.notes })];
+  }
+}
+
+/**
+ * The spending_records row for a booking's cost, or null when the
+ * confirmation didn't state one. Dated on the booking's start, which is
+ * when the trip's budget feels it.
+ */
+export function spendingRecordFromBooking(
+  booking: ExtractedBooking,
+  context: { userId: string; tripId: string; currency: string }
+): Record<string, unknown> | null {
+  if (booking.cost === null || !(booking.cost > 0)) return null;
+  return {
+    user_id: context.userId,
+    amount: booking.cost,
+    currency: booking.currency || context.currency,
+    category: spendingCategoryFor(booking.kind),
+    merchant: booking.provider || booking.title || null,
+    location_name: booking.startAddress,
+    date: booking.start.date,
+    notes: [booking.title, booking.confirmationNumber && `Confirmation ${booking.confirmationNumber}`].filter(Boolean).join(" · ") || null,
+    trip_id: context.tripId,
+  };
+}
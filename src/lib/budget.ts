@@ -0,0 +1,194 @@
+// =============================================================
+// Trip budget math
+//
+// Spending records on one trip are often in several currencies (EUR, CHF
+// and GBP on the same rail trip). Everything here converts each record into
+// the trip's budget currency first, so totals, category limits and the
+// burn-down are always in one unit. Pure functions only - the page passes
+// in `convert` from useExchangeRates.
+// =============================================================
+
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type ConvertFn = (amount: number, from: string, to: string) => number | null;
+
+export interface BudgetRecord {
+  amount: number;
+  currency: string;
+  category: string;
+  date: string; // YYYY-MM-DD
+}
+
+export interface TripBudget {
+  amount: number | null;
+  currency: string;
+  categories: Record<string, number>;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ConvertedTotals {
+  total: number;
+  byCategory: Record<string, number>;
+  byDate: Record<string, number>;
+  // Records we could not convert (rates missing for their currency).
+  unconverted: number;
+  // The currencies those records are in.
+  unconvertedCurrencies: string[];
+}
+
+export interface BurnDownPoint {
+  date: string;
+  ideal: number;
+  remaining: number | null;
+  projected: number | null;
+}
+
+export interface CategoryBudgetStatus {
+  category: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface BudgetSummary {
+  currency: string;
+  budget: number;
+  spent: number;
+  spentToday: number;
+  remaining: number;
+  daysTotal: number;
+  daysLeft: number;
+  // What can still be spent per day (including today) to finish on budget.
+  remainingPerDay: number | null;
+  // Today's share of the budget, as it stood before today's spending.
+  todayAllowance: number | null;
+  categories: CategoryBudgetStatus[];
+  burnDown: BurnDownPoint[];
+  unconverted: number;
+  unconvertedCurrencies: string[];
+}
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  convert: ConvertFn
+): number | null {
+  if (!from || from === to) return amount;
+  return convert(amount, from, to);
+}
+
+/**
+ * Sums records in `currency`, converting each one on the way. Records whose
+ * currency has no rate yet are counted in `unconverted` and left out of the
+ * sums rather than being added as if they were already in `currency`.
+ */
+export function convertTotals(
+  records: BudgetRecord[],
+  currency: string,
+  convert: ConvertFn
+): ConvertedTotals {
+  const totals: ConvertedTotals = { total: 0, byCategory: {}, byDate: {}, unconverted: 0, unconvertedCurrencies: [] };
+
+  for (const record of records) {
+    const value = convertAmount(Number(record.amount), record.currency, currency, convert);
+    if (value === null || Number.isNaN(value)) {
+      totals.unconverted += 1;
+      if (!totals.unconvertedCurrencies.includes(record.currency)) totals.unconvertedCurrencies.push(record.currency);
+      continue;
+    }
+    totals.total += value;
+    totals.byCategory[record.category] = (totals.byCategory[record.category] || 0) + value;
+    totals.byDate[record.date] = (totals.byDate[record.date] || 0) + value;
+  }
+
+  return totals;
+}
+
+/**
+ * Builds the budget view for one trip: spent vs. budget, per-category
+ * limits, the remaining-per-day projection and a daily burn-down series.
+ *
+ * Without trip dates the range falls back to the first spending day and
+ * today, so a trip can still be tracked while it is being planned.
+ */
+export function summarizeBudget(
+  records: BudgetRecord[],
+  budget: TripBudget,
+  convert: ConvertFn,
+  now: Date = new Date()
+): BudgetSummary {
+  const totals = convertTotals(records, budget.currency, convert);
+  const today = toDay(now);
+  const recordDates = Object.keys(totals.byDate).sort();
+
+  const start = budget.startDate || recordDates[0] || today;
+  const end = budget.endDate && budget.endDate >= start ? budget.endDate : today > start ? today : start;
+  const daysTotal = differenceInCalendarDays(parseISO(end), parseISO(start)) + 1;
+
+  let daysLeft: number;
+  if (today < start) daysLeft = daysTotal;
+  else if (today > end) daysLeft = 0;
+  else daysLeft = differenceInCalendarDays(parseISO(end), parseISO(today)) + 1;
+
+  const total = budget.amount ?? 0;
+  const spent = totals.total;
+  const spentToday = totals.byDate[today] || 0;
+  const remaining = total - spent;
+
+  const remainingPerDay = daysLeft > 0 ? remaining / daysLeft : null;
+  const todayAllowance = daysLeft > 0 && today >= start ? (remaining + spentToday) / daysLeft : null;
+
+  // Burn-down: actual remaining up to today, then a projection at the
+  // average daily pace so far.
+  const burnDown: BurnDownPoint[] = [];
+  // Spending logged before the trip started (deposits, flights) counts from day one.
+  let cumulative = recordDates.filter((d) => d < start).reduce((sum, d) => sum + totals.byDate[d], 0);
+  let lastRemaining = total - cumulative;
+  const elapsedDays = today < start ? 0 : daysTotal - daysLeft + (daysLeft > 0 ? 1 : 0);
+  const spentInRange = recordDates
+    .filter((d) => d >= start && d <= end)
+    .reduce((sum, d) => sum + totals.byDate[d], 0);
+  const dailyPace = elapsedDays > 0 ? spentInRange / elapsedDays : 0;
+
+  for (let i = 0; i < daysTotal; i++) {
+    const date = toDay(addDays(parseISO(start), i));
+    const ideal = total - (total * (i + 1)) / daysTotal;
+
+    if (date <= today) {
+      cumulative += totals.byDate[date] || 0;
+      lastRemaining = total - cumulative;
+      burnDown.push({ date, ideal, remaining: lastRemaining, projected: date === today ? lastRemaining : null });
+    } else {
+      const ahead = differenceInCalendarDays(parseISO(date), parseISO(today));
+      burnDown.push({ date, ideal, remaining: null, projected: lastRemaining - dailyPace * ahead });
+    }
+  }
+
+  const categories: CategoryBudgetStatus[] = Object.keys(budget.categories)
+    .filter((category) => budget.categories[category] > 0)
+    .map((category) => {
+      const limit = budget.categories[category];
+      const categorySpent = totals.byCategory[category] || 0;
+      return { category, budget: limit, spent: categorySpent, remaining: limit - categorySpent };
+    });
+
+  return {
+    currency: budget.currency,
+    budget: total,
+    spent,
+    spentToday,
+    remaining,
+    daysTotal,
+    daysLeft,
+    remainingPerDay,
+    todayAllowance,
+    categories,
+    burnDown,
+    unconverted: totals.unconverted,
+    unconvertedCurrencies: totals.unconvertedCurrencies,
+  };
+}
@@ -0,0 +1,263 @@
+// =============================================================
+// Offline capture queue
+//
+// Photos taken without a connection (a landmark on a hike, a receipt on a
+// plane) cannot be analyzed on the spot because every AI call needs the
+// network. Scan and Spending store the compressed photo with its GPS fix
+// and time in the `captures` store instead, and processCaptureQueue() runs
+// analyze-image / scan-receipt once the device is back online. The results
+// are written through the sync outbox like any other journal or spending
+// entry, dated when the photo was taken rather than when it was processed.
+// =============================================================
+
+import { invokeAI } from "@/lib/aiInvoke";
+import type { AIError } from "@/lib/aiErrors";
+import type { ScanReceiptResult } from "@/lib/aiSchemas";
+import {
+  addCapture,
+  deleteCapture,
+  getCaptures,
+  updateCapture,
+  type CaptureAnalysis,
+  type CapturedPhoto,
+} from "@/lib/offlineStorage";
+import { saveChange } from "@/lib/syncOutbox";
+
+/** Fired on window whenever the capture queue changes. */
+export const CAPTURE_EVENT = "worldlens:captures";
+
+// A capture that keeps failing for reasons other than connectivity or quota
+// is set aside after this many attempts; the user can retry or discard it.
+export const MAX_CAPTURE_ATTEMPTS = 3;
+
+// Errors that say nothing about the photo itself: stop and try again later.
+const TRANSIENT_CODES: AIError["code"][] = [
+  "network",
+  "aborted",
+  "rate_limited",
+  "quota_exceeded",
+  "missing_key",
+  "unauthorized",
+];
+
+export interface CaptureContext {
+  userId: string;
+  image: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationName: string | null;
+  tripId: string | null;
+}
+
+// What analyze-image returns (see analyzeImageSchema)
+export interface ImageAnalysis {
+  category: string;
+  name: string;
+  description: string;
+  detected_location?: string | null;
+  details?: Record<string, unknown>;
+  extracted_text?: string;
+  prices?: Array<{ item: string; price: number; currency: string }>;
+  warnings?: string[];
+  tips?: string[];
+}
+
+export interface ProcessedCapture {
+  capture: CapturedPhoto;
+  title: string;
+  body: string;
+}
+
+export interface CaptureRunHandlers {
+  /** Asked before each AI call; returning false ends the run (quota). */
+  beforeEach?: () => Promise<boolean>;
+  onProcessed?: (result: ProcessedCapture) => void;
+}
+
+function notify(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(CAPTURE_EVENT));
+}
+
+/** The scan_entries row for an analyzed photo. */
+export function scanEntryFromAnalysis(
+  result: ImageAnalysis,
+  context: CaptureContext
+): Record<string, unknown> {
+  return {
+    user_id: context.userId,
+    category: result.category,
+    name: result.name,
+    description: result.description,
+    image_url: context.image,
+    // Don't save GPS coords if AI detected location
+    latitude: result.detected_location ? null : context.latitude,
+    longitude: result.detected_location ? null : context.longitude,
+    location_name: result.detected_location || context.locationName,
+    ai_analysis: result.details ? JSON.parse(JSON.stringify(result.details)) : null,
+    extracted_text: result.extracted_text || null,
+    prices: result.prices ? JSON.parse(JSON.stringify(result.prices)) : null,
+    warnings: result.warnings || [],
+    tips: result.tips || [],
+    trip_id: context.tripId,
+  };
+}
+
+/** One spending_records row per line item on a scanned receipt. */
+export function spendingRecordsFromReceipt(
+  receipt: ScanReceiptResult,
+  context: CaptureContext & { currency: string; date: string }
+): Record<string, unknown>[] {
+  return receipt.items.map((item) => ({
+    user_id: context.userId,
+    amount: item.price,
+    currency: receipt.currency || context.currency,
+    category: item.category || "Other",
+    merchant: receipt.merchant || null,
+    location_name: context.locationName || receipt.location || null,
+    date: receipt.date || context.date,
+    notes: item.name,
+    trip_id: context.tripId,
+  }));
+}
+
+/** `capturedAt` defaults to now; pass the photo's EXIF time when it has one. */
+export async function queueCapture(
+  capture: Omit<CapturedPhoto, "id" | "capturedAt" | "status" | "attempts" | "lastError"> & { capturedAt?: string | null }
+): Promise<void> {
+  await addCapture({
+    ...capture,
+    id: crypto.randomUUID(),
+    capturedAt: capture.capturedAt || new Date().toISOString(),
+    status: "queued",
+    attempts: 0,
+    lastError: null,
+  });
+  notify();
+}
+
+async function analyze(capture: CapturedPhoto, userId: string): Promise<CaptureAnalysis> {
+  const context: CaptureContext = {
+    userId,
+    image: capture.image,
+    latitude: capture.latitude,
+    longitude: capture.longitude,
+    locationName: capture.locationName,
+    tripId: capture.tripId,
+  };
+
+  if (capture.kind === "scan") {
+    const { data, error } = await invokeAI<ImageAnalysis>("analyze-image", { body: { image: capture.image } });
+    if (error) throw error;
+    return {
+      title: "Scan added to your journal",
+      body: data.name || data.category,
+      rows: [
+        {
+          table: "scan_entries",
+          label: data.name || data.category,
+          data: { id: crypto.randomUUID(), created_at: capture.capturedAt, ...scanEntryFromAnalysis(data, context) },
+        },
+      ],
+    };
+  }
+
+  const { data, error } = await invokeAI<ScanReceiptResult>("scan-receipt", {
+    body: { image: capture.image, currency: capture.currency },
+  });
+  if (error) throw error;
+  const records = spendingRecordsFromReceipt(data, {
+    ...context,
+    image: null,
+    currency: capture.currency || "USD",
+    date: capture.capturedAt.split("T")[0],
+  });
+  return {
+    title: "Receipt added to spending",
+    body: records.length > 0
+      ? `${records.length} item${records.length > 1 ? "s" : ""}${data.merchant ? ` from ${data.merchant}` : ""}`
+      : "No items found on the receipt",
+    rows: records.map((record) => ({
+      table: "spending_records",
+      label: `${record.amount} ${record.currency} · ${record.notes}`,
+      data: { id: crypto.randomUUID(), ...record },
+    })),
+  };
+}
+
+async function processOne(capture: CapturedPhoto, userId: string): Promise<ProcessedCapture> {
+  // Stored before anything is saved: if a save fails partway, the retry
+  // reuses the same row ids and creates are upserts by id, so rows that
+  // already landed aren't added twice.
+  if (!capture.analysis) {
+    capture.analysis = await analyze(capture, userId);
+    await updateCapture(capture);
+  }
+
+  for (const row of capture.analysis.rows) {
+    await saveChange({ type: "create", table: row.table, label: row.label, data: row.data });
+  }
+  return { capture, title: capture.analysis.title, body: capture.analysis.body };
+}
+
+async function drain(userId: string, handlers: CaptureRunHandlers): Promise<number> {
+  let processed = 0;
+
+  for (const capture of await getCaptures()) {
+    if (capture.status === "failed") continue;
+    // Only photos still to be analyzed cost an AI call
+    if (!capture.analysis && handlers.beforeEach && !(await handlers.beforeEach())) break;
+
+    try {
+      const result = await processOne(capture, userId);
+      await deleteCapture(capture.id);
+      processed++;
+      notify();
+      handlers.onProcessed?.(result);
+    } catch (err) {
+      const error = err as AIError;
+      if (TRANSIENT_CODES.includes(error.code)) {
+        await updateCapture({ ...capture, lastError: error.message });
+        notify();
+        break;
+      }
+      const attempts = capture.attempts + 1;
+      await updateCapture({
+        ...capture,
+        attempts,
+        lastError: error.message,
+        status: attempts >= MAX_CAPTURE_ATTEMPTS ? "failed" : "queued",
+      });
+      notify();
+    }
+  }
+
+  return processed;
+}
+
+let running: Promise<number> | null = null;
+
+/**
+ * Analyzes queued photos oldest first and resolves with how many were
+ * processed. Concurrent callers share one run (and the first caller's
+ * handlers), so each item is announced once.
+ */
+export function processCaptureQueue(userId: string, handlers: CaptureRunHandlers = {}): Promise<number> {
+  if (!running) {
+    running = drain(userId, handlers).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+/** Puts a capture that was set aside back in line. */
+export async function retryCapture(capture: CapturedPhoto): Promise<void> {
+  await updateCapture({ ...capture, status: "queued", attempts: 0 });
+  notify();
+}
+
+export async function discardCapture(id: string): Promise<void> {
+  await deleteCapture(id);
+  notify();
+}
@@ -0,0 +1,384 @@
+// =============================================================
+// Offline city packs
+//
+// "Download for offline" stores what a traveller needs for one destination
+// on the device, so the app stays useful on a plane or without roaming:
+// the Tourist and Essentials places the map shows, the get-safety-info
+// result (which carries the emergency numbers), exchange rates for the
+// local currency, the quick phrases translated into the local language and,
+// when the tile source allows it (see mapTiles.ts), the map tiles for a box
+// around the centre. Packs live in IndexedDB
+// (`city_packs` and `map_tiles`); the pages read from them when a request
+// fails or the device is offline.
+// =============================================================
+
+import { invokeAI } from "@/lib/aiInvoke";
+import { getCurrencyFromCountry } from "@/lib/currency";
+import { getLanguageFromCountry, getLanguageName, quickPhrases } from "@/lib/languages";
+import { OFFLINE_TILES_ALLOWED, tileUrl } from "@/lib/mapTiles";
+import {
+  cacheTranslation,
+  deleteCityPack,
+  getCityPacks,
+  isOnline,
+  putMapTile,
+  saveCityPack,
+} from "@/lib/offlineStorage";
+import { distanceMeters, fetchPlacesForMode, type NearbyPlace, type PlacesMode } from "@/lib/places";
+
+export interface SafetyAlert {
+  type: string;
+  title: string;
+  description: string;
+  severity: string;
+}
+
+export interface EmergencyNumbers {
+  police: string;
+  ambulance: string;
+  fire: string;
+  tourist_hotline?: string;
+}
+
+export interface SafetyData {
+  safetyLevel: "safe" | "caution" | "warning";
+  alerts: SafetyAlert[];
+  tips: string[];
+  emergencyNumbers: EmergencyNumbers;
+  customsInfo?: string;
+}
+
+export interface BBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface PackPhrase {
+  en: string;
+  category: string;
+  translation: string;
+}
+
+export interface CityPack {
+  id: string;
+  name: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  bbox: BBox;
+  places: Record<PlacesMode, NearbyPlace[]>;
+  safety: SafetyData | null;
+  currency: string;
+  rates: { base: string; rates: Record<string, number> } | null;
+  language: string;
+  phrases: PackPhrase[];
+  tileCount: number;
+  sizeBytes: number;
+  downloadedAt: string;
+}
+
+export interface PackDestination {
+  name: string;
+  countryCode: string;
+  lat: number;
+  lng: number;
+}
+
+export interface PackProgress {
+  label: string;
+  /** 0..1 */
+  fraction: number;
+}
+
+/** Fired on window whenever a pack is added, refreshed or removed. */
+export const PACKS_EVENT = "worldlens:city-packs";
+
+// Half the side of the downloaded area: a walkable city centre
+export const PACK_RADIUS_KM = 3;
+export const PACK_ZOOMS = [12, 13, 14, 15, 16];
+// Keeps a pack to a few MB and the tile server load reasonable
+export const MAX_PACK_TILES = 400;
+
+const TILE_BATCH = 4;
+
+function notify(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(PACKS_EVENT));
+}
+
+export function packIdFor(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+export function bboxAround(lat: number, lng: number, radiusKm = PACK_RADIUS_KM): BBox {
+  const dLat = radiusKm / 111.32;
+  const dLng = radiusKm / (111.32 * Math.cos((lat * Math.PI) / 180));
+  return { south: lat - dLat, west: lng - dLng, north: lat + dLat, east: lng + dLng };
+}
+
+function tileX(lng: number, z: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** z);
+}
+
+function tileY(lat: number, z: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+}
+
+/**
+ * Slippy-map tiles covering the box at each zoom. The deepest zooms are
+ * dropped until the total fits in `maxTiles`.
+ */
+export function tilesForBBox(
+  bbox: BBox,
+  zooms: number[] = PACK_ZOOMS,
+  maxTiles = MAX_PACK_TILES
+): Array<{ z: number; x: number; y: number }> {
+  const levels = [...zooms].sort((a, b) => a - b).map((z) => {
+    const tiles: Array<{ z: number; x: number; y: number }> = [];
+    for (let x = tileX(bbox.west, z); x <= tileX(bbox.east, z); x++) {
+      for (let y = tileY(bbox.north, z); y <= tileY(bbox.south, z); y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+    return tiles;
+  });
+
+  while (levels.length > 1 && levels.reduce((n, l) => n + l.length, 0) > maxTiles) {
+    levels.pop();
+  }
+  return levels.flat().slice(0, maxTiles);
+}
+
+function contains(bbox: BBox, lat: number, lng: number): boolean {
+  return lat >= bbox.south && lat <= bbox.north && lng >= bbox.west && lng <= bbox.east;
+}
+
+/** The pack covering a point, preferring the one whose centre is closest. */
+export function findPackFor(packs: CityPack[], lat: number, lng: number): CityPack | null {
+  let best: CityPack | null = null;
+  let bestDistance = Infinity;
+  for (const pack of packs) {
+    if (!contains(pack.bbox, lat, lng)) continue;
+    const d = distanceMeters(lat, lng, pack.latitude, pack.longitude);
+    if (d < bestDistance) {
+      best = pack;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/** A pack's places for a map mode, with distances from where the user is now. */
+export function placesFromPack(pack: CityPack, mode: PlacesMode, lat: number, lng: number): NearbyPlace[] {
+  return (pack.places[mode] || [])
+    .map((place) => ({ ...place, distanceMeters: distanceMeters(lat, lng, place.lat, place.lng) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+/**
+ * Splits the answer to a numbered batch translation back into lines.
+ * Returns null when the model merged or dropped lines.
+ */
+export function splitTranslatedLines(text: string, expected: number): string[] | null {
+  const lines = text
+    .split("\n")
+    .map((line) => line.replace(/^\s*\d+[.)]\s*/, "").trim())
+    .filter(Boolean);
+  return lines.length === expected ? lines : null;
+}
+
+/**
+ * Re-expresses a rate table (1 `from` = rates[X] X) for another base, so a
+ * pack downloaded with the local currency as base can still convert from
+ * the user's home currency.
+ */
+export function rebaseRates(rates: Record<string, number>, from: string, to: string): Record<string, number> | null {
+  if (from === to) return rates;
+  const toRate = rates[to];
+  if (!toRate) return null;
+  const rebased: Record<string, number> = { [from]: 1 / toRate };
+  for (const [code, rate] of Object.entries(rates)) {
+    rebased[code] = rate / toRate;
+  }
+  return rebased;
+}
+
+async function translatePhrases(language: string): Promise<PackPhrase[]> {
+  if (language === "en") return [];
+
+  const targetLanguage = getLanguageName(language);
+  const { data, error } = await invokeAI<{ translation: string }>("translate", {
+    body: {
+      text: quickPhrases.map((phrase, i) => `${i + 1}. ${phrase.en}`).join("\n"),
+      targetLanguage,
+    },
+  });
+  if (error) throw error;
+
+  const lines = splitTranslatedLines(data.translation, quickPhrases.length);
+  if (!lines) return [];
+
+  const phrases = quickPhrases.map((phrase, i) => ({ ...phrase, translation: lines[i] }));
+  // Translate looks phrases up in the translation cache when offline
+  await Promise.all(phrases.map((p) => cacheTranslation(p.en, p.translation, "en", language)));
+  return phrases;
+}
+
+async function downloadTiles(
+  packId: string,
+  bbox: BBox,
+  onTile: (done: number, total: number) => void
+): Promise<{ count: number; bytes: number }> {
+  const tiles = tilesForBBox(bbox);
+  let count = 0;
+  let bytes = 0;
+
+  for (let i = 0; i < tiles.length; i += TILE_BATCH) {
+    await Promise.all(
+      tiles.slice(i, i + TILE_BATCH).map(async ({ z, x, y }) => {
+        try {
+          const res = await fetch(tileUrl(z, x, y));
+          if (!res.ok) return;
+          const blob = await res.blob();
+          await putMapTile(packId, z, x, y, blob);
+          count++;
+          bytes += blob.size;
+        } catch (error) {
+          console.warn(`Tile ${z}/${x}/${y} failed:`, error);
+        }
+      })
+    );
+    onTile(Math.min(i + TILE_BATCH, tiles.length), tiles.length);
+  }
+
+  return { count, bytes };
+}
+
+/**
+ * Downloads (or re-downloads) everything for a destination. Parts that fail
+ * are left empty rather than failing the pack; only a pack with neither
+ * places nor tiles is an error.
+ */
+export async function downloadCityPack(
+  destination: PackDestination,
+  onProgress?: (progress: PackProgress) => void
+): Promise<CityPack> {
+  if (!isOnline()) throw new Error("Connect to the internet to download a city");
+
+  const { name, countryCode, lat, lng } = destination;
+  const id = packIdFor(name);
+  const bbox = bboxAround(lat, lng);
+  const currency = getCurrencyFromCountry(countryCode);
+  const language = getLanguageFromCountry(countryCode);
+  const report = (label: string, fraction: number) => onProgress?.({ label, fraction });
+
+  report("Finding places", 0);
+  const [tourist, essentials] = await Promise.all(
+    (["tourist", "essentials"] as PlacesMode[]).map((mode) =>
+      fetchPlacesForMode(lat, lng, mode).catch((error) => {
+        console.warn(`Pack places (${mode}) failed:`, error);
+        return [] as NearbyPlace[];
+      })
+    )
+  );
+
+  report("Safety info and emergency numbers", 0.1);
+  const { data: safety, error: safetyError } = await invokeAI<SafetyData>("get-safety-info", {
+    body: { locationName: name, countryCode, latitude: lat, longitude: lng },
+  });
+  if (safetyError) console.warn("Pack safety info failed:", safetyError);
+
+  report("Exchange rates", 0.15);
+  const { data: ratesData } = await invokeAI<{ success: boolean; base: string; rates: Record<string, number> }>(
+    "get-exchange-rates",
+    { body: { base: currency } }
+  );
+
+  report("Phrases", 0.2);
+  const phrases = await translatePhrases(language).catch((error) => {
+    console.warn("Pack phrases failed:", error);
+    return [] as PackPhrase[];
+  });
+
+  const tiles = OFFLINE_TILES_ALLOWED
+    ? await downloadTiles(id, bbox, (done, total) =>
+        report(`Map tiles ${done}/${total}`, 0.25 + 0.75 * (done / total))
+      )
+    : { count: 0, bytes: 0 };
+
+  if (tiles.count === 0 && tourist.length === 0 && essentials.length === 0) {
+    throw new Error(`Couldn't download ${name}. Check your connection and try again.`);
+  }
+
+  const pack: CityPack = {
+    id,
+    name,
+    countryCode,
+    latitude: lat,
+    longitude: lng,
+    bbox,
+    places: { tourist, essentials },
+    safety: safetyError ? null : safety,
+    currency,
+    rates: ratesData?.success ? { base: ratesData.base, rates: ratesData.rates } : null,
+    language,
+    phrases,
+    tileCount: tiles.count,
+    sizeBytes: 0,
+    downloadedAt: new Date().toISOString(),
+  };
+  pack.sizeBytes = tiles.bytes + new Blob([JSON.stringify(pack)]).size;
+
+  await saveCityPack(pack);
+  notify();
+  return pack;
+}
+
+export function refreshCityPack(pack: CityPack, onProgress?: (progress: PackProgress) => void): Promise<CityPack> {
+  return downloadCityPack(
+    { name: pack.name, countryCode: pack.countryCode, lat: pack.latitude, lng: pack.longitude },
+    onProgress
+  );
+}
+
+export async function removeCityPack(id: string): Promise<void> {
+  await deleteCityPack(id);
+  notify();
+}
+
+/** Downloaded packs, newest first. */
+export async function listCityPacks(): Promise<CityPack[]> {
+  const packs = await getCityPacks();
+  return packs.sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt));
+}
+
+export async function findOfflinePack(lat: number, lng: number): Promise<CityPack | null> {
+  try {
+    return findPackFor(await getCityPacks(), lat, lng);
+  } catch (error) {
+    console.error("Failed to read city packs:", error);
+    return null;
+  }
+}
+
+/** Rates for `base` from any downloaded pack, for when the rates API is unreachable. */
+export async function offlineRates(base: string): Promise<Record<string, number> | null> {
+  try {
+    for (const pack of await listCityPacks()) {
+      if (!pack.rates) continue;
+      const rates = rebaseRates(pack.rates.rates, pack.rates.base, base);
+      if (rates) return rates;
+    }
+  } catch (error) {
+    console.error("Failed to read city packs:", error);
+  }
+  return null;
+}
@@ -0,0 +1,177 @@
+// =============================================================
+// Conversation mode
+//
+// A back-and-forth between the traveller and someone local, each
+// speaking their own language. Every turn is translated into the
+// other language; which way it goes is decided by the language the
+// turn is actually in, so it doesn't matter which mic was tapped.
+// Detection is local: the writing system settles most pairs, and
+// common words tell Latin-script languages apart. When neither
+// gives an answer the tapped side's language is assumed.
+// =============================================================
+
+import { getLanguageName } from "./languages";
+
+export type ConversationSide = "you" | "them";
+
+export interface ConversationTurn {
+  id: string;
+  speaker: ConversationSide;
+  text: string;
+  translation: string;
+  pronunciation: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+type Script =
+  | "kana"
+  | "han"
+  | "hangul"
+  | "cyrillic"
+  | "arabic"
+  | "hebrew"
+  | "devanagari"
+  | "thai"
+  | "greek"
+  | "latin";
+
+const SCRIPT_RANGES: [Script, RegExp][] = [
+  ["kana", /[぀-ヿ]/],
+  ["han", /[一-鿿㐀-䶿]/],
+  ["hangul", /[가-힯ᄀ-ᇿ㄰-㆏]/],
+  ["cyrillic", /[Ѐ-ӿ]/],
+  ["arabic", /[؀-ۿ]/],
+  ["hebrew", /[֐-׿]/],
+  ["devanagari", /[ऀ-ॿ]/],
+  ["thai", /[฀-๿]/],
+  ["greek", /[Ͱ-Ͽ]/],
+  ["latin", /[a-zA-ZÀ-ɏḀ-ỿ]/],
+];
+
+const LANGUAGE_SCRIPTS: Record<string, Script[]> = {
+  ja: ["kana", "han"],
+  zh: ["han"],
+  ko: ["hangul"],
+  ru: ["cyrillic"],
+  uk: ["cyrillic"],
+  ar: ["arabic"],
+  he: ["hebrew"],
+  hi: ["devanagari"],
+  th: ["thai"],
+  el: ["greek"],
+};
+
+// A handful of the most frequent short words, enough to tell which of two
+// Latin-script languages a spoken sentence is in.
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ["the", "is", "you", "i", "to", "and", "it", "what", "where", "how", "do", "this", "please", "thank", "my", "have"],
+  es: ["el", "la", "es", "que", "de", "y", "por", "favor", "gracias", "dónde", "donde", "cómo", "qué", "usted", "está", "un", "una"],
+  fr: ["le", "la", "les", "est", "je", "vous", "et", "de", "merci", "où", "bonjour", "c'est", "une", "un", "pas", "oui"],
+  de: ["der", "die", "das", "ist", "ich", "sie", "und", "nicht", "wo", "danke", "bitte", "ein", "eine", "wie", "haben"],
+  it: ["il", "la", "è", "che", "di", "e", "grazie", "dove", "per", "non", "sono", "un", "una", "prego", "come"],
+  pt: ["o", "a", "é", "que", "de", "e", "obrigado", "obrigada", "onde", "não", "você", "um", "uma", "por", "favor"],
+  nl: ["de", "het", "is", "een", "ik", "je", "en", "niet", "waar", "dank", "u", "wel", "alstublieft", "hoe"],
+  id: ["saya", "anda", "ini", "itu", "di", "dan", "tidak", "terima", "kasih", "apa", "mana", "yang", "ada"],
+  ms: ["saya", "anda", "ini", "itu", "di", "dan", "tidak", "terima", "kasih", "apa", "mana", "yang", "ada"],
+  tr: ["bir", "ve", "bu", "ne", "nerede", "teşekkür", "ederim", "evet", "hayır", "lütfen", "var", "mı", "mi"],
+  pl: ["jest", "nie", "i", "w", "się", "to", "gdzie", "dziękuję", "proszę", "tak", "co", "jak"],
+  vi: ["tôi", "bạn", "là", "không", "có", "và", "cảm", "ơn", "ở", "đâu", "này", "được"],
+  sv: ["är", "jag", "du", "och", "inte", "var", "tack", "det", "en", "ett", "hur"],
+};
+
+function scriptCounts(text: string): Partial<Record<Script, number>> {
+  const counts: Partial<Record<Script, number>> = {};
+  for (const char of text) {
+    const match = SCRIPT_RANGES.find(([, range]) => range.test(char));
+    if (match) counts[match[0]] = (counts[match[0]] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function scriptScore(language: string, counts: Partial<Record<Script, number>>): number {
+  // Kana only appears in Japanese, so Han characters alone read as Chinese.
+  if (language === "zh" && counts.kana) return 0;
+  if (language === "ja" && !counts.kana) return (counts.han ?? 0) / 2;
+  const scripts = LANGUAGE_SCRIPTS[language] ?? ["latin"];
+  return scripts.reduce((sum, script) => sum + (counts[script] ?? 0), 0);
+}
+
+function wordScore(language: string, text: string): number {
+  const common = COMMON_WORDS[language];
+  if (!common) return 0;
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  return words.filter((word) => common.includes(word)).length;
+}
+
+/**
+ * Which of the two conversation languages `text` is in. Falls back to
+ * `fallback` (the side whose mic was used) when it can't tell.
+ */
+export function detectLanguage(text: string, languages: [string, string], fallback: string): string {
+  const [a, b] = languages;
+  if (a === b) return a;
+
+  const counts = scriptCounts(text);
+  const scriptA = scriptScore(a, counts);
+  const scriptB = scriptScore(b, counts);
+  if (scriptA !== scriptB) return scriptA > scriptB ? a : b;
+
+  const wordsA = wordScore(a, text);
+  const wordsB = wordScore(b, text);
+  if (wordsA !== wordsB) return wordsA > wordsB ? a : b;
+
+  return fallback;
+}
+
+/** The language a turn is in and the one it is translated into. */
+export function turnDirection(
+  text: string,
+  side: ConversationSide,
+  languages: { you: string; them: string }
+): { speaker: ConversationSide; from: string; to: string } {
+  const from = detectLanguage(text, [languages.you, languages.them], languages[side]);
+  const speaker: ConversationSide = from === languages.you ? "you" : "them";
+  return { speaker, from, to: speaker === "you" ? languages.them : languages.you };
+}
+
+/** Plain-text transcript, one turn per pair of lines. */
+export function transcriptText(turns: ConversationTurn[], languages: { you: string; them: string }): string {
+  return turns
+    .map((turn) => {
+      const who = turn.speaker === "you" ? "Me" : "Them";
+      const to = turn.speaker === "you" ? languages.them : languages.you;
+      return `${who}: ${turn.text}\n  → ${getLanguageName(to)}: ${turn.translation}`;
+    })
+    .join("\n");
+}
+
+/** A journal entry (scan_entries row) holding the conversation. */
+export function conversationEntry(
+  turns: ConversationTurn[],
+  context: {
+    userId: string;
+    tripId: string | null;
+    languages: { you: string; them: string };
+    latitude: number | null;
+    longitude: number | null;
+    locationName: string | null;
+  }
+): Record<string, unknown> {
+  const { languages } = context;
+  const exchange = `${getLanguageName(languages.you)} ↔ ${getLanguageName(languages.them)}`;
+  return {
+    user_id: context.userId,
+    category: "other",
+    name: `Conversation in ${getLanguageName(languages.them)}`,
+    description: `${turns.length} ${turns.length === 1 ? "turn" : "turns"} · ${exchange}`,
+    extracted_text: transcriptText(turns, languages),
+    ai_analysis: { conversation: { languages, turns } },
+    image_url: null,
+    latitude: context.latitude,
+    longitude: context.longitude,
+    location_name: context.locationName,
+    trip_id: context.tripId,
+    created_at: turns[0]?.at ?? new Date().toISOString(),
+  };
+}
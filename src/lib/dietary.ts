@@ -0,0 +1,162 @@
+// =============================================================
+// Dietary profile
+//
+// What the user can't or won't eat (profiles.allergens, diets,
+// food_dislikes, allergy_severe). Menu and food scans send it along to
+// analyze-menu, which flags each dish that may conflict; the same
+// profile becomes an allergy card in the menu's language for staff.
+// =============================================================
+
+import type { AnalyzeMenuResult } from "./aiSchemas";
+
+export const ALLERGENS: Record<string, string> = {
+  peanuts: "Peanuts",
+  tree_nuts: "Tree nuts",
+  milk: "Milk",
+  eggs: "Eggs",
+  fish: "Fish",
+  shellfish: "Shellfish",
+  molluscs: "Molluscs",
+  gluten: "Gluten",
+  soy: "Soy",
+  sesame: "Sesame",
+  celery: "Celery",
+  mustard: "Mustard",
+  lupin: "Lupin",
+  sulphites: "Sulphites",
+};
+
+export const DIETS: Record<string, { label: string; rule: string }> = {
+  vegetarian: { label: "Vegetarian", rule: "I don't eat meat or fish, including stock, gelatin or fish sauce." },
+  vegan: {
+    label: "Vegan",
+    rule: "I don't eat any animal products: no meat, fish, eggs, dairy, honey, or stock or sauces made from them.",
+  },
+  pescatarian: { label: "Pescatarian", rule: "I don't eat meat, but fish and seafood are fine." },
+  halal: { label: "Halal", rule: "I only eat halal food: no pork, no alcohol, and meat must be halal." },
+  kosher: { label: "Kosher", rule: "I only eat kosher food: no pork or shellfish, and no meat together with dairy." },
+};
+
+export interface DietaryProfile {
+  /** ALLERGENS keys or the user's own words ("kiwi") */
+  allergens: string[];
+  diets: string[];
+  dislikes: string[];
+  /** Even traces and cross-contact are dangerous */
+  severe: boolean;
+}
+
+export type MenuDish = AnalyzeMenuResult["dishes"][number];
+export type DietConflict = MenuDish["conflicts"][number];
+export type DishVerdict = "avoid" | "ask" | "ok";
+
+const CONFIDENCE_RANK: Record<DietConflict["confidence"], number> = { high: 0, medium: 1, low: 2 };
+const KIND_RANK: Record<DietConflict["kind"], number> = { allergen: 0, diet: 1, dislike: 2 };
+
+/** Scan categories that get a menu check after analyze-image. */
+export function isMenuScan(category: string): boolean {
+  return category === "menu" || category === "food";
+}
+
+export function dietaryProfileFrom(
+  profile: { allergens?: string[]; diets?: string[]; food_dislikes?: string[]; allergy_severe?: boolean } | null
+): DietaryProfile {
+  return {
+    allergens: profile?.allergens ?? [],
+    diets: profile?.diets ?? [],
+    dislikes: profile?.food_dislikes ?? [],
+    severe: profile?.allergy_severe ?? false,
+  };
+}
+
+export function hasDietaryProfile(profile: DietaryProfile): boolean {
+  return profile.allergens.length > 0 || profile.diets.length > 0 || profile.dislikes.length > 0;
+}
+
+export function allergenLabel(allergen: string): string {
+  return ALLERGENS[allergen] ?? allergen;
+}
+
+/** "kiwi, Coriander , kiwi" -> ["kiwi", "Coriander"] */
+export function splitList(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[,;\n]/)
+    .map((item) => item.trim().replace(/\s+/g, " "))
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/** "peanuts, tree nuts and sesame" */
+function listOf(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/** The profile as plain sentences for the model. */
+export function describeDietaryProfile(profile: DietaryProfile): string {
+  const lines: string[] = [];
+  if (profile.allergens.length > 0) {
+    lines.push(
+      `Allergies${profile.severe ? " (SEVERE: traces and cross-contact are dangerous)" : ""}: ` +
+        profile.allergens.map(allergenLabel).join(", ")
+    );
+  }
+  if (profile.diets.length > 0) {
+    lines.push(`Diet: ${profile.diets.map((diet) => DIETS[diet]?.label ?? diet).join(", ")}`);
+  }
+  if (profile.dislikes.length > 0) lines.push(`Dislikes: ${profile.dislikes.join(", ")}`);
+  return lines.join("\n");
+}
+
+/**
+ * What the user wants restaurant staff to know, in English. analyze-menu
+ * translates it into the menu's language; Settings can translate it into
+ * any language ahead of a trip.
+ */
+export function allergyCardText(profile: DietaryProfile): string {
+  const sentences: string[] = [];
+  if (profile.allergens.length > 0) {
+    const allergens = listOf(profile.allergens.map((a) => allergenLabel(a).toLowerCase()));
+    sentences.push(
+      profile.severe
+        ? `I have a severe allergy to ${allergens}. Even a trace can make me seriously ill.`
+        : `I am allergic to ${allergens}.`
+    );
+    sentences.push(
+      profile.severe
+        ? "Please make sure my food does not contain them and is not prepared with the same utensils, oil or surfaces."
+        : "Please make sure my food does not contain them."
+    );
+  }
+  for (const diet of profile.diets) {
+    if (DIETS[diet]) sentences.push(DIETS[diet].rule);
+  }
+  if (sentences.length > 0) sentences.push("Could you tell me which dishes are safe for me? Thank you.");
+  return sentences.join(" ");
+}
+
+/** Allergens first, then diet, then dislikes; surest first within each. */
+export function sortConflicts(conflicts: DietConflict[]): DietConflict[] {
+  return [...conflicts].sort(
+    (a, b) =>
+      KIND_RANK[a.kind] - KIND_RANK[b.kind] || CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence]
+  );
+}
+
+/**
+ * "avoid" when the dish almost certainly breaks an allergy or diet, "ask"
+ * when it might (ask the staff), "ok" otherwise. Dislikes never make a
+ * dish unsafe; they are shown as notes. With a severe allergy no dish is
+ * "ok": traces and cross-contact don't show on a menu, so staff must confirm.
+ */
+export function dishVerdict(dish: MenuDish, profile?: Pick<DietaryProfile, "severe">): DishVerdict {
+  const serious = dish.conflicts.filter((c) => c.kind !== "dislike");
+  if (serious.some((c) => c.confidence === "high")) return "avoid";
+  if (serious.length > 0 || profile?.severe) return "ask";
+  return "ok";
+}
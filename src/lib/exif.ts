@@ -0,0 +1,222 @@
+// =============================================================
+// Photo EXIF: where and when a photo was taken
+//
+// compressImage() redraws photos on a canvas, which drops their EXIF
+// block, so Scan and the batch import read it from the original file
+// first. Only what the journal uses is parsed: the GPS position and the
+// capture time. Everything else (camera, lens, orientation) is skipped.
+//
+// JPEG only. Browsers hand iPhone HEIC photos to file inputs as JPEG
+// conversions that keep the EXIF; PNGs and screenshots have none, and come
+// back with every field null.
+// =============================================================
+
+export interface PhotoMetadata {
+  latitude: number | null;
+  longitude: number | null;
+  /** ISO timestamp of the moment the photo was taken */
+  takenAt: string | null;
+}
+
+const EMPTY: PhotoMetadata = { latitude: null, longitude: null, takenAt: null };
+
+// EXIF sits in the first APP1 segment, well inside this on any camera.
+const HEADER_BYTES = 256 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_TIME_STAMP = 0x0007;
+const TAG_GPS_DATE_STAMP = 0x001d;
+
+// Bytes per value for the TIFF field types we read.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Where the value starts, inline or at its offset. */
+  valueOffset: number;
+}
+
+class TiffReader {
+  constructor(
+    private view: DataView,
+    private start: number,
+    private little: boolean
+  ) {}
+
+  u16(at: number): number {
+    return this.view.getUint16(this.start + at, this.little);
+  }
+
+  u32(at: number): number {
+    return this.view.getUint32(this.start + at, this.little);
+  }
+
+  ifd(at: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    if (at <= 0 || this.start + at + 2 > this.view.byteLength) return entries;
+    const count = this.u16(at);
+    for (let i = 0; i < count; i++) {
+      const entry = at + 2 + i * 12;
+      if (this.start + entry + 12 > this.view.byteLength) break;
+      const type = this.u16(entry + 2);
+      const valueCount = this.u32(entry + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(this.u16(entry), {
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entry + 8 : this.u32(entry + 8),
+      });
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry | undefined): string | null {
+    if (!entry || entry.type !== 2) return null;
+    let text = "";
+    for (let i = 0; i < entry.count; i++) {
+      const at = this.start + entry.valueOffset + i;
+      if (at >= this.view.byteLength) break;
+      const code = this.view.getUint8(at);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim() || null;
+  }
+
+  rationals(entry: IfdEntry | undefined): number[] {
+    if (!entry || (entry.type !== 5 && entry.type !== 10)) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const at = entry.valueOffset + i * 8;
+      if (this.start + at + 8 > this.view.byteLength) break;
+      const num = entry.type === 10 ? this.view.getInt32(this.start + at, this.little) : this.u32(at);
+      const den = entry.type === 10 ? this.view.getInt32(this.start + at + 4, this.little) : this.u32(at + 4);
+      values.push(den === 0 ? 0 : num / den);
+    }
+    return values;
+  }
+}
+
+/** Offset of the TIFF header inside the JPEG's Exif APP1 segment. */
+function findTiffStart(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let at = 2;
+  while (at + 4 <= view.byteLength) {
+    if (view.getUint8(at) !== 0xff) return null;
+    const marker = view.getUint8(at + 1);
+    // Start of scan: the image data follows, no more metadata.
+    if (marker === 0xda) return null;
+    const length = view.getUint16(at + 2);
+    const isExif =
+      marker === 0xe1 &&
+      at + 10 <= view.byteLength &&
+      view.getUint32(at + 4) === 0x45786966 && // "Exif"
+      view.getUint16(at + 8) === 0;
+    if (isExif) return at + 10;
+    at += 2 + length;
+  }
+  return null;
+}
+
+function coordinate(values: number[], ref: string | null, limit: number): number | null {
+  if (values.length === 0) return null;
+  const [degrees, minutes = 0, seconds = 0] = values;
+  let value = degrees + minutes / 60 + seconds / 3600;
+  if (ref === "S" || ref === "W") value = -value;
+  if (!Number.isFinite(value) || Math.abs(value) > limit) return null;
+  return Math.round(value * 1e6) / 1e6;
+}
+
+// "2026:03:02 14:05:09" -> [2026, 3, 2, 14, 5, 9]
+function dateParts(text: string | null): number[] | null {
+  const m = text?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m) return null;
+  const parts = m.slice(1).map(Number);
+  return parts[0] > 1900 && parts[1] >= 1 ? parts : null;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * The capture time. EXIF stores it as wall-clock time without a zone, so
+ * in order of preference: with the offset newer cameras record, from the
+ * GPS clock (always UTC), or read as the device's local time.
+ */
+function captureTime(original: string | null, offset: string | null, gpsDate: string | null, gpsTime: number[]): string | null {
+  const local = dateParts(original);
+  if (local && offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const [y, mo, d, h, mi, s] = local;
+    const date = new Date(`${y}-${pad(mo)}-${pad(d)}T${pad(h)}:${pad(mi)}:${pad(s)}${offset}`);
+    if (!Number.isNaN(date.getTime())) return date.toISOString();
+  }
+
+  const gpsDay = gpsDate?.match(/^(\d{4}):(\d{2}):(\d{2})$/);
+  if (gpsDay && gpsTime.length === 3) {
+    const [h, mi, s] = gpsTime;
+    const date = new Date(Date.UTC(+gpsDay[1], +gpsDay[2] - 1, +gpsDay[3], h, mi, Math.floor(s)));
+    if (!Number.isNaN(date.getTime())) return date.toISOString();
+  }
+
+  if (local) {
+    const [y, mo, d, h, mi, s] = local;
+    return new Date(y, mo - 1, d, h, mi, s).toISOString();
+  }
+  return null;
+}
+
+/** Reads the GPS position and capture time from the start of a JPEG. */
+export function parseExif(buffer: ArrayBuffer): PhotoMetadata {
+  try {
+    const view = new DataView(buffer);
+    const start = findTiffStart(view);
+    if (start === null || start + 8 > view.byteLength) return EMPTY;
+
+    const order = view.getUint16(start);
+    if (order !== 0x4949 && order !== 0x4d4d) return EMPTY;
+    const tiff = new TiffReader(view, start, order === 0x4949);
+    if (tiff.u16(2) !== 42) return EMPTY;
+
+    const ifd0 = tiff.ifd(tiff.u32(4));
+    const exifIfd = ifd0.has(TAG_EXIF_IFD) ? tiff.ifd(tiff.u32(ifd0.get(TAG_EXIF_IFD).valueOffset)) : new Map<number, IfdEntry>();
+    const gps = ifd0.has(TAG_GPS_IFD) ? tiff.ifd(tiff.u32(ifd0.get(TAG_GPS_IFD).valueOffset)) : new Map<number, IfdEntry>();
+
+    let latitude = coordinate(tiff.rationals(gps.get(TAG_GPS_LATITUDE)), tiff.ascii(gps.get(TAG_GPS_LATITUDE_REF)), 90);
+    let longitude = coordinate(tiff.rationals(gps.get(TAG_GPS_LONGITUDE)), tiff.ascii(gps.get(TAG_GPS_LONGITUDE_REF)), 180);
+    // Cameras without a fix write zeros rather than leaving the tags out.
+    if (latitude === null || longitude === null || (latitude === 0 && longitude === 0)) {
+      latitude = null;
+      longitude = null;
+    }
+
+    const takenAt = captureTime(
+      tiff.ascii(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? tiff.ascii(ifd0.get(TAG_DATE_TIME)),
+      tiff.ascii(exifIfd.get(TAG_OFFSET_TIME_ORIGINAL)),
+      tiff.ascii(gps.get(TAG_GPS_DATE_STAMP)),
+      tiff.rationals(gps.get(TAG_GPS_TIME_STAMP))
+    );
+
+    return { latitude, longitude, takenAt };
+  } catch {
+    // Truncated or malformed EXIF: treat the photo as having none.
+    return EMPTY;
+  }
+}
+
+/** Where and when a photo file was taken, from its EXIF. */
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+  if (file.type && file.type !== "image/jpeg") return EMPTY;
+  try {
+    return parseExif(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  } catch {
+    return EMPTY;
+  }
+}
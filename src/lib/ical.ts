@@ -0,0 +1,418 @@
+// =============================================================
+// iCalendar (.ics, RFC 5545) export and import for trips
+//
+// Export: one all-day event spanning the trip, plus one event per
+// itinerary stop that has a date (days are dated from the trip's start).
+// Stop times are written as floating local times, so a 09:00 museum
+// visit shows at 09:00 in whatever zone the phone is in when you're there.
+//
+// Import: reads flight and hotel confirmations (airline and booking-site
+// emails usually attach an .ics) and turns them into a new trip with
+// check-in / check-out and departure stops. Other events are skipped.
+// =============================================================
+
+import { emptyDay, emptyStop, type Itinerary, type ItineraryStop } from "@/lib/itinerary";
+
+export interface CalendarTrip {
+  id: string;
+  name: string;
+  destination: string | null;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+export interface CalendarEvent {
+  uid: string | null;
+  summary: string;
+  description: string;
+  location: string | null;
+  url: string | null;
+  geo: { lat: number; lng: number } | null;
+  /** yyyy-MM-dd */
+  startDate: string;
+  /** "HH:mm", null for all-day events */
+  startTime: string | null;
+  endDate: string | null;
+  endTime: string | null;
+}
+
+export type BookingKind = "flight" | "hotel";
+
+export interface ImportedTrip {
+  name: string;
+  destination: string | null;
+  start_date: string;
+  end_date: string;
+  itinerary: Itinerary;
+  flights: number;
+  hotels: number;
+  skipped: number;
+}
+
+const PRODID = "-//WorldLens//Trip Export//EN";
+// Longest trip the importer will lay out day by day
+const MAX_IMPORT_DAYS = 60;
+
+// ---- Writing -------------------------------------------------------------
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line at 75 octets, never splitting a character. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const compactDate = (date: string) => date.slice(0, 10).replace(/-/g, "");
+const compactTime = (time: string) => `${time.replace(":", "")}00`;
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function addMinutes(time: string, minutes: number): { time: string; nextDay: boolean } {
+  const [h, m] = time.split(":").map(Number);
+  const total = h * 60 + m + minutes;
+  const wrapped = total % (24 * 60);
+  return {
+    time: `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`,
+    nextDay: total >= 24 * 60,
+  };
+}
+
+function utcStamp(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function stopDescription(stop: ItineraryStop): string {
+  const lines: string[] = [];
+  if (stop.notes) lines.push(stop.notes);
+  for (const booking of stop.bookings) {
+    lines.push([booking.label || "Booking", booking.reference, booking.url].filter(Boolean).join(": "));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The trip and its dated stops as an .ics file. Timed stops run until the
+ * next timed stop that day (or an hour); untimed ones become all-day events.
+ */
+export function buildTripCalendar(trip: CalendarTrip, itinerary: Itinerary | null, now = new Date()): string {
+  const stamp = utcStamp(now);
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  const event = (props: string[]) => lines.push("BEGIN:VEVENT", `DTSTAMP:${stamp}`, ...props, "END:VEVENT");
+
+  if (trip.start_date) {
+    const lastDay = trip.end_date || itinerary?.days.reduce((last, day) => (day.date && day.date > last ? day.date : last), trip.start_date) || trip.start_date;
+    event([
+      `UID:trip-${trip.id}@worldlens`,
+      `DTSTART;VALUE=DATE:${compactDate(trip.start_date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(lastDay, 1))}`,
+      `SUMMARY:${escapeText(trip.name)}`,
+      ...(trip.destination ? [`LOCATION:${escapeText(trip.destination)}`] : []),
+      "TRANSP:TRANSPARENT",
+    ]);
+  }
+
+  for (const day of itinerary?.days ?? []) {
+    if (!day.date) continue;
+    day.stops.forEach((stop, i) => {
+      const props = [`UID:${stop.id}@worldlens`, `SUMMARY:${escapeText(stop.title || stop.placeName || "Stop")}`];
+      if (stop.time) {
+        const next = day.stops.slice(i + 1).find((s) => s.time && s.time > stop.time);
+        const end = next ? { time: next.time, nextDay: false } : addMinutes(stop.time, 60);
+        props.push(
+          `DTSTART:${compactDate(day.date)}T${compactTime(stop.time)}`,
+          `DTEND:${compactDate(end.nextDay ? addDays(day.date, 1) : day.date)}T${compactTime(end.time)}`
+        );
+      } else {
+        props.push(`DTSTART;VALUE=DATE:${compactDate(day.date)}`, `DTEND;VALUE=DATE:${compactDate(addDays(day.date, 1))}`);
+      }
+      if (stop.placeName) props.push(`LOCATION:${escapeText(stop.placeName)}`);
+      if (typeof stop.lat === "number" && typeof stop.lng === "number") {
+        props.push(`GEO:${stop.lat.toFixed(6)};${stop.lng.toFixed(6)}`);
+      }
+      const description = stopDescription(stop);
+      if (description) props.push(`DESCRIPTION:${escapeText(description)}`);
+      const url = stop.bookings.find((b) => b.url)?.url;
+      if (url) props.push(`URL:${url}`);
+      event(props);
+    });
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ---- Reading -------------------------------------------------------------
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+/**
+ * A DTSTART / DTEND value as local date and time. UTC times ("...Z") are
+ * shown in the device's zone; TZID times are kept as written, which is the
+ * local time at the airport or hotel.
+ */
+function parseDateValue(value: string): { date: string; time: string | null } | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, , utc] = m;
+  if (!h) return { date: `${y}-${mo}-${d}`, time: null };
+  if (utc) {
+    const local = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi));
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+    };
+  }
+  return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+}
+
+/** The VEVENTs in an .ics file, ignoring alarms and other nested components. */
+export function parseCalendar(text: string): CalendarEvent[] {
+  const lines = text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: CalendarEvent[] = [];
+  let current: Partial<CalendarEvent> | null = null;
+  let nested = 0;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const value = line.value.trim();
+
+    if (line.name === "BEGIN") {
+      if (value.toUpperCase() === "VEVENT") {
+        current = {};
+        nested = 0;
+      } else if (current) nested++;
+      continue;
+    }
+    if (line.name === "END") {
+      if (value.toUpperCase() === "VEVENT" && current) {
+        if (current.startDate) {
+          events.push({
+            uid: current.uid ?? null,
+            summary: current.summary ?? "",
+            description: current.description ?? "",
+            location: current.location ?? null,
+            url: current.url ?? null,
+            geo: current.geo ?? null,
+            startDate: current.startDate,
+            startTime: current.startTime ?? null,
+            endDate: current.endDate ?? null,
+            endTime: current.endTime ?? null,
+          });
+        }
+        current = null;
+      } else if (current && nested > 0) nested--;
+      continue;
+    }
+    if (!current || nested > 0) continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(value) || null;
+        break;
+      case "URL":
+        current.url = value || null;
+        break;
+      case "GEO": {
+        const [lat, lng] = value.split(/[;,]/).map(Number);
+        if (Number.isFinite(lat) && Number.isFinite(lng)) current.geo = { lat, lng };
+        break;
+      }
+      case "DTSTART": {
+        const parsed = parseDateValue(value);
+        if (parsed) {
+          current.startDate = parsed.date;
+          current.startTime = parsed.time;
+        }
+        break;
+      }
+      case "DTEND": {
+        const parsed = parseDateValue(value);
+        if (parsed) {
+          current.endDate = parsed.date;
+          current.endTime = parsed.time;
+        }
+        break;
+      }
+    }
+  }
+  return events;
+}
+
+const FLIGHT_PATTERN = /✈|\bflight\b|\bflug\b|\bvuelo\b|\bvol\b|\bvoo\b|\bboarding\b/i;
+// "LHR - LIS", "LHR → LIS", "LHR to LIS"
+const AIRPORT_PAIR = /\b([A-Z]{3})\s*(?:-|–|→|>|to)\s*([A-Z]{3})\b/;
+const HOTEL_PATTERN = /\bhotel\b|\bhostel\b|\bcheck[- ]?in\b|\bcheck[- ]?out\b|\bstay\b|\baccommodation\b|\bairbnb\b|booking\.com|\bresort\b|\bguest ?house\b|\bapartment\b/i;
+
+/** Flight or hotel, judged from the wording airlines and booking sites use. */
+export function classifyEvent(event: CalendarEvent): BookingKind | null {
+  const text = `${event.summary}\n${event.description}`;
+  if (FLIGHT_PATTERN.test(text) || AIRPORT_PAIR.test(event.summary)) return "flight";
+  if (HOTEL_PATTERN.test(text)) return "hotel";
+  return null;
+}
+
+/** The booking reference in a confirmation, e.g. "Confirmation code: X7K2PQ". */
+export function findBookingReference(text: string): string | null {
+  const pattern = /\b(?:(?:confirmation|booking|reservation|record locator|pnr|reference|ref\.?)\s*)+(?:number|no\.?|code|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,14})\b/gi;
+  for (const match of text.matchAll(pattern)) {
+    const code = match[1];
+    // Skips words like "details" that happen to follow "booking"
+    if (/\d/.test(code) || code === code.toUpperCase()) return code;
+  }
+  return null;
+}
+
+function flightDestination(event: CalendarEvent): string | null {
+  const to = event.summary.match(/\bto\s+([A-Z][^,()\d]*?)\s*(?:\(|,|$|\bon\b)/);
+  if (to) return to[1].trim();
+  return event.summary.match(AIRPORT_PAIR)?.[2] ?? null;
+}
+
+function bookingStop(event: CalendarEvent, kind: BookingKind, patch: Partial<ItineraryStop>): ItineraryStop {
+  const reference = findBookingReference(`${event.summary}\n${event.description}`);
+  return emptyStop({
+    title: event.summary || (kind === "flight" ? "Flight" : "Hotel"),
+    placeName: event.location,
+    lat: event.geo?.lat ?? null,
+    lng: event.geo?.lng ?? null,
+    bookings: [{ label: kind === "flight" ? "Flight" : "Hotel", reference: reference ?? "", url: event.url }],
+    ...patch,
+  });
+}
+
+/**
+ * A new trip from flight and hotel confirmations: dates cover every
+ * booking, flights become a stop on their departure day, hotels a check-in
+ * and a check-out stop. Throws when the file has neither.
+ */
+export function tripFromCalendar(events: CalendarEvent[]): ImportedTrip {
+  const bookings = events
+    .map((event) => ({ event, kind: classifyEvent(event) }))
+    .filter((b): b is { event: CalendarEvent; kind: BookingKind } => b.kind !== null)
+    .sort((a, b) => `${a.event.startDate}${a.event.startTime ?? ""}`.localeCompare(`${b.event.startDate}${b.event.startTime ?? ""}`));
+
+  if (bookings.length === 0) throw new Error("No flight or hotel bookings found in this calendar file");
+
+  const start = bookings[0].event.startDate;
+  let end = bookings.reduce((last, { event }) => {
+    const date = event.endDate && event.endDate > event.startDate ? event.endDate : event.startDate;
+    return date > last ? date : last;
+  }, start);
+  if (end > addDays(start, MAX_IMPORT_DAYS - 1)) end = addDays(start, MAX_IMPORT_DAYS - 1);
+
+  const days = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    days.push(emptyDay({ date, title: "" }));
+  }
+  const dayOf = (date: string) => days.find((d) => d.date === date);
+
+  for (const { event, kind } of bookings) {
+    if (kind === "flight") {
+      const arrives = event.endTime ? ` Arrives ${event.endDate !== event.startDate ? `${event.endDate} ` : ""}${event.endTime}.` : "";
+      dayOf(event.startDate)?.stops.push(bookingStop(event, kind, { time: event.startTime, notes: arrives.trim() || null }));
+      continue;
+    }
+
+    const checkOutOnly = /check[- ]?out/i.test(event.summary) && !/check[- ]?in/i.test(event.summary);
+    const checkInOnly = /check[- ]?in/i.test(event.summary) && !/check[- ]?out/i.test(event.summary);
+    if (!checkOutOnly) {
+      dayOf(event.startDate)?.stops.push(
+        bookingStop(event, kind, { time: event.startTime, title: checkInOnly ? event.summary : `Check in: ${event.summary}` })
+      );
+    }
+    const outDate = checkOutOnly ? event.startDate : event.endDate;
+    if (outDate && (checkOutOnly || outDate > event.startDate)) {
+      dayOf(outDate)?.stops.push(
+        bookingStop(event, kind, {
+          time: checkOutOnly ? event.startTime : event.endTime,
+          title: checkOutOnly ? event.summary : `Check out: ${event.summary}`,
+        })
+      );
+    }
+  }
+
+  for (const day of days) {
+    day.stops.sort((a, b) => (a.time ?? "99:99").localeCompare(b.time ?? "99:99"));
+    const flight = day.stops.find((s) => s.bookings[0]?.label === "Flight");
+    day.title = flight ? flight.title : day.stops[0]?.title.replace(/^Check (in|out): /, "") ?? "";
+  }
+
+  const firstFlight = bookings.find((b) => b.kind === "flight");
+  const firstHotel = bookings.find((b) => b.kind === "hotel");
+  const destination = (firstFlight && flightDestination(firstFlight.event)) || firstHotel?.event.location || null;
+
+  return {
+    name: destination ? `${destination} Trip` : "Imported Trip",
+    destination,
+    start_date: start,
+    end_date: end,
+    itinerary: { version: 1, days },
+    flights: bookings.filter((b) => b.kind === "flight").length,
+    hotels: bookings.filter((b) => b.kind === "hotel").length,
+    skipped: events.length - bookings.length,
+  };
+}
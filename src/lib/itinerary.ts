@@ -0,0 +1,361 @@
+// =============================================================
+// Structured trip itineraries
+//
+// The planner's answer (ai_itinerary) is one morning / afternoon / evening
+// sentence per day, which can't be reordered or put on a map. The editor
+// works on this shape instead and saves it to trips.itinerary
+// (0008_trip_itinerary.sql):
+//
+//   days → ordered stops, each with an optional time, place, coordinates,
+//   notes and booking references.
+//
+// Trips saved before that column existed are converted on the fly from
+// ai_itinerary. Edits are pure functions returning a new itinerary, so the
+// editor keeps a draft in state and saves it when the user is done.
+// =============================================================
+
+import { z } from "zod";
+import { geocodeDestination } from "@/lib/places";
+
+export interface BookingRef {
+  label: string;
+  reference: string;
+  url: string | null;
+}
+
+export interface ItineraryStop {
+  id: string;
+  /** "HH:mm", local to the destination */
+  time: string | null;
+  title: string;
+  placeName: string | null;
+  /** Saved place or places-provider id the stop was picked from, if any. */
+  placeId: string | null;
+  lat: number | null;
+  lng: number | null;
+  notes: string | null;
+  bookings: BookingRef[];
+}
+
+export interface ItineraryDay {
+  id: string;
+  /** yyyy-MM-dd, once the trip has dates */
+  date: string | null;
+  title: string;
+  stops: ItineraryStop[];
+  tips: string[];
+}
+
+export interface Itinerary {
+  version: 1;
+  days: ItineraryDay[];
+}
+
+/** One day as the planner returns it (see planTripSchema). */
+export interface PlannedDay {
+  day: number;
+  title: string;
+  morning: string;
+  afternoon: string;
+  evening: string;
+  tips?: string[];
+}
+
+export interface StopPosition {
+  day: number;
+  index: number;
+}
+
+/** A stop that belongs on a particular date, e.g. a flight read from a booking. */
+export interface DatedStop {
+  /** yyyy-MM-dd */
+  date: string;
+  stop: ItineraryStop;
+}
+
+const newId = () => crypto.randomUUID();
+const nullableString = z.string().trim().nullable().catch(null).default(null);
+const coordinate = z.number().finite().nullable().catch(null).default(null);
+
+const bookingSchema = z.object({
+  label: z.string().default(""),
+  reference: z.string().default(""),
+  url: nullableString,
+});
+
+const stopSchema = z.object({
+  id: z.string().min(1).default(newId),
+  time: z.string().regex(/^\d{2}:\d{2}$/).nullable().catch(null).default(null),
+  title: z.string().default(""),
+  placeName: nullableString,
+  placeId: nullableString,
+  lat: coordinate,
+  lng: coordinate,
+  notes: nullableString,
+  bookings: z.array(bookingSchema).catch([]).default([]),
+});
+
+const daySchema = z.object({
+  id: z.string().min(1).default(newId),
+  date: nullableString,
+  title: z.string().default(""),
+  stops: z.array(stopSchema).default([]),
+  tips: z.array(z.string()).catch([]).default([]),
+});
+
+const itinerarySchema = z.object({
+  version: z.literal(1).catch(1).default(1),
+  days: z.array(daySchema),
+});
+
+// Rough start times for the planner's three slots.
+const SLOT_TIMES: [keyof Pick<PlannedDay, "morning" | "afternoon" | "evening">, string][] = [
+  ["morning", "09:00"],
+  ["afternoon", "14:00"],
+  ["evening", "19:00"],
+];
+
+export function emptyStop(patch: Partial<ItineraryStop> = {}): ItineraryStop {
+  return {
+    id: newId(),
+    time: null,
+    title: "",
+    placeName: null,
+    placeId: null,
+    lat: null,
+    lng: null,
+    notes: null,
+    bookings: [],
+    ...patch,
+  };
+}
+
+export function emptyDay(patch: Partial<ItineraryDay> = {}): ItineraryDay {
+  return { id: newId(), date: null, title: "", stops: [], tips: [], ...patch };
+}
+
+/** Turns the planner's per-day sentences into stops, one per time slot. */
+export function itineraryFromPlan(days: PlannedDay[]): Itinerary {
+  return {
+    version: 1,
+    days: [...days]
+      .sort((a, b) => a.day - b.day)
+      .map((day) =>
+        emptyDay({
+          title: day.title || `Day ${day.day}`,
+          tips: day.tips ?? [],
+          stops: SLOT_TIMES.filter(([slot]) => day[slot]?.trim()).map(([slot, time]) =>
+            emptyStop({ time, title: day[slot].trim() })
+          ),
+        })
+      ),
+  };
+}
+
+/**
+ * The trip's itinerary: the edited one when there is one, otherwise the
+ * planner's answer converted. Null when the trip has neither or the stored
+ * JSON is beyond repair.
+ */
+export function loadItinerary(trip: { itinerary?: unknown; ai_itinerary?: unknown }): Itinerary | null {
+  if (trip.itinerary) {
+    const parsed = itinerarySchema.safeParse(trip.itinerary);
+    if (parsed.success) return parsed.data as Itinerary;
+  }
+  if (Array.isArray(trip.ai_itinerary) && trip.ai_itinerary.length > 0) {
+    return itineraryFromPlan(trip.ai_itinerary as PlannedDay[]);
+  }
+  return null;
+}
+
+/** Dates the days that have none, counting from the trip's start date. */
+export function withDates(itinerary: Itinerary, startDate: string | null): Itinerary {
+  if (!startDate) return itinerary;
+  const start = new Date(`${startDate.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(start.getTime())) return itinerary;
+  return {
+    ...itinerary,
+    days: itinerary.days.map((day, i) => {
+      if (day.date) return day;
+      const date = new Date(start.getTime() + i * 86_400_000);
+      return { ...day, date: date.toISOString().slice(0, 10) };
+    }),
+  };
+}
+
+// ---- Edits ---------------------------------------------------------------
+
+function mapDay(itinerary: Itinerary, dayIndex: number, fn: (day: ItineraryDay) => ItineraryDay): Itinerary {
+  return { ...itinerary, days: itinerary.days.map((day, i) => (i === dayIndex ? fn(day) : day)) };
+}
+
+function sortByTime(stops: ItineraryStop[]): ItineraryStop[] {
+  return stops
+    .map((stop, i) => ({ stop, i }))
+    .sort((a, b) => (a.stop.time ?? "99:99").localeCompare(b.stop.time ?? "99:99") || a.i - b.i)
+    .map(({ stop }) => stop);
+}
+
+/**
+ * Moves a stop within or between days. `to.index` is the slot in the target
+ * day as it looks before the move, the way drop targets report it.
+ */
+export function moveStop(itinerary: Itinerary, from: StopPosition, to: StopPosition): Itinerary {
+  const stop = itinerary.days[from.day]?.stops[from.index];
+  if (!stop || !itinerary.days[to.day]) return itinerary;
+
+  let target = to.index;
+  if (from.day === to.day && from.index < target) target -= 1;
+  if (from.day === to.day && from.index === target) return itinerary;
+
+  const days = itinerary.days.map((day) => ({ ...day, stops: [...day.stops] }));
+  days[from.day].stops.splice(from.index, 1);
+  const stops = days[to.day].stops;
+  stops.splice(Math.max(0, Math.min(target, stops.length)), 0, stop);
+  return { ...itinerary, days };
+}
+
+/** Moves a whole day; its date stays with its position, not with the plans. */
+export function moveDay(itinerary: Itinerary, from: number, to: number): Itinerary {
+  if (from === to || !itinerary.days[from] || !itinerary.days[to]) return itinerary;
+  const dates = itinerary.days.map((day) => day.date);
+  const days = [...itinerary.days];
+  const [day] = days.splice(from, 1);
+  days.splice(to, 0, day);
+  return { ...itinerary, days: days.map((d, i) => ({ ...d, date: dates[i] })) };
+}
+
+export function updateDay(itinerary: Itinerary, dayIndex: number, patch: Partial<ItineraryDay>): Itinerary {
+  return mapDay(itinerary, dayIndex, (day) => ({ ...day, ...patch }));
+}
+
+export function addDay(itinerary: Itinerary): Itinerary {
+  return { ...itinerary, days: [...itinerary.days, emptyDay({ title: `Day ${itinerary.days.length + 1}` })] };
+}
+
+export function removeDay(itinerary: Itinerary, dayIndex: number): Itinerary {
+  return { ...itinerary, days: itinerary.days.filter((_, i) => i !== dayIndex) };
+}
+
+export function addStop(itinerary: Itinerary, dayIndex: number, stop: ItineraryStop = emptyStop()): Itinerary {
+  return mapDay(itinerary, dayIndex, (day) => ({ ...day, stops: [...day.stops, stop] }));
+}
+
+export function updateStop(itinerary: Itinerary, at: StopPosition, patch: Partial<ItineraryStop>): Itinerary {
+  return mapDay(itinerary, at.day, (day) => ({
+    ...day,
+    stops: day.stops.map((stop, i) => (i === at.index ? { ...stop, ...patch } : stop)),
+  }));
+}
+
+export function removeStop(itinerary: Itinerary, at: StopPosition): Itinerary {
+  return mapDay(itinerary, at.day, (day) => ({ ...day, stops: day.stops.filter((_, i) => i !== at.index) }));
+}
+
+/**
+ * Swaps in a regenerated day. Stops with bookings are kept (a reserved
+ * table shouldn't vanish because the day got re-planned) and everything is
+ * put back in time order.
+ */
+export function replaceDay(itinerary: Itinerary, dayIndex: number, generated: Pick<ItineraryDay, "title" | "stops" | "tips">): Itinerary {
+  return mapDay(itinerary, dayIndex, (day) => {
+    const kept = day.stops.filter((stop) => stop.bookings.length > 0);
+    return { ...day, title: generated.title || day.title, tips: generated.tips, stops: sortByTime([...kept, ...generated.stops]) };
+  });
+}
+
+/** Most days placeDatedStops will add to reach a booking's date. */
+const MAX_ADDED_DAYS = 60;
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Puts stops on the days matching their dates, in time order, growing the
+ * trip at either end when a stop falls outside it. Returns the trip's new
+ * date range alongside. Stops already there (same title and booking
+ * reference) are left out, so importing a confirmation twice is harmless,
+ * as are stops more than MAX_ADDED_DAYS away from the trip.
+ */
+export function placeDatedStops(
+  itinerary: Itinerary | null,
+  trip: { start_date: string | null; end_date: string | null },
+  items: DatedStop[]
+): { itinerary: Itinerary; start_date: string; end_date: string; skipped: number } {
+  const sorted = [...items].sort((a, b) => a.date.localeCompare(b.date));
+  const anchor = trip.start_date?.slice(0, 10) || sorted[0]?.date || new Date().toISOString().slice(0, 10);
+  const days = withDates(itinerary ?? { version: 1, days: [] }, anchor).days.map((day) => ({ ...day, stops: [...day.stops] }));
+  if (days.length === 0) days.push(emptyDay({ date: anchor }));
+
+  let skipped = 0;
+  const touched = new Set<ItineraryDay>();
+  for (const { date, stop } of sorted) {
+    let first = days[0].date;
+    let last = days[days.length - 1].date;
+    if (date < addDays(first, -MAX_ADDED_DAYS) || date > addDays(last, MAX_ADDED_DAYS)) {
+      skipped++;
+      continue;
+    }
+    for (; date < first; first = addDays(first, -1)) days.unshift(emptyDay({ date: addDays(first, -1) }));
+    for (; date > last; last = addDays(last, 1)) days.push(emptyDay({ date: addDays(last, 1) }));
+
+    let day = days.find((d) => d.date === date);
+    if (!day) {
+      // A gap in an itinerary whose days were dated by hand.
+      day = emptyDay({ date });
+      const at = days.findIndex((d) => d.date > date);
+      days.splice(at === -1 ? days.length : at, 0, day);
+    }
+    const ref = stop.bookings[0]?.reference;
+    if (day.stops.some((s) => s.title === stop.title && s.bookings[0]?.reference === ref)) continue;
+    day.stops.push(stop);
+    touched.add(day);
+  }
+
+  for (const day of touched) {
+    day.stops = sortByTime(day.stops);
+    if (!day.title) day.title = day.stops[0].title;
+  }
+
+  const dates = days.map((d) => d.date).filter(Boolean);
+  const end = trip.end_date?.slice(0, 10);
+  return {
+    itinerary: { version: 1, days },
+    start_date: dates[0],
+    end_date: end && end > dates[dates.length - 1] ? end : dates[dates.length - 1],
+    skipped,
+  };
+}
+
+// ---- Map -----------------------------------------------------------------
+
+export function hasLocation(stop: ItineraryStop): boolean {
+  return typeof stop.lat === "number" && typeof stop.lng === "number";
+}
+
+/**
+ * Looks up coordinates for the day's stops that name a place but have no
+ * position yet, biased to the trip's destination. Stops that can't be
+ * found are left as they are.
+ */
+export async function locateStops(day: ItineraryDay, destination: string | null, signal?: AbortSignal): Promise<ItineraryDay> {
+  const stops: ItineraryStop[] = [];
+  for (const stop of day.stops) {
+    const name = stop.placeName?.trim();
+    if (hasLocation(stop) || !name) {
+      stops.push(stop);
+      continue;
+    }
+    try {
+      const hit = await geocodeDestination(destination ? `${name}, ${destination}` : name, signal);
+      stops.push(hit ? { ...stop, lat: hit.lat, lng: hit.lng } : stop);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      stops.push(stop);
+    }
+  }
+  return { ...day, stops };
+}
@@ -0,0 +1,267 @@
+// =============================================================
+// Journal search
+//
+// One search box over everything the user has written or scanned: scan
+// names, descriptions, notes, tips and OCR'd text, trip names and the AI
+// summaries. Online it asks Postgres (search_journal() in
+// 0009_journal_search.sql); offline, or when that fails, it searches the
+// IndexedDB copies the Journal keeps for offline use.
+//
+// Both paths follow the same rules so results don't change much when the
+// connection drops: every word must match the start of a word in the entry
+// ("ram" finds "ramen"), accents and case are ignored, and a match in the
+// name counts more than one in the body.
+//
+// "Ask my journal" runs the same search in any-word mode to pick the
+// entries worth sending to the AI along with the question.
+// =============================================================
+
+import { supabase } from "@/integrations/supabase/client";
+import { getCachedScans, getCachedTrips, type CachedScan, type CachedTrip } from "@/lib/offlineStorage";
+
+export type JournalEntryKind = "scan" | "trip";
+
+export interface JournalSearchHit {
+  kind: JournalEntryKind;
+  id: string;
+  tripId: string | null;
+  title: string;
+  /** Category and place for scans, destination for trips. */
+  subtitle: string | null;
+  /** The searchable text, for snippets and as context for "ask my journal". */
+  body: string;
+  createdAt: string;
+  score: number;
+}
+
+export interface JournalDocument {
+  kind: JournalEntryKind;
+  id: string;
+  tripId: string | null;
+  title: string;
+  subtitle: string | null;
+  body: string;
+  createdAt: string;
+  /** Searched text by weight: title, place, description, everything else. */
+  fields: [string, string, string, string];
+}
+
+/** One entry of context for the "ask-journal" AI task. */
+export interface AskJournalEntry {
+  id: string;
+  kind: JournalEntryKind;
+  title: string;
+  subtitle: string | null;
+  /** yyyy-MM-dd */
+  date: string;
+  body: string;
+}
+
+export interface SearchOptions {
+  /** Rank entries matching any word instead of requiring all of them. */
+  matchAny?: boolean;
+  limit?: number;
+}
+
+const FIELD_WEIGHTS = [1, 0.4, 0.2, 0.1];
+const BODY_LIMIT = 1500;
+
+// Words that carry no meaning in a question to the journal.
+const STOP_WORDS = new Set(
+  (
+    "a an and are at be did do does for from had has have how i in is it me my of on or that the there this " +
+    "to was we were what when where which who why with you your place thing one again remember called"
+  ).split(" ")
+);
+
+/** Lowercase without accents, so "Café" and "cafe" match. */
+export function normalizeText(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC").toLowerCase();
+}
+
+/** The distinct words of a query, normalized. */
+export function searchTerms(query: string): string[] {
+  const words = normalizeText(query).match(/[\p{L}\p{N}]+/gu) ?? [];
+  return Array.from(new Set(words));
+}
+
+/** The words of a question worth searching for. */
+export function questionTerms(question: string): string[] {
+  const terms = searchTerms(question).filter((t) => !STOP_WORDS.has(t) && (t.length > 1 || /\P{Script=Latin}/u.test(t)));
+  return terms.length > 0 ? terms : searchTerms(question);
+}
+
+function join(parts: (string | null | undefined)[], separator = "\n"): string {
+  return parts.filter((p) => p && p.trim()).join(separator);
+}
+
+export function scanDocument(scan: Pick<CachedScan, "id" | "category" | "name" | "description" | "location_name" | "extracted_text" | "created_at"> & Partial<Pick<CachedScan, "notes" | "tips" | "trip_id">>): JournalDocument {
+  const tips = join(scan.tips ?? []);
+  return {
+    kind: "scan",
+    id: scan.id,
+    tripId: scan.trip_id ?? null,
+    title: scan.name || scan.category,
+    subtitle: join([scan.category, scan.location_name], " · ") || null,
+    body: join([scan.description, scan.notes, tips, scan.extracted_text]).slice(0, BODY_LIMIT),
+    createdAt: scan.created_at,
+    fields: [scan.name ?? "", scan.location_name ?? "", join([scan.description, scan.notes]), join([tips, scan.extracted_text])],
+  };
+}
+
+export function tripDocument(trip: CachedTrip): JournalDocument {
+  return {
+    kind: "trip",
+    id: trip.id,
+    tripId: trip.id,
+    title: trip.name,
+    subtitle: trip.destination,
+    body: join([trip.ai_summary, trip.ai_overview]).slice(0, BODY_LIMIT),
+    createdAt: trip.created_at,
+    fields: [trip.name, trip.destination ?? "", trip.ai_summary ?? "", trip.ai_overview ?? ""],
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Latin, Cyrillic etc. match at word starts. Scripts written without spaces
+// (Japanese, Chinese, Thai) match anywhere, or they'd never match at all.
+function termPattern(term: string): RegExp {
+  const spaced = /^[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\p{N}]+$/u.test(term);
+  return new RegExp(spaced ? `(?:^|[^\\p{L}\\p{N}])${escapeRegExp(term)}` : escapeRegExp(term), "u");
+}
+
+/** Searches documents in memory with the same rules as search_journal(). */
+export function searchDocuments(documents: JournalDocument[], query: string, options: SearchOptions = {}): JournalSearchHit[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+  const patterns = terms.map(termPattern);
+
+  const hits: JournalSearchHit[] = [];
+  for (const doc of documents) {
+    const fields = doc.fields.map(normalizeText);
+    let matched = 0;
+    let score = 0;
+    for (const pattern of patterns) {
+      const weight = Math.max(0, ...fields.map((field, i) => (pattern.test(field) ? FIELD_WEIGHTS[i] : 0)));
+      if (weight > 0) matched++;
+      score += weight;
+    }
+    if (matched === 0 || (!options.matchAny && matched < terms.length)) continue;
+    hits.push({
+      kind: doc.kind,
+      id: doc.id,
+      tripId: doc.tripId,
+      title: doc.title,
+      subtitle: doc.subtitle,
+      body: doc.body,
+      createdAt: doc.createdAt,
+      score: score / terms.length,
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || b.createdAt.localeCompare(a.createdAt));
+  return hits.slice(0, options.limit ?? 30);
+}
+
+/**
+ * A line or so of text around the first matching word, with an ellipsis
+ * where it was cut. The start of the text when nothing matches.
+ */
+export function makeSnippet(text: string, terms: string[], radius = 60): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const normalized = normalizeText(flat);
+  // NFD + stripping marks can change the length; only trust positions when it doesn't.
+  const positions = normalized.length === flat.length
+    ? terms.map((t) => normalized.search(termPattern(t))).filter((i) => i >= 0)
+    : [];
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, at - radius);
+  const end = Math.min(flat.length, at + radius * 2);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end).trim()}${end < flat.length ? "…" : ""}`;
+}
+
+/** Splits text into plain and matching runs for highlighting. */
+export function highlightParts(text: string, terms: string[]): { text: string; match: boolean }[] {
+  const normalized = normalizeText(text);
+  if (terms.length === 0 || normalized.length !== text.length) return [{ text, match: false }];
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    const pattern = new RegExp(termPattern(term).source, "gu");
+    for (const m of normalized.matchAll(pattern)) {
+      const from = m.index + m[0].length - term.length;
+      ranges.push([from, from + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: { text: string; match: boolean }[] = [];
+  let cursor = 0;
+  for (const [from, to] of ranges) {
+    if (from < cursor) continue;
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), match: false });
+    parts.push({ text: text.slice(from, to), match: true });
+    cursor = to;
+  }
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), match: false });
+  return parts;
+}
+
+async function searchOnline(query: string, options: SearchOptions): Promise<JournalSearchHit[]> {
+  const { data, error } = await supabase.rpc("search_journal", {
+    _query: query,
+    _match_any: options.matchAny ?? false,
+    _limit: options.limit ?? 30,
+  });
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    kind: row.kind === "trip" ? "trip" : "scan",
+    id: row.id,
+    tripId: row.trip_id,
+    title: row.title,
+    subtitle: row.subtitle || null,
+    body: row.body ?? "",
+    createdAt: row.created_at,
+    score: row.rank,
+  }));
+}
+
+async function searchOffline(query: string, options: SearchOptions): Promise<JournalSearchHit[]> {
+  const [scans, trips] = await Promise.all([getCachedScans(), getCachedTrips()]);
+  return searchDocuments([...scans.map(scanDocument), ...trips.map(tripDocument)], query, options);
+}
+
+/**
+ * Searches the journal on the server when online, falling back to the
+ * offline copies. `source` says which one answered.
+ */
+export async function searchJournal(
+  query: string,
+  options: SearchOptions & { online: boolean }
+): Promise<{ hits: JournalSearchHit[]; source: "server" | "device" }> {
+  if (searchTerms(query).length === 0) return { hits: [], source: options.online ? "server" : "device" };
+  if (options.online) {
+    try {
+      return { hits: await searchOnline(query, options), source: "server" };
+    } catch (error) {
+      console.warn("Journal search failed, searching offline copies:", error);
+    }
+  }
+  return { hits: await searchOffline(query, options), source: "device" };
+}
+
+/** Search hits as the "ask-journal" AI task takes them. */
+export function askJournalEntries(hits: JournalSearchHit[]): AskJournalEntry[] {
+  return hits.map((hit) => ({
+    id: hit.id,
+    kind: hit.kind,
+    title: hit.title,
+    subtitle: hit.subtitle,
+    date: hit.createdAt.slice(0, 10),
+    body: hit.body,
+  }));
+}
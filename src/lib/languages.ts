@@ -90,3 +90,17 @@ export function getLanguageNative(code: string): string {
   const lang = languages.find((l) => l.code === code);
   return lang?.native || code;
 }
+
+// Shown as one-tap buttons in Translate and stored translated in city packs
+export const quickPhrases = [
+  { en: "Where is the bathroom?", category: "Essential" },
+  { en: "How much does this cost?", category: "Shopping" },
+  { en: "I need help", category: "Emergency" },
+  { en: "Can I have the menu?", category: "Restaurant" },
+  { en: "I am allergic to...", category: "Food" },
+  { en: "Please take me to this address", category: "Transport" },
+  { en: "Do you speak English?", category: "Essential" },
+  { en: "I am lost", category: "Emergency" },
+  { en: "Thank you", category: "Essential" },
+  { en: "Where is the train station?", category: "Transport" },
+];
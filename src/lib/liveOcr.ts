@@ -0,0 +1,216 @@
+// =============================================================
+// Live camera text recognition
+//
+// Tesseract (WASM, in a web worker) finds lines of text in camera frames
+// on the device. Lines are tracked from frame to frame by their text,
+// allowing for a misread letter or two, so only lines that weren't on
+// screen before need translating, all in one `translate-lines` call per
+// pass; the rest keep their translation and just move. Frames that barely
+// changed since the last pass are skipped entirely.
+//
+// The engine and its language data are fetched on first use and cached by
+// the browser, so the live view keeps finding text offline afterwards.
+// =============================================================
+
+import type { Page, Worker } from "tesseract.js";
+
+export interface TextBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/** A line of text found in a frame, in frame pixels. */
+export interface TextRegion {
+  text: string;
+  box: TextBox;
+  confidence: number;
+}
+
+export interface LiveRegion extends TextRegion {
+  id: string;
+  /** null until `translate` answers */
+  translation: string | null;
+}
+
+// App language -> Tesseract traineddata
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: "eng",
+  es: "spa",
+  fr: "fra",
+  de: "deu",
+  it: "ita",
+  pt: "por",
+  nl: "nld",
+  ru: "rus",
+  ja: "jpn",
+  ko: "kor",
+  zh: "chi_sim",
+  ar: "ara",
+  hi: "hin",
+  th: "tha",
+  vi: "vie",
+  id: "ind",
+  ms: "msa",
+  tl: "tgl",
+  tr: "tur",
+  pl: "pol",
+  uk: "ukr",
+  cs: "ces",
+  sv: "swe",
+  da: "dan",
+  no: "nor",
+  fi: "fin",
+  el: "ell",
+  he: "heb",
+};
+
+/** Lines read with less confidence than this are mostly noise (textures, logos). */
+const MIN_CONFIDENCE = 55;
+
+/** Lines at least this similar (see textSimilarity) are the same line read again. */
+const SAME_LINE_SIMILARITY = 0.75;
+
+/** Mean per-pixel brightness change (0-255) below which a frame counts as unchanged. */
+export const STILL_FRAME_THRESHOLD = 6;
+
+/**
+ * Tesseract languages for text in `language`. English is always included:
+ * signs abroad often repeat themselves in it.
+ */
+export function ocrLanguages(language: string): string {
+  const code = TESSERACT_LANGUAGES[language] ?? "eng";
+  return code === "eng" ? "eng" : `${code}+eng`;
+}
+
+export function normalizeRegionText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** The confident lines on a recognized page that contain at least one letter. */
+export function regionsFromPage(page: Pick<Page, "blocks">, minConfidence = MIN_CONFIDENCE): TextRegion[] {
+  const regions: TextRegion[] = [];
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const text = normalizeRegionText(line.text);
+        if (line.confidence < minConfidence || text.length < 2 || !/\p{L}/u.test(text)) continue;
+        regions.push({ text, box: line.bbox, confidence: line.confidence });
+      }
+    }
+  }
+  return regions;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 1 for the same text, falling towards 0 as more characters differ. Case is
+ * ignored: OCR mixes up "EXIT" and "EXlT" far more often than signs change.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  if (x === y) return 1;
+  return 1 - editDistance(x, y) / Math.max(x.length, y.length);
+}
+
+/**
+ * Carries translations over from the previous pass. A line that was already
+ * on screen, give or take a misread character, keeps its id, text and
+ * translation at its new position; the rest come back in `changed` for
+ * translating. Lines that left the frame are dropped.
+ */
+export function trackRegions(
+  previous: LiveRegion[],
+  found: TextRegion[]
+): { regions: LiveRegion[]; changed: LiveRegion[] } {
+  const unmatched = [...previous];
+  const changed: LiveRegion[] = [];
+  const regions = found.map((region) => {
+    let best = -1;
+    let bestScore = 0;
+    unmatched.forEach((candidate, i) => {
+      const score = textSimilarity(region.text, candidate.text);
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (bestScore >= SAME_LINE_SIMILARITY) {
+      const [match] = unmatched.splice(best, 1);
+      return { ...region, text: match.text, id: match.id, translation: match.translation };
+    }
+    const fresh = { ...region, id: crypto.randomUUID(), translation: null };
+    changed.push(fresh);
+    return fresh;
+  });
+  return { regions, changed };
+}
+
+/** Mean brightness change between two same-sized RGBA frames, 0-255. */
+export function frameDifference(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+  if (a.length !== b.length || a.length === 0) return 255;
+  let total = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    const lumaA = 0.299 * a[i] + 0.587 * a[i + 1] + 0.114 * a[i + 2];
+    const lumaB = 0.299 * b[i] + 0.587 * b[i + 1] + 0.114 * b[i + 2];
+    total += Math.abs(lumaA - lumaB);
+  }
+  return total / (a.length / 4);
+}
+
+/**
+ * Where a box in frame pixels lands on a video element shown with
+ * object-fit: cover, as CSS pixels within the element.
+ */
+export function coverBox(
+  box: TextBox,
+  frame: { width: number; height: number },
+  view: { width: number; height: number }
+): { left: number; top: number; width: number; height: number } {
+  const scale = Math.max(view.width / frame.width, view.height / frame.height);
+  const offsetX = (view.width - frame.width * scale) / 2;
+  const offsetY = (view.height - frame.height * scale) / 2;
+  return {
+    left: box.x0 * scale + offsetX,
+    top: box.y0 * scale + offsetY,
+    width: (box.x1 - box.x0) * scale,
+    height: (box.y1 - box.y0) * scale,
+  };
+}
+
+export interface OcrEngine {
+  recognize: (frame: HTMLCanvasElement) => Promise<TextRegion[]>;
+  terminate: () => Promise<void>;
+}
+
+/** Starts a Tesseract worker for text in `language`; loading can take a few seconds the first time. */
+export async function createOcrEngine(language: string): Promise<OcrEngine> {
+  // Loaded on demand: the engine is large and only the live view needs it
+  const { createWorker, PSM } = await import("tesseract.js");
+  const worker: Worker = await createWorker(ocrLanguages(language));
+  // Signs are scattered words, not paragraphs of a page
+  await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+
+  return {
+    recognize: async (frame) => {
+      const { data } = await worker.recognize(frame, {}, { blocks: true });
+      return regionsFromPage(data);
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+}
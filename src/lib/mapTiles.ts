@@ -0,0 +1,39 @@
+// =============================================================
+// Map tile source
+//
+// The raster tiles behind every map, chosen at build time:
+//   VITE_MAP_TILE_URL          {z}/{x}/{y} template, {s} for a subdomain
+//   VITE_MAP_TILE_ATTRIBUTION  credit shown in the map corner (HTML)
+//   VITE_MAP_TILE_OFFLINE      "true" when the provider's terms allow
+//                              downloading tiles ahead for offline use
+// The default is the OpenStreetMap tile server, whose usage policy forbids
+// bulk downloads, so city packs only include the map once a source that
+// allows it (a paid plan that permits offline use, or your own server) is
+// configured here.
+// =============================================================
+
+const env = import.meta.env;
+
+const OSM_TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>';
+const SUBDOMAINS = "abc";
+
+export const TILE_URL_TEMPLATE = (env.VITE_MAP_TILE_URL as string | undefined)?.trim() || OSM_TILE_URL;
+
+export const TILE_ATTRIBUTION =
+  (env.VITE_MAP_TILE_ATTRIBUTION as string | undefined)?.trim() ||
+  (TILE_URL_TEMPLATE === OSM_TILE_URL ? OSM_ATTRIBUTION : "");
+
+/** Whether city packs may download tiles from the configured source. */
+export const OFFLINE_TILES_ALLOWED =
+  TILE_URL_TEMPLATE !== OSM_TILE_URL && (env.VITE_MAP_TILE_OFFLINE as string | undefined) === "true";
+
+/** The URL of one tile, the way Leaflet fills in the template. */
+export function tileUrl(z: number, x: number, y: number, template = TILE_URL_TEMPLATE): string {
+  return template
+    .replace("{s}", SUBDOMAINS[Math.abs(x + y) % SUBDOMAINS.length])
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+    .replace("{r}", "");
+}
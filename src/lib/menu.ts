@@ -0,0 +1,107 @@
+// =============================================================
+// Scanned menus
+//
+// An analyze-menu result laid out by section, the "what should I order"
+// picks, and the running estimate the user builds by tapping dishes.
+// The estimate can be saved as one spending record.
+// =============================================================
+
+import type { AnalyzeMenuResult } from "./aiSchemas";
+import { dishVerdict, type DietaryProfile, type MenuDish } from "./dietary";
+
+export interface MenuSection {
+  /** "" when the menu has no sections */
+  title: string;
+  dishes: { dish: MenuDish; index: number }[];
+}
+
+/** Dish index -> quantity */
+export type MenuOrder = Record<number, number>;
+
+export interface OrderLine {
+  dish: MenuDish;
+  index: number;
+  quantity: number;
+}
+
+/** Sections in the order they first appear; dishes keep their index into `menu.dishes`. */
+export function menuSections(dishes: MenuDish[]): MenuSection[] {
+  const sections = new Map<string, MenuSection>();
+  dishes.forEach((dish, index) => {
+    const key = dish.section.toLowerCase();
+    if (!sections.has(key)) sections.set(key, { title: dish.section, dishes: [] });
+    sections.get(key)!.dishes.push({ dish, index });
+  });
+  return Array.from(sections.values());
+}
+
+/**
+ * The recommended dishes, matched by name. Only picks the dietary check
+ * passes for this profile are kept: one that might clash with an allergy or
+ * diet, or any dish under a severe allergy, is dropped even if the model
+ * suggested it.
+ */
+export function recommendedDishes(menu: AnalyzeMenuResult, profile: DietaryProfile): MenuDish[] {
+  const names = new Set((menu.recommendation?.dishes ?? []).map((name) => name.trim().toLowerCase()));
+  return menu.dishes.filter(
+    (dish) =>
+      (names.has(dish.name.trim().toLowerCase()) || names.has(dish.translation.trim().toLowerCase())) &&
+      dishVerdict(dish, profile) === "ok"
+  );
+}
+
+export function addToOrder(order: MenuOrder, index: number, delta: number): MenuOrder {
+  const next = { ...order };
+  const quantity = (next[index] ?? 0) + delta;
+  if (quantity > 0) next[index] = quantity;
+  else delete next[index];
+  return next;
+}
+
+export function orderLines(dishes: MenuDish[], order: MenuOrder): OrderLine[] {
+  return Object.entries(order)
+    .map(([index, quantity]) => ({ dish: dishes[Number(index)], index: Number(index), quantity }))
+    .filter((line) => line.dish);
+}
+
+/** Total of the priced lines; `unpriced` counts dishes the menu gave no price for. */
+export function orderTotal(lines: OrderLine[]): { amount: number; unpriced: number } {
+  return lines.reduce(
+    (total, { dish, quantity }) =>
+      dish.price === null
+        ? { ...total, unpriced: total.unpriced + quantity }
+        : { ...total, amount: total.amount + dish.price * quantity },
+    { amount: 0, unpriced: 0 }
+  );
+}
+
+/** "2× Pad thai, Mango sticky rice" */
+export function orderNotes(lines: OrderLine[]): string {
+  return lines
+    .map(({ dish, quantity }) => (quantity > 1 ? `${quantity}× ${dish.translation}` : dish.translation))
+    .join(", ");
+}
+
+/** One spending_records row for the whole estimate. */
+export function spendingRecordFromOrder(
+  lines: OrderLine[],
+  context: {
+    userId: string;
+    currency: string;
+    locationName: string | null;
+    date: string;
+    tripId: string | null;
+  }
+): Record<string, unknown> {
+  return {
+    user_id: context.userId,
+    amount: Math.round(orderTotal(lines).amount * 100) / 100,
+    currency: context.currency,
+    category: "Food",
+    merchant: null,
+    location_name: context.locationName,
+    date: context.date,
+    notes: orderNotes(lines),
+    trip_id: context.tripId,
+  };
+}
@@ -1,7 +1,9 @@
 // IndexedDB-based offline storage for translations and scans
 
+import type { CityPack } from './cityPacks';
+
 const DB_NAME = 'wanderlens-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 
 interface CachedTranslation {
   id: string;
@@ -12,7 +14,7 @@ interface CachedTranslation {
   timestamp: number;
 }
 
-interface CachedScan {
+export interface CachedScan {
   id: string;
   category: string;
   name: string | null;
@@ -22,11 +24,57 @@ interface CachedScan {
   image_data: string | null; // Base64 image data for offline access
   extracted_text: string | null;
   ai_analysis: Record<string, unknown> | null;
+  // Searched offline; scans cached before search existed don't have them
+  notes?: string | null;
+  tips?: string[] | null;
+  trip_id?: string | null;
   is_favorite: boolean;
   created_at: string;
   synced: boolean;
 }
 
+// The parts of a trip the Journal search looks at (see journalSearch.ts)
+export interface CachedTrip {
+  id: string;
+  name: string;
+  destination: string | null;
+  ai_summary: string | null;
+  ai_overview: string | null;
+  created_at: string;
+}
+
+// A photo taken without a connection, waiting for the AI (see captureQueue.ts)
+export interface CapturedPhoto {
+  id: string;
+  kind: 'scan' | 'receipt';
+  image: string; // Compressed JPEG data URL
+  latitude: number | null;
+  longitude: number | null;
+  locationName: string | null;
+  capturedAt: string;
+  tripId: string | null;
+  currency: string | null;
+  status: 'queued' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  /** The AI's answer as rows to save, kept until all are saved so a retry neither asks again nor saves twice */
+  analysis?: CaptureAnalysis;
+}
+
+export interface CaptureAnalysis {
+  title: string;
+  body: string;
+  rows: Array<{ table: 'scan_entries' | 'spending_records'; label: string; data: Record<string, unknown> }>;
+}
+
+// One downloaded map tile; the same tile may be stored by several packs
+interface StoredTile {
+  id: string; // `${packId}/${z}/${x}/${y}`
+  packId: string;
+  tile: string; // `${z}/${x}/${y}`
+  blob: Blob;
+}
+
 let db: IDBDatabase | null = null;
 
 export async function initOfflineDB(): Promise<IDBDatabase> {
@@ -63,6 +111,27 @@ export async function initOfflineDB(): Promise<IDBDatabase> {
       if (!database.objectStoreNames.contains('pending_operations')) {
         database.createObjectStore('pending_operations', { keyPath: 'id', autoIncrement: true });
       }
+
+      // Create captures store for photos waiting to be analyzed
+      if (!database.objectStoreNames.contains('captures')) {
+        const capturesStore = database.createObjectStore('captures', { keyPath: 'id' });
+        capturesStore.createIndex('capturedAt', 'capturedAt', { unique: false });
+      }
+
+      // Create city pack and map tile stores for offline destinations
+      if (!database.objectStoreNames.contains('city_packs')) {
+        database.createObjectStore('city_packs', { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains('map_tiles')) {
+        const tilesStore = database.createObjectStore('map_tiles', { keyPath: 'id' });
+        tilesStore.createIndex('tile', 'tile', { unique: false });
+        tilesStore.createIndex('packId', 'packId', { unique: false });
+      }
+
+      // Create trips store for searching the journal offline
+      if (!database.objectStoreNames.contains('trips')) {
+        database.createObjectStore('trips', { keyPath: 'id' });
+      }
     };
   });
 }
@@ -193,37 +262,100 @@ export async function deleteCachedScan(id: string): Promise<void> {
   });
 }
 
-// Pending operations for offline-first sync
-export async function addPendingOperation(operation: {
-  type: 'create' | 'update' | 'delete';
+// Pending operations for offline-first sync. This is only the storage;
+// ordering, coalescing, retries and conflicts live in syncOutbox.ts.
+export type PendingOperationType = 'create' | 'update' | 'delete';
+export type PendingOperationStatus = 'pending' | 'failed' | 'conflict';
+
+export interface PendingOperation {
+  id: number;
+  type: PendingOperationType;
   table: string;
+  rowId: string;
   data: Record<string, unknown>;
-}): Promise<void> {
+  // What the user would call the row ("12.50 EUR · Taxi"), for the sync panel
+  label: string | null;
+  // updated_at of the server row this change was made against (null = unknown)
+  baseUpdatedAt: string | null;
+  timestamp: number;
+  status: PendingOperationStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  // The newer server row, kept while the operation is in conflict
+  serverRow: Record<string, unknown> | null;
+}
+
+export type NewPendingOperation = Pick<PendingOperation, 'type' | 'table' | 'data'> &
+  Partial<Pick<PendingOperation, 'rowId' | 'label' | 'baseUpdatedAt' | 'status' | 'serverRow' | 'lastError'>>;
+
+// Version 1 stored only { type, table, data, timestamp }
+function normalizeOperation(raw: Partial<PendingOperation> & { id: number }): PendingOperation {
+  const data = raw.data ?? {};
+  return {
+    id: raw.id,
+    type: raw.type ?? 'update',
+    table: raw.table ?? '',
+    rowId: raw.rowId ?? String(data.id ?? ''),
+    data,
+    label: raw.label ?? null,
+    baseUpdatedAt: raw.baseUpdatedAt ?? null,
+    timestamp: raw.timestamp ?? Date.now(),
+    status: raw.status ?? 'pending',
+    attempts: raw.attempts ?? 0,
+    nextAttemptAt: raw.nextAttemptAt ?? 0,
+    lastError: raw.lastError ?? null,
+    serverRow: raw.serverRow ?? null,
+  };
+}
+
+export async function addPendingOperation(operation: NewPendingOperation): Promise<number> {
   const database = await initOfflineDB();
   const transaction = database.transaction(['pending_operations'], 'readwrite');
   const store = transaction.objectStore('pending_operations');
 
+  const record: Omit<PendingOperation, 'id'> = {
+    type: operation.type,
+    table: operation.table,
+    rowId: operation.rowId ?? String(operation.data.id ?? ''),
+    data: operation.data,
+    label: operation.label ?? null,
+    baseUpdatedAt: operation.baseUpdatedAt ?? null,
+    timestamp: Date.now(),
+    status: operation.status ?? 'pending',
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: operation.lastError ?? null,
+    serverRow: operation.serverRow ?? null,
+  };
+
   return new Promise((resolve, reject) => {
-    const request = store.add({ ...operation, timestamp: Date.now() });
-    request.onsuccess = () => resolve();
+    const request = store.add(record);
+    request.onsuccess = () => resolve(request.result as number);
     request.onerror = () => reject(request.error);
   });
 }
 
-export async function getPendingOperations(): Promise<Array<{
-  id: number;
-  type: 'create' | 'update' | 'delete';
-  table: string;
-  data: Record<string, unknown>;
-  timestamp: number;
-}>> {
+export async function getPendingOperations(): Promise<PendingOperation[]> {
   const database = await initOfflineDB();
   const transaction = database.transaction(['pending_operations'], 'readonly');
   const store = transaction.objectStore('pending_operations');
 
   return new Promise((resolve, reject) => {
     const request = store.getAll();
-    request.onsuccess = () => resolve(request.result || []);
+    request.onsuccess = () => resolve((request.result || []).map(normalizeOperation));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function updatePendingOperation(operation: PendingOperation): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['pending_operations'], 'readwrite');
+  const store = transaction.objectStore('pending_operations');
+
+  return new Promise((resolve, reject) => {
+    const request = store.put(operation);
+    request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 }
@@ -240,6 +372,148 @@ export async function clearPendingOperation(id: number): Promise<void> {
   });
 }
 
+// Offline captures
+export async function addCapture(capture: CapturedPhoto): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['captures'], 'readwrite');
+  const store = transaction.objectStore('captures');
+
+  return new Promise((resolve, reject) => {
+    const request = store.put(capture);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCaptures(): Promise<CapturedPhoto[]> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['captures'], 'readonly');
+  const index = transaction.objectStore('captures').index('capturedAt');
+
+  return new Promise((resolve, reject) => {
+    const request = index.getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function updateCapture(capture: CapturedPhoto): Promise<void> {
+  return addCapture(capture);
+}
+
+export async function deleteCapture(id: string): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['captures'], 'readwrite');
+  const store = transaction.objectStore('captures');
+
+  return new Promise((resolve, reject) => {
+    const request = store.delete(id);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Trip caching functions
+// Replaces the whole list, so deleted trips don't linger in offline search
+export async function cacheTrips(trips: CachedTrip[]): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['trips'], 'readwrite');
+  const store = transaction.objectStore('trips');
+  store.clear();
+  for (const trip of trips) store.put(trip);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function getCachedTrips(): Promise<CachedTrip[]> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['trips'], 'readonly');
+  const store = transaction.objectStore('trips');
+
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// City packs
+export async function saveCityPack(pack: CityPack): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['city_packs'], 'readwrite');
+  const store = transaction.objectStore('city_packs');
+
+  return new Promise((resolve, reject) => {
+    const request = store.put(pack);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCityPacks(): Promise<CityPack[]> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['city_packs'], 'readonly');
+  const store = transaction.objectStore('city_packs');
+
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Removes the pack together with every tile it downloaded
+export async function deleteCityPack(id: string): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['city_packs', 'map_tiles'], 'readwrite');
+  transaction.objectStore('city_packs').delete(id);
+
+  const tiles = transaction.objectStore('map_tiles').index('packId');
+  const request = tiles.openCursor(IDBKeyRange.only(id));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function putMapTile(packId: string, z: number, x: number, y: number, blob: Blob): Promise<void> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['map_tiles'], 'readwrite');
+  const store = transaction.objectStore('map_tiles');
+
+  const tile = `${z}/${x}/${y}`;
+  const record: StoredTile = { id: `${packId}/${tile}`, packId, tile, blob };
+
+  return new Promise((resolve, reject) => {
+    const request = store.put(record);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getMapTile(z: number, x: number, y: number): Promise<Blob | null> {
+  const database = await initOfflineDB();
+  const transaction = database.transaction(['map_tiles'], 'readonly');
+  const index = transaction.objectStore('map_tiles').index('tile');
+
+  return new Promise((resolve, reject) => {
+    const request = index.get(`${z}/${x}/${y}`);
+    request.onsuccess = () => resolve((request.result as StoredTile | undefined)?.blob ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
 // Clear old translations (keep last 500)
 export async function cleanupOldTranslations(): Promise<void> {
   const database = await initOfflineDB();
@@ -7,6 +7,9 @@
 // these calls into Supabase Edge Functions so the key stays secret.
 // =============================================================
 
+import { AIError, aiErrorFromResponse, toAIError } from "./aiErrors";
+import { proxyAuthHeaders, publishQuota, quotaFromHeaders } from "./aiQuota";
+
 const STORAGE_KEY = "worldlens_openrouter_key";
 
 // Default models. gpt-4o-mini supports both text and vision and is cheap.
@@ -24,6 +27,12 @@ const AI_PROXY_URL: string =
   (import.meta.env.VITE_AI_PROXY_URL as string | undefined) ||
   (import.meta.env.PROD ? "/.netlify/functions/openrouter" : "");
 
+// Streaming goes through a sibling function (openrouter-stream) because the
+// classic Netlify handler cannot stream. Override with VITE_AI_STREAM_URL.
+const AI_STREAM_URL: string =
+  (import.meta.env.VITE_AI_STREAM_URL as string | undefined) ||
+  (AI_PROXY_URL ? `${AI_PROXY_URL}-stream` : "");
+
 export function isProxyMode(): boolean {
   return AI_PROXY_URL.length > 0;
 }
@@ -83,9 +92,11 @@ export function cancelApiKeyRequest(): void {
 
 // ---- chat completion ---------------------------------------------------
 export interface ChatMessageContentPart {
-  type: "text" | "image_url";
+  type: "text" | "image_url" | "file";
   text?: string;
   image_url?: { url: string };
+  // PDFs, as a data: URL. OpenRouter parses them; most local servers don't.
+  file?: { filename: string; file_data: string };
 }
 
 export interface ChatMessage {
@@ -95,62 +106,62 @@ export interface ChatMessage {
 
 export interface ChatOptions {
   model?: string;
+  // Pick the provider's vision model when no explicit model is given.
+  vision?: boolean;
+  // Which invokeAI function is asking; the mock provider keys its fixtures on it.
+  task?: string;
   jsonMode?: boolean;
   maxTokens?: number;
   temperature?: number;
+  // Cancels the request; the call then rejects with AIError("aborted").
+  signal?: AbortSignal;
+  // When set, providers that can stream call this with each new chunk and
+  // the text so far. The promise still resolves with the full text.
+  onDelta?: (delta: string, text: string) => void;
 }
 
-/**
- * Sends a chat completion request to OpenRouter and returns the message
- * text content. Throws an Error whose message includes the HTTP status
- * (e.g. "429", "402", "401") so callers can show useful toasts.
- */
-export async function openRouterChat(
+// Builds the fetch for either the proxy or a direct OpenRouter call.
+async function chatRequest(
   messages: ChatMessage[],
-  options: ChatOptions = {}
-): Promise<string> {
+  options: ChatOptions,
+  stream: boolean
+): Promise<{ url: string; init: RequestInit }> {
+  const model = options.model ?? (options.vision ? DEFAULT_VISION_MODEL : DEFAULT_TEXT_MODEL);
+
   // ---- Production: route through the serverless proxy (key stays secret) ----
+  // The proxy enforces the daily quota, so it needs to know who is calling.
   if (isProxyMode()) {
-    let response: Response;
-    try {
-      response = await fetch(AI_PROXY_URL, {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...(await proxyAuthHeaders()),
+    };
+
+    return {
+      url: stream ? AI_STREAM_URL : AI_PROXY_URL,
+      init: {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify({
           messages,
-          model: options.model ?? DEFAULT_TEXT_MODEL,
+          model,
+          vision: options.vision ?? false,
           jsonMode: options.jsonMode ?? false,
           maxTokens: options.maxTokens ?? 1500,
           temperature: options.temperature ?? 0.4,
         }),
-      });
-    } catch (networkErr) {
-      throw new Error(`Network error contacting AI service: ${(networkErr as Error).message}`);
-    }
-
-    if (!response.ok) {
-      let detail = "";
-      try {
-        const errJson = await response.json();
-        detail = errJson?.error || JSON.stringify(errJson);
-      } catch {
-        detail = await response.text().catch(() => "");
-      }
-      throw new Error(`${response.status} ${detail}`.trim());
-    }
-
-    const json = await response.json();
-    return (json?.content as string) ?? "";
+        signal: options.signal,
+      },
+    };
   }
 
   // ---- Local dev: call OpenRouter directly with the user's own key ----
   const key = getOpenRouterKey();
   if (!key) {
-    throw new Error("401 Missing OpenRouter API key");
+    throw new AIError("missing_key", "Missing OpenRouter API key");
   }
 
   const body: Record<string, unknown> = {
-    model: options.model ?? DEFAULT_TEXT_MODEL,
+    model,
     messages,
     temperature: options.temperature ?? 0.4,
     max_tokens: options.maxTokens ?? 1500,
@@ -159,10 +170,13 @@ export async function openRouterChat(
   if (options.jsonMode) {
     body.response_format = { type: "json_object" };
   }
+  if (stream) {
+    body.stream = true;
+  }
 
-  let response: Response;
-  try {
-    response = await fetch(OPENROUTER_URL, {
+  return {
+    url: OPENROUTER_URL,
+    init: {
       method: "POST",
       headers: {
         Authorization: `Bearer ${key}`,
@@ -171,29 +185,115 @@ export async function openRouterChat(
         "X-Title": "WorldLens",
       },
       body: JSON.stringify(body),
-    });
+      signal: options.signal,
+    },
+  };
+}
+
+async function sendChatRequest(request: { url: string; init: RequestInit }): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(request.url, request.init);
   } catch (networkErr) {
-    throw new Error(`Network error contacting OpenRouter: ${(networkErr as Error).message}`);
+    throw toAIError(networkErr, "network");
   }
 
+  const quota = quotaFromHeaders(response.headers);
+  if (quota) publishQuota(quota);
+
   if (!response.ok) {
-    let detail = "";
-    try {
-      const errJson = await response.json();
-      detail = errJson?.error?.message || JSON.stringify(errJson);
-    } catch {
-      detail = await response.text().catch(() => "");
-    }
-    if (response.status === 401) {
+    if (response.status === 401 && !isProxyMode()) {
       // Stored key is invalid - clear it so the user is re-prompted next time.
       clearOpenRouterKey();
     }
-    throw new Error(`${response.status} ${detail}`.trim());
+    throw await aiErrorFromResponse(response);
   }
+  return response;
+}
 
+/**
+ * Sends a chat completion request to OpenRouter and returns the message
+ * text content. Failures are thrown as an AIError whose `code` tells
+ * callers what went wrong (rate limit, quota, bad key, ...).
+ */
+export async function openRouterChat(
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<string> {
+  const response = await sendChatRequest(await chatRequest(messages, options, false));
   const json = await response.json();
-  const content: string = json?.choices?.[0]?.message?.content ?? "";
-  return content;
+  // The proxy answers { content }, OpenRouter answers with choices.
+  return ((isProxyMode() ? json?.content : json?.choices?.[0]?.message?.content) as string) ?? "";
+}
+
+/**
+ * Streaming variant of openRouterChat: reports chunks through
+ * `options.onDelta` as they arrive and resolves with the full text.
+ */
+export async function openRouterChatStream(
+  messages: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<string> {
+  const response = await sendChatRequest(await chatRequest(messages, options, true));
+  return readChatStream(response, options.onDelta);
+}
+
+/**
+ * Reads an OpenAI-style server-sent event stream ("data: {...}" lines,
+ * ending with "data: [DONE]") and returns the concatenated content.
+ * Also used by the OpenAI-compatible provider.
+ */
+export async function readChatStream(
+  response: Response,
+  onDelta?: (delta: string, text: string) => void
+): Promise<string> {
+  if (!response.body) {
+    throw new AIError("provider_error", "The AI service returned an empty stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        // Blank lines separate events; ":" lines are keep-alive comments.
+        if (!line.startsWith("data:")) continue;
+
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") return text;
+
+        let event: { error?: { message?: string }; choices?: Array<{ delta?: { content?: string } }> };
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        if (event.error) {
+          throw new AIError("provider_error", event.error.message || "The AI stream failed");
+        }
+        const delta = event.choices?.[0]?.delta?.content ?? "";
+        if (delta) {
+          text += delta;
+          onDelta?.(delta, text);
+        }
+      }
+    }
+  } catch (err) {
+    throw toAIError(err, "network");
+  } finally {
+    reader.releaseLock();
+  }
+  return text;
 }
 
 /**
@@ -222,3 +322,59 @@ export function parseJsonResponse<T = unknown>(raw: string): T {
 
   return JSON.parse(text) as T;
 }
+
+/**
+ * Best-effort parse of a JSON answer that is still streaming in. Open
+ * strings, arrays and objects are closed; a dangling key or half-written
+ * literal is dropped back to the last complete value. Returns null when
+ * nothing usable has arrived yet.
+ */
+export function parsePartialJson<T = unknown>(raw: string): T | null {
+  const start = raw.indexOf("{");
+  if (start < 0) return null;
+  const text = raw.slice(start);
+
+  const closers: string[] = [];
+  // Last point where the text so far is a complete value, plus the closers
+  // that were open at that point.
+  let safeEnd = 0;
+  let safeClosers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{") closers.push("}");
+    else if (ch === "[") closers.push("]");
+    else if (ch === "}" || ch === "]") {
+      closers.pop();
+      safeEnd = i + 1;
+      safeClosers = [...closers];
+      if (closers.length === 0) break;
+    } else if (ch === ",") {
+      safeEnd = i;
+      safeClosers = [...closers];
+    }
+  }
+
+  const close = (body: string, open: string[]) => body + [...open].reverse().join("");
+  const attempts = [
+    close(text.replace(/\\$/, "") + (inString ? '"' : ""), closers),
+    close(text.slice(0, safeEnd), safeClosers),
+  ];
+  for (const candidate of attempts) {
+    try {
+      return JSON.parse(candidate) as T;
+    } catch {
+      // Try the next, shorter candidate.
+    }
+  }
+  return null;
+}
@@ -7,3 +7,21 @@ export const LOCATION_BLOCKED_HELP =
 
 export const MIC_BLOCKED_HELP =
   "Microphone is blocked. To turn it on: tap the lock or ⓘ icon next to the address bar → Permissions → allow Microphone, then tap the mic again.";
+
+export const CAMERA_BLOCKED_HELP =
+  "Camera is blocked. To turn it on: tap the lock or ⓘ icon next to the address bar → Permissions → allow Camera, then try again.";
+
+const VOICE_ERROR_MESSAGES: Record<string, string> = {
+  "not-allowed": MIC_BLOCKED_HELP,
+  "service-not-allowed": MIC_BLOCKED_HELP,
+  "no-speech": "Didn't catch that — please tap the mic and speak again.",
+  "audio-capture": "No microphone was found on this device.",
+  "network": "Voice input needs an internet connection.",
+  "aborted": "",
+};
+
+// What to tell the user about a speech-recognition error code; empty when
+// there's nothing worth saying (behaviour varies across Android WebViews).
+export function voiceErrorMessage(error: string): string {
+  return VOICE_ERROR_MESSAGES[error] ?? "Voice input isn't available right now. You can type instead.";
+}
@@ -0,0 +1,120 @@
+// =============================================================
+// Photos from the camera roll
+//
+// Scan and the batch import (pages/PhotoImport.tsx) file photos where and
+// when they were taken, read from EXIF (see exif.ts), instead of where the
+// phone happens to be when the photo is picked. A batch from a past trip is
+// laid out on a map and a day-by-day timeline before anything is saved;
+// each photo is then saved as a plain journal entry or, if the user asks
+// for it, analyzed first like a regular scan.
+// =============================================================
+
+import { format } from "date-fns";
+import { readPhotoMetadata, type PhotoMetadata } from "@/lib/exif";
+import { compressImage } from "@/lib/imageCompression";
+import { distanceMeters } from "@/lib/places";
+
+export interface PhotoPlace {
+  latitude: number | null;
+  longitude: number | null;
+  locationName: string | null;
+}
+
+export interface ImportedPhoto {
+  id: string;
+  fileName: string;
+  /** Compressed JPEG data URL */
+  image: string;
+  latitude: number | null;
+  longitude: number | null;
+  /** ISO timestamp from EXIF */
+  takenAt: string | null;
+  include: boolean;
+  analyze: boolean;
+  status: "ready" | "saved" | "failed";
+}
+
+export interface PhotoDay {
+  /** yyyy-MM-dd in the device's time zone, null for photos without a time */
+  day: string | null;
+  photos: ImportedPhoto[];
+}
+
+// Closer than this, the device's current place name also fits the photo.
+const SAME_PLACE_METERS = 1000;
+
+/**
+ * Where to file a photo: its own GPS position when it has one, otherwise
+ * the device's. The current place name is only kept when the photo was
+ * taken nearby; a photo from last month's trip shouldn't be labelled with
+ * today's town.
+ */
+export function photoPlace(metadata: PhotoMetadata | null, current: PhotoPlace): PhotoPlace {
+  if (metadata?.latitude == null || metadata.longitude == null) return current;
+  const nearby =
+    current.latitude != null &&
+    current.longitude != null &&
+    distanceMeters(metadata.latitude, metadata.longitude, current.latitude, current.longitude) < SAME_PLACE_METERS;
+  return {
+    latitude: metadata.latitude,
+    longitude: metadata.longitude,
+    locationName: nearby ? current.locationName : null,
+  };
+}
+
+/** Reads a photo's EXIF, then compresses it for upload. */
+export async function preparePhoto(file: File): Promise<ImportedPhoto> {
+  const metadata = await readPhotoMetadata(file);
+  const image = await compressImage(file, 1024, 0.8);
+  return {
+    id: crypto.randomUUID(),
+    fileName: file.name,
+    image,
+    latitude: metadata.latitude,
+    longitude: metadata.longitude,
+    takenAt: metadata.takenAt,
+    include: true,
+    analyze: false,
+    status: "ready",
+  };
+}
+
+/** Oldest first; photos without a time go last, in the order they came. */
+export function sortPhotos(photos: ImportedPhoto[]): ImportedPhoto[] {
+  return photos
+    .map((photo, i) => ({ photo, i }))
+    .sort((a, b) => {
+      if (a.photo.takenAt && b.photo.takenAt) return a.photo.takenAt.localeCompare(b.photo.takenAt) || a.i - b.i;
+      if (a.photo.takenAt || b.photo.takenAt) return a.photo.takenAt ? -1 : 1;
+      return a.i - b.i;
+    })
+    .map(({ photo }) => photo);
+}
+
+/** Sorted photos grouped into days for the timeline. */
+export function groupPhotosByDay(photos: ImportedPhoto[]): PhotoDay[] {
+  const days: PhotoDay[] = [];
+  for (const photo of sortPhotos(photos)) {
+    const day = photo.takenAt ? format(new Date(photo.takenAt), "yyyy-MM-dd") : null;
+    const last = days[days.length - 1];
+    if (last && last.day === day) last.photos.push(photo);
+    else days.push({ day, photos: [photo] });
+  }
+  return days;
+}
+
+/** The scan_entries row for a photo saved without AI analysis. */
+export function plainScanEntry(photo: ImportedPhoto, context: { userId: string; tripId: string | null }): Record<string, unknown> {
+  return {
+    user_id: context.userId,
+    category: "other",
+    name: photo.takenAt ? `Photo, ${format(new Date(photo.takenAt), "MMM d, HH:mm")}` : "Photo",
+    description: null,
+    image_url: photo.image,
+    latitude: photo.latitude,
+    longitude: photo.longitude,
+    location_name: null,
+    trip_id: context.tripId,
+    ...(photo.takenAt ? { created_at: photo.takenAt } : {}),
+  };
+}
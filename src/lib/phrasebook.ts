@@ -0,0 +1,221 @@
+// =============================================================
+// Phrasebook
+//
+// The user's own phrases, kept in the phrases table (0011_phrasebook.sql)
+// with every write going through the sync outbox. A phrase is stored
+// already translated into one language, and the translation is also put in
+// the IndexedDB translation cache, so the phrasebook shows, speaks and
+// answers Translate's offline lookups without a connection. The last list
+// fetched is cached per user in localStorage for offline use.
+//
+// Categories are free text: the defaults below plus whatever the user
+// has made up ("Allergies", "Medical"...).
+// =============================================================
+
+import { supabase } from "@/integrations/supabase/client";
+import { invokeAI } from "@/lib/aiInvoke";
+import { getLanguageName } from "@/lib/languages";
+import { cacheTranslation, getPendingOperations } from "@/lib/offlineStorage";
+import { applyPendingChanges, saveChange } from "@/lib/syncOutbox";
+
+export interface Phrase {
+  id: string;
+  user_id: string;
+  trip_id: string | null;
+  source_language: string;
+  /** Language of the translation */
+  language: string;
+  text: string;
+  translation: string;
+  pronunciation: string | null;
+  category: string;
+  pinned: boolean;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type PhrasePatch = Partial<Pick<Phrase, "category" | "pinned" | "trip_id">>;
+
+export interface NewPhrase {
+  text: string;
+  translation: string;
+  pronunciation?: string | null;
+  language: string;
+  sourceLanguage?: string;
+  category: string;
+  tripId?: string | null;
+  pinned?: boolean;
+}
+
+export const DEFAULT_PHRASE_CATEGORIES = [
+  "Essential",
+  "Food",
+  "Allergies",
+  "Dietary needs",
+  "Medical",
+  "Transport",
+  "Shopping",
+  "Emergency",
+];
+
+/** Fired on window whenever the phrasebook changes on this device. */
+export const PHRASEBOOK_EVENT = "worldlens:phrasebook";
+
+const cacheKey = (userId: string) => `ww_phrasebook_cache:${userId}`;
+
+function notify(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(PHRASEBOOK_EVENT));
+}
+
+/** The defaults first, then the user's own categories alphabetically. */
+export function phraseCategories(phrases: Pick<Phrase, "category">[]): string[] {
+  const defaults = new Set(DEFAULT_PHRASE_CATEGORIES.map((c) => c.toLowerCase()));
+  const own = new Map<string, string>();
+  for (const { category } of phrases) {
+    const name = category.trim();
+    if (name && !defaults.has(name.toLowerCase()) && !own.has(name.toLowerCase())) own.set(name.toLowerCase(), name);
+  }
+  return [...DEFAULT_PHRASE_CATEGORIES, ...[...own.values()].sort((a, b) => a.localeCompare(b))];
+}
+
+/** A typed category matched to an existing one regardless of case. */
+export function normalizeCategory(category: string, existing: string[]): string {
+  const name = category.trim().replace(/\s+/g, " ");
+  if (!name) return DEFAULT_PHRASE_CATEGORIES[0];
+  return existing.find((c) => c.toLowerCase() === name.toLowerCase()) ?? name;
+}
+
+/** Phrases in one language (and optionally one trip), pinned first, grouped by category. */
+export function groupPhrases(
+  phrases: Phrase[],
+  filter: { language: string; tripId?: string | null }
+): { pinned: Phrase[]; groups: { category: string; phrases: Phrase[] }[] } {
+  const shown = phrases
+    .filter((p) => p.language === filter.language && (!filter.tripId || p.trip_id === filter.tripId))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const order = phraseCategories(shown);
+  const groups = new Map<string, Phrase[]>();
+  for (const phrase of shown.filter((p) => !p.pinned)) {
+    const category = normalizeCategory(phrase.category, order);
+    groups.set(category, [...(groups.get(category) ?? []), phrase]);
+  }
+  return {
+    pinned: shown.filter((p) => p.pinned),
+    groups: order.filter((c) => groups.has(c)).map((category) => ({ category, phrases: groups.get(category) })),
+  };
+}
+
+function readCache(userId: string): Phrase[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(cacheKey(userId)) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeCache(userId: string, phrases: Phrase[]): void {
+  try {
+    localStorage.setItem(cacheKey(userId), JSON.stringify(phrases));
+  } catch (e) { void e }
+}
+
+/**
+ * The user's phrasebook with unsynced local changes laid over it. Falls
+ * back to the cached list when offline.
+ */
+export async function fetchPhrases(userId: string): Promise<{ phrases: Phrase[]; unsyncedIds: Set<string>; fromCache: boolean }> {
+  let rows: Phrase[];
+  let fromCache = false;
+  if (navigator.onLine) {
+    const { data, error } = await supabase
+      .from("phrases")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) {
+      rows = readCache(userId);
+      fromCache = true;
+    } else {
+      rows = (data || []) as Phrase[];
+      writeCache(userId, rows);
+    }
+  } else {
+    rows = readCache(userId);
+    fromCache = true;
+  }
+
+  const { rows: phrases, unsyncedIds } = applyPendingChanges(rows, await getPendingOperations(), "phrases");
+  return { phrases, unsyncedIds, fromCache };
+}
+
+/** Translates a phrase the user typed, for saving it to the phrasebook. */
+export async function translatePhrase(
+  text: string,
+  language: string
+): Promise<{ translation: string; pronunciation: string }> {
+  const { data, error } = await invokeAI<{ translation: string; pronunciation?: string }>("translate", {
+    body: { text, targetLanguage: getLanguageName(language) },
+  });
+  if (error) throw error;
+  return { translation: data.translation, pronunciation: data.pronunciation ?? "" };
+}
+
+export function newPhraseRow(userId: string, phrase: NewPhrase): Omit<Phrase, "created_at" | "updated_at"> {
+  return {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    trip_id: phrase.tripId ?? null,
+    source_language: phrase.sourceLanguage ?? "en",
+    language: phrase.language,
+    text: phrase.text.trim(),
+    translation: phrase.translation.trim(),
+    pronunciation: phrase.pronunciation || null,
+    category: phrase.category,
+    pinned: phrase.pinned ?? false,
+  };
+}
+
+export async function createPhrase(userId: string, phrase: NewPhrase) {
+  const row = newPhraseRow(userId, phrase);
+  // Offline lookups in Translate find it too
+  await cacheTranslation(row.text, row.translation, row.source_language, row.language).catch(() => undefined);
+  const result = await saveChange({ type: "create", table: "phrases", data: row, label: row.text });
+  notify();
+  return result;
+}
+
+export async function updatePhrase(phrase: Phrase, patch: PhrasePatch) {
+  const result = await saveChange({
+    type: "update",
+    table: "phrases",
+    data: { id: phrase.id, ...patch },
+    label: phrase.text,
+    baseUpdatedAt: phrase.updated_at ?? null,
+  });
+  notify();
+  return result;
+}
+
+export async function deletePhrase(phrase: Phrase) {
+  const result = await saveChange({
+    type: "delete",
+    table: "phrases",
+    data: { id: phrase.id },
+    label: phrase.text,
+    baseUpdatedAt: phrase.updated_at ?? null,
+  });
+  notify();
+  return result;
+}
+
+/**
+ * Puts every phrase in the translation cache, for phrases saved on another
+ * device. Cheap to repeat: entries are keyed by their text.
+ */
+export async function cachePhraseTranslations(phrases: Phrase[]): Promise<void> {
+  await Promise.all(
+    phrases.map((p) => cacheTranslation(p.text, p.translation, p.source_language, p.language).catch(() => undefined))
+  );
+}
@@ -0,0 +1,114 @@
+// =============================================================
+// Place categories
+//
+// The app's own vocabulary for what a traveller looks for, and how each
+// places provider expresses it. Pages ask for "toilet" or "pharmacy"; the
+// provider translates that into TomTom category ids / text queries or
+// OpenStreetMap tags. Add a category here for every provider at once.
+// =============================================================
+
+export type PlaceCategory =
+  | "attraction"
+  | "food"
+  | "outdoors"
+  | "worship"
+  | "shopping"
+  | "transit"
+  | "rail_station"
+  | "toilet"
+  | "drinking_water"
+  | "grocery"
+  | "atm"
+  | "pharmacy"
+  | "hospital"
+  | "police"
+  | "parking"
+  | "fuel"
+  | "salon"
+  | "laundry";
+
+export const PLACE_CATEGORY_LABELS: Record<PlaceCategory, string> = {
+  attraction: "Attraction",
+  food: "Food & drink",
+  outdoors: "Park or beach",
+  worship: "Place of worship",
+  shopping: "Shopping centre",
+  transit: "Public transport",
+  rail_station: "Train or metro station",
+  toilet: "Public toilet",
+  drinking_water: "Drinking water",
+  grocery: "Grocery",
+  atm: "ATM",
+  pharmacy: "Pharmacy",
+  hospital: "Hospital",
+  police: "Police",
+  parking: "Parking",
+  fuel: "Fuel station",
+  salon: "Hair & beauty",
+  laundry: "Laundry",
+};
+
+// TomTom: a category id set for nearbySearch, or a text query for things
+// its POI taxonomy doesn't cover well (toilets, water, groceries).
+export interface TomTomCategory {
+  categorySet?: string;
+  query?: string;
+}
+
+export const TOMTOM_TAXONOMY: Record<PlaceCategory, TomTomCategory> = {
+  attraction: { categorySet: "7376,7317,9927,7302,9902" }, // attraction, museum, wildlife park, trail, amusement park
+  food: { categorySet: "7315,9376,9379" }, // restaurant, café/pub, nightlife
+  outdoors: { categorySet: "9357,9362" }, // beach, park
+  worship: { categorySet: "7339" },
+  shopping: { categorySet: "7373" },
+  transit: { categorySet: "7380,7380002,7380003,7380004,7380005,9942" },
+  rail_station: { query: "metro subway underground mrt tube monorail railway train station tram lrt" },
+  toilet: { query: "public toilet" },
+  drinking_water: { query: "drinking water fountain" },
+  grocery: { query: "supermarket grocery" },
+  atm: { categorySet: "7397" },
+  pharmacy: { categorySet: "7326" },
+  hospital: { categorySet: "7321" },
+  police: { categorySet: "7322" },
+  parking: { categorySet: "7313" },
+  fuel: { categorySet: "7311" },
+  salon: { categorySet: "9361067,9361027" },
+  laundry: { categorySet: "9361010" },
+};
+
+// OpenStreetMap: any of these tag values matches the category
+export type OsmTagFilter = { key: string; values: string[] };
+
+export const OSM_TAXONOMY: Record<PlaceCategory, OsmTagFilter[]> = {
+  attraction: [
+    { key: "tourism", values: ["attraction", "museum", "gallery", "zoo", "theme_park", "viewpoint"] },
+    { key: "historic", values: ["monument", "castle", "ruins"] },
+  ],
+  food: [{ key: "amenity", values: ["restaurant", "cafe", "bar", "pub", "fast_food"] }],
+  outdoors: [
+    { key: "leisure", values: ["park", "garden", "nature_reserve"] },
+    { key: "natural", values: ["beach"] },
+  ],
+  worship: [{ key: "amenity", values: ["place_of_worship"] }],
+  shopping: [{ key: "shop", values: ["mall", "department_store"] }],
+  transit: [
+    { key: "railway", values: ["station", "halt", "tram_stop"] },
+    { key: "amenity", values: ["bus_station"] },
+    { key: "highway", values: ["bus_stop"] },
+  ],
+  rail_station: [
+    { key: "railway", values: ["station", "halt", "tram_stop"] },
+    { key: "station", values: ["subway", "light_rail", "monorail"] },
+  ],
+  toilet: [{ key: "amenity", values: ["toilets"] }],
+  drinking_water: [{ key: "amenity", values: ["drinking_water", "water_point"] }],
+  grocery: [{ key: "shop", values: ["supermarket", "convenience", "greengrocer"] }],
+  atm: [{ key: "amenity", values: ["atm", "bank"] }],
+  pharmacy: [{ key: "amenity", values: ["pharmacy"] }],
+  hospital: [{ key: "amenity", values: ["hospital", "clinic"] }],
+  police: [{ key: "amenity", values: ["police"] }],
+  parking: [{ key: "amenity", values: ["parking"] }],
+  fuel: [{ key: "amenity", values: ["fuel"] }],
+  salon: [{ key: "shop", values: ["hairdresser", "beauty"] }],
+  laundry: [{ key: "shop", values: ["laundry", "dry_cleaning"] }],
+};
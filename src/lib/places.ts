@@ -0,0 +1,258 @@
+// =============================================================
+// Places search client
+//
+// Every nearby-place lookup (Explore map, Location, Human Needs, city
+// packs) goes through searchPlaces(), which shares one cache and dedupes
+// identical in-flight requests across components, like useExchangeRates
+// does for rates. Callers ask in our own category vocabulary
+// (placeCategories.ts); the active provider (placesProviders.ts: TomTom,
+// OpenStreetMap/Overpass or fixtures) does the actual lookup and returns
+// the same normalized Place shape.
+// =============================================================
+
+import type { PlaceCategory } from "./placeCategories";
+import { getPlacesProvider } from "./placesProviders";
+import { distanceMeters } from "./tomtomPlaces";
+
+export { distanceMeters };
+
+export interface Place {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  distanceMeters: number | null;
+  address: string | null;
+  /** Provider's own category words, e.g. "pharmacy" */
+  categories: string[];
+  /** Provider classification codes, e.g. "RESTAURANT" or "TOILETS" */
+  classifications: string[];
+  /** Readable name of the first classification, e.g. "Restaurant" */
+  typeName: string | null;
+  /** Which of the requested categories this place answers */
+  category: PlaceCategory | null;
+  municipality: string | null;
+  country: string | null;
+  countryCode: string | null;
+}
+
+export interface PlaceSearch {
+  lat: number;
+  lon: number;
+  radius: number;
+  /** Per category */
+  limit: number;
+  categories: PlaceCategory[];
+  /** Skip the cache, e.g. for a refresh button */
+  fresh?: boolean;
+}
+
+/** A place as the Explore map lists it. Also what city packs store. */
+export interface NearbyPlace {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  type: string;
+  icon: string;
+  distanceMeters?: number;
+}
+
+export type PlacesMode = "tourist" | "essentials";
+
+const PLACES_TTL_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 12_000;
+
+const placesCache = new Map<string, { places: Place[]; at: number }>();
+const inflight = new Map<string, Promise<Place[]>>();
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await run(controller.signal);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Cached + shared between callers. A caller's own signal only stops that
+// caller waiting; the request finishes for everyone else.
+async function cachedRequest(
+  key: string,
+  run: (signal: AbortSignal) => Promise<Place[]>,
+  signal?: AbortSignal,
+  fresh = false
+): Promise<Place[]> {
+  const cached = placesCache.get(key);
+  if (!fresh && cached && Date.now() - cached.at < PLACES_TTL_MS) return cached.places;
+
+  let promise = inflight.get(key);
+  if (!promise) {
+    promise = withTimeout(run)
+      .then((places) => {
+        placesCache.set(key, { places, at: Date.now() });
+        return places;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, promise);
+  }
+
+  if (!signal) return promise;
+  if (signal.aborted) throw new DOMException("Aborted", "AbortError");
+  return new Promise<Place[]>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("Aborted", "AbortError"));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/** Places around a point, closest first, with distances from that point. */
+export async function searchPlaces(search: PlaceSearch, signal?: AbortSignal): Promise<Place[]> {
+  const { lat, lon, radius, limit, categories, fresh } = search;
+  const provider = getPlacesProvider();
+  // ~100 m cells, so a walk across the street doesn't refetch
+  const key = `${provider.id}:${[...categories].sort().join(",")}:${lat.toFixed(3)}:${lon.toFixed(3)}:${radius}:${limit}`;
+
+  const places = await cachedRequest(
+    key,
+    (timeout) => provider.search({ lat, lon, radius, limit, categories }, timeout),
+    signal,
+    fresh
+  );
+  return places
+    .map((place) => ({ ...place, distanceMeters: distanceMeters(lat, lon, place.lat, place.lng) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+export function dedupePlaces<T extends { lat: number; lng: number; name: string }>(items: T[]): T[] {
+  const seen = new Set<string>();
+  const out: T[] = [];
+  for (const item of items) {
+    const key = `${Math.round(item.lat * 10_000) / 10_000}:${Math.round(item.lng * 10_000) / 10_000}:${item.name.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(item);
+  }
+  return out;
+}
+
+export interface GeocodedPlace {
+  name: string;
+  countryCode: string;
+  lat: number;
+  lng: number;
+}
+
+/** Resolves a typed destination ("Lisbon", "Kyoto, Japan") to a point. */
+export async function geocodeDestination(query: string, signal?: AbortSignal): Promise<GeocodedPlace | null> {
+  const q = query.trim();
+  const provider = getPlacesProvider();
+  const [hit] = await cachedRequest(
+    `${provider.id}:geocode:${q.toLowerCase()}`,
+    async (timeout) => {
+      const place = await provider.geocode(q, timeout);
+      return place ? [place] : [];
+    },
+    signal
+  );
+  if (!hit) return null;
+
+  const city = hit.municipality || q;
+  return {
+    name: hit.country ? `${city}, ${hit.country}` : city,
+    countryCode: hit.countryCode || "",
+    lat: hit.lat,
+    lng: hit.lng,
+  };
+}
+
+// ---- Explore map --------------------------------------------------------
+
+// Categories per map mode, with the radius (m) and per-category limit for each
+const MODE_QUERIES: Record<PlacesMode, Array<{ categories: PlaceCategory[]; radius: number; limit: number }>> = {
+  tourist: [
+    { categories: ["attraction"], radius: 5000, limit: 30 },
+    { categories: ["food"], radius: 2000, limit: 30 },
+    { categories: ["outdoors", "worship", "shopping"], radius: 3000, limit: 10 }, // free
+    { categories: ["transit"], radius: 5000, limit: 30 },
+  ],
+  essentials: [
+    { categories: ["atm", "pharmacy", "hospital", "police", "toilet"], radius: 5000, limit: 10 },
+    { categories: ["transit"], radius: 5000, limit: 30 },
+  ],
+};
+
+const CATEGORY_ICONS: Record<PlaceCategory, string> = {
+  attraction: "⭐",
+  food: "🍽️",
+  outdoors: "🌿",
+  worship: "⛪",
+  shopping: "🛍️",
+  transit: "🚌",
+  rail_station: "🚇",
+  toilet: "🚻",
+  drinking_water: "🚰",
+  grocery: "🛒",
+  atm: "🏧",
+  pharmacy: "💊",
+  hospital: "🏥",
+  police: "👮",
+  parking: "🅿️",
+  fuel: "⛽",
+  salon: "💇",
+  laundry: "🧺",
+};
+
+export function getPlaceIcon(place: Pick<Place, "classifications" | "categories" | "category">): string {
+  const code = (place.classifications[0] || "").toUpperCase();
+  const cats = place.categories.join(" ").toLowerCase();
+
+  if (code.includes("MUSEUM") || cats.includes("museum")) return "🏛️";
+  if (code.includes("MONUMENT") || cats.includes("monument")) return "🏛️";
+  if (code.includes("TOURIST_ATTRACTION") || cats.includes("tourist") || cats.includes("attraction")) return "⭐";
+  if (code.includes("PARK") || cats.includes("park") || cats.includes("garden")) return "🌿";
+  if (code.includes("BEACH") || cats.includes("beach")) return "🏖️";
+  if (code.includes("RESTAURANT") || cats.includes("restaurant")) return "🍽️";
+  if (code.includes("CAFE") || cats.includes("cafe") || cats.includes("coffee")) return "☕";
+  if (code.includes("BAR") || code.includes("PUB") || cats.includes("bar") || cats.includes("pub")) return "🍺";
+  if (code.includes("ATM") || cats.includes("atm")) return "🏧";
+  if (code.includes("PHARMACY") || cats.includes("pharmacy") || cats.includes("chemist")) return "💊";
+  if (code.includes("HOSPITAL") || cats.includes("hospital") || cats.includes("clinic")) return "🏥";
+  if (code.includes("POLICE") || cats.includes("police")) return "👮";
+  if (code.includes("TRAIN") || code.includes("RAIL") || code.includes("SUBWAY") || code.includes("METRO") || cats.includes("rail") || cats.includes("metro") || cats.includes("subway")) return "🚇";
+  if (code.includes("BUS") || cats.includes("bus")) return "🚌";
+
+  return place.category ? CATEGORY_ICONS[place.category] : "📍";
+}
+
+function toNearbyPlace(place: Place): NearbyPlace {
+  return {
+    id: place.id,
+    name: place.name,
+    lat: place.lat,
+    lng: place.lng,
+    type: place.categories[0] || place.category || "place",
+    icon: getPlaceIcon(place),
+    distanceMeters: place.distanceMeters ?? undefined,
+  };
+}
+
+/** The combined, deduplicated list the map shows for a mode, closest first. */
+export async function fetchPlacesForMode(
+  lat: number,
+  lon: number,
+  mode: PlacesMode,
+  signal?: AbortSignal
+): Promise<NearbyPlace[]> {
+  const results = await Promise.allSettled(
+    MODE_QUERIES[mode].map((q) => searchPlaces({ lat, lon, ...q }, signal))
+  );
+  // One busy category shouldn't blank the map; all of them failing should
+  const lists = results.filter((r): r is PromiseFulfilledResult<Place[]> => r.status === "fulfilled");
+  if (lists.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+
+  return dedupePlaces(lists.flatMap((r) => r.value).map(toNearbyPlace))
+    .sort((a, b) => (a.distanceMeters ?? Number.MAX_SAFE_INTEGER) - (b.distanceMeters ?? Number.MAX_SAFE_INTEGER))
+    .slice(0, 60);
+}
@@ -0,0 +1,331 @@
+// =============================================================
+// Places providers
+//
+// searchPlaces() owns caching and distances; a provider turns a request in
+// our own vocabulary (see placeCategories.ts) into normalized Places. Which
+// provider runs is chosen at build time with VITE_PLACES_PROVIDER:
+//
+//   tomtom    TomTom Search through the Netlify places proxy, or directly
+//             with VITE_TOMTOM_API_KEY in dev. This is the default.
+//   overpass  OpenStreetMap data from an Overpass API server (public or
+//             self-hosted, VITE_OVERPASS_URL) and Nominatim for geocoding
+//             (VITE_NOMINATIM_URL). Better coverage of toilets, drinking
+//             water and bus stops in many cities; no key needed.
+//   fixture   Deterministic made-up places around wherever you are, with no
+//             network, for tests, demos and offline UI work.
+// =============================================================
+
+import type { Place } from "./places";
+import {
+  OSM_TAXONOMY,
+  PLACE_CATEGORY_LABELS,
+  TOMTOM_TAXONOMY,
+  type OsmTagFilter,
+  type PlaceCategory,
+} from "./placeCategories";
+import { normalizeTomTom, type TomTomResult } from "./tomtomPlaces";
+
+export type PlacesProviderId = "tomtom" | "overpass" | "fixture";
+
+export interface PlacesRequest {
+  lat: number;
+  lon: number;
+  radius: number;
+  /** Per category */
+  limit: number;
+  categories: PlaceCategory[];
+}
+
+export interface PlacesProvider {
+  id: PlacesProviderId;
+  // Every returned place has `category` set to one of request.categories.
+  search: (request: PlacesRequest, signal: AbortSignal) => Promise<Place[]>;
+  geocode: (query: string, signal: AbortSignal) => Promise<Place | null>;
+}
+
+const env = import.meta.env;
+
+function byId(places: Place[]): Place[] {
+  const seen = new Set<string>();
+  return places.filter((p) => (seen.has(p.id) ? false : (seen.add(p.id), true)));
+}
+
+function humanize(value: string): string {
+  const text = value.replace(/_/g, " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ---- TomTom (via the Netlify proxy, or direct in dev) -------------------
+
+const PLACES_PROXY_URL: string =
+  (env.VITE_PLACES_PROXY_URL as string | undefined) || (env.PROD ? "/.netlify/functions/places" : "");
+const TOMTOM_API_KEY = (env.VITE_TOMTOM_API_KEY as string | undefined) || "";
+const TOMTOM_SEARCH = "https://api.tomtom.com/search/2";
+
+async function tomtomRequest(params: Record<string, string>, fallbackName: string, signal: AbortSignal): Promise<Place[]> {
+  if (PLACES_PROXY_URL) {
+    const res = await fetch(`${PLACES_PROXY_URL}?${new URLSearchParams(params)}`, { signal });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data?.error || `Places search failed (${res.status})`);
+    return ((data.places || []) as Place[]).map((p) => ({ ...p, category: null }));
+  }
+
+  if (!TOMTOM_API_KEY) throw new Error("Places search is not configured. Set VITE_TOMTOM_API_KEY in .env.");
+  const { geocode, query, ...near } = params;
+  const search = new URLSearchParams({ key: TOMTOM_API_KEY, ...near });
+  const url = geocode
+    ? `${TOMTOM_SEARCH}/geocode/${encodeURIComponent(geocode)}.json?key=${TOMTOM_API_KEY}&limit=1`
+    : query
+      ? `${TOMTOM_SEARCH}/search/${encodeURIComponent(query)}.json?${search}&idxSet=POI`
+      : `${TOMTOM_SEARCH}/nearbySearch/.json?${search}`;
+  const res = await fetch(url, { signal });
+  if (!res.ok) throw new Error(`Places search failed (${res.status})`);
+  const data = await res.json();
+  return ((data.results || []) as TomTomResult[])
+    .map((item) => normalizeTomTom(item, fallbackName))
+    .filter(Boolean) as Place[];
+}
+
+export const tomtomProvider: PlacesProvider = {
+  id: "tomtom",
+  // One upstream call per category, so every result knows which need it answers
+  async search({ lat, lon, radius, limit, categories }, signal) {
+    const lists = await Promise.all(
+      categories.map(async (category) => {
+        const { categorySet, query } = TOMTOM_TAXONOMY[category];
+        const params: Record<string, string> = {
+          lat: String(lat),
+          lon: String(lon),
+          radius: String(radius),
+          limit: String(limit),
+          ...(categorySet ? { categorySet } : { query }),
+        };
+        const places = await tomtomRequest(params, PLACE_CATEGORY_LABELS[category], signal);
+        return places.map((p) => ({ ...p, category }));
+      })
+    );
+    return byId(lists.flat());
+  },
+  async geocode(query, signal) {
+    const [hit] = await tomtomRequest({ geocode: query }, query, signal);
+    return hit || null;
+  },
+};
+
+// ---- OpenStreetMap (Overpass + Nominatim) --------------------------------
+
+interface OsmElement {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+interface NominatimResult {
+  place_id?: number;
+  lat?: string;
+  lon?: string;
+  display_name?: string;
+  address?: { city?: string; town?: string; village?: string; country?: string; country_code?: string };
+}
+
+const OVERPASS_URL = (env.VITE_OVERPASS_URL as string | undefined) || "https://overpass-api.de/api/interpreter";
+const NOMINATIM_URL = ((env.VITE_NOMINATIM_URL as string | undefined) || "https://nominatim.openstreetmap.org").replace(/\/+$/, "");
+// Overpass can't sort by distance, so over-fetch and trim per category
+const OVERPASS_OVERFETCH = 4;
+
+export function buildOverpassQuery({ lat, lon, radius, limit, categories }: PlacesRequest): string {
+  const filters = new Map<string, OsmTagFilter>();
+  for (const category of categories) {
+    for (const filter of OSM_TAXONOMY[category]) filters.set(`${filter.key}=${filter.values.join("|")}`, filter);
+  }
+  const around = `(around:${Math.round(radius)},${lat},${lon})`;
+  const lines = [...filters.values()].map((f) => `  nwr["${f.key}"~"^(${f.values.join("|")})$"]${around};`);
+  const max = Math.min(limit * categories.length * OVERPASS_OVERFETCH, 500);
+  return `[out:json][timeout:15];\n(\n${lines.join("\n")}\n);\nout center tags ${max};`;
+}
+
+function matchOsm(tags: Record<string, string>, categories: PlaceCategory[]): { category: PlaceCategory; value: string } | null {
+  for (const category of categories) {
+    for (const { key, values } of OSM_TAXONOMY[category]) {
+      if (tags[key] && values.includes(tags[key])) return { category, value: tags[key] };
+    }
+  }
+  return null;
+}
+
+export function normalizeOsm(element: OsmElement, categories: PlaceCategory[]): Place | null {
+  const lat = element.lat ?? element.center?.lat;
+  const lng = element.lon ?? element.center?.lon;
+  const tags = element.tags || {};
+  const match = matchOsm(tags, categories);
+  if (lat == null || lng == null || !match) return null;
+
+  const street = [tags["addr:street"], tags["addr:housenumber"]].filter(Boolean).join(" ");
+  const address = [street, tags["addr:city"]].filter(Boolean).join(", ");
+  return {
+    id: `osm:${element.type}/${element.id}`,
+    // Toilets and bus stops are often unnamed
+    name: tags.name || tags["name:en"] || PLACE_CATEGORY_LABELS[match.category],
+    lat,
+    lng,
+    distanceMeters: null,
+    address: address || null,
+    categories: [match.value],
+    classifications: [match.value.toUpperCase()],
+    typeName: humanize(match.value),
+    category: match.category,
+    municipality: tags["addr:city"] || null,
+    country: null,
+    countryCode: tags["addr:country"] || null,
+  };
+}
+
+export const overpassProvider: PlacesProvider = {
+  id: "overpass",
+  async search(request, signal) {
+    const res = await fetch(OVERPASS_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ data: buildOverpassQuery(request) }),
+      signal,
+    });
+    if (!res.ok) throw new Error(`Places search failed (${res.status})`);
+    const data = await res.json();
+    const places = ((data.elements || []) as OsmElement[])
+      .map((el) => normalizeOsm(el, request.categories))
+      .filter(Boolean) as Place[];
+
+    const measured = places
+      .map((p) => ({ p, d: (p.lat - request.lat) ** 2 + ((p.lng - request.lon) * Math.cos((request.lat * Math.PI) / 180)) ** 2 }))
+      .sort((a, b) => a.d - b.d)
+      .map(({ p }) => p);
+    return request.categories.flatMap((c) => measured.filter((p) => p.category === c).slice(0, request.limit));
+  },
+  async geocode(query, signal) {
+    const params = new URLSearchParams({ q: query, format: "jsonv2", limit: "1", addressdetails: "1" });
+    const res = await fetch(`${NOMINATIM_URL}/search?${params}`, { signal });
+    if (!res.ok) throw new Error(`Places search failed (${res.status})`);
+    const [hit] = (await res.json()) as NominatimResult[];
+    if (!hit?.lat || !hit?.lon) return null;
+
+    const address = hit.address || {};
+    return {
+      id: `osm:place/${hit.place_id}`,
+      name: hit.display_name || query,
+      lat: Number(hit.lat),
+      lng: Number(hit.lon),
+      distanceMeters: null,
+      address: hit.display_name || null,
+      categories: [],
+      classifications: [],
+      typeName: null,
+      category: null,
+      municipality: address.city || address.town || address.village || null,
+      country: address.country || null,
+      countryCode: address.country_code ? address.country_code.toUpperCase() : null,
+    };
+  },
+};
+
+// ---- Fixture (no network) -------------------------------------------------
+
+const FIXTURE_PER_CATEGORY = 3;
+const FIXTURE_HOME = { name: "Lisbon", country: "Portugal", countryCode: "PT", lat: 38.7223, lng: -9.1393 };
+
+function offset(lat: number, lon: number, meters: number, bearingDeg: number): { lat: number; lng: number } {
+  const b = (bearingDeg * Math.PI) / 180;
+  const dLat = (meters * Math.cos(b)) / 111_320;
+  const dLng = (meters * Math.sin(b)) / (111_320 * Math.cos((lat * Math.PI) / 180));
+  return { lat: lat + dLat, lng: lon + dLng };
+}
+
+function fixturePlace(category: PlaceCategory, index: number, lat: number, lon: number, radius: number): Place {
+  // Spread the categories around the compass so markers don't stack
+  const seed = [...category].reduce((sum, ch) => sum + ch.charCodeAt(0), 0);
+  const point = offset(lat, lon, radius * (0.15 + 0.25 * index), (seed + index * 120) % 360);
+  const label = PLACE_CATEGORY_LABELS[category];
+  return {
+    id: `fixture:${category}:${index}`,
+    name: `${label} ${index + 1}`,
+    ...point,
+    distanceMeters: null,
+    address: null,
+    categories: [category],
+    classifications: [category.toUpperCase()],
+    typeName: label,
+    category,
+    municipality: null,
+    country: null,
+    countryCode: null,
+  };
+}
+
+/**
+ * A provider answering from fixed data. Without places it makes up a few
+ * per category around whatever point is asked for.
+ */
+export function createFixtureProvider(fixtures?: Place[]): PlacesProvider {
+  return {
+    id: "fixture",
+    async search({ lat, lon, radius, limit, categories }) {
+      if (!fixtures) {
+        return categories.flatMap((category) =>
+          Array.from({ length: Math.min(limit, FIXTURE_PER_CATEGORY) }, (_, i) => fixturePlace(category, i, lat, lon, radius))
+        );
+      }
+      return categories.flatMap((category) =>
+        fixtures
+          .filter((p) => p.category === category)
+          .filter((p) => Math.hypot(p.lat - lat, (p.lng - lon) * Math.cos((lat * Math.PI) / 180)) * 111_320 <= radius)
+          .slice(0, limit)
+      );
+    },
+    async geocode(query) {
+      const q = query.trim().toLowerCase();
+      const hit = fixtures?.find((p) => p.name.toLowerCase() === q || p.municipality?.toLowerCase() === q);
+      if (hit) return hit;
+      if (fixtures) return null;
+      return {
+        id: `fixture:geocode:${q}`,
+        name: FIXTURE_HOME.name,
+        lat: FIXTURE_HOME.lat,
+        lng: FIXTURE_HOME.lng,
+        distanceMeters: null,
+        address: null,
+        categories: [],
+        classifications: [],
+        typeName: null,
+        category: null,
+        municipality: FIXTURE_HOME.name,
+        country: FIXTURE_HOME.country,
+        countryCode: FIXTURE_HOME.countryCode,
+      };
+    },
+  };
+}
+
+export const fixtureProvider = createFixtureProvider();
+
+// ---- Selection -------------------------------------------------------------
+
+const PROVIDERS: Record<PlacesProviderId, PlacesProvider> = {
+  tomtom: tomtomProvider,
+  overpass: overpassProvider,
+  fixture: fixtureProvider,
+};
+
+let override: PlacesProvider | null = null;
+
+export function getPlacesProvider(): PlacesProvider {
+  if (override) return override;
+  const configured = (env.VITE_PLACES_PROVIDER as string | undefined)?.trim() as PlacesProviderId | undefined;
+  return (configured && PROVIDERS[configured]) || tomtomProvider;
+}
+
+/** Swaps the active provider at runtime (tests, demos). Pass null to reset. */
+export function setPlacesProvider(provider: PlacesProvider | PlacesProviderId | null): void {
+  override = typeof provider === "string" ? PROVIDERS[provider] : provider;
+}
@@ -0,0 +1,259 @@
+// =============================================================
+// Walking directions
+//
+// getWalkingRoute() asks a routing server for a walking route between two
+// points and returns one normalized shape: the line to draw, the distance,
+// the ETA and the steps. Which server speaks is chosen at build time with
+// VITE_ROUTING_PROVIDER; both can be self-hosted:
+//
+//   osrm      Any OSRM server with a foot profile (VITE_OSRM_URL). The
+//             default is the FOSSGIS public instance. This is the default.
+//   valhalla  Any Valhalla server (VITE_VALHALLA_URL), pedestrian costing.
+// =============================================================
+
+export type RoutingProviderId = "osrm" | "valhalla";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteStep {
+  instruction: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Where the step starts, [lat, lng] */
+  location: [number, number];
+}
+
+export interface WalkingRoute {
+  distanceMeters: number;
+  durationSeconds: number;
+  /** The path to draw, [lat, lng] pairs */
+  geometry: [number, number][];
+  steps: RouteStep[];
+}
+
+export interface RoutingProvider {
+  id: RoutingProviderId;
+  route: (from: LatLng, to: LatLng, signal?: AbortSignal) => Promise<WalkingRoute>;
+}
+
+const env = import.meta.env;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+async function fetchJson(url: string, signal?: AbortSignal): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data?.message || data?.error || `Routing failed (${res.status})`);
+    return data;
+  } catch (err) {
+    // Our own timeout, not the caller giving up
+    if ((err as Error).name === "AbortError" && !signal?.aborted) throw new Error("The routing service took too long to answer");
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// ---- OSRM ------------------------------------------------------------------
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name?: string;
+  maneuver: { type: string; modifier?: string; bearing_after?: number; exit?: number; location: [number, number] };
+}
+
+interface OsrmResponse {
+  code?: string;
+  message?: string;
+  routes?: Array<{
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+    legs: Array<{ steps: OsrmStep[] }>;
+  }>;
+}
+
+const OSRM_URL = ((env.VITE_OSRM_URL as string | undefined) || "https://routing.openstreetmap.de/routed-foot").replace(/\/+$/, "");
+const COMPASS = ["north", "northeast", "east", "southeast", "south", "southwest", "west", "northwest"];
+
+/** OSRM only returns maneuver codes, so the sentence is ours. */
+export function describeOsrmStep(step: OsrmStep): string {
+  const { type, modifier, bearing_after, exit } = step.maneuver;
+  const onto = step.name ? ` onto ${step.name}` : "";
+
+  switch (type) {
+    case "depart": {
+      const heading = COMPASS[Math.round(((bearing_after ?? 0) % 360) / 45) % 8];
+      return `Head ${heading}${step.name ? ` on ${step.name}` : ""}`;
+    }
+    case "arrive":
+      return "Arrive at your destination";
+    case "roundabout":
+    case "rotary":
+      return exit ? `At the roundabout, take exit ${exit}${onto}` : `Go around the roundabout${onto}`;
+    case "new name":
+    case "continue":
+      if (!modifier || modifier === "straight") return `Continue${onto || " straight"}`;
+      break;
+  }
+
+  if (modifier === "uturn") return `Turn around${onto}`;
+  if (modifier === "straight") return `Continue straight${onto}`;
+  if (modifier?.startsWith("slight ")) return `Bear ${modifier.slice(7)}${onto}`;
+  if (modifier?.startsWith("sharp ")) return `Turn sharp ${modifier.slice(6)}${onto}`;
+  if (modifier) return `Turn ${modifier}${onto}`;
+  return `Continue${onto}`;
+}
+
+export const osrmProvider: RoutingProvider = {
+  id: "osrm",
+  async route(from, to, signal) {
+    const coords = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const data = (await fetchJson(
+      `${OSRM_URL}/route/v1/foot/${coords}?overview=full&geometries=geojson&steps=true`,
+      signal
+    )) as OsrmResponse;
+    const route = data.routes?.[0];
+    if (data.code !== "Ok" || !route) throw new Error(data.message || "No walking route found");
+
+    return {
+      distanceMeters: route.distance,
+      durationSeconds: route.duration,
+      geometry: route.geometry.coordinates.map(([lng, lat]) => [lat, lng] as [number, number]),
+      steps: route.legs.flatMap((leg) => leg.steps).map((step) => ({
+        instruction: describeOsrmStep(step),
+        distanceMeters: step.distance,
+        durationSeconds: step.duration,
+        location: [step.maneuver.location[1], step.maneuver.location[0]] as [number, number],
+      })),
+    };
+  },
+};
+
+// ---- Valhalla ----------------------------------------------------------------
+
+interface ValhallaResponse {
+  trip?: {
+    summary: { length: number; time: number };
+    legs: Array<{
+      shape: string;
+      maneuvers: Array<{ instruction: string; length: number; time: number; begin_shape_index: number }>;
+    }>;
+  };
+}
+
+const VALHALLA_URL = ((env.VITE_VALHALLA_URL as string | undefined) || "https://valhalla1.openstreetmap.de").replace(/\/+$/, "");
+
+/** Decodes an encoded polyline; Valhalla uses 6 digits of precision. */
+export function decodePolyline(encoded: string, precision = 6): [number, number][] {
+  const factor = 10 ** precision;
+  const points: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    points.push([lat / factor, lng / factor]);
+  }
+  return points;
+}
+
+export const valhallaProvider: RoutingProvider = {
+  id: "valhalla",
+  async route(from, to, signal) {
+    const request = {
+      locations: [{ lat: from.lat, lon: from.lng }, { lat: to.lat, lon: to.lng }],
+      costing: "pedestrian",
+      directions_options: { units: "kilometers" },
+    };
+    const data = (await fetchJson(
+      `${VALHALLA_URL}/route?json=${encodeURIComponent(JSON.stringify(request))}`,
+      signal
+    )) as ValhallaResponse;
+    if (!data.trip?.legs?.length) throw new Error("No walking route found");
+
+    const legs = data.trip.legs.map((leg) => ({ leg, shape: decodePolyline(leg.shape) }));
+    return {
+      distanceMeters: data.trip.summary.length * 1000,
+      durationSeconds: data.trip.summary.time,
+      geometry: legs.flatMap(({ shape }) => shape),
+      steps: legs.flatMap(({ leg, shape }) =>
+        leg.maneuvers.map((m) => ({
+          instruction: m.instruction,
+          distanceMeters: m.length * 1000,
+          durationSeconds: m.time,
+          location: shape[m.begin_shape_index] || shape[0],
+        }))
+      ),
+    };
+  },
+};
+
+// ---- Selection -----------------------------------------------------------------
+
+const PROVIDERS: Record<RoutingProviderId, RoutingProvider> = {
+  osrm: osrmProvider,
+  valhalla: valhallaProvider,
+};
+
+let override: RoutingProvider | null = null;
+
+export function getRoutingProvider(): RoutingProvider {
+  if (override) return override;
+  const configured = (env.VITE_ROUTING_PROVIDER as string | undefined)?.trim() as RoutingProviderId | undefined;
+  return (configured && PROVIDERS[configured]) || osrmProvider;
+}
+
+/** Swaps the active provider at runtime (tests, demos). Pass null to reset. */
+export function setRoutingProvider(provider: RoutingProvider | RoutingProviderId | null): void {
+  override = typeof provider === "string" ? PROVIDERS[provider] : provider;
+}
+
+export function getWalkingRoute(from: LatLng, to: LatLng, signal?: AbortSignal): Promise<WalkingRoute> {
+  return getRoutingProvider().route(from, to, signal);
+}
+
+/** "12 min", "1 h 5 min" */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+/** A link into the phone's maps app, for when the in-app route can't be used. */
+export function externalMapsUrl(to: LatLng): string {
+  return `https://www.google.com/maps/dir/?api=1&destination=${to.lat},${to.lng}&travelmode=walking`;
+}
+
+/** `/map?to=lat,lng&name=...` opens the map with walking directions. */
+export function directionsPath(to: LatLng & { name?: string }): string {
+  const params = new URLSearchParams({ to: `${to.lat.toFixed(6)},${to.lng.toFixed(6)}` });
+  if (to.name) params.set("name", to.name);
+  return `/map?${params}`;
+}
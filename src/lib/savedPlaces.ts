@@ -0,0 +1,264 @@
+// =============================================================
+// Saved places
+//
+// Signed in, bookmarks live in the saved_places table (0007_saved_places.sql)
+// and every write goes through the sync outbox, so saving a café on a
+// plane works and syncs later. The last list fetched is cached per user in
+// localStorage for the map to show offline.
+//
+// Signed out, the old localStorage list ("ww_saved_places", capped at 200)
+// is still used. migrateLocalSavedPlaces() copies it into the table on the
+// next sign-in, skipping places the account already has.
+// =============================================================
+
+import { supabase } from "@/integrations/supabase/client";
+import { getPendingOperations } from "@/lib/offlineStorage";
+import { applyPendingChanges, saveChange } from "@/lib/syncOutbox";
+import type { NearbyPlace } from "@/lib/places";
+
+export interface SavedPlace {
+  id: string;
+  user_id: string;
+  trip_id: string | null;
+  name: string;
+  latitude: number;
+  longitude: number;
+  place_type: string | null;
+  icon: string | null;
+  address: string | null;
+  notes: string | null;
+  tags: string[];
+  visited: boolean;
+  /** yyyy-MM-dd */
+  visited_on: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type SavedPlacePatch = Partial<Pick<SavedPlace, "trip_id" | "notes" | "tags" | "visited" | "visited_on" | "name">>;
+
+export interface NewSavedPlace {
+  name: string;
+  lat: number;
+  lng: number;
+  type?: string | null;
+  icon?: string | null;
+  address?: string | null;
+  tripId?: string | null;
+}
+
+/** Fired on window whenever saved places change on this device. */
+export const SAVED_PLACES_EVENT = "worldlens:saved-places";
+
+export const LOCAL_SAVED_PLACES_KEY = "ww_saved_places";
+export const MAX_LOCAL_SAVED_PLACES = 200;
+const cacheKey = (userId: string) => `ww_saved_places_cache:${userId}`;
+
+function notify(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(SAVED_PLACES_EVENT));
+}
+
+/** Same place, same name, within ~10 m: what counts as "already saved". */
+export function savedPlaceKey(place: { lat: number; lng: number; name: string }): string {
+  return `${Math.round(place.lat * 10_000) / 10_000}:${Math.round(place.lng * 10_000) / 10_000}:${place.name.toLowerCase()}`;
+}
+
+export function keyOfSaved(place: SavedPlace): string {
+  return savedPlaceKey({ lat: place.latitude, lng: place.longitude, name: place.name });
+}
+
+/** The map's marker shape for a saved place. */
+export function toNearbyPlace(place: SavedPlace): NearbyPlace {
+  return {
+    id: place.id,
+    name: place.name,
+    lat: place.latitude,
+    lng: place.longitude,
+    type: place.place_type || "place",
+    icon: place.icon || "⭐",
+  };
+}
+
+// ---- Signed out: localStorage ------------------------------------------
+
+export function readLocalSavedPlaces(): NearbyPlace[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOCAL_SAVED_PLACES_KEY) || "[]");
+    return Array.isArray(parsed) ? (parsed as NearbyPlace[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function writeLocalSavedPlaces(items: NearbyPlace[]): void {
+  try {
+    localStorage.setItem(LOCAL_SAVED_PLACES_KEY, JSON.stringify(items.slice(0, MAX_LOCAL_SAVED_PLACES)));
+  } catch (e) { void e }
+  notify();
+}
+
+/** A local bookmark in the table's shape, so lists can treat both alike. */
+export function localToSaved(place: NearbyPlace): SavedPlace {
+  return {
+    id: place.id || savedPlaceKey(place),
+    user_id: "",
+    trip_id: null,
+    name: place.name,
+    latitude: place.lat,
+    longitude: place.lng,
+    place_type: place.type || null,
+    icon: place.icon || null,
+    address: null,
+    notes: null,
+    tags: [],
+    visited: false,
+    visited_on: null,
+    created_at: new Date(0).toISOString(),
+  };
+}
+
+// ---- Signed in: saved_places -------------------------------------------
+
+function readCache(userId: string): SavedPlace[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(cacheKey(userId)) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeCache(userId: string, places: SavedPlace[]): void {
+  try {
+    localStorage.setItem(cacheKey(userId), JSON.stringify(places));
+  } catch (e) { void e }
+}
+
+/**
+ * The user's saved places, newest first, with unsynced local changes laid
+ * over them. Falls back to the cached list when offline.
+ */
+export async function fetchSavedPlaces(userId: string): Promise<{ places: SavedPlace[]; unsyncedIds: Set<string>; fromCache: boolean }> {
+  let rows: SavedPlace[];
+  let fromCache = false;
+  if (navigator.onLine) {
+    const { data, error } = await supabase
+      .from("saved_places")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) {
+      rows = readCache(userId);
+      fromCache = true;
+    } else {
+      rows = (data || []) as SavedPlace[];
+      writeCache(userId, rows);
+    }
+  } else {
+    rows = readCache(userId);
+    fromCache = true;
+  }
+
+  const { rows: places, unsyncedIds } = applyPendingChanges(rows, await getPendingOperations(), "saved_places");
+  return { places, unsyncedIds, fromCache };
+}
+
+export function newSavedPlaceRow(userId: string, place: NewSavedPlace): Omit<SavedPlace, "created_at" | "updated_at"> {
+  return {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    trip_id: place.tripId ?? null,
+    name: place.name,
+    latitude: place.lat,
+    longitude: place.lng,
+    place_type: place.type ?? null,
+    icon: place.icon ?? null,
+    address: place.address ?? null,
+    notes: null,
+    tags: [],
+    visited: false,
+    visited_on: null,
+  };
+}
+
+export async function createSavedPlace(userId: string, place: NewSavedPlace) {
+  const row = newSavedPlaceRow(userId, place);
+  const result = await saveChange({ type: "create", table: "saved_places", data: row, label: place.name });
+  notify();
+  return result;
+}
+
+export async function updateSavedPlace(place: SavedPlace, patch: SavedPlacePatch) {
+  const result = await saveChange({
+    type: "update",
+    table: "saved_places",
+    data: { id: place.id, ...patch },
+    label: place.name,
+    baseUpdatedAt: place.updated_at ?? null,
+  });
+  notify();
+  return result;
+}
+
+export async function deleteSavedPlace(place: SavedPlace) {
+  const result = await saveChange({
+    type: "delete",
+    table: "saved_places",
+    data: { id: place.id },
+    label: place.name,
+    baseUpdatedAt: place.updated_at ?? null,
+  });
+  notify();
+  return result;
+}
+
+/** Local bookmarks the account doesn't have yet, oldest first so order survives. */
+export function placesToMigrate(local: NearbyPlace[], existing: SavedPlace[]): NearbyPlace[] {
+  const seen = new Set(existing.map(keyOfSaved));
+  const out: NearbyPlace[] = [];
+  for (const place of [...local].reverse()) {
+    const key = savedPlaceKey(place);
+    if (seen.has(key) || !Number.isFinite(place.lat) || !Number.isFinite(place.lng) || !place.name) continue;
+    seen.add(key);
+    out.push(place);
+  }
+  return out;
+}
+
+const migrating = new Map<string, Promise<number>>();
+
+/**
+ * Moves the signed-out bookmarks into the user's account. Runs once per
+ * user at a time; the local list is only cleared once every place is saved
+ * or queued, so a failure halfway just retries next sign-in.
+ */
+export function migrateLocalSavedPlaces(userId: string): Promise<number> {
+  const running = migrating.get(userId);
+  if (running) return running;
+
+  const run = (async () => {
+    const local = readLocalSavedPlaces();
+    if (local.length === 0) return 0;
+    // Needs the server list to skip duplicates; try again when online
+    if (!navigator.onLine) return 0;
+
+    const { places: existing, fromCache } = await fetchSavedPlaces(userId);
+    if (fromCache) return 0;
+
+    const toAdd = placesToMigrate(local, existing);
+    for (const place of toAdd) {
+      await saveChange({
+        type: "create",
+        table: "saved_places",
+        data: newSavedPlaceRow(userId, { name: place.name, lat: place.lat, lng: place.lng, type: place.type, icon: place.icon }),
+        label: place.name,
+      });
+    }
+    localStorage.removeItem(LOCAL_SAVED_PLACES_KEY);
+    notify();
+    return toAdd.length;
+  })().finally(() => migrating.delete(userId));
+
+  migrating.set(userId, run);
+  return run;
+}
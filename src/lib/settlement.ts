@@ -0,0 +1,275 @@
+// =============================================================
+// Shared expenses: splits, balances and settle-up
+//
+// Each spending record can say who paid (a trip member) and how the cost
+// is divided (equal, percentage or exact shares). Balances are worked out
+// in one settlement currency and in integer cents, so rounding never
+// leaves a stray cent that cannot be settled.
+// =============================================================
+
+import { convertAmount, type ConvertFn } from "./budget";
+
+export type SplitType = "equal" | "percentage" | "exact";
+
+// A type alias (not an interface) so it can be written straight into a jsonb column.
+export type SplitShare = {
+  member_id: string;
+  share: number;
+};
+
+export interface SharedExpense {
+  amount: number;
+  currency: string;
+  paid_by_member_id: string | null;
+  split_type: SplitType | null;
+  split_shares: SplitShare[] | null;
+}
+
+export interface MemberBalance {
+  memberId: string;
+  paid: number;
+  owed: number;
+  // Positive: the group owes this member. Negative: they owe the group.
+  net: number;
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface SettlementResult {
+  currency: string;
+  balances: MemberBalance[];
+  transfers: Transfer[];
+  // Shared records skipped because their currency has no rate yet.
+  unconverted: number;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+/**
+ * Spreads `cents` over `weights` proportionally, handing leftover cents to
+ * the largest remainders so the parts always add back up to `cents`.
+ */
+function allocate(cents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (cents * w) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = cents - parts.reduce((sum, p) => sum + p, 0);
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length, leftover--) {
+    parts[order[i].index] += 1;
+  }
+  return parts;
+}
+
+/**
+ * Returns how much (in cents) each member owes for one expense. Exact
+ * shares that do not add up to the amount are scaled to fit.
+ */
+export function splitExpense(
+  amountCents: number,
+  splitType: SplitType,
+  shares: SplitShare[]
+): Record<string, number> {
+  const members = shares.map((s) => s.member_id);
+  const weights =
+    splitType === "equal" ? shares.map(() => 1) : shares.map((s) => Math.max(0, Number(s.share) || 0));
+  const parts = allocate(amountCents, weights);
+  return Object.fromEntries(members.map((id, i) => [id, parts[i]]));
+}
+
+/** Checks a split before it is saved; returns a message or null if valid. */
+export function validateSplit(amount: number, splitType: SplitType, shares: SplitShare[]): string | null {
+  if (shares.length === 0) return "Pick at least one person to split with";
+  if (splitType === "percentage") {
+    const total = shares.reduce((sum, s) => sum + (Number(s.share) || 0), 0);
+    if (Math.abs(total - 100) > 0.01) return `Percentages add up to ${total}%, not 100%`;
+  }
+  if (splitType === "exact") {
+    const total = shares.reduce((sum, s) => sum + (Number(s.share) || 0), 0);
+    if (toCents(total) !== toCents(amount)) return `Shares add up to ${total.toFixed(2)}, not ${amount.toFixed(2)}`;
+  }
+  return null;
+}
+
+/**
+ * Net position of every member. Records without a payer or split are
+ * personal expenses and do not affect balances.
+ */
+export function computeBalances(
+  expenses: SharedExpense[],
+  memberIds: string[],
+  currency: string,
+  convert: ConvertFn
+): { balances: MemberBalance[]; unconverted: number } {
+  const paid: Record<string, number> = Object.fromEntries(memberIds.map((id) => [id, 0]));
+  const owed: Record<string, number> = Object.fromEntries(memberIds.map((id) => [id, 0]));
+  let unconverted = 0;
+
+  for (const expense of expenses) {
+    if (!expense.paid_by_member_id || !expense.split_type || !expense.split_shares?.length) continue;
+
+    const value = convertAmount(Number(expense.amount), expense.currency, currency, convert);
+    if (value === null || Number.isNaN(value)) {
+      unconverted += 1;
+      continue;
+    }
+
+    const cents = toCents(value);
+    paid[expense.paid_by_member_id] = (paid[expense.paid_by_member_id] || 0) + cents;
+    const shares = splitExpense(cents, expense.split_type, expense.split_shares);
+    for (const [memberId, share] of Object.entries(shares)) {
+      owed[memberId] = (owed[memberId] || 0) + share;
+    }
+  }
+
+  const ids = [...new Set([...memberIds, ...Object.keys(paid), ...Object.keys(owed)])];
+  const balances = ids.map((memberId) => ({
+    memberId,
+    paid: (paid[memberId] || 0) / 100,
+    owed: (owed[memberId] || 0) / 100,
+    net: ((paid[memberId] || 0) - (owed[memberId] || 0)) / 100,
+  }));
+  return { balances, unconverted };
+}
+
+// Exact search is 2^n; beyond this many people with a non-zero balance we
+// fall back to the greedy pairing (at most n - 1 transfers, usually optimal).
+const EXACT_LIMIT = 15;
+
+/** Greedy settle-up: largest debtor pays largest creditor until clear. */
+function settleGreedy(ids: string[], nets: number[]): Transfer[] {
+  const debtors = ids.map((id, i) => ({ id, cents: -nets[i] })).filter((d) => d.cents > 0);
+  const creditors = ids.map((id, i) => ({ id, cents: nets[i] })).filter((c) => c.cents > 0);
+  debtors.sort((a, b) => b.cents - a.cents);
+  creditors.sort((a, b) => b.cents - a.cents);
+
+  const transfers: Transfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const cents = Math.min(debtors[d].cents, creditors[c].cents);
+    transfers.push({ from: debtors[d].id, to: creditors[c].id, amount: cents / 100 });
+    debtors[d].cents -= cents;
+    creditors[c].cents -= cents;
+    if (debtors[d].cents === 0) d++;
+    if (creditors[c].cents === 0) c++;
+  }
+  return transfers;
+}
+
+/**
+ * Fewest transfers that clear every balance. A group of k people whose
+ * balances sum to zero can always settle in k - 1 transfers, so the minimum
+ * comes from splitting everyone into as many zero-sum groups as possible.
+ * That partition is found with a DP over subsets, then each group is
+ * settled greedily.
+ */
+export function minimizeTransfers(balances: MemberBalance[]): Transfer[] {
+  const open = balances.filter((b) => toCents(b.net) !== 0);
+  const ids = open.map((b) => b.memberId);
+  const nets = open.map((b) => toCents(b.net));
+  const n = ids.length;
+  if (n === 0) return [];
+  if (n > EXACT_LIMIT) return settleGreedy(ids, nets);
+
+  const size = 1 << n;
+  const sums = new Int32Array(size);
+  const best = new Int8Array(size);
+  for (let mask = 1; mask < size; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + nets[31 - Math.clz32(low)];
+    let max = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) max = Math.max(max, best[mask ^ (1 << i)]);
+    }
+    best[mask] = max + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Walk back to an ordering in which every zero-sum group is contiguous.
+  const order: number[] = [];
+  let mask = size - 1;
+  while (mask) {
+    const bonus = sums[mask] === 0 ? 1 : 0;
+    for (let i = 0; i < n; i++) {
+      const bit = 1 << i;
+      if (mask & bit && best[mask ^ bit] + bonus === best[mask]) {
+        order.unshift(i);
+        mask ^= bit;
+        break;
+      }
+    }
+  }
+
+  const transfers: Transfer[] = [];
+  let group: number[] = [];
+  let running = 0;
+  for (const index of order) {
+    group.push(index);
+    running += nets[index];
+    if (running === 0) {
+      transfers.push(...settleGreedy(group.map((i) => ids[i]), group.map((i) => nets[i])));
+      group = [];
+    }
+  }
+  if (group.length) {
+    transfers.push(...settleGreedy(group.map((i) => ids[i]), group.map((i) => nets[i])));
+  }
+  return transfers;
+}
+
+export function settleUp(
+  expenses: SharedExpense[],
+  memberIds: string[],
+  currency: string,
+  convert: ConvertFn
+): SettlementResult {
+  const { balances, unconverted } = computeBalances(expenses, memberIds, currency, convert);
+  return { currency, balances, transfers: minimizeTransfers(balances), unconverted };
+}
+
+// ---- form helpers -------------------------------------------------------
+// The split editor keeps raw input strings; these convert to and from the
+// columns stored on spending_records.
+
+export interface SplitDraft {
+  paidBy: string | null;
+  splitType: SplitType | null;
+  included: string[];
+  shares: Record<string, string>;
+}
+
+export function splitDraftFrom(expense: Partial<SharedExpense>, memberIds: string[]): SplitDraft {
+  const shares = expense.split_shares || [];
+  return {
+    paidBy: expense.paid_by_member_id ?? null,
+    splitType: expense.split_type ?? null,
+    included: shares.length ? shares.map((s) => s.member_id) : memberIds,
+    shares: Object.fromEntries(shares.map((s) => [s.member_id, String(s.share)])),
+  };
+}
+
+export function splitFieldsFromDraft(
+  draft: SplitDraft,
+  amount: number
+): { fields: Pick<SharedExpense, "paid_by_member_id" | "split_type" | "split_shares">; error: string | null } {
+  if (!draft.paidBy || !draft.splitType) {
+    return { fields: { paid_by_member_id: draft.paidBy, split_type: null, split_shares: null }, error: null };
+  }
+
+  const shares = draft.included.map((memberId) => ({
+    member_id: memberId,
+    share: draft.splitType === "equal" ? 1 : parseFloat(draft.shares[memberId] || "0") || 0,
+  }));
+  return {
+    fields: { paid_by_member_id: draft.paidBy, split_type: draft.splitType, split_shares: shares },
+    error: validateSplit(amount, draft.splitType, shares),
+  };
+}
@@ -0,0 +1,76 @@
+// =============================================================
+// Speech
+//
+// BCP 47 locales for our language codes, used both to pick a
+// recognition language for the mic and a voice for reading
+// translations aloud through the browser's speech synthesis.
+// =============================================================
+
+const SPEECH_LOCALES: Record<string, string> = {
+  ja: "ja-JP", ko: "ko-KR", zh: "zh-CN", es: "es-ES", fr: "fr-FR",
+  de: "de-DE", it: "it-IT", pt: "pt-PT", ru: "ru-RU", ar: "ar-SA",
+  hi: "hi-IN", th: "th-TH", vi: "vi-VN", en: "en-US", nl: "nl-NL",
+  id: "id-ID", ms: "ms-MY", tl: "fil-PH", tr: "tr-TR", pl: "pl-PL",
+  uk: "uk-UA", cs: "cs-CZ", sv: "sv-SE", da: "da-DK", no: "nb-NO",
+  fi: "fi-FI", el: "el-GR", he: "he-IL",
+};
+
+export function speechLocale(code: string): string {
+  return SPEECH_LOCALES[code] || `${code}-${code.toUpperCase()}`;
+}
+
+export function canSpeak(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window;
+}
+
+// Some browsers never fire voiceschanged (or have no voices at all); after
+// this long the utterance goes out with the default voice.
+const VOICES_TIMEOUT_MS = 1000;
+
+async function loadVoices(synth: SpeechSynthesis): Promise<SpeechSynthesisVoice[]> {
+  if (synth.getVoices().length === 0) {
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        window.clearTimeout(timer);
+        synth.removeEventListener("voiceschanged", done);
+        resolve();
+      };
+      const timer = window.setTimeout(done, VOICES_TIMEOUT_MS);
+      synth.addEventListener("voiceschanged", done);
+    });
+  }
+  return synth.getVoices();
+}
+
+/**
+ * Reads text aloud in the given language, interrupting anything already
+ * being spoken. Resolves once it has finished (or was interrupted).
+ */
+export async function speak(text: string, code: string): Promise<void> {
+  if (!canSpeak()) return;
+
+  const synth = window.speechSynthesis;
+  const lang = speechLocale(code);
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+
+  const voices = await loadVoices(synth);
+  const matchedVoice =
+    voices.find((voice) => voice.lang === lang) ||
+    voices.find((voice) => voice.lang.startsWith(code)) ||
+    voices.find((voice) => voice.lang.startsWith(lang.split("-")[0]));
+  if (matchedVoice) {
+    utterance.voice = matchedVoice;
+  }
+
+  synth.cancel();
+  await new Promise<void>((resolve) => {
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    setTimeout(() => synth.speak(utterance), 0);
+  });
+}
+
+export function stopSpeaking(): void {
+  if (canSpeak()) window.speechSynthesis.cancel();
+}
@@ -0,0 +1,369 @@
+// =============================================================
+// Offline sync outbox
+//
+// Writes to trips, spending_records, scan_entries, saved_places and phrases
+// go through saveChange(). Online, the change is applied straight away.
+// Offline, or when the request never reaches Supabase, it is queued in the
+// pending_operations store (offlineStorage.ts) and replayed later by
+// syncOutbox(), oldest first, with exponential backoff between failures.
+//
+// Rows get client-generated ids, so a queued create can be retried safely
+// (upsert, ignoring duplicates) and later edits to the same row can be
+// folded into it before it is ever sent. Updates and deletes carry the
+// updated_at of the row they were made against and only apply while the
+// server row still has it. If someone changed the row in the meantime, the
+// operation is parked as a conflict holding the newer row and the user
+// decides which version wins (resolveConflict).
+// =============================================================
+
+import { supabase } from "@/integrations/supabase/client";
+import {
+  addPendingOperation,
+  clearPendingOperation,
+  getPendingOperations,
+  updatePendingOperation,
+  type PendingOperation,
+  type PendingOperationType,
+} from "@/lib/offlineStorage";
+
+export const SYNC_TABLES = ["trips", "spending_records", "scan_entries", "saved_places", "phrases"] as const;
+export type SyncTable = (typeof SYNC_TABLES)[number];
+
+/** Fired on window whenever the queue changes; useOfflineSync listens. */
+export const OUTBOX_EVENT = "worldlens:outbox";
+
+export const RETRY_BASE_MS = 5_000;
+export const RETRY_MAX_MS = 10 * 60_000;
+// After this many failed attempts an operation waits for a manual retry.
+export const MAX_ATTEMPTS = 8;
+
+export interface Change {
+  type: PendingOperationType;
+  table: SyncTable;
+  /** Row fields; must include the row id. */
+  data: Record<string, unknown>;
+  /** Short description for the sync panel. */
+  label?: string | null;
+  /** updated_at of the row as the user last saw it. */
+  baseUpdatedAt?: string | null;
+}
+
+type QueuedChange = Pick<PendingOperation, "type" | "data" | "baseUpdatedAt">;
+
+export type SyncOutcome =
+  /** updatedAt: the row's new stamp after an update */
+  | { status: "synced"; updatedAt?: string | null }
+  | { status: "conflict"; serverRow: Record<string, unknown> | null }
+  | { status: "failed"; error: string; offline: boolean };
+
+export interface SyncSummary {
+  synced: number;
+  failed: number;
+  conflicts: number;
+}
+
+// Fields the server owns; never sent back in an update.
+const SERVER_FIELDS = ["id", "user_id", "created_at", "updated_at"];
+
+/** Delay before the next attempt after `attempts` failures. */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Folds a new change into the one already queued for the same row.
+ * Returns null when the two cancel out (a row created and deleted offline).
+ */
+export function mergeChange(queued: QueuedChange, next: QueuedChange): QueuedChange | null {
+  const data = { ...queued.data, ...next.data };
+  if (queued.type === "create") {
+    return next.type === "delete" ? null : { type: "create", data, baseUpdatedAt: null };
+  }
+  if (queued.type === "update") {
+    return { type: next.type === "delete" ? "delete" : "update", data, baseUpdatedAt: queued.baseUpdatedAt };
+  }
+  // Nothing can follow a delete
+  return queued;
+}
+
+/**
+ * Overlays queued changes on rows fetched from the server (or the empty
+ * list when offline), so unsynced work stays visible. Returns the ids of
+ * rows that differ from the server.
+ */
+export function applyPendingChanges<T extends { id: string }>(
+  rows: T[],
+  operations: PendingOperation[],
+  table: SyncTable
+): { rows: T[]; unsyncedIds: Set<string> } {
+  let result = [...rows];
+  const unsyncedIds = new Set<string>();
+
+  for (const op of [...operations].sort((a, b) => a.id - b.id)) {
+    if (op.table !== table) continue;
+    if (op.type === "delete") {
+      result = result.filter((row) => row.id !== op.rowId);
+      unsyncedIds.delete(op.rowId);
+      continue;
+    }
+    const index = result.findIndex((row) => row.id === op.rowId);
+    if (index >= 0) {
+      result[index] = { ...result[index], ...op.data };
+    } else if (op.type === "create") {
+      result = [{ ...op.data, id: op.rowId } as unknown as T, ...result];
+    } else {
+      continue;
+    }
+    unsyncedIds.add(op.rowId);
+  }
+
+  return { rows: result, unsyncedIds };
+}
+
+function notify(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(OUTBOX_EVENT));
+}
+
+// The synced tables share the id/updated_at columns the outbox relies on;
+// the rest of the row is opaque here, hence the loose typing.
+function from(table: string) {
+  return supabase.from(table as SyncTable);
+}
+
+function failure(error: { message: string }, status: number): SyncOutcome {
+  // postgrest-js reports a request that never got a response as status 0
+  const offline = status === 0 || (typeof navigator !== "undefined" && !navigator.onLine);
+  return { status: "failed", error: error.message, offline };
+}
+
+async function conflictWith(table: string, rowId: string, type: PendingOperationType): Promise<SyncOutcome> {
+  const { data, error, status } = await from(table).select("*").eq("id", rowId).maybeSingle();
+  if (error) return failure(error, status);
+  // Deleting a row someone else already deleted is not a conflict
+  if (!data && type === "delete") return { status: "synced" };
+  return { status: "conflict", serverRow: (data as Record<string, unknown> | null) ?? null };
+}
+
+/** Sends one change to Supabase, honouring its base version. */
+export async function applyChange(
+  table: string,
+  rowId: string,
+  change: QueuedChange
+): Promise<SyncOutcome> {
+  if (change.type === "create") {
+    const { error, status } = await from(table).upsert({ ...change.data, id: rowId } as never, {
+      onConflict: "id",
+      ignoreDuplicates: true,
+    });
+    return error ? failure(error, status) : { status: "synced" };
+  }
+
+  if (change.type === "update") {
+    const fields = Object.fromEntries(
+      Object.entries(change.data).filter(([key]) => !SERVER_FIELDS.includes(key))
+    );
+    let query = from(table).update(fields as never).eq("id", rowId);
+    if (change.baseUpdatedAt) query = query.eq("updated_at", change.baseUpdatedAt);
+    const { data, error, status } = await query.select("id, updated_at");
+    if (error) return failure(error, status);
+    const rows = data as { updated_at?: string | null }[] | null;
+    return rows && rows.length > 0
+      ? { status: "synced", updatedAt: rows[0].updated_at ?? null }
+      : conflictWith(table, rowId, "update");
+  }
+
+  let query = from(table).delete().eq("id", rowId);
+  if (change.baseUpdatedAt) query = query.eq("updated_at", change.baseUpdatedAt);
+  const { data, error, status } = await query.select("id");
+  if (error) return failure(error, status);
+  return data && data.length > 0 ? { status: "synced" } : conflictWith(table, rowId, "delete");
+}
+
+/** Adds a change to the queue, merging it into an unsent change to the same row. */
+export async function queueChange(change: Change): Promise<void> {
+  const rowId = String(change.data.id ?? "");
+  const next: QueuedChange = { type: change.type, data: change.data, baseUpdatedAt: change.baseUpdatedAt ?? null };
+
+  const forRow = (await getPendingOperations()).filter((op) => op.table === change.table && op.rowId === rowId);
+  const last = forRow[forRow.length - 1];
+  // Only fold into a change that was never attempted: a create that timed
+  // out may have landed, and an update merged into it would then be lost.
+  if (last && last.status === "pending" && last.attempts === 0 && !last.lastError) {
+    const merged = mergeChange(last, next);
+    if (merged) {
+      await updatePendingOperation({ ...last, ...merged, label: change.label ?? last.label });
+    } else {
+      await clearPendingOperation(last.id);
+    }
+  } else {
+    await addPendingOperation({ ...next, table: change.table, rowId, label: change.label });
+  }
+  notify();
+}
+
+export type SaveResult = "saved" | "queued" | "conflict";
+
+export interface VersionedSave {
+  result: SaveResult;
+  /** The row's updated_at after a saved update, for the next baseUpdatedAt */
+  updatedAt: string | null;
+}
+
+/**
+ * Applies a change now when possible and queues it otherwise. Changes to a
+ * row that already has queued work always queue behind it, to keep order.
+ */
+export async function saveChange(change: Change): Promise<SaveResult> {
+  return (await saveChangeVersioned(change)).result;
+}
+
+/** saveChange(), also returning the stamp the server gave an update. */
+export async function saveChangeVersioned(change: Change): Promise<VersionedSave> {
+  const rowId = String(change.data.id ?? "");
+  const pending = await getPendingOperations();
+  const rowIsQueued = pending.some((op) => op.table === change.table && op.rowId === rowId);
+
+  if (rowIsQueued || !navigator.onLine) {
+    await queueChange(change);
+    return { result: "queued", updatedAt: null };
+  }
+
+  const outcome = await applyChange(change.table, rowId, {
+    type: change.type,
+    data: change.data,
+    baseUpdatedAt: change.baseUpdatedAt ?? null,
+  });
+
+  if (outcome.status === "synced") return { result: "saved", updatedAt: outcome.updatedAt ?? null };
+  if (outcome.status === "conflict") {
+    await addPendingOperation({
+      type: change.type,
+      table: change.table,
+      rowId,
+      label: change.label,
+      data: change.data,
+      baseUpdatedAt: change.baseUpdatedAt ?? null,
+      status: "conflict",
+      serverRow: outcome.serverRow,
+    });
+    notify();
+    return { result: "conflict", updatedAt: null };
+  }
+  if (outcome.offline) {
+    await queueChange(change);
+    return { result: "queued", updatedAt: null };
+  }
+  throw new Error(outcome.error);
+}
+
+async function drain(retryNow: boolean): Promise<SyncSummary> {
+  const summary: SyncSummary = { synced: 0, failed: 0, conflicts: 0 };
+  const operations = (await getPendingOperations()).sort((a, b) => a.id - b.id);
+  // Rows with an earlier operation still outstanding; later ones must wait.
+  const blocked = new Set<string>();
+
+  for (const op of operations) {
+    const key = `${op.table}:${op.rowId}`;
+    const runnable =
+      !blocked.has(key) &&
+      (op.status === "pending" || (retryNow && op.status === "failed")) &&
+      (retryNow || op.nextAttemptAt <= Date.now());
+    if (!runnable) {
+      blocked.add(key);
+      continue;
+    }
+
+    const outcome = await applyChange(op.table, op.rowId, op);
+
+    if (outcome.status === "synced") {
+      await clearPendingOperation(op.id);
+      summary.synced++;
+      continue;
+    }
+
+    blocked.add(key);
+    if (outcome.status === "conflict") {
+      await updatePendingOperation({ ...op, status: "conflict", serverRow: outcome.serverRow, lastError: null });
+      summary.conflicts++;
+      continue;
+    }
+
+    summary.failed++;
+    if (outcome.offline) {
+      // Not the operation's fault: back off without counting the attempt.
+      await updatePendingOperation({
+        ...op,
+        lastError: outcome.error,
+        nextAttemptAt: Date.now() + retryDelay(op.attempts + 1),
+      });
+      break;
+    }
+    const attempts = op.attempts + 1;
+    await updatePendingOperation({
+      ...op,
+      attempts,
+      lastError: outcome.error,
+      status: attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+      nextAttemptAt: Date.now() + retryDelay(attempts),
+    });
+  }
+
+  return summary;
+}
+
+let running: Promise<SyncSummary> | null = null;
+
+/**
+ * Replays the queue. Operations still backing off are skipped unless
+ * `retryNow` is set (the user pressed "Sync"), which also retries the ones
+ * that gave up. Concurrent callers share one run.
+ */
+export function syncOutbox(options: { retryNow?: boolean } = {}): Promise<SyncSummary> {
+  if (!running) {
+    running = drain(options.retryNow ?? false).finally(() => {
+      running = null;
+      notify();
+    });
+  }
+  return running;
+}
+
+/** Settles a conflict: "theirs" drops the local change, "mine" reapplies it on top. */
+export async function resolveConflict(op: PendingOperation, keep: "mine" | "theirs"): Promise<void> {
+  if (keep === "theirs") {
+    await clearPendingOperation(op.id);
+  } else {
+    if (!op.serverRow) {
+      throw new Error("The row was deleted on another device");
+    }
+    await updatePendingOperation({
+      ...op,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      baseUpdatedAt: (op.serverRow.updated_at as string | undefined) ?? null,
+      serverRow: null,
+    });
+  }
+  notify();
+}
+
+/** Puts an operation that gave up back in line. */
+export async function retryOperation(op: PendingOperation): Promise<void> {
+  await updatePendingOperation({ ...op, status: "pending", attempts: 0, nextAttemptAt: 0 });
+  notify();
+}
+
+export async function discardOperation(op: PendingOperation): Promise<void> {
+  await clearPendingOperation(op.id);
+  notify();
+}
+
+/** Toast text for a saveChange() result, given the message for "saved". */
+export function describeSave(result: SaveResult, saved: string): string {
+  if (result === "queued") return `${saved} offline. It will sync when you're connected.`;
+  if (result === "conflict") return "This was changed somewhere else in the meantime. Review it under offline changes.";
+  return saved;
+}
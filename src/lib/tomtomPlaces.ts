@@ -0,0 +1,58 @@
+// =============================================================
+// TomTom results and distances
+//
+// Shared by the browser (placesProviders.ts, places.ts) and the Netlify
+// places proxy, so both turn TomTom Search results into the same Place and
+// measure distances the same way. Keep it free of env and runtime imports:
+// the proxy bundles it on its own.
+// =============================================================
+
+import type { Place } from "./places";
+
+export interface TomTomResult {
+  id?: string;
+  dist?: number;
+  position?: { lat?: number; lon?: number };
+  poi?: {
+    name?: string;
+    categories?: string[];
+    classifications?: Array<{ code?: string; names?: Array<{ name?: string }> }>;
+  };
+  address?: { freeformAddress?: string; municipality?: string; country?: string; countryCode?: string };
+}
+
+/** Great-circle distance in meters. */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+/** One TomTom result as a Place, or null when it has no position. */
+export function normalizeTomTom(item: TomTomResult, fallbackName: string): Place | null {
+  const position = item.position;
+  // 0 is a real latitude or longitude
+  if (typeof position?.lat !== "number" || typeof position?.lon !== "number") return null;
+  const classifications = item.poi?.classifications || [];
+
+  return {
+    id: String(item.id || `${position.lat},${position.lon}`),
+    name: item.poi?.name || item.address?.freeformAddress || fallbackName,
+    lat: position.lat,
+    lng: position.lon,
+    distanceMeters: typeof item.dist === "number" ? item.dist : null,
+    address: item.address?.freeformAddress || null,
+    categories: item.poi?.categories || [],
+    classifications: classifications.map((c) => c.code).filter(Boolean) as string[],
+    typeName: classifications[0]?.names?.[0]?.name || null,
+    category: null,
+    municipality: item.address?.municipality || null,
+    country: item.address?.country || null,
+    countryCode: item.address?.countryCode || null,
+  };
+}
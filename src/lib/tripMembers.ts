@@ -0,0 +1,241 @@
+// =============================================================
+// Trip collaborators
+//
+// Who can do what on a trip (0010_trip_collaboration.sql):
+//   owner  -> the trip's creator; manages people, shares, deletes
+//   editor -> edits the trip and adds scans and expenses to it
+//   viewer -> sees the trip and everything filed under it
+//
+// People join through invitations: one tied to an email address, or a
+// link anyone can open. Both carry a token that /join/:token hands to
+// accept_trip_invitation(). The database enforces the roles; the helpers
+// here only decide what the UI offers.
+// =============================================================
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type TripRole = "owner" | "editor" | "viewer";
+export type InvitableRole = Exclude<TripRole, "owner">;
+
+export const ROLE_LABELS: Record<TripRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<InvitableRole, string> = {
+  editor: "Can edit the trip and add scans and expenses",
+  viewer: "Can see the trip, scans and expenses",
+};
+
+export interface TripCollaborator {
+  id: string;
+  userId: string | null;
+  displayName: string;
+  email: string | null;
+  role: TripRole;
+}
+
+export interface TripInvitation {
+  id: string;
+  tripId: string;
+  /** null for a link anyone can use */
+  email: string | null;
+  role: InvitableRole;
+  token: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+}
+
+export interface InvitationPreview {
+  tripId: string;
+  tripName: string;
+  destination: string | null;
+  role: InvitableRole;
+  invitedByName: string;
+  email: string | null;
+  expired: boolean;
+  accepted: boolean;
+}
+
+const ROLE_ORDER: Record<TripRole, number> = { owner: 0, editor: 1, viewer: 2 };
+
+function asRole(role: string | null | undefined): TripRole | null {
+  return role === "owner" || role === "editor" || role === "viewer" ? role : null;
+}
+
+export function canEditTrip(role: TripRole | null | undefined): boolean {
+  return role === "owner" || role === "editor";
+}
+
+/**
+ * A user's role on a trip: owner if they created it, otherwise whatever
+ * their member row says. null when they aren't on the trip.
+ */
+export function tripRoleFor(
+  trip: { id: string; user_id: string },
+  userId: string,
+  memberships: { trip_id: string; user_id: string | null; role: string }[]
+): TripRole | null {
+  if (trip.user_id === userId) return "owner";
+  return asRole(memberships.find((m) => m.trip_id === trip.id && m.user_id === userId)?.role);
+}
+
+/** Owner first, then editors and viewers; companions without an account last. */
+export function sortCollaborators(people: TripCollaborator[]): TripCollaborator[] {
+  return [...people].sort(
+    (a, b) =>
+      Number(!a.userId) - Number(!b.userId) ||
+      ROLE_ORDER[a.role] - ROLE_ORDER[b.role] ||
+      a.displayName.localeCompare(b.displayName)
+  );
+}
+
+/** Invitations that can still be accepted. */
+export function pendingInvitations(invitations: TripInvitation[], now = new Date()): TripInvitation[] {
+  return invitations.filter((i) => !(i.email && i.acceptedAt) && new Date(i.expiresAt) > now);
+}
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+}
+
+export function invitationUrl(token: string): string {
+  return `${window.location.origin}/join/${token}`;
+}
+
+/** A mailto: link with the invitation, for the user's own mail app to send. */
+export function invitationMailto(invitation: TripInvitation, tripName: string, inviterName: string | null): string {
+  const subject = `Join "${tripName}" on WorldLens`;
+  const body = [
+    `${inviterName || "I"} invited you to ${invitation.role === "editor" ? "plan and log" : "follow"} "${tripName}".`,
+    "",
+    invitationUrl(invitation.token),
+  ].join("\n");
+  return `mailto:${encodeURIComponent(invitation.email ?? "")}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+}
+
+/** The signed-in user's role on each trip they can see; empty when signed out. */
+export async function fetchTripRoles(): Promise<Record<string, TripRole>> {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) return {};
+
+  const [tripsRes, membersRes] = await Promise.all([
+    supabase.from("trips").select("id, user_id"),
+    supabase.from("trip_members").select("trip_id, user_id, role").eq("user_id", userId),
+  ]);
+  if (tripsRes.error) throw tripsRes.error;
+  if (membersRes.error) throw membersRes.error;
+
+  const roles: Record<string, TripRole> = {};
+  for (const trip of tripsRes.data ?? []) {
+    const role = tripRoleFor(trip, userId, membersRes.data ?? []);
+    if (role) roles[trip.id] = role;
+  }
+  return roles;
+}
+
+export async function fetchCollaborators(
+  trip: { id: string; user_id: string }
+): Promise<{ people: TripCollaborator[]; invitations: TripInvitation[] }> {
+  const [membersRes, invitesRes] = await Promise.all([
+    supabase.from("trip_members").select("id, user_id, display_name, email, role").eq("trip_id", trip.id),
+    supabase
+      .from("trip_invitations")
+      .select("id, trip_id, email, role, token, expires_at, accepted_at")
+      .eq("trip_id", trip.id)
+      .order("created_at", { ascending: false }),
+  ]);
+  if (membersRes.error) throw membersRes.error;
+
+  const people = (membersRes.data ?? []).map((m) => ({
+    id: m.id,
+    userId: m.user_id,
+    displayName: m.display_name,
+    email: m.email,
+    role: m.user_id === trip.user_id ? ("owner" as const) : asRole(m.role) ?? "editor",
+  }));
+  // Trips shared before anyone joined don't list their owner yet.
+  if (!people.some((p) => p.role === "owner")) {
+    people.push({ id: `owner-${trip.id}`, userId: trip.user_id, displayName: "Trip owner", email: null, role: "owner" });
+  }
+  // Only the owner can read invitations; everyone else gets an empty list.
+  const invitations = (invitesRes.data ?? []).map((i) => ({
+    id: i.id,
+    tripId: i.trip_id,
+    email: i.email,
+    role: i.role === "viewer" ? ("viewer" as const) : ("editor" as const),
+    token: i.token,
+    expiresAt: i.expires_at,
+    acceptedAt: i.accepted_at,
+  }));
+  return { people: sortCollaborators(people), invitations: pendingInvitations(invitations) };
+}
+
+export async function createInvitation(
+  tripId: string,
+  userId: string,
+  invite: { email: string | null; role: InvitableRole }
+): Promise<TripInvitation> {
+  const { data, error } = await supabase
+    .from("trip_invitations")
+    .insert({
+      trip_id: tripId,
+      invited_by: userId,
+      email: invite.email?.trim().toLowerCase() || null,
+      role: invite.role,
+    })
+    .select("id, trip_id, email, role, token, expires_at, accepted_at")
+    .single();
+  if (error) throw error;
+  return {
+    id: data.id,
+    tripId: data.trip_id,
+    email: data.email,
+    role: invite.role,
+    token: data.token,
+    expiresAt: data.expires_at,
+    acceptedAt: data.accepted_at,
+  };
+}
+
+export async function revokeInvitation(id: string): Promise<void> {
+  const { error } = await supabase.from("trip_invitations").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export async function setMemberRole(memberId: string, role: InvitableRole): Promise<void> {
+  const { error } = await supabase.from("trip_members").update({ role }).eq("id", memberId);
+  if (error) throw error;
+}
+
+/** Removes someone from a trip; members can also remove themselves (leave). */
+export async function removeMember(memberId: string): Promise<void> {
+  const { error } = await supabase.from("trip_members").delete().eq("id", memberId);
+  if (error) throw error;
+}
+
+export async function previewInvitation(token: string): Promise<InvitationPreview | null> {
+  const { data, error } = await supabase.rpc("trip_invitation_preview", { _token: token });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+  return {
+    tripId: row.trip_id,
+    tripName: row.trip_name,
+    destination: row.destination || null,
+    role: row.role === "viewer" ? "viewer" : "editor",
+    invitedByName: row.invited_by_name,
+    email: row.email || null,
+    expired: row.expired,
+    accepted: row.accepted,
+  };
+}
+
+/** Joins the trip and returns its id. Errors carry the database's reason. */
+export async function acceptInvitation(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc("accept_trip_invitation", { _token: token });
+  if (error) throw new Error(error.message);
+  return data;
+}
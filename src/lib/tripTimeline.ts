@@ -0,0 +1,182 @@
+// =============================================================
+// Trip timeline
+//
+// Everything that happened on a trip in one chronological list: scans,
+// spending records and the itinerary's stops, grouped into days. The map
+// draws the geotagged entries as one path, which the timeline page can
+// replay step by step.
+//
+// Times are the device's local time for scans, the stop's own "HH:mm" for
+// itinerary stops, and for spending the time it was recorded, but only when
+// that was on the day it is filed under (records added afterwards keep
+// their date and go to the end of the day).
+// =============================================================
+
+import { format } from "date-fns";
+import { convertAmount, type ConvertFn } from "@/lib/budget";
+import type { Itinerary } from "@/lib/itinerary";
+
+export type TimelineKind = "stop" | "scan" | "spending";
+
+export interface TimelineScan {
+  id: string;
+  name: string | null;
+  category: string;
+  location_name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  image_url: string | null;
+  created_at: string;
+}
+
+export interface TimelineSpending {
+  id: string;
+  amount: number;
+  currency: string;
+  category: string;
+  merchant: string | null;
+  notes: string | null;
+  location_name: string | null;
+  /** yyyy-MM-dd */
+  date: string;
+  created_at: string;
+}
+
+export interface TimelineItem {
+  kind: TimelineKind;
+  id: string;
+  /** yyyy-MM-dd */
+  day: string;
+  /** "HH:mm", null when only the day is known */
+  time: string | null;
+  title: string;
+  subtitle: string | null;
+  lat: number | null;
+  lng: number | null;
+  image: string | null;
+  amount: number | null;
+  currency: string | null;
+}
+
+export interface TimelineDay {
+  day: string;
+  items: TimelineItem[];
+  /** Spending on the day in the reporting currency */
+  spent: number;
+  /** Records left out of `spent` for want of an exchange rate */
+  unconverted: number;
+}
+
+export interface TimelinePoint {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+// At the same time, the plan comes before what happened.
+const KIND_ORDER: Record<TimelineKind, number> = { stop: 0, scan: 1, spending: 2 };
+
+const localDay = (iso: string) => format(new Date(iso), "yyyy-MM-dd");
+const localTime = (iso: string) => format(new Date(iso), "HH:mm");
+
+function scanItem(scan: TimelineScan): TimelineItem {
+  return {
+    kind: "scan",
+    id: scan.id,
+    day: localDay(scan.created_at),
+    time: localTime(scan.created_at),
+    title: scan.name || scan.category,
+    subtitle: [scan.category, scan.location_name].filter(Boolean).join(" · ") || null,
+    lat: scan.latitude,
+    lng: scan.longitude,
+    image: scan.image_url,
+    amount: null,
+    currency: null,
+  };
+}
+
+function spendingItem(record: TimelineSpending): TimelineItem {
+  return {
+    kind: "spending",
+    id: record.id,
+    day: record.date,
+    time: localDay(record.created_at) === record.date ? localTime(record.created_at) : null,
+    title: record.merchant || record.notes || record.category,
+    subtitle: [record.category, record.location_name].filter(Boolean).join(" · ") || null,
+    lat: null,
+    lng: null,
+    image: null,
+    amount: Number(record.amount),
+    currency: record.currency,
+  };
+}
+
+function stopItems(itinerary: Itinerary | null): TimelineItem[] {
+  return (itinerary?.days ?? []).flatMap((day) =>
+    day.date
+      ? day.stops.map((stop) => ({
+          kind: "stop" as const,
+          id: stop.id,
+          day: day.date,
+          time: stop.time,
+          title: stop.title,
+          subtitle: stop.placeName,
+          lat: stop.lat,
+          lng: stop.lng,
+          image: null,
+          amount: null,
+          currency: null,
+        }))
+      : []
+  );
+}
+
+/**
+ * Merges a trip's scans, spending and dated itinerary stops into days,
+ * oldest first. Within a day entries go by time, untimed ones last.
+ * `spent` sums the day's spending in `currency`.
+ */
+export function buildTimeline(
+  sources: { scans: TimelineScan[]; spending: TimelineSpending[]; itinerary: Itinerary | null },
+  currency: string,
+  convert: ConvertFn
+): TimelineDay[] {
+  const items = [
+    ...stopItems(sources.itinerary),
+    ...sources.scans.map(scanItem),
+    ...sources.spending.map(spendingItem),
+  ];
+
+  const sorted = items
+    .map((item, i) => ({ item, i }))
+    .sort(
+      (a, b) =>
+        a.item.day.localeCompare(b.item.day) ||
+        (a.item.time ?? "99:99").localeCompare(b.item.time ?? "99:99") ||
+        KIND_ORDER[a.item.kind] - KIND_ORDER[b.item.kind] ||
+        a.i - b.i
+    )
+    .map(({ item }) => item);
+
+  const days: TimelineDay[] = [];
+  for (const item of sorted) {
+    let day = days[days.length - 1];
+    if (!day || day.day !== item.day) {
+      day = { day: item.day, items: [], spent: 0, unconverted: 0 };
+      days.push(day);
+    }
+    day.items.push(item);
+    if (item.kind !== "spending") continue;
+    const value = convertAmount(item.amount, item.currency, currency, convert);
+    if (value === null || Number.isNaN(value)) day.unconverted++;
+    else day.spent += value;
+  }
+  return days;
+}
+
+/** The geotagged entries in timeline order: the path the map draws and replays. */
+export function timelinePath(days: TimelineDay[]): TimelinePoint[] {
+  return days.flatMap((day) =>
+    day.items.flatMap((item) => (item.lat != null && item.lng != null ? [{ id: item.id, lat: item.lat, lng: item.lng }] : []))
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Loader2, MapPin, Users } from "lucide-react";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { ROLE_DESCRIPTIONS, acceptInvitation, previewInvitation, type InvitationPreview } from "@/lib/tripMembers";
+import { toast } from "sonner";
+
+export default function JoinTrip() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchInvitation() {
+      if (!token) return;
+      try {
+        const preview = await previewInvitation(token);
+        if (!preview) setError("This invitation doesn't exist or was revoked");
+        else if (preview.expired) setError("This invitation has expired. Ask for a new one.");
+        else setInvitation(preview);
+      } catch (err) {
+        console.error("Error loading invitation:", err);
+        setError("Couldn't load this invitation");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchInvitation();
+  }, [token]);
+
+  const join = async () => {
+    if (!token) return;
+    setIsJoining(true);
+    try {
+      const tripId = await acceptInvitation(token);
+      toast.success(`You joined ${invitation?.tripName ?? "the trip"}`);
+      navigate(`/journal/${tripId}/timeline`, { replace: true });
+    } catch (err) {
+      console.error("Error joining trip:", err);
+      toast.error((err as Error).message || "Couldn't join the trip");
+      setIsJoining(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <AppLayout title="Join trip">
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (error || !invitation) {
+    return (
+      <AppLayout title="Join trip">
+        <div className="flex flex-col items-center justify-center py-16 gap-4 px-4 text-center">
+          <p className="text-muted-foreground">{error || "Invitation not found"}</p>
+          <Button onClick={() => navigate("/journal")} variant="outline">
+            Go to Journal
+          </Button>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const wrongAccount = invitation.email && user?.email && invitation.email.toLowerCase() !== user.email.toLowerCase();
+  const alreadyUsed = invitation.accepted && invitation.email?.toLowerCase() !== user?.email?.toLowerCase();
+
+  return (
+    <AppLayout title="Join trip">
+      <AnimatedPage>
+        <motion.div className="px-4 py-8" variants={staggerContainer} initial="initial" animate="animate">
+          <motion.div variants={fadeInUp}>
+            <Card className="bg-card border-border/50">
+              <CardContent className="p-6 space-y-4 text-center">
+                <div className="mx-auto h-14 w-14 rounded-full bg-primary/10 flex items-center justify-center">
+                  <Users className="h-7 w-7 text-primary" />
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">{invitation.invitedByName} invited you to</p>
+                  <h2 className="text-xl font-bold">{invitation.tripName}</h2>
+                  {invitation.destination && (
+                    <p className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                      <MapPin className="h-3.5 w-3.5" />
+                      {invitation.destination}
+                    </p>
+                  )}
+                </div>
+                <p className="text-sm">
+                  As {invitation.role === "editor" ? "an editor" : "a viewer"}: {ROLE_DESCRIPTIONS[invitation.role].toLowerCase()}.
+                </p>
+
+                {alreadyUsed ? (
+                  <p className="text-sm text-destructive">This invitation has already been used.</p>
+                ) : wrongAccount ? (
+                  <p className="text-sm text-destructive">
+                    This invitation is for {invitation.email}. Sign in with that address to accept it.
+                  </p>
+                ) : (
+                  <Button className="w-full" onClick={join} disabled={isJoining}>
+                    {isJoining ? <Loader2 className="h-4 w-4 animate-spin" /> : "Join trip"}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </motion.div>
+        </motion.div>
+      </AnimatedPage>
+    </AppLayout>
+  );
+}
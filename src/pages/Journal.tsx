@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
 import { 
@@ -7,6 +7,8 @@ import {
   ChevronRight, 
   MapPin, 
   Calendar, 
+  CalendarDays,
+  History,
   Camera, 
   Sparkles,
   Share2,
@@ -15,7 +17,10 @@ import {
   Trash2,
   FileText,
   Image,
-  WifiOff
+  Ticket,
+  Users,
+  WifiOff,
+  X
 } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Button } from "@/components/ui/button";
@@ -23,6 +28,7 @@ import { FeatureCard } from "@/components/ui/feature-card";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { supabase } from "@/integrations/supabase/client";
 import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import {
@@ -47,7 +53,16 @@ import { format } from "date-fns";
 import { ShareDialog } from "@/components/share/ShareDialog";
 import { TripExportDialog } from "@/components/export/TripExportDialog";
 import { ScanGallery } from "@/components/journal/ScanGallery";
+import { TripSavedPlaces } from "@/components/journal/TripSavedPlaces";
+import { CalendarImportButton } from "@/components/journal/CalendarImportButton";
+import { JournalSearch } from "@/components/journal/JournalSearch";
+import { BookingImportDialog } from "@/components/trip/BookingImportDialog";
+import { TripPeopleDialog } from "@/components/trip/TripPeopleDialog";
+import { useSavedPlaces } from "@/hooks/useSavedPlaces";
 import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useTripRealtime, type TripChange } from "@/hooks/useTripRealtime";
+import { ROLE_LABELS, canEditTrip, tripRoleFor, type TripRole } from "@/lib/tripMembers";
+import { describeSave, saveChange } from "@/lib/syncOutbox";
 
 interface Trip {
   id: string;
@@ -59,7 +74,10 @@ interface Trip {
   shareable_story: string | null;
   share_code: string | null;
   is_public: boolean;
+  user_id: string;
+  itinerary?: unknown;
   created_at: string;
+  updated_at?: string;
   scan_count?: number;
 }
 
@@ -70,15 +88,22 @@ interface ScanEntry {
   description: string | null;
   location_name: string | null;
   image_url: string | null;
+  extracted_text?: string | null;
+  notes?: string | null;
+  tips?: string[] | null;
   is_favorite: boolean;
   created_at: string;
+  updated_at?: string;
   trip_id: string | null;
 }
 
 export default function Journal() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const savedPlaces = useSavedPlaces();
   const [trips, setTrips] = useState<Trip[]>([]);
+  // The user's role on each trip in the list
+  const [tripRoles, setTripRoles] = useState<Record<string, TripRole>>({});
   const [recentScans, setRecentScans] = useState<ScanEntry[]>([]);
   const [allScans, setAllScans] = useState<ScanEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -87,10 +112,13 @@ export default function Journal() {
   const [newTripDestination, setNewTripDestination] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [generatingFor, setGeneratingFor] = useState<string | null>(null);
+  // Summary / story text while it streams in, shown in place of the saved one.
+  const [streamed, setStreamed] = useState<{ tripId: string; type: "summary" | "story"; text: string } | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
   const [showGallery, setShowGallery] = useState(false);
   const [deleteTripId, setDeleteTripId] = useState<string | null>(null);
   const [deleteScanId, setDeleteScanId] = useState<string | null>(null);
-  const { isOffline, cacheScansForOffline, getOfflineScans } = useOfflineSync();
+  const { isOffline, cacheScansForOffline, cacheTripsForOffline, getOfflineScans } = useOfflineSync();
 
   useEffect(() => {
     if (user) {
@@ -98,8 +126,10 @@ export default function Journal() {
     }
   }, [user]);
 
-  const fetchJournalData = async () => {
-    setIsLoading(true);
+  useEffect(() => () => generateAbortRef.current?.abort(), []);
+
+  const fetchJournalData = async ({ quiet = false }: { quiet?: boolean } = {}) => {
+    if (!quiet) setIsLoading(true);
     try {
       // If offline, try to load from cache
       if (isOffline) {
@@ -112,6 +142,9 @@ export default function Journal() {
             description: s.description,
             location_name: s.location_name,
             image_url: s.image_data || s.image_url,
+            extracted_text: s.extracted_text,
+            notes: s.notes,
+            tips: s.tips,
             is_favorite: s.is_favorite,
             created_at: s.created_at,
             trip_id: null,
@@ -141,6 +174,22 @@ export default function Journal() {
 
       if (tripsError) throw tripsError;
 
+      // Own trips and trips shared with the user; other people's public
+      // trips are readable too but don't belong in this journal.
+      const { data: membershipsData, error: membershipsError } = await supabase
+        .from("trip_members")
+        .select("trip_id, user_id, role")
+        .eq("user_id", user!.id);
+
+      if (membershipsError) throw membershipsError;
+
+      const roles: Record<string, TripRole> = {};
+      for (const trip of tripsData || []) {
+        const role = tripRoleFor(trip, user!.id, membershipsData || []);
+        if (role) roles[trip.id] = role;
+      }
+      const myTrips = (tripsData || []).filter((trip) => roles[trip.id]);
+
       // Fetch recent scans (limited)
       const { data: scansData, error: scansError } = await supabase
         .from("scan_entries")
@@ -160,7 +209,7 @@ export default function Journal() {
 
       // Get scan counts for each trip
       const tripsWithCounts = await Promise.all(
-        (tripsData || []).map(async (trip) => {
+        myTrips.map(async (trip) => {
           const { count } = await supabase
             .from("scan_entries")
             .select("*", { count: "exact", head: true })
@@ -170,6 +219,7 @@ export default function Journal() {
       );
 
       setTrips(tripsWithCounts);
+      setTripRoles(roles);
       setRecentScans(scansData || []);
       setAllScans(allScansData || []);
 
@@ -184,10 +234,21 @@ export default function Journal() {
           image_url: s.image_url,
           extracted_text: s.extracted_text,
           ai_analysis: s.ai_analysis as Record<string, unknown> | null,
+          notes: s.notes,
+          tips: s.tips,
+          trip_id: s.trip_id,
           is_favorite: s.is_favorite || false,
           created_at: s.created_at,
         })));
       }
+      cacheTripsForOffline(myTrips.map((t) => ({
+        id: t.id,
+        name: t.name,
+        destination: t.destination,
+        ai_summary: t.ai_summary,
+        ai_overview: t.ai_overview,
+        created_at: t.created_at,
+      })));
     } catch (error) {
       console.error("Error fetching journal data:", error);
       
@@ -214,6 +275,30 @@ export default function Journal() {
     }
   };
 
+  const openTrip = (tripId: string) => {
+    document.getElementById(`trip-${tripId}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  const roleOf = (trip: Trip): TripRole => tripRoles[trip.id] ?? (trip.user_id === user?.id ? "owner" : "viewer");
+
+  // Scans other people add to trips the user shares
+  useTripRealtime(
+    trips.map((trip) => trip.id),
+    (changes: TripChange[]) => {
+      const added = changes.filter((change) => change.fromOthers && change.event === "INSERT");
+      if (added.length > 0) {
+        const trip = trips.find((t) => t.id === added[0].record.trip_id);
+        toast.info(
+          added.length === 1
+            ? `New scan on ${trip?.name ?? "a shared trip"}: ${added[0].record.name ?? "photo"}`
+            : `${added.length} new scans on shared trips`
+        );
+      }
+      if (changes.some((change) => change.fromOthers)) fetchJournalData({ quiet: true });
+    },
+    ["scan_entries"]
+  );
+
   const createTrip = async () => {
     if (!newTripName.trim()) {
       toast.error("Please enter a trip name");
@@ -222,20 +307,36 @@ export default function Journal() {
 
     setIsCreatingTrip(true);
     try {
-      const { error } = await supabase.from("trips").insert({
+      const trip = {
+        id: crypto.randomUUID(),
         user_id: user!.id,
         name: newTripName,
         destination: newTripDestination || null,
         start_date: new Date().toISOString().split("T")[0],
-      });
-
-      if (error) throw error;
+      };
+      const result = await saveChange({ type: "create", table: "trips", data: trip });
 
-      toast.success("Trip created!");
+      toast.success(describeSave(result, "Trip created"));
       setNewTripName("");
       setNewTripDestination("");
       setDialogOpen(false);
-      fetchJournalData();
+      if (result === "saved") {
+        fetchJournalData();
+      } else {
+        setTrips((prev) => [
+          {
+            ...trip,
+            end_date: null,
+            ai_summary: null,
+            shareable_story: null,
+            share_code: null,
+            is_public: false,
+            created_at: new Date().toISOString(),
+            scan_count: 0,
+          },
+          ...prev,
+        ]);
+      }
     } catch (error) {
       console.error("Error creating trip:", error);
       toast.error("Failed to create trip");
@@ -245,7 +346,10 @@ export default function Journal() {
   };
 
   const generateContent = async (tripId: string, type: "summary" | "story") => {
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
     setGeneratingFor(tripId);
+    setStreamed({ tripId, type, text: "" });
     try {
       const { data: session } = await supabase.auth.getSession();
       const { data, error } = await invokeAI("generate-summary", {
@@ -253,8 +357,11 @@ export default function Journal() {
         headers: {
           Authorization: `Bearer ${session.session?.access_token}`,
         },
+        signal: controller.signal,
+        onPartial: (text) => setStreamed({ tripId, type, text: text as string }),
       });
 
+      if (error?.code === "aborted") return;
       if (error) throw error;
 
       if (type === "summary") {
@@ -266,8 +373,10 @@ export default function Journal() {
       fetchJournalData();
     } catch (error) {
       console.error("Error generating content:", error);
-      toast.error("Failed to generate content");
+      toast.error(describeAIError(error, "Failed to generate content"));
     } finally {
+      generateAbortRef.current = null;
+      setStreamed(null);
       setGeneratingFor(null);
     }
   };
@@ -314,15 +423,22 @@ export default function Journal() {
     if (!deleteTripId) return;
 
     try {
-      const { error } = await supabase
-        .from("trips")
-        .delete()
-        .eq("id", deleteTripId);
-
-      if (error) throw error;
+      const trip = trips.find((t) => t.id === deleteTripId);
+      const result = await saveChange({
+        type: "delete",
+        table: "trips",
+        data: { id: deleteTripId },
+        label: trip?.name,
+        baseUpdatedAt: trip?.updated_at,
+      });
 
-      toast.success("Trip deleted successfully");
-      fetchJournalData();
+      if (result === "conflict") {
+        toast.warning(describeSave(result, "Trip deleted"));
+      } else {
+        toast.success(describeSave(result, "Trip deleted"));
+      }
+      if (result === "saved") fetchJournalData();
+      else if (result === "queued") setTrips((prev) => prev.filter((t) => t.id !== deleteTripId));
     } catch (error) {
       console.error("Error deleting trip:", error);
       toast.error("Failed to delete trip");
@@ -335,15 +451,26 @@ export default function Journal() {
     if (!deleteScanId) return;
 
     try {
-      const { error } = await supabase
-        .from("scan_entries")
-        .delete()
-        .eq("id", deleteScanId);
-
-      if (error) throw error;
+      const scan = allScans.find((s) => s.id === deleteScanId);
+      const result = await saveChange({
+        type: "delete",
+        table: "scan_entries",
+        data: { id: deleteScanId },
+        label: scan?.name || scan?.category,
+        baseUpdatedAt: scan?.updated_at,
+      });
 
-      toast.success("Scan deleted successfully");
-      fetchJournalData();
+      if (result === "conflict") {
+        toast.warning(describeSave(result, "Scan deleted"));
+      } else {
+        toast.success(describeSave(result, "Scan deleted"));
+      }
+      if (result === "saved") {
+        fetchJournalData();
+      } else if (result === "queued") {
+        setAllScans((prev) => prev.filter((s) => s.id !== deleteScanId));
+        setRecentScans((prev) => prev.filter((s) => s.id !== deleteScanId));
+      }
     } catch (error) {
       console.error("Error deleting scan:", error);
       toast.error("Failed to delete scan");
@@ -451,6 +578,8 @@ export default function Journal() {
             </DialogContent>
           </Dialog>
 
+          <CalendarImportButton userId={user!.id} onImported={fetchJournalData} />
+
           {/* Photo Gallery Button */}
           <Button
             variant="outline"
@@ -462,6 +591,8 @@ export default function Journal() {
           </Button>
         </div>
 
+        <JournalSearch isOffline={isOffline} onOpenTrip={openTrip} />
+
         {/* Active Trips */}
         <div className="space-y-3">
           <h2 className="font-semibold text-lg flex items-center gap-2">
@@ -475,10 +606,13 @@ export default function Journal() {
               <p>No trips yet. Start one to organize your scans!</p>
             </div>
           ) : (
-            trips.map((trip) => (
+            trips.map((trip) => {
+              const role = roleOf(trip);
+              return (
               <div
                 key={trip.id}
-                className="bg-card rounded-xl border border-border/50 p-4 space-y-3"
+                id={`trip-${trip.id}`}
+                className="bg-card rounded-xl border border-border/50 p-4 space-y-3 scroll-mt-4"
               >
                 <div className="flex items-start justify-between">
                   <div>
@@ -489,19 +623,27 @@ export default function Journal() {
                         {trip.destination}
                       </p>
                     )}
+                    {role !== "owner" && (
+                      <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        Shared with you · {ROLE_LABELS[role]}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <StatusBadge variant="primary">
                       {trip.scan_count} scans
                     </StatusBadge>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                      onClick={() => setDeleteTripId(trip.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {role === "owner" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => setDeleteTripId(trip.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
 
@@ -512,7 +654,23 @@ export default function Journal() {
                   </p>
                 )}
 
-                {trip.ai_summary && (
+                <TripSavedPlaces
+                  title="Saved places"
+                  places={savedPlaces.places.filter((p) => p.trip_id === trip.id)}
+                  trips={trips}
+                  unsyncedIds={savedPlaces.unsyncedIds}
+                  onUpdate={savedPlaces.update}
+                  onRemove={savedPlaces.remove}
+                />
+
+                {streamed?.tripId === trip.id && streamed.type === "summary" ? (
+                  <div className="mb-3">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">Summary</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-line">
+                      {streamed.text || "Writing..."}
+                    </p>
+                  </div>
+                ) : trip.ai_summary && (
                   <div className="mb-3">
                     <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">Summary</p>
                     <p className="text-sm text-muted-foreground line-clamp-3">
@@ -521,7 +679,16 @@ export default function Journal() {
                   </div>
                 )}
 
-                {trip.shareable_story && (
+                {streamed?.tripId === trip.id && streamed.type === "story" ? (
+                  <div className="mb-3 bg-primary/5 p-3 rounded-lg border border-primary/10">
+                    <p className="text-xs font-medium text-primary uppercase tracking-wider mb-1 flex items-center gap-1">
+                      <Sparkles className="h-3 w-3" /> Story
+                    </p>
+                    <p className="text-sm text-foreground/90 italic whitespace-pre-line">
+                      {streamed.text || "Writing..."}
+                    </p>
+                  </div>
+                ) : trip.shareable_story && (
                   <div className="mb-3 bg-primary/5 p-3 rounded-lg border border-primary/10">
                     <p className="text-xs font-medium text-primary uppercase tracking-wider mb-1 flex items-center gap-1">
                       <Sparkles className="h-3 w-3" /> Story
@@ -532,15 +699,27 @@ export default function Journal() {
                   </div>
                 )}
 
+                {canEditTrip(role) && (
                 <div className="flex gap-2 pt-2">
+                  {generatingFor === trip.id && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => generateAbortRef.current?.abort()}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Stop
+                    </Button>
+                  )}
                   <Button
                     size="sm"
                     variant="outline"
                     className="flex-1"
                     onClick={() => generateContent(trip.id, "summary")}
-                    disabled={generatingFor === trip.id}
+                    disabled={generatingFor !== null}
                   >
-                    {generatingFor === trip.id ? (
+                    {generatingFor === trip.id && streamed?.type === "summary" ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
                       <>
@@ -554,9 +733,9 @@ export default function Journal() {
                     variant="outline"
                     className="flex-1"
                     onClick={() => generateContent(trip.id, "story")}
-                    disabled={generatingFor === trip.id}
+                    disabled={generatingFor !== null}
                   >
-                    {generatingFor === trip.id ? (
+                    {generatingFor === trip.id && streamed?.type === "story" ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
                       <>
@@ -566,6 +745,63 @@ export default function Journal() {
                     )}
                   </Button>
                 </div>
+                )}
+
+                {canEditTrip(role) && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="w-full text-muted-foreground hover:text-primary"
+                    onClick={() => navigate(`/journal/${trip.id}/itinerary`)}
+                  >
+                    <CalendarDays className="h-4 w-4 mr-1" />
+                    Itinerary
+                  </Button>
+                )}
+
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="w-full text-muted-foreground hover:text-primary"
+                  onClick={() => navigate(`/journal/${trip.id}/timeline`)}
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  Timeline
+                </Button>
+
+                <TripPeopleDialog
+                  trip={trip}
+                  role={role}
+                  onLeft={fetchJournalData}
+                  trigger={
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="w-full text-muted-foreground hover:text-primary"
+                    >
+                      <Users className="h-4 w-4 mr-1" />
+                      {role === "owner" ? "Invite people" : "People"}
+                    </Button>
+                  }
+                />
+
+                {canEditTrip(role) && (
+                  <BookingImportDialog
+                    trip={trip}
+                    userId={user!.id}
+                    onImported={fetchJournalData}
+                    trigger={
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="w-full text-muted-foreground hover:text-primary"
+                      >
+                        <Ticket className="h-4 w-4 mr-1" />
+                        Import booking
+                      </Button>
+                    }
+                  />
+                )}
 
                 {/* Export as Blog/Social */}
                 <TripExportDialog
@@ -582,7 +818,7 @@ export default function Journal() {
                   }
                 />
 
-                {(trip.shareable_story || trip.share_code) && (
+                {role === "owner" && (trip.shareable_story || trip.share_code) && (
                   <ShareDialog
                     shareUrl={getShareUrl(trip.share_code || "")}
                     title={trip.name}
@@ -605,7 +841,7 @@ export default function Journal() {
                   />
                 )}
 
-                {!trip.shareable_story && !trip.share_code && (
+                {role === "owner" && !trip.shareable_story && !trip.share_code && (
                   <Button
                     size="sm"
                     variant="ghost"
@@ -622,10 +858,25 @@ export default function Journal() {
                   </Button>
                 )}
               </div>
-            ))
+              );
+            })
           )}
         </div>
 
+        {/* Saved places not filed under a trip yet */}
+        {savedPlaces.isSignedIn && (
+          <div className="bg-card rounded-xl border border-border/50 p-4 empty:hidden">
+            <TripSavedPlaces
+              title="Saved places without a trip"
+              places={savedPlaces.places.filter((p) => !p.trip_id || !trips.some((t) => t.id === p.trip_id))}
+              trips={trips}
+              unsyncedIds={savedPlaces.unsyncedIds}
+              onUpdate={savedPlaces.update}
+              onRemove={savedPlaces.remove}
+            />
+          </div>
+        )}
+
         {/* Recent Scans */}
         <div className="space-y-3">
           <h2 className="font-semibold text-lg flex items-center gap-2">
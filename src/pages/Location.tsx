@@ -24,29 +24,8 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useGeolocation } from "@/hooks/useGeolocation";
 import { toast } from "sonner";
-
-const TOMTOM_API_KEY = (() => {
-  const s = "UkFrd1NUaDFzVUhINHl2RDNXd1REY2dUanVTc3Vqam5WU0M=";
-  const r = atob(s).split("").reverse().join("");
-  return r.replace("wW3", "");
-})();
-
-interface TomTomPOI {
-  id: string;
-  poi: {
-    name: string;
-    categories: string[];
-    classifications: Array<{
-      code: string;
-      names: Array<{ name: string }>;
-    }>;
-  };
-  dist: number;
-  position: {
-    lat: number;
-    lon: number;
-  };
-}
+import { searchPlaces, type Place as SearchResult } from "@/lib/places";
+import type { PlaceCategory } from "@/lib/placeCategories";
 
 interface Place {
   icon: React.ElementType;
@@ -57,6 +36,37 @@ interface Place {
   lng?: number;
 }
 
+// Fallback for classification codes the switch below doesn't know, e.g.
+// OpenStreetMap tag values
+const CATEGORY_ICONS: Record<PlaceCategory, React.ElementType> = {
+  attraction: Landmark,
+  food: Utensils,
+  outdoors: Sparkles,
+  worship: Landmark,
+  shopping: Ticket,
+  transit: Bus,
+  rail_station: Bus,
+  toilet: Bath,
+  drinking_water: MapPin,
+  grocery: Utensils,
+  atm: Bank,
+  pharmacy: Pill,
+  hospital: Building2,
+  police: Shield,
+  parking: Car,
+  fuel: Car,
+  salon: Scissors,
+  laundry: Sparkles,
+};
+
+const PLACE_CATEGORIES: Record<"attractions" | "transport" | "food" | "services" | "free", PlaceCategory[]> = {
+  attractions: ["attraction"],
+  transport: ["transit"],
+  food: ["food"],
+  services: ["atm", "pharmacy", "hospital", "police", "parking", "fuel", "salon", "laundry"],
+  free: ["outdoors", "worship", "shopping"],
+};
+
 export default function Location() {
   const { latitude, longitude, locationName, error, isLoading, refresh } = useGeolocation({ autoRequest: "always" });
   const [nearbyPlaces, setNearbyPlaces] = useState<{
@@ -76,9 +86,8 @@ export default function Location() {
   const hasFetchedInitial = useRef(false);
   const fetchInProgress = useRef(false);
   const activeRequestRef = useRef<AbortController | null>(null);
-  const cacheRef = useRef<Map<string, { ts: number; data: { attractions: Place[]; food: Place[]; free: Place[]; services: Place[] } }>>(new Map());
 
-  const getCategoryIcon = (categoryCode: string): React.ElementType => {
+  const getCategoryIcon = (categoryCode: string, category: PlaceCategory | null): React.ElementType => {
     switch (categoryCode) {
       // Food
       case "RESTAURANT": return Utensils;
@@ -118,31 +127,36 @@ export default function Location() {
       case "PARK": return Sparkles;
       case "BEACH": return Sparkles;
 
-      default: return MapPin;
+      default: return category ? CATEGORY_ICONS[category] : MapPin;
     }
   };
 
-  const mapTomTomToPlace = (item: TomTomPOI): Place => {
-    const classification = item.poi.classifications[0];
-    const categoryCode = classification?.code || "UNKNOWN";
-    const typeName = classification?.names[0]?.name || item.poi.categories[0] || "Place";
+  const toPlace = (result: SearchResult): Place => {
+    const categoryCode = result.classifications[0] || "UNKNOWN";
+    const typeName = result.typeName || result.categories[0] || "Place";
 
     return {
-      name: item.poi.name,
-      distance: formatDistance(item.dist),
+      name: result.name,
+      distance: formatDistance(result.distanceMeters ?? 0),
       type: capitalizeFirst(typeName),
-      lat: item.position.lat,
-      lng: item.position.lon,
-      icon: getCategoryIcon(categoryCode),
+      lat: result.lat,
+      lng: result.lng,
+      icon: getCategoryIcon(categoryCode, result.category),
     };
   };
 
-  const fetchCategory = async (lat: number, lng: number, categorySet: string, radius: number, signal: AbortSignal) => {
-    const url = `https://api.tomtom.com/search/2/nearbySearch/.json?key=${TOMTOM_API_KEY}&lat=${lat}&lon=${lng}&radius=${radius}&limit=50&categorySet=${categorySet}`;
-    const res = await fetch(url, { signal });
-    if (!res.ok) return [];
-    const data = await res.json();
-    return (data.results || []).map(mapTomTomToPlace);
+  const fetchCategory = async (lat: number, lng: number, categories: PlaceCategory[], radius: number, signal: AbortSignal, fresh?: boolean) => {
+    try {
+      // About 50 places per section, split between its categories
+      const limit = Math.ceil(50 / categories.length);
+      const results = await searchPlaces({ lat, lon: lng, radius, limit, categories, fresh }, signal);
+      return results.map(toPlace);
+    } catch (err) {
+      // One busy category shouldn't empty the whole page
+      if ((err as Error).name === "AbortError") throw err;
+      console.warn("Places category failed:", err);
+      return [];
+    }
   };
 
   const fetchNearbyPlaces = useCallback(async (lat: number, lng: number, options?: { force?: boolean }) => {
@@ -153,36 +167,13 @@ export default function Location() {
     if (activeRequestRef.current) activeRequestRef.current.abort();
     activeRequestRef.current = controller;
 
-    // Cache key based on lat/lng
-    const cacheKey = `${Math.round(lat * 1000) / 1000}:${Math.round(lng * 1000) / 1000}`;
-
-    if (!options?.force) {
-      const cached = cacheRef.current.get(cacheKey);
-      if (cached && Date.now() - cached.ts < 60_000) {
-        setNearbyPlaces(cached.data);
-        setLastUpdated(new Date());
-        setHasFetched(true);
-        setIsLoadingPlaces(false);
-        fetchInProgress.current = false;
-        return;
-      }
-    }
-
     const timeout = setTimeout(() => controller.abort(), 15_000);
 
     try {
-      // TomTom Category IDs
-      const CATEGORIES = {
-        attractions: "7376,7317,9927,7302,9902", // Tourist Attraction, Museum, Wildlife Parks (includes National Parks), Trails, Amusement Parks
-        food: "7315,9376,9379,7311", // Restaurant, Cafe, Bar, Pub
-        services: "7397,7326,7321,7322,7313,7311,9361067,9361027,9361010", // ATM, Pharmacy, Hospital, Police, Parking, Gas Station, Salon, Hairdresser, Dry Cleaner
-        free: "9357,9362,7339,7373" // Beach, Parks, Places of Worship, Shopping Centers
-      };
-
       // Batch 1: High Priority (Attractions & Transport)
       const [attractions, transport] = await Promise.all([
-        fetchCategory(lat, lng, CATEGORIES.attractions, 5000, controller.signal),
-        fetchCategory(lat, lng, "7380,7380004,7380005,9942,7324", 5000, controller.signal), // Transport: Railroad, Urban, Subway, Public Transport, Railway
+        fetchCategory(lat, lng, PLACE_CATEGORIES.attractions, 5000, controller.signal, options?.force),
+        fetchCategory(lat, lng, PLACE_CATEGORIES.transport, 5000, controller.signal, options?.force),
       ]);
 
       // Small delay to prevent 429 (Too Many Requests)
@@ -190,9 +181,9 @@ export default function Location() {
 
       // Batch 2: Secondary (Food, Services, Free)
       const [food, services, free] = await Promise.all([
-        fetchCategory(lat, lng, CATEGORIES.food, 2000, controller.signal),
-        fetchCategory(lat, lng, CATEGORIES.services, 2500, controller.signal),
-        fetchCategory(lat, lng, CATEGORIES.free, 3000, controller.signal),
+        fetchCategory(lat, lng, PLACE_CATEGORIES.food, 2000, controller.signal, options?.force),
+        fetchCategory(lat, lng, PLACE_CATEGORIES.services, 2500, controller.signal, options?.force),
+        fetchCategory(lat, lng, PLACE_CATEGORIES.free, 3000, controller.signal, options?.force),
       ]);
 
       // Merge all services for processing (personal care is now inside services)
@@ -308,12 +299,11 @@ export default function Location() {
       };
 
       setNearbyPlaces(formatted);
-      cacheRef.current.set(cacheKey, { ts: Date.now(), data: formatted });
       setLastUpdated(new Date());
       setHasFetched(true);
     } catch (err) {
       if ((err as Error).name !== 'AbortError') {
-        console.error("TomTom fetch error:", err);
+        console.error("Places fetch error:", err);
         if (!hasFetched) {
           toast.error("Nearby search is busy. Please try again.");
         }
@@ -1,54 +1,38 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
 import { motion } from "framer-motion";
-import { MapPin, Camera, Navigation, Loader2, AlertCircle, RefreshCw, HeartHandshake, Save } from "lucide-react";
+import { MapPin, Camera, Navigation, Loader2, AlertCircle, RefreshCw, HeartHandshake, Save, Download, Trash2, CheckCircle2 } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MapView, MapMarker } from "@/components/map/MapView";
+import { DirectionsPanel } from "@/components/map/DirectionsPanel";
 import { useGeolocation } from "@/hooks/useGeolocation";
+import { useCityPacks } from "@/hooks/useCityPacks";
+import { useWalkingRoute, type RouteDestination } from "@/hooks/useWalkingRoute";
+import { useSavedPlaces } from "@/hooks/useSavedPlaces";
 import { toast } from "sonner";
-
-interface NearbyPlace {
-  id: string;
-  name: string;
-  lat: number;
-  lng: number;
-  type: string;
-  icon: string;
-  distanceMeters?: number;
-}
+import { distanceMeters, fetchPlacesForMode, type NearbyPlace } from "@/lib/places";
+import { findOfflinePack, placesFromPack } from "@/lib/cityPacks";
+import { isOnline } from "@/lib/offlineStorage";
 
 type MapMode = "tourist" | "essentials" | "pins";
 
-const TOMTOM_API_KEY = (() => {
-  const s = "UkFrd1NUaDFzVUhINHl2RDNXd1REY2dUanVTc3Vqam5WU0M=";
-  const r = atob(s).split("").reverse().join("");
-  return r.replace("wW3", "");
-})();
-
-interface TomTomSearchResult {
-  id?: string;
-  dist?: number;
-  position?: { lat?: number; lon?: number };
-  poi?: {
-    name?: string;
-    categories?: string[];
-    classifications?: Array<{ code?: string }>;
-  };
-  address?: { freeformAddress?: string };
-}
-
 export default function ExploreMap() {
-  const { latitude, longitude, isLoading: geoLoading, error: geoError, refresh } = useGeolocation({ autoRequest: "always" });
+  const { latitude, longitude, locationName, countryCode, isLoading: geoLoading, error: geoError, refresh } = useGeolocation({ autoRequest: "always" });
+  const { download: downloadPack, isDownloading } = useCityPacks();
+  const directions = useWalkingRoute();
+  const [searchParams, setSearchParams] = useSearchParams();
   
   const [nearbyPlaces, setNearbyPlaces] = useState<NearbyPlace[]>([]);
   const [isLoadingPlaces, setIsLoadingPlaces] = useState(false);
   const [mode, setMode] = useState<MapMode>("tourist");
   const [selectedMarker, setSelectedMarker] = useState<MapMarker | null>(null);
   const activeRequestRef = useRef<AbortController | null>(null);
-  const cacheRef = useRef<Map<string, { ts: number; places: NearbyPlace[] }>>(new Map());
-  const [savedPlaces, setSavedPlaces] = useState<NearbyPlace[]>([]);
+  const { places: savedPlaces, save: savePlace, remove: removeSavedPlace } = useSavedPlaces();
+  // Name of the city pack the places came from when the network couldn't be used
+  const [offlinePackName, setOfflinePackName] = useState<string | null>(null);
 
   useEffect(() => {
     setSelectedMarker(null);
@@ -63,34 +47,9 @@ export default function ExploreMap() {
     return null;
   }, []);
 
-  useEffect(() => {
-    const raw = localStorage.getItem("ww_saved_places");
-    if (raw) {
-      try {
-        const parsed = JSON.parse(raw) as NearbyPlace[];
-        if (Array.isArray(parsed)) setSavedPlaces(parsed);
-      } catch (e) { void e }
-    }
-  }, []);
-
-  const persistSaved = useCallback((items: NearbyPlace[]) => {
-    setSavedPlaces(items);
-    try {
-      localStorage.setItem("ww_saved_places", JSON.stringify(items));
-    } catch (e) { void e }
-  }, []);
-
   const addSavedPlace = useCallback((place: NearbyPlace) => {
-    const key = `${Math.round(place.lat * 10_000) / 10_000}:${Math.round(place.lng * 10_000) / 10_000}:${place.name.toLowerCase()}`;
-    const exists = savedPlaces.some((p) => `${Math.round(p.lat * 10_000) / 10_000}:${Math.round(p.lng * 10_000) / 10_000}:${p.name.toLowerCase()}` === key);
-    if (exists) {
-      toast.info("Already saved");
-      return;
-    }
-    const next = [{ ...place, id: place.id || key }, ...savedPlaces].slice(0, 200);
-    persistSaved(next);
-    toast.success("Saved");
-  }, [savedPlaces, persistSaved]);
+    savePlace({ name: place.name, lat: place.lat, lng: place.lng, type: place.type, icon: place.icon });
+  }, [savePlace]);
 
   const formatDistance = (meters: number | undefined) => {
     if (typeof meters !== "number" || Number.isNaN(meters)) return "";
@@ -98,73 +57,26 @@ export default function ExploreMap() {
     return `${(meters / 1000).toFixed(1)}km`;
   };
 
-  const openInMaps = (lat: number, lng: number) => {
-    const url = `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
-    window.open(url, "_blank");
-  };
-
-  const getTomTomIcon = useCallback((classificationCode: string | undefined, categories: string[] | undefined) => {
-    const code = (classificationCode || "").toUpperCase();
-    const cats = (categories || []).join(" ").toLowerCase();
-
-    if (code.includes("MUSEUM") || cats.includes("museum")) return "🏛️";
-    if (code.includes("MONUMENT") || cats.includes("monument")) return "🏛️";
-    if (code.includes("TOURIST_ATTRACTION") || cats.includes("tourist") || cats.includes("attraction")) return "⭐";
-    if (code.includes("PARK") || cats.includes("park") || cats.includes("garden")) return "🌿";
-    if (code.includes("BEACH") || cats.includes("beach")) return "🏖️";
-    if (code.includes("RESTAURANT") || cats.includes("restaurant")) return "🍽️";
-    if (code.includes("CAFE") || cats.includes("cafe") || cats.includes("coffee")) return "☕";
-    if (code.includes("BAR") || code.includes("PUB") || cats.includes("bar") || cats.includes("pub")) return "🍺";
-    if (code.includes("ATM") || cats.includes("atm")) return "🏧";
-    if (code.includes("PHARMACY") || cats.includes("pharmacy") || cats.includes("chemist")) return "💊";
-    if (code.includes("HOSPITAL") || cats.includes("hospital") || cats.includes("clinic")) return "🏥";
-    if (code.includes("POLICE") || cats.includes("police")) return "👮";
-    if (code.includes("TRAIN") || code.includes("RAIL") || code.includes("SUBWAY") || code.includes("METRO") || cats.includes("rail") || cats.includes("metro") || cats.includes("subway")) return "🚇";
-    if (code.includes("BUS") || cats.includes("bus")) return "🚌";
-
-    return "📍";
-  }, []);
-
-  const dedupePlaces = useCallback((items: NearbyPlace[]) => {
-    const seen = new Set<string>();
-    const out: NearbyPlace[] = [];
-    for (const item of items) {
-      const key = `${Math.round(item.lat * 10_000) / 10_000}:${Math.round(item.lng * 10_000) / 10_000}:${item.name.toLowerCase()}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-      out.push(item);
+  const { start: startRoute } = directions;
+  const showDirections = useCallback((to: RouteDestination) => {
+    if (!latitude || !longitude) {
+      toast.error("Location not available. Please enable GPS.");
+      return;
     }
-    return out;
-  }, []);
+    setSelectedMarker(null);
+    startRoute({ lat: latitude, lng: longitude }, to);
+  }, [latitude, longitude, startRoute]);
 
-  const fetchTomTomCategory = useCallback(async (lat: number, lon: number, categorySet: string, radius: number, limit: number, signal: AbortSignal) => {
-    const url = `https://api.tomtom.com/search/2/nearbySearch/.json?key=${TOMTOM_API_KEY}&lat=${lat}&lon=${lon}&radius=${radius}&limit=${limit}&categorySet=${categorySet}`;
-    const res = await fetch(url, { signal });
-    if (!res.ok) return [];
-    const data = await res.json();
-
-    return (data.results || [])
-      .map((item: TomTomSearchResult) => {
-        const position = item.position;
-        if (!position?.lat || !position?.lon) return null;
-        const rawName = item.poi?.name || item.address?.freeformAddress || "Nearby place";
-        const name = typeof rawName === "string" ? rawName : "Nearby place";
-        const dist = typeof item.dist === "number" ? item.dist : undefined;
-        const categories = Array.isArray(item.poi?.categories) ? item.poi.categories : undefined;
-        const primaryCode = item.poi?.classifications?.[0]?.code as string | undefined;
-
-        return {
-          id: String(item.id || `${position.lat},${position.lon}-${name}`),
-          name,
-          lat: position.lat,
-          lng: position.lon,
-          type: item.poi?.categories?.[0] || "place",
-          icon: getTomTomIcon(primaryCode, categories),
-          distanceMeters: dist,
-        } satisfies NearbyPlace;
-      })
-      .filter(Boolean) as NearbyPlace[];
-  }, [getTomTomIcon]);
+  // Other screens link here with /map?to=lat,lng&name=... (see directionsPath)
+  useEffect(() => {
+    const to = searchParams.get("to");
+    if (!to || !latitude || !longitude) return;
+    const [lat, lng] = to.split(",").map(Number);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      showDirections({ lat, lng, name: searchParams.get("name") || "your destination" });
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, latitude, longitude, showDirections]);
 
   const fetchNearbyPlaces = useCallback(async (lat: number, lon: number, nextMode: MapMode) => {
     if (activeRequestRef.current) {
@@ -177,10 +89,15 @@ export default function ExploreMap() {
       return;
     }
 
-    const cacheKey = `${nextMode}:${Math.round(lat * 1000) / 1000}:${Math.round(lon * 1000) / 1000}`;
-    const cached = cacheRef.current.get(cacheKey);
-    if (cached && Date.now() - cached.ts < 60_000) {
-      setNearbyPlaces(cached.places);
+    const showOfflinePack = async () => {
+      const pack = await findOfflinePack(lat, lon);
+      setOfflinePackName(pack?.name ?? null);
+      setNearbyPlaces(pack ? placesFromPack(pack, nextMode, lat, lon) : []);
+    };
+
+    setOfflinePackName(null);
+    if (!isOnline()) {
+      await showOfflinePack();
       return;
     }
 
@@ -190,54 +107,17 @@ export default function ExploreMap() {
     const timeoutHandle = setTimeout(() => controller.abort(), 12_000);
 
     try {
-      if (nextMode === "tourist") {
-        const CATEGORIES = {
-          attractions: "7376,7317,9927,7302,9902",
-          food: "7315,9376,9379,7311",
-          free: "9357,9362,7339,7373",
-          transport: "7380,7380002,7380003,7380004,7380005,9942",
-        };
-
-        const [attractions, food, free, transport] = await Promise.all([
-          fetchTomTomCategory(lat, lon, CATEGORIES.attractions, 5000, 30, controller.signal),
-          fetchTomTomCategory(lat, lon, CATEGORIES.food, 2000, 30, controller.signal),
-          fetchTomTomCategory(lat, lon, CATEGORIES.free, 3000, 25, controller.signal),
-          fetchTomTomCategory(lat, lon, CATEGORIES.transport, 5000, 30, controller.signal),
-        ]);
-
-        const combined = dedupePlaces([...attractions, ...food, ...free, ...transport])
-          .sort((a, b) => (a.distanceMeters ?? Number.MAX_SAFE_INTEGER) - (b.distanceMeters ?? Number.MAX_SAFE_INTEGER))
-          .slice(0, 60);
-
-        setNearbyPlaces(combined);
-        cacheRef.current.set(cacheKey, { ts: Date.now(), places: combined });
-        return;
-      }
-
-      const essentialsCategorySet = "7397,7326,7321,7322";
-      const transportCategorySet = "7380,7380002,7380003,7380004,7380005,9942";
-
-      const [essentials, transport] = await Promise.all([
-        fetchTomTomCategory(lat, lon, essentialsCategorySet, 5000, 40, controller.signal),
-        fetchTomTomCategory(lat, lon, transportCategorySet, 5000, 30, controller.signal),
-      ]);
-
-      const combined = dedupePlaces([...essentials, ...transport])
-        .sort((a, b) => (a.distanceMeters ?? Number.MAX_SAFE_INTEGER) - (b.distanceMeters ?? Number.MAX_SAFE_INTEGER))
-        .slice(0, 60);
-
-      setNearbyPlaces(combined);
-      cacheRef.current.set(cacheKey, { ts: Date.now(), places: combined });
+      setNearbyPlaces(await fetchPlacesForMode(lat, lon, nextMode, controller.signal));
     } catch (err) {
       if ((err as Error).name !== "AbortError") {
-        setNearbyPlaces([]);
+        await showOfflinePack();
       }
     } finally {
       clearTimeout(timeoutHandle);
       if (activeRequestRef.current === controller) activeRequestRef.current = null;
       setIsLoadingPlaces(false);
     }
-  }, [dedupePlaces, fetchTomTomCategory]);
+  }, []);
 
   // Fetch nearby places when location is available
   useEffect(() => {
@@ -261,20 +141,6 @@ export default function ExploreMap() {
       });
     }
 
-    if (mode === "pins") {
-      savedPlaces.forEach((p) => {
-        result.push({
-          id: p.id,
-          lat: p.lat,
-          lng: p.lng,
-          title: p.name,
-          description: p.type,
-          type: "scan",
-          icon: p.icon,
-        });
-      });
-    }
-
     // Add nearby places
     if (mode !== "pins") {
       nearbyPlaces.forEach((place) => {
@@ -291,8 +157,33 @@ export default function ExploreMap() {
       });
     }
 
+    const target = directions.destination;
+    if (target && !result.some((m) => m.lat === target.lat && m.lng === target.lng)) {
+      result.push({
+        id: "route-destination",
+        lat: target.lat,
+        lng: target.lng,
+        title: target.name,
+        type: "poi",
+        icon: "🏁",
+      });
+    }
+
     return result;
-  }, [latitude, longitude, savedPlaces, nearbyPlaces, mode]);
+  }, [latitude, longitude, nearbyPlaces, mode, directions.destination]);
+
+  const savedMarkers = useMemo<MapMarker[]>(
+    () => savedPlaces.map((p) => ({
+      id: p.id,
+      lat: p.latitude,
+      lng: p.longitude,
+      title: p.name,
+      description: [p.place_type, p.visited ? "visited" : null].filter(Boolean).join(" • ") || undefined,
+      type: "saved",
+      icon: p.icon || undefined,
+    })),
+    [savedPlaces]
+  );
 
   function getCategoryIcon(category: string): string {
     const icons: Record<string, string> = {
@@ -306,9 +197,11 @@ export default function ExploreMap() {
     return icons[category?.toLowerCase()] || "📷";
   }
 
-  const center: [number, number] = latitude && longitude 
-    ? [latitude, longitude] 
-    : [35.6762, 139.6503]; // Default to Tokyo
+  // Stable between renders so MapView doesn't re-center over a drawn route
+  const center = useMemo<[number, number]>(
+    () => (latitude && longitude ? [latitude, longitude] : [35.6762, 139.6503]), // Default to Tokyo
+    [latitude, longitude]
+  );
 
   const isLoading = geoLoading || isLoadingPlaces;
   const hasLocation = !!latitude && !!longitude;
@@ -349,14 +242,30 @@ export default function ExploreMap() {
                   </span>
                 )}
               </div>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={refresh}
-                disabled={geoLoading}
-              >
-                <RefreshCw className={`h-4 w-4 ${geoLoading ? "animate-spin" : ""}`} />
-              </Button>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => downloadPack({
+                    name: locationName || `${latitude?.toFixed(3)}, ${longitude?.toFixed(3)}`,
+                    countryCode: countryCode || "",
+                    lat: latitude,
+                    lng: longitude,
+                  })}
+                  disabled={!hasLocation || isDownloading}
+                  title="Download this area for offline use"
+                >
+                  {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={refresh}
+                  disabled={geoLoading}
+                >
+                  <RefreshCw className={`h-4 w-4 ${geoLoading ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
             </div>
 
             {/* Filter Tabs */}
@@ -377,9 +286,10 @@ export default function ExploreMap() {
             </Tabs>
 
             <div className="text-xs text-muted-foreground px-1">
-              {mode === "tourist" && "Tourist shows attractions, food, and transit around you. Tap a pin to open it in Maps."}
+              {mode === "tourist" && "Tourist shows attractions, food, and transit around you. Tap a pin for walking directions."}
               {mode === "essentials" && "Essentials shows pharmacy, ATM, hospitals, police, and transport nearby."}
-              {mode === "pins" && "Saved shows places you bookmarked. Tap Save on any nearby item to add it here."}
+              {mode === "pins" && "Saved shows places you bookmarked. Tap Save on any nearby item to add it here; saved pins stay on the map in every tab."}
+              {mode !== "pins" && offlinePackName && ` Offline: showing places from your ${offlinePackName} pack.`}
             </div>
           </motion.div>
 
@@ -388,7 +298,18 @@ export default function ExploreMap() {
             className="flex-1 px-4 pb-4 min-h-0"
             variants={fadeInUp}
           >
-            {showPinsEmpty && (
+            {directions.destination && (
+              <DirectionsPanel
+                destination={directions.destination}
+                route={directions.route}
+                isLoading={directions.isLoading}
+                error={directions.error}
+                onRetry={() => showDirections(directions.destination)}
+                onClose={directions.clear}
+              />
+            )}
+
+            {showPinsEmpty && !directions.destination && (
               <div className="mb-3 p-3 rounded-xl bg-card/50 border border-border/50 flex items-center justify-between gap-3">
                 <div className="flex items-center gap-3 text-sm">
                   <Camera className="h-4 w-4 text-primary" />
@@ -399,7 +320,47 @@ export default function ExploreMap() {
               </div>
             )}
 
-            {mode !== "pins" && hasLocation && topNearby.length > 0 && (
+            {mode === "pins" && savedPlaces.length > 0 && !directions.destination && (
+              <div className="mb-3 p-3 rounded-xl bg-card/50 border border-border/50">
+                <div className="text-sm font-medium mb-2">Saved places</div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                  {savedPlaces.map((p) => (
+                    <div
+                      key={p.id}
+                      className="w-full flex items-center justify-between gap-3 p-2 rounded-lg bg-background/60 border border-border/50"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-lg">{p.icon || "⭐"}</span>
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium line-clamp-2 leading-tight">{p.name}</div>
+                          <div className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                            {p.visited && <CheckCircle2 className="h-3 w-3 text-success" />}
+                            {p.place_type || "place"}
+                            {hasLocation && ` • ${formatDistance(distanceMeters(latitude, longitude, p.latitude, p.longitude))} away`}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button size="icon" variant="ghost" className="h-8 w-8 text-muted-foreground hover:text-destructive" onClick={() => removeSavedPlace(p)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => showDirections({ lat: p.latitude, lng: p.longitude, name: p.name })}
+                          className="h-8 w-8"
+                          title="Walking directions"
+                        >
+                          <Navigation className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {mode !== "pins" && hasLocation && topNearby.length > 0 && !directions.destination && (
               <div className="mb-3 p-3 rounded-xl bg-card/50 border border-border/50">
                 <div className="flex items-center justify-between mb-2">
                   <div className="text-sm font-medium">Closest nearby</div>
@@ -426,7 +387,7 @@ export default function ExploreMap() {
                         <Button size="icon" variant="ghost" className="h-8 w-8 text-muted-foreground hover:text-primary" onClick={() => addSavedPlace(p)}>
                           <Save className="h-4 w-4" />
                         </Button>
-                        <Button size="icon" variant="ghost" onClick={() => openInMaps(p.lat, p.lng)} className="h-8 w-8">
+                        <Button size="icon" variant="ghost" onClick={() => showDirections(p)} className="h-8 w-8" title="Walking directions">
                           <Navigation className="h-4 w-4" />
                         </Button>
                       </div>
@@ -436,7 +397,7 @@ export default function ExploreMap() {
               </div>
             )}
 
-            {showNearbyEmpty && (
+            {showNearbyEmpty && !directions.destination && (
               <div className="mb-3 p-3 rounded-xl bg-card/50 border border-border/50 flex items-center justify-between gap-3">
                 <div className="flex items-center gap-3 text-sm">
                   <MapPin className="h-4 w-4 text-primary" />
@@ -477,6 +438,8 @@ export default function ExploreMap() {
                 zoom={15}
                 markers={markers}
                 onMarkerClick={setSelectedMarker}
+                savedMarkers={savedMarkers}
+                route={directions.route?.geometry}
                 className="h-full border border-border/50"
               />
             )}
@@ -500,6 +463,21 @@ export default function ExploreMap() {
                     </p>
                   )}
                     <div className="mt-3 flex gap-2">
+                      {selectedMarker.type === "saved" ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => {
+                          const place = savedPlaces.find((p) => p.id === selectedMarker.id);
+                          if (place) removeSavedPlace(place);
+                          setSelectedMarker(null);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Remove
+                      </Button>
+                      ) : (
                       <Button
                         size="sm"
                         className="flex-1"
@@ -515,14 +493,15 @@ export default function ExploreMap() {
                         <Save className="h-4 w-4 mr-2" />
                         Save
                       </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="outline"
                         className="flex-1"
-                        onClick={() => openInMaps(selectedMarker.lat, selectedMarker.lng)}
+                        onClick={() => showDirections({ lat: selectedMarker.lat, lng: selectedMarker.lng, name: selectedMarker.title })}
                       >
                         <Navigation className="h-4 w-4 mr-2" />
-                        Open in Maps
+                        Directions
                       </Button>
                     </div>
                 </div>
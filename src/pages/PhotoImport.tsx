@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { CheckCircle2, ChevronLeft, Clock, ImagePlus, Loader2, MapPin, Sparkles, XCircle } from "lucide-react";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MapView, type MapMarker } from "@/components/map/MapView";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAIUsage } from "@/contexts/AIUsageContext";
+import { invokeAI } from "@/lib/aiInvoke";
+import { queueCapture, scanEntryFromAnalysis, type ImageAnalysis } from "@/lib/captureQueue";
+import {
+  groupPhotosByDay,
+  plainScanEntry,
+  preparePhoto,
+  sortPhotos,
+  type ImportedPhoto,
+} from "@/lib/photoImport";
+import { saveChange } from "@/lib/syncOutbox";
+import { canEditTrip, fetchTripRoles } from "@/lib/tripMembers";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface Trip {
+  id: string;
+  name: string;
+}
+
+// Enough for a trip's best shots; each one is kept in memory until saved.
+const MAX_PHOTOS = 100;
+const NO_TRIP = "none";
+
+export default function PhotoImport() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { remaining, incrementUsage } = useAIUsage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [photos, setPhotos] = useState<ImportedPhoto[]>([]);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripId, setTripId] = useState(NO_TRIP);
+  const [preparing, setPreparing] = useState<{ done: number; total: number } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      supabase
+        .from("trips")
+        .select("id, name")
+        .order("created_at", { ascending: false }),
+      fetchTripRoles().catch(() => ({})),
+    ]).then(([{ data }, roles]) => setTrips((data || []).filter((trip) => canEditTrip(roles[trip.id]))));
+  }, []);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_PHOTOS - photos.length);
+    e.target.value = "";
+    if (files.length === 0) {
+      if (photos.length >= MAX_PHOTOS) toast.error(`Import up to ${MAX_PHOTOS} photos at a time`);
+      return;
+    }
+
+    // One at a time: decoding dozens of full-size photos at once runs phones out of memory.
+    setPreparing({ done: 0, total: files.length });
+    const prepared: ImportedPhoto[] = [];
+    let unreadable = 0;
+    for (const file of files) {
+      try {
+        prepared.push(await preparePhoto(file));
+      } catch (error) {
+        console.error("Photo import error:", error);
+        unreadable++;
+      }
+      setPreparing({ done: prepared.length + unreadable, total: files.length });
+    }
+    setPhotos((current) => sortPhotos([...current, ...prepared]));
+    setPreparing(null);
+    if (unreadable > 0) toast.error(`${unreadable} file(s) couldn't be read as photos`);
+  };
+
+  const updatePhoto = (id: string, patch: Partial<ImportedPhoto>) => {
+    setPhotos((current) => current.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const pending = photos.filter((p) => p.include && p.status !== "saved");
+  const aiRequested = pending.filter((p) => p.analyze).length;
+  const located = photos.filter((p) => p.latitude !== null);
+  const days = useMemo(() => groupPhotosByDay(photos), [photos]);
+
+  const markers: MapMarker[] = useMemo(
+    () =>
+      located.map((p) => ({
+        id: p.id,
+        lat: p.latitude,
+        lng: p.longitude,
+        title: p.takenAt ? format(new Date(p.takenAt), "MMM d, HH:mm") : p.fileName,
+        description: p.fileName,
+        type: "scan" as const,
+        icon: p.id === selectedId ? "📍" : "📷",
+      })),
+    [located, selectedId]
+  );
+  const route = useMemo(
+    () => located.filter((p) => p.include && p.takenAt).map((p) => [p.latitude, p.longitude] as [number, number]),
+    [located]
+  );
+
+  const setAllAnalyze = (analyze: boolean) => {
+    setPhotos((current) => current.map((p) => (p.status === "saved" ? p : { ...p, analyze })));
+  };
+
+  const importPhotos = async () => {
+    if (!user || pending.length === 0) return;
+    const trip = tripId === NO_TRIP ? null : tripId;
+
+    setIsImporting(true);
+    let saved = 0;
+    let queued = 0;
+    let withoutAI = 0;
+    let failed = 0;
+    let aiAllowed = true;
+    const queueForLater = (photo: ImportedPhoto) =>
+      queueCapture({
+        kind: "scan",
+        image: photo.image,
+        latitude: photo.latitude,
+        longitude: photo.longitude,
+        locationName: null,
+        capturedAt: photo.takenAt,
+        tripId: trip,
+        currency: null,
+      });
+
+    for (const photo of pending) {
+      try {
+        let analysis: ImageAnalysis | null = null;
+        if (photo.analyze && !navigator.onLine) {
+          await queueForLater(photo);
+          queued++;
+          updatePhoto(photo.id, { status: "saved" });
+          continue;
+        }
+        if (photo.analyze && aiAllowed) {
+          aiAllowed = await incrementUsage();
+          if (aiAllowed) {
+            const { data, error } = await invokeAI<ImageAnalysis>("analyze-image", { body: { image: photo.image } });
+            if (error?.code === "network") {
+              await queueForLater(photo);
+              queued++;
+              updatePhoto(photo.id, { status: "saved" });
+              continue;
+            }
+            if (error) console.error("Analysis error:", error);
+            else analysis = data;
+          }
+        }
+        if (photo.analyze && !analysis) withoutAI++;
+
+        await saveChange({
+          type: "create",
+          table: "scan_entries",
+          label: analysis?.name || photo.fileName,
+          data: {
+            id: crypto.randomUUID(),
+            ...(analysis
+              ? {
+                  ...(photo.takenAt ? { created_at: photo.takenAt } : {}),
+                  ...scanEntryFromAnalysis(analysis, {
+                    userId: user.id,
+                    image: photo.image,
+                    latitude: photo.latitude,
+                    longitude: photo.longitude,
+                    locationName: null,
+                    tripId: trip,
+                  }),
+                }
+              : plainScanEntry(photo, { userId: user.id, tripId: trip })),
+          },
+        });
+        saved++;
+        updatePhoto(photo.id, { status: "saved" });
+      } catch (error) {
+        console.error("Photo save error:", error);
+        failed++;
+        updatePhoto(photo.id, { status: "failed" });
+      }
+    }
+    setIsImporting(false);
+
+    const summary = [
+      saved > 0 && `${saved} photo${saved === 1 ? "" : "s"} added to your journal`,
+      queued > 0 && `${queued} waiting to be analyzed when you're back online`,
+    ].filter(Boolean).join(", ");
+    if (summary) {
+      toast.success(summary, {
+        description: [
+          withoutAI > 0 && `${withoutAI} saved without AI analysis${aiAllowed ? "" : " (daily AI limit reached)"}`,
+          failed > 0 && `${failed} couldn't be saved`,
+        ].filter(Boolean).join(". ") || undefined,
+        action: { label: "Journal", onClick: () => navigate("/journal") },
+      });
+    } else if (failed > 0) {
+      toast.error("Couldn't save these photos");
+    }
+  };
+
+  const center: [number, number] | null = located.length > 0 ? [located[0].latitude, located[0].longitude] : null;
+
+  return (
+    <AppLayout title="Import photos">
+      <AnimatedPage>
+        <motion.div className="px-4 py-4 space-y-4 pb-24" variants={staggerContainer} initial="initial" animate="animate">
+          <motion.div variants={fadeInUp} className="flex items-center justify-between gap-2">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/scan")} className="-ml-2">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Scan
+            </Button>
+            {photos.length > 0 && (
+              <Button size="sm" onClick={importPhotos} disabled={isImporting || pending.length === 0}>
+                {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Import {pending.length}
+              </Button>
+            )}
+          </motion.div>
+
+          <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+
+          {photos.length === 0 ? (
+            <motion.div variants={fadeInUp} className="text-center py-10 space-y-3">
+              <ImagePlus className="h-12 w-12 mx-auto opacity-30" />
+              <p className="text-muted-foreground text-sm px-6">
+                Pick photos from a past trip. They're placed on a map and a timeline using where and when they were
+                taken, and you choose which ones the AI should look at.
+              </p>
+              <Button onClick={() => fileInputRef.current?.click()} disabled={!!preparing}>
+                {preparing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Reading {preparing.done} of {preparing.total}
+                  </>
+                ) : (
+                  "Choose photos"
+                )}
+              </Button>
+            </motion.div>
+          ) : (
+            <>
+              <motion.div variants={fadeInUp} className="space-y-2">
+                <Select value={tripId} onValueChange={setTripId}>
+                  <SelectTrigger className="bg-card">
+                    <SelectValue placeholder="Trip" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TRIP}>No trip</SelectItem>
+                    {trips.map((trip) => (
+                      <SelectItem key={trip.id} value={trip.id}>
+                        {trip.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-muted-foreground">
+                    {photos.length} photos · {located.length} with location
+                  </span>
+                  <label className="flex items-center gap-2">
+                    <Switch
+                      checked={pending.length > 0 && aiRequested === pending.length}
+                      onCheckedChange={setAllAnalyze}
+                      disabled={isImporting}
+                    />
+                    Analyze all
+                  </label>
+                </div>
+                {aiRequested > remaining && (
+                  <p className="text-xs text-warning">
+                    {aiRequested} photos set for AI analysis, {remaining} AI calls left today. The rest are saved without it.
+                  </p>
+                )}
+              </motion.div>
+
+              {center && (
+                <motion.div variants={fadeInUp} className="h-56">
+                  <MapView
+                    center={center}
+                    zoom={11}
+                    markers={markers}
+                    route={route.length > 1 ? route : undefined}
+                    onMarkerClick={(marker) => {
+                      setSelectedId(marker.id);
+                      document.getElementById(`photo-${marker.id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+                    }}
+                  />
+                </motion.div>
+              )}
+
+              <motion.div variants={fadeInUp} className="space-y-4">
+                {days.map((group) => (
+                  <div key={group.day ?? "undated"} className="space-y-2">
+                    <h3 className="text-sm font-semibold flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-primary" />
+                      {group.day ? format(new Date(`${group.day}T00:00:00`), "EEEE, MMM d, yyyy") : "No date"}
+                    </h3>
+                    {group.photos.map((photo) => (
+                      <div
+                        key={photo.id}
+                        id={`photo-${photo.id}`}
+                        className={`flex items-center gap-3 rounded-xl border p-2 bg-card ${
+                          photo.id === selectedId ? "border-primary" : "border-border/50"
+                        } ${photo.include ? "" : "opacity-50"}`}
+                        onClick={() => setSelectedId(photo.id)}
+                      >
+                        <Checkbox
+                          checked={photo.include}
+                          onCheckedChange={(checked) => updatePhoto(photo.id, { include: checked === true })}
+                          disabled={photo.status === "saved" || isImporting}
+                          aria-label="Include photo"
+                        />
+                        <img src={photo.image} alt={photo.fileName} className="h-14 w-14 rounded-lg object-cover flex-shrink-0" />
+                        <div className="flex-1 min-w-0 text-xs space-y-0.5">
+                          <p className="font-medium text-sm truncate">
+                            {photo.takenAt ? format(new Date(photo.takenAt), "HH:mm") : photo.fileName}
+                          </p>
+                          <p className="text-muted-foreground flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {photo.latitude !== null ? `${photo.latitude.toFixed(4)}, ${photo.longitude.toFixed(4)}` : "No location"}
+                          </p>
+                          {photo.status === "saved" && (
+                            <p className="text-success flex items-center gap-1">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Imported
+                            </p>
+                          )}
+                          {photo.status === "failed" && (
+                            <p className="text-destructive flex items-center gap-1">
+                              <XCircle className="h-3 w-3" />
+                              Not saved
+                            </p>
+                          )}
+                        </div>
+                        <label className="flex flex-col items-center gap-1 text-[10px] text-muted-foreground">
+                          <Switch
+                            checked={photo.analyze}
+                            onCheckedChange={(analyze) => updatePhoto(photo.id, { analyze })}
+                            disabled={!photo.include || photo.status === "saved" || isImporting}
+                          />
+                          <span className="flex items-center gap-0.5">
+                            <Sparkles className="h-3 w-3" />
+                            AI
+                          </span>
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </motion.div>
+
+              <motion.div variants={fadeInUp}>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!!preparing || isImporting || photos.length >= MAX_PHOTOS}
+                >
+                  {preparing ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Reading {preparing.done} of {preparing.total}
+                    </>
+                  ) : (
+                    <>
+                      <ImagePlus className="h-4 w-4 mr-2" />
+                      Add more photos
+                    </>
+                  )}
+                </Button>
+              </motion.div>
+            </>
+          )}
+        </motion.div>
+      </AnimatedPage>
+    </AppLayout>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion } from "framer-motion";
+import { format } from "date-fns";
 import { AlertTriangle, Shield, CheckCircle, Clock, Loader2, Phone, RefreshCw } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
@@ -9,34 +10,14 @@ import { Button } from "@/components/ui/button";
 import { useGeolocation } from "@/hooks/useGeolocation";
 import { supabase } from "@/integrations/supabase/client";
 import { invokeAI } from "@/lib/aiInvoke";
-
-interface SafetyAlert {
-  type: string;
-  title: string;
-  description: string;
-  severity: string;
-}
-
-interface EmergencyNumbers {
-  police: string;
-  ambulance: string;
-  fire: string;
-  tourist_hotline?: string;
-}
-
-interface SafetyData {
-  safetyLevel: "safe" | "caution" | "warning";
-  alerts: SafetyAlert[];
-  tips: string[];
-  emergencyNumbers: EmergencyNumbers;
-  customsInfo?: string;
-}
+import { findOfflinePack, type CityPack, type SafetyData } from "@/lib/cityPacks";
 
 export default function Safety() {
   const { latitude, longitude, locationName, countryCode, countryName, isLoading: locationLoading, refresh } = useGeolocation({ autoRequest: "always" });
   const [safetyData, setSafetyData] = useState<SafetyData | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [offlinePack, setOfflinePack] = useState<CityPack | null>(null);
   const hasFetchedInitial = useRef(false);
 
   const fetchSafetyInfo = useCallback(async () => {
@@ -46,6 +27,7 @@ export default function Safety() {
     
     setIsLoading(true);
     setError(null);
+    setOfflinePack(null);
 
     try {
       const { data, error: fnError } = await invokeAI<SafetyData>("get-safety-info", {
@@ -61,6 +43,13 @@ export default function Safety() {
       setSafetyData(data);
     } catch (err) {
       console.error("Safety info error:", err);
+      // A downloaded city pack is better than generic advice
+      const pack = await findOfflinePack(latitude, longitude);
+      if (pack?.safety) {
+        setOfflinePack(pack);
+        setSafetyData(pack.safety);
+        return;
+      }
       setError("Could not load safety information");
       // Set default data
       setSafetyData({
@@ -156,6 +145,12 @@ export default function Safety() {
             </div>
           </motion.div>
 
+          {offlinePack && !isLoading && (
+            <motion.p className="text-xs text-muted-foreground px-1" variants={fadeInUp}>
+              Showing the {offlinePack.name} pack saved {format(new Date(offlinePack.downloadedAt), "MMM d")}. Refresh when you're back online.
+            </motion.p>
+          )}
+
           {isLoading ? (
             <motion.div 
               className="flex flex-col items-center justify-center py-12 gap-4"
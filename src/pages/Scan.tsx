@@ -1,15 +1,30 @@
 import { useState, useRef, useEffect } from "react";
 import { motion } from "framer-motion";
-import { Camera, X, Zap, Loader2, Save, Star, AlertCircle, CheckCircle2, Image as ImageIcon } from "lucide-react";
+import { Camera, X, Zap, Loader2, Save, Star, AlertCircle, CheckCircle2, Image as ImageIcon, CloudOff, Images, ScanText } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { describeSave, saveChange } from "@/lib/syncOutbox";
 import { invokeAI } from "@/lib/aiInvoke";
+import { compressImage } from "@/lib/imageCompression";
+import { readPhotoMetadata, type PhotoMetadata } from "@/lib/exif";
+import { photoPlace } from "@/lib/photoImport";
+import { queueCapture, scanEntryFromAnalysis } from "@/lib/captureQueue";
+import { useCaptureQueue } from "@/hooks/useCaptureQueue";
+import { describeAIError } from "@/lib/aiErrors";
+import { canEditTrip, fetchTripRoles } from "@/lib/tripMembers";
+import { dietaryProfileFrom, isMenuScan } from "@/lib/dietary";
+import { spendingRecordFromOrder, type OrderLine } from "@/lib/menu";
+import type { AnalyzeMenuResult } from "@/lib/aiSchemas";
 import { toast } from "sonner";
 import { ScanResult } from "@/components/scan/ScanResult";
 import { TranslateOverlay } from "@/components/scan/TranslateOverlay";
+import { LiveTranslate } from "@/components/scan/LiveTranslate";
+import { MenuView } from "@/components/scan/MenuView";
 import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/contexts/ProfileContext";
 import { useGeolocation } from "@/hooks/useGeolocation";
 import { useAIUsage } from "@/contexts/AIUsageContext";
 import {
@@ -39,17 +54,26 @@ interface Trip {
 
 export default function Scan() {
   const { user } = useAuth();
+  const { profile } = useProfile();
+  const navigate = useNavigate();
   const { latitude, longitude, locationName } = useGeolocation();
   const { canUseAI, remaining, incrementUsage, isAuthenticated } = useAIUsage();
+  const { captures } = useCaptureQueue();
+  const waitingScans = captures.filter((capture) => capture.kind === "scan").length;
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  // Where and when the current photo was taken, from its EXIF
+  const [photoMetadata, setPhotoMetadata] = useState<PhotoMetadata | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [menu, setMenu] = useState<AnalyzeMenuResult | null>(null);
+  const [isCheckingMenu, setIsCheckingMenu] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [trips, setTrips] = useState<Trip[]>([]);
   const [selectedTripId, setSelectedTripId] = useState<string>("none");
   const [translateText, setTranslateText] = useState<string>("");
   const [showTranslate, setShowTranslate] = useState(false);
+  const [showLive, setShowLive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const galleryInputRef = useRef<HTMLInputElement>(null);
 
@@ -60,11 +84,15 @@ export default function Scan() {
   }, [user]);
 
   const fetchTrips = async () => {
-    const { data } = await supabase
-      .from("trips")
-      .select("id, name")
-      .order("created_at", { ascending: false });
-    setTrips(data || []);
+    const [{ data }, roles] = await Promise.all([
+      supabase
+        .from("trips")
+        .select("id, name")
+        .order("created_at", { ascending: false }),
+      fetchTripRoles().catch(() => ({})),
+    ]);
+    // Scans can only be filed under trips the user can edit
+    setTrips((data || []).filter((trip) => canEditTrip(roles[trip.id])));
   };
 
   const handleCapture = () => {
@@ -91,47 +119,6 @@ export default function Scan() {
     galleryInputRef.current?.click();
   };
 
-  const compressImage = (file: File, maxWidth = 1024, quality = 0.8): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        img.src = e.target?.result as string;
-      };
-      
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let { width, height } = img;
-        
-        // Scale down if larger than maxWidth
-        if (width > maxWidth) {
-          height = (height * maxWidth) / width;
-          width = maxWidth;
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
-        
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Convert to JPEG for better compression
-        const compressedBase64 = canvas.toDataURL('image/jpeg', quality);
-        resolve(compressedBase64);
-      };
-      
-      img.onerror = () => reject(new Error('Failed to load image'));
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsDataURL(file);
-    });
-  };
-
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     // Clear the input value so selecting the SAME image again still fires
@@ -140,17 +127,42 @@ export default function Scan() {
     if (!file) return;
 
     try {
+      // Compressing redraws the image and drops its EXIF, so read it first
+      const metadata = await readPhotoMetadata(file);
       // Compress the image before sending to reduce payload size
       const compressedBase64 = await compressImage(file, 1024, 0.8);
+      if (!navigator.onLine) {
+        await captureForLater(compressedBase64, metadata);
+        return;
+      }
+      setPhotoMetadata(metadata);
       setCapturedImage(compressedBase64);
-      await analyzeImage(compressedBase64);
+      await analyzeImage(compressedBase64, metadata);
     } catch (err) {
       console.error("Image processing error:", err);
       toast.error("Failed to process image. Please try again.");
     }
   };
 
-  const analyzeImage = async (imageBase64: string) => {
+  // No connection: keep the photo and analyze it once we're back online
+  const captureForLater = async (imageBase64: string, metadata: PhotoMetadata | null) => {
+    if (!user) {
+      toast.error("You're offline. Sign in to keep photos for analysis later.");
+      return;
+    }
+    await queueCapture({
+      kind: "scan",
+      image: imageBase64,
+      ...photoPlace(metadata, { latitude, longitude, locationName }),
+      capturedAt: metadata?.takenAt,
+      tripId: !selectedTripId || selectedTripId === "none" ? null : selectedTripId,
+      currency: null,
+    });
+    setCapturedImage(null);
+    toast.success("Photo saved. It will be analyzed when you're back online.");
+  };
+
+  const analyzeImage = async (imageBase64: string, metadata: PhotoMetadata | null) => {
     // Check usage before making the call
     const allowed = await incrementUsage();
     if (!allowed) {
@@ -160,24 +172,24 @@ export default function Scan() {
 
     setIsAnalyzing(true);
     setResult(null);
+    setMenu(null);
 
     try {
       const { data, error } = await invokeAI<AnalysisResult>("analyze-image", {
         body: { image: imageBase64 },
       });
 
+      if (error?.code === "network" && user) {
+        await captureForLater(imageBase64, metadata);
+        return;
+      }
       if (error) {
-        if (error.message?.includes("429")) {
-          toast.error("Rate limit exceeded. Please try again later.");
-        } else if (error.message?.includes("402")) {
-          toast.error("AI usage limit reached. Please add credits.");
-        } else {
-          toast.error("Analysis failed. Please try again.");
-        }
+        toast.error(describeAIError(error, "Analysis failed. Please try again."));
         return;
       }
 
       setResult(data);
+      if (isMenuScan(data.category)) checkMenu(imageBase64);
     } catch (err) {
       console.error("Analysis error:", err);
       toast.error("Failed to analyze image");
@@ -186,6 +198,29 @@ export default function Scan() {
     }
   };
 
+  // A second pass for menus and dishes: every dish translated and checked
+  // against the user's allergies and diet, plus an allergy card for staff.
+  const checkMenu = async (imageBase64: string) => {
+    if (!(await incrementUsage())) {
+      toast.info("AI usage limit reached; the menu wasn't checked for allergens");
+      return;
+    }
+
+    setIsCheckingMenu(true);
+    try {
+      const { data, error } = await invokeAI<AnalyzeMenuResult>("analyze-menu", {
+        body: { image: imageBase64, profile: dietaryProfileFrom(profile) },
+      });
+      if (error) {
+        toast.error(describeAIError(error, "Couldn't check this menu"));
+        return;
+      }
+      setMenu(data);
+    } finally {
+      setIsCheckingMenu(false);
+    }
+  };
+
   const saveToJournal = async () => {
     if (!user || !result) {
       toast.error("Please sign in to save scans");
@@ -194,31 +229,25 @@ export default function Scan() {
 
     setIsSaving(true);
     try {
-      // Use AI-detected location if available, otherwise fall back to GPS location
-      const finalLocationName = result.detected_location || locationName;
-      
-      const { error } = await supabase.from("scan_entries").insert([{
-        user_id: user.id,
-        category: result.category,
-        name: result.name,
-        description: result.description,
-        image_url: capturedImage,
-        latitude: result.detected_location ? null : latitude, // Don't save GPS coords if AI detected location
-        longitude: result.detected_location ? null : longitude,
-        location_name: finalLocationName,
-        ai_analysis: result.details ? JSON.parse(JSON.stringify(result.details)) : null,
-        extracted_text: result.extracted_text || null,
-        prices: result.prices ? JSON.parse(JSON.stringify(result.prices)) : null,
-        warnings: result.warnings || [],
-        tips: result.tips || [],
-        trip_id: !selectedTripId || selectedTripId === "none" ? null : selectedTripId,
-      }]);
-
-      if (error) throw error;
+      const saved = await saveChange({
+        type: "create",
+        table: "scan_entries",
+        label: result.name || result.category,
+        data: {
+          id: crypto.randomUUID(),
+          ...(photoMetadata?.takenAt ? { created_at: photoMetadata.takenAt } : {}),
+          ...scanEntryFromAnalysis(menu ? { ...result, details: { ...result.details, menu } } : result, {
+            userId: user.id,
+            image: capturedImage,
+            ...photoPlace(photoMetadata, { latitude, longitude, locationName }),
+            tripId: !selectedTripId || selectedTripId === "none" ? null : selectedTripId,
+          }),
+        },
+      });
 
       setSaveSuccess(true);
       window.setTimeout(() => setSaveSuccess(false), 1400);
-      toast.success("Saved to journal!");
+      toast.success(describeSave(saved, "Saved to journal"));
     } catch (err) {
       console.error("Save error:", err);
       toast.error("Failed to save scan");
@@ -227,9 +256,37 @@ export default function Scan() {
     }
   };
 
+  // The estimate built on a scanned menu, filed like a receipt line
+  const addOrderToSpending = async (lines: OrderLine[], currency: string) => {
+    try {
+      const saved = await saveChange({
+        type: "create",
+        table: "spending_records",
+        data: {
+          id: crypto.randomUUID(),
+          ...spendingRecordFromOrder(lines, {
+            userId: user.id,
+            currency,
+            locationName: result?.detected_location || locationName,
+            date: new Date().toISOString().split("T")[0],
+            tripId: selectedTripId === "none" ? null : selectedTripId,
+          }),
+        },
+      });
+      toast.success(describeSave(saved, "Added to spending"));
+      return true;
+    } catch (err) {
+      console.error("Add to spending error:", err);
+      toast.error("Failed to add to spending");
+      return false;
+    }
+  };
+
   const resetScan = () => {
     setCapturedImage(null);
+    setPhotoMetadata(null);
     setResult(null);
+    setMenu(null);
     setSaveSuccess(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
@@ -296,13 +353,31 @@ export default function Scan() {
               )}
 
               {/* Instructions */}
-              <div className="absolute inset-x-0 bottom-0 p-6 text-center">
+              <div className="absolute inset-x-0 bottom-0 p-6 text-center space-y-3">
                 <p className="text-muted-foreground text-sm">
                   Point at monuments, menus, signs, or tickets
                 </p>
+                {/* Text is found on the device; each pass with new lines uses one AI call */}
+                <Button variant="secondary" size="sm" onClick={() => setShowLive(true)}>
+                  <ScanText className="h-4 w-4 mr-2" />
+                  Live translate
+                </Button>
               </div>
             </motion.div>
 
+            {waitingScans > 0 && (
+              <motion.div
+                className="mx-4 mt-4 p-3 rounded-xl bg-card/80 border border-border/50 flex items-center gap-3"
+                variants={fadeInUp}
+              >
+                <CloudOff className="h-5 w-5 text-muted-foreground shrink-0" />
+                <p className="text-sm text-muted-foreground">
+                  {waitingScans} photo{waitingScans > 1 ? "s" : ""} waiting to be analyzed. They'll appear in your
+                  journal once you're back online.
+                </p>
+              </motion.div>
+            )}
+
             {/* Usage Warning */}
             {!canUseAI && (
               <motion.div 
@@ -357,8 +432,20 @@ export default function Scan() {
                 )}
               </motion.button>
 
-              {/* Placeholder to balance layout (invisible) */}
-              <div className="w-14" />
+              {/* Batch import from a past trip; a placeholder balances the layout when signed out */}
+              {user ? (
+                <motion.button
+                  onClick={() => navigate("/scan/import")}
+                  className="h-14 w-14 rounded-full flex items-center justify-center border border-border/50 bg-card/80 backdrop-blur-sm hover:bg-card active:scale-95 transition-transform"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  title="Import photos from a past trip"
+                >
+                  <Images className="h-6 w-6 text-foreground" />
+                </motion.button>
+              ) : (
+                <div className="w-14" />
+              )}
             </motion.div>
 
             {/* Quick Tips */}
@@ -418,6 +505,16 @@ export default function Scan() {
                       setTranslateText(text);
                       setShowTranslate(true);
                     }}
+                    menu={
+                      (menu || isCheckingMenu) && (
+                        <MenuView
+                          menu={menu}
+                          profile={dietaryProfileFrom(profile)}
+                          isChecking={isCheckingMenu}
+                          onAddToSpending={user ? addOrderToSpending : undefined}
+                        />
+                      )
+                    }
                   />
                   
                   {/* Save to Journal Section */}
@@ -517,6 +614,8 @@ export default function Scan() {
         isOpen={showTranslate}
         onClose={() => setShowTranslate(false)}
       />
+
+      <LiveTranslate isOpen={showLive} onClose={() => setShowLive(false)} />
     </AppLayout>
   );
 }
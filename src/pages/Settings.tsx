@@ -21,6 +21,8 @@ import { languages } from "@/lib/languages";
 import { countries } from "@/lib/countries";
 import { toast } from "sonner";
 import { ContactForm } from "@/components/support/ContactForm";
+import { OfflinePacksManager } from "@/components/offline/OfflinePacksManager";
+import { DietaryProfileCard } from "@/components/dietary/DietaryProfileCard";
 import { supabase } from "@/integrations/supabase/client";
 import {
   AlertDialog,
@@ -464,6 +466,9 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Dietary Profile Section */}
+        <DietaryProfileCard />
+
         {/* Appearance Section */}
         <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
           <CardHeader className="pb-4">
@@ -544,6 +549,9 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Offline Cities Section */}
+        <OfflinePacksManager />
+
         {/* Legal & Account Section */}
         <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
           <CardHeader className="pb-4">
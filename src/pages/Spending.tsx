@@ -1,6 +1,6 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
-import { Receipt, Camera, Plus, TrendingUp, Loader2, LogIn, FileText, Trash2 } from "lucide-react";
+import { Receipt, Camera, Plus, TrendingUp, TrendingDown, Loader2, LogIn, FileText, Trash2, Wallet, Pencil, Users, UserPlus } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
@@ -9,11 +9,14 @@ import { FeatureCard } from "@/components/ui/feature-card";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { supabase } from "@/integrations/supabase/client";
 import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
 import { useAuth } from "@/contexts/AuthContext";
 import { useAIUsage } from "@/contexts/AIUsageContext";
 import { useGeolocation } from "@/hooks/useGeolocation";
 import { useCurrency } from "@/hooks/useCurrency";
 import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useCaptureQueue } from "@/hooks/useCaptureQueue";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import {
@@ -33,6 +36,28 @@ import {
 } from "@/components/ui/select";
 import { ExpenseReportDialog } from "@/components/spending/ExpenseReportDialog";
 import { CurrencyConverter } from "@/components/spending/CurrencyConverter";
+import { TripBudgetCard } from "@/components/spending/TripBudgetCard";
+import { TripBudgetDialog } from "@/components/spending/TripBudgetDialog";
+import { TripMembersDialog } from "@/components/spending/TripMembersDialog";
+import { useTripRealtime } from "@/hooks/useTripRealtime";
+import { canEditTrip, fetchTripRoles, type TripRole } from "@/lib/tripMembers";
+import { SplitEditor } from "@/components/spending/SplitEditor";
+import { SplitExpenseDialog } from "@/components/spending/SplitExpenseDialog";
+import { SettleUpCard } from "@/components/spending/SettleUpCard";
+import { convertTotals, summarizeBudget } from "@/lib/budget";
+import { applyPendingChanges, describeSave, saveChange } from "@/lib/syncOutbox";
+import { queueCapture, spendingRecordsFromReceipt } from "@/lib/captureQueue";
+import { compressImage } from "@/lib/imageCompression";
+import type { ScanReceiptResult } from "@/lib/aiSchemas";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import {
+  settleUp,
+  splitDraftFrom,
+  splitFieldsFromDraft,
+  type SplitDraft,
+  type SplitShare,
+  type SplitType,
+} from "@/lib/settlement";
 
 interface SpendingRecordBase {
   id: string;
@@ -44,7 +69,11 @@ interface SpendingRecordBase {
   date: string;
   notes: string | null;
   created_at: string;
+  updated_at?: string;
   scan_entry_id?: string | null;
+  paid_by_member_id: string | null;
+  split_type: SplitType | null;
+  split_shares: SplitShare[] | null;
 }
 
 interface SpendingRecord extends SpendingRecordBase {
@@ -53,6 +82,8 @@ interface SpendingRecord extends SpendingRecordBase {
 }
 
 interface SpendingRecordRow extends SpendingRecordBase {
+  trip_id: string | null;
+  trips?: { name: string | null } | null;
   scan_entries?: {
     trip_id: string | null;
     trips?: { name: string | null } | null;
@@ -65,6 +96,17 @@ interface Trip {
   destination: string | null;
   start_date: string | null;
   end_date: string | null;
+  budget_amount: number | null;
+  budget_currency: string | null;
+  category_budgets: Record<string, number> | null;
+}
+
+interface TripMember {
+  id: string;
+  trip_id: string;
+  user_id: string | null;
+  display_name: string;
+  email: string | null;
 }
 
 const categoryColors: Record<string, "success" | "info" | "primary" | "warning" | "default"> = {
@@ -83,14 +125,16 @@ export default function Spending() {
   const { user } = useAuth();
   const { canUseAI, incrementUsage, isAuthenticated } = useAIUsage();
   const { activeCurrency, localCurrency, homeCurrency, getSymbol, format: formatAmount, isUsingLocationCurrency } = useCurrency();
-  const { locationName } = useGeolocation();
+  const { latitude, longitude, locationName } = useGeolocation();
   const { convert, isLoading: ratesLoading } = useExchangeRates();
-  
-  // Check if we need to show currency conversion (when local differs from home)
-  const showConversion = localCurrency !== homeCurrency && !isUsingLocationCurrency;
-  
-  const [spending, setSpending] = useState<SpendingRecord[]>([]);
+
+  const { operations } = useOfflineSync();
+  const { captures } = useCaptureQueue();
+  const waitingReceipts = captures.filter((capture) => capture.kind === "receipt").length;
+  const [serverSpending, setServerSpending] = useState<SpendingRecord[]>([]);
   const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripRoles, setTripRoles] = useState<Record<string, TripRole>>({});
+  const [members, setMembers] = useState<TripMember[]>([]);
   const [selectedTrip, setSelectedTrip] = useState("all");
   const [isLoading, setIsLoading] = useState(true);
   const [isScanning, setIsScanning] = useState(false);
@@ -99,36 +143,41 @@ export default function Spending() {
   const [newAmount, setNewAmount] = useState("");
   const [newCategory, setNewCategory] = useState("Food");
   const [newMerchant, setNewMerchant] = useState("");
+  const [newTripId, setNewTripId] = useState("none");
+  const [newSplit, setNewSplit] = useState<SplitDraft>(() => splitDraftFrom({}, []));
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (user) {
       fetchSpending();
       fetchTrips();
+      fetchMembers();
     } else {
       setIsLoading(false);
     }
   }, [user]);
 
-  const fetchSpending = async () => {
-    setIsLoading(true);
+  const fetchSpending = async ({ quiet = false }: { quiet?: boolean } = {}) => {
+    if (!quiet) setIsLoading(true);
     try {
       const { data, error } = await supabase
         .from("spending_records")
-        .select("*, scan_entries(trip_id, trips(name))")
+        .select("*, trips(name), scan_entries(trip_id, trips(name))")
         .order("date", { ascending: false })
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      const mapped = (data as SpendingRecordRow[] | null)?.map((record) => ({
+      // Older records are only linked to a trip through their scan entry.
+      const mapped = (data as unknown as SpendingRecordRow[] | null)?.map(({ trips: directTrip, ...record }) => ({
         ...record,
-        trip_id: record.scan_entries?.trip_id ?? null,
-        trip_name: record.scan_entries?.trips?.name ?? null,
+        trip_id: record.trip_id ?? record.scan_entries?.trip_id ?? null,
+        trip_name: directTrip?.name ?? record.scan_entries?.trips?.name ?? null,
       })) || [];
-      setSpending(mapped);
+      setServerSpending(mapped);
     } catch (error) {
       console.error("Error fetching spending:", error);
-      toast.error("Failed to load spending data");
+      // Offline the last loaded list plus queued entries is all there is
+      if (navigator.onLine) toast.error("Failed to load spending data");
     } finally {
       setIsLoading(false);
     }
@@ -136,17 +185,59 @@ export default function Spending() {
 
   const fetchTrips = async () => {
     try {
-      const { data, error } = await supabase
-        .from("trips")
-        .select("id, name, destination, start_date, end_date")
-        .order("created_at", { ascending: false });
+      const [{ data, error }, roles] = await Promise.all([
+        supabase
+          .from("trips")
+          .select("id, name, destination, start_date, end_date, budget_amount, budget_currency, category_budgets")
+          .order("created_at", { ascending: false }),
+        fetchTripRoles(),
+      ]);
       if (error) throw error;
-      setTrips(data || []);
+      // Own and shared trips, not other people's public ones
+      setTrips(((data as Trip[] | null) || []).filter((trip) => roles[trip.id]));
+      setTripRoles(roles);
     } catch (error) {
       console.error("Error fetching trips:", error);
     }
   };
 
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("trip_members")
+        .select("id, trip_id, user_id, display_name, email")
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error("Error fetching trip members:", error);
+    }
+  };
+
+  const membersOf = (tripId: string | null) => (tripId ? members.filter((m) => m.trip_id === tripId) : []);
+
+  // A fresh expense on a shared trip defaults to "I paid, split equally".
+  const defaultSplitFor = (tripId: string | null): SplitDraft => {
+    const tripMembers = membersOf(tripId);
+    if (tripMembers.length < 2) return splitDraftFrom({}, []);
+    const self = tripMembers.find((m) => m.user_id === user?.id);
+    return splitDraftFrom(
+      { paid_by_member_id: self?.id ?? null, split_type: self ? "equal" : null },
+      tripMembers.map((m) => m.id)
+    );
+  };
+
+  // Expenses logged offline show up straight away, flagged until they sync.
+  const { spending, unsyncedIds } = useMemo(() => {
+    const { rows, unsyncedIds } = applyPendingChanges(serverSpending, operations, "spending_records");
+    const withTrips = rows.map((record) =>
+      record.trip_name !== undefined
+        ? record
+        : { ...record, trip_name: trips.find((t) => t.id === record.trip_id)?.name ?? null }
+    );
+    return { spending: withTrips, unsyncedIds };
+  }, [serverSpending, operations, trips]);
+
   const filteredSpending = selectedTrip === "all"
     ? spending
     : selectedTrip === "unassigned"
@@ -154,20 +245,63 @@ export default function Spending() {
       : spending.filter((s) => s.trip_id === selectedTrip);
 
   const today = new Date().toISOString().split("T")[0];
-  const totalToday = filteredSpending
-    .filter((s) => s.date === today)
-    .reduce((sum, s) => sum + Number(s.amount), 0);
-
-  const totalTrip = filteredSpending.reduce((sum, s) => sum + Number(s.amount), 0);
-
-  const categoryTotals = filteredSpending.reduce((acc, s) => {
-    acc[s.category] = (acc[s.category] || 0) + Number(s.amount);
-    return acc;
-  }, {} as Record<string, number>);
+  const selectedTripData = trips.find((trip) => trip.id === selectedTrip) || null;
+  const selectedRole = selectedTripData ? tripRoles[selectedTripData.id] : null;
+  // Viewers can look at a shared trip's spending but not add to it
+  const editableTrips = trips.filter((trip) => canEditTrip(tripRoles[trip.id]));
+  const targetTripId = selectedTripData && canEditTrip(selectedRole) ? selectedTripData.id : null;
+
+  // Expenses companions add to shared trips
+  useTripRealtime(
+    trips.map((trip) => trip.id),
+    (changes) => {
+      const added = changes.filter((change) => change.fromOthers && change.event === "INSERT");
+      if (added.length > 0) {
+        const trip = trips.find((t) => t.id === added[0].record.trip_id);
+        toast.info(
+          added.length === 1
+            ? `New expense on ${trip?.name ?? "a shared trip"}: ${added[0].record.amount} ${added[0].record.currency}`
+            : `${added.length} new expenses on shared trips`
+        );
+      }
+      if (changes.some((change) => change.fromOthers)) fetchSpending({ quiet: true });
+    },
+    ["spending_records"]
+  );
 
-  // Get the primary currency from spending records or user preference
-  const primaryCurrency = filteredSpending[0]?.currency || activeCurrency;
+  // Every record is converted into one reporting currency before summing:
+  // the trip's budget currency when a budgeted trip is selected, otherwise
+  // the user's active currency.
+  const primaryCurrency = selectedTripData?.budget_currency || activeCurrency;
   const symbol = getSymbol(primaryCurrency);
+  const totals = convertTotals(filteredSpending, primaryCurrency, convert);
+  const totalToday = totals.byDate[today] || 0;
+  const totalTrip = totals.total;
+  const categoryTotals = totals.byCategory;
+
+  const budgetSummary = selectedTripData?.budget_amount
+    ? summarizeBudget(
+        filteredSpending,
+        {
+          amount: Number(selectedTripData.budget_amount),
+          currency: primaryCurrency,
+          categories: selectedTripData.category_budgets || {},
+          startDate: selectedTripData.start_date,
+          endDate: selectedTripData.end_date,
+        },
+        convert
+      )
+    : null;
+  const isOverToday =
+    budgetSummary?.todayAllowance != null && budgetSummary.spentToday > budgetSummary.todayAllowance;
+
+  const selectedTripMembers = membersOf(selectedTripData?.id ?? null);
+  const settlement = selectedTripMembers.length > 1
+    ? settleUp(filteredSpending, selectedTripMembers.map((m) => m.id), primaryCurrency, convert)
+    : null;
+
+  // Check if we need to show currency conversion (when local differs from the reporting currency)
+  const showConversion = localCurrency !== primaryCurrency && !isUsingLocationCurrency;
 
   const handleScanReceipt = async () => {
     if (!user) {
@@ -187,10 +321,40 @@ export default function Spending() {
     fileInputRef.current?.click();
   };
 
+  // No connection: keep the receipt and scan it once we're back online
+  const captureReceiptForLater = async (image: string) => {
+    await queueCapture({
+      kind: "receipt",
+      image,
+      latitude,
+      longitude,
+      locationName,
+      tripId: targetTripId,
+      currency: activeCurrency,
+    });
+    toast.success("Receipt saved. It will be scanned when you're back online.");
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file || !user) return;
 
+    let image: string;
+    try {
+      // Receipts need a little more resolution than scans to stay legible
+      image = await compressImage(file, 1600, 0.85);
+    } catch (err) {
+      console.error("Image processing error:", err);
+      toast.error("Failed to process image. Please try again.");
+      return;
+    }
+
+    if (!navigator.onLine) {
+      await captureReceiptForLater(image);
+      return;
+    }
+
     const allowed = await incrementUsage();
     if (!allowed) {
       toast.error("AI usage limit reached for today");
@@ -198,57 +362,47 @@ export default function Spending() {
     }
 
     setIsScanning(true);
-    
-    const reader = new FileReader();
-    reader.onloadend = async () => {
-      const base64 = reader.result as string;
-      
-      try {
-        const { data, error } = await invokeAI<{
-          items?: Array<{ name: string; price: number; category: string }>;
-          currency?: string;
-          merchant?: string;
-          location?: string;
-          date?: string;
-          total?: number;
-        }>("scan-receipt", {
-          body: { image: base64, currency: activeCurrency },
+    try {
+      const { data, error } = await invokeAI<ScanReceiptResult>("scan-receipt", {
+        body: { image, currency: activeCurrency },
+      });
+
+      if (error?.code === "network") {
+        await captureReceiptForLater(image);
+        return;
+      }
+      if (error) throw error;
+
+      // Save extracted items to database
+      if (data.items.length > 0) {
+        const records = spendingRecordsFromReceipt(data, {
+          userId: user.id,
+          image: null,
+          latitude,
+          longitude,
+          locationName,
+          tripId: targetTripId,
+          currency: activeCurrency,
+          date: today,
         });
 
-        if (error) throw error;
-
-        // Save extracted items to database
-        if (data.items && data.items.length > 0) {
-          const records = data.items.map((item: { name: string; price: number; category: string }) => ({
-            user_id: user.id,
-            amount: item.price,
-            currency: data.currency || activeCurrency,
-            category: item.category || "Other",
-            merchant: data.merchant,
-            location_name: locationName || data.location,
-            date: data.date || today,
-            notes: item.name,
-          }));
-
-          const { error: insertError } = await supabase
-            .from("spending_records")
-            .insert(records);
-
-          if (insertError) throw insertError;
-
-          toast.success(`Added ${data.items.length} items totaling ${getSymbol(data.currency || activeCurrency)}${data.total || 0}`);
-          fetchSpending();
-        } else {
-          toast.info("No items found on receipt");
-        }
-      } catch (err) {
-        console.error("Receipt scan error:", err);
-        toast.error("Failed to scan receipt");
-      } finally {
-        setIsScanning(false);
+        const { error: insertError } = await supabase
+          .from("spending_records")
+          .insert(records as TablesInsert<"spending_records">[]);
+
+        if (insertError) throw insertError;
+
+        toast.success(`Added ${data.items.length} items totaling ${getSymbol(data.currency || activeCurrency)}${data.total || 0}`);
+        fetchSpending();
+      } else {
+        toast.info("No items found on receipt");
       }
-    };
-    reader.readAsDataURL(file);
+    } catch (err) {
+      console.error("Receipt scan error:", err);
+      toast.error(describeAIError(err, "Failed to scan receipt"));
+    } finally {
+      setIsScanning(false);
+    }
   };
 
   const addManualEntry = async () => {
@@ -257,25 +411,38 @@ export default function Spending() {
       return;
     }
 
+    const { fields: splitFields, error: splitError } = splitFieldsFromDraft(newSplit, parseFloat(newAmount));
+    if (splitError) {
+      toast.error(splitError);
+      return;
+    }
+
     setIsAdding(true);
     try {
-      const { error } = await supabase.from("spending_records").insert({
-        user_id: user.id,
-        amount: parseFloat(newAmount),
-        currency: activeCurrency,
-        category: newCategory,
-        merchant: newMerchant || null,
-        location_name: locationName,
-        date: today,
+      const result = await saveChange({
+        type: "create",
+        table: "spending_records",
+        data: {
+          id: crypto.randomUUID(),
+          user_id: user.id,
+          amount: parseFloat(newAmount),
+          currency: activeCurrency,
+          category: newCategory,
+          merchant: newMerchant || null,
+          location_name: locationName,
+          date: today,
+          notes: null,
+          created_at: new Date().toISOString(),
+          trip_id: newTripId === "none" ? null : newTripId,
+          ...splitFields,
+        },
       });
 
-      if (error) throw error;
-
-      toast.success("Entry added!");
+      toast.success(describeSave(result, "Entry added"));
       setNewAmount("");
       setNewMerchant("");
       setDialogOpen(false);
-      fetchSpending();
+      if (result === "saved") fetchSpending();
     } catch (err) {
       console.error("Add entry error:", err);
       toast.error("Failed to add entry");
@@ -284,15 +451,25 @@ export default function Spending() {
     }
   };
 
-  const deleteEntry = async (id: string) => {
-    const previous = spending;
-    setSpending((prev) => prev.filter((item) => item.id !== id));
+  const deleteEntry = async (record: SpendingRecord) => {
+    const previous = serverSpending;
+    setServerSpending((prev) => prev.filter((item) => item.id !== record.id));
     try {
-      const { error } = await supabase.from("spending_records").delete().eq("id", id);
-      if (error) throw error;
-      toast.success("Entry deleted");
+      const result = await saveChange({
+        type: "delete",
+        table: "spending_records",
+        data: { id: record.id },
+        label: `${record.amount} ${record.currency} · ${record.notes || record.merchant || record.category}`,
+        baseUpdatedAt: record.updated_at,
+      });
+      if (result === "conflict") {
+        setServerSpending(previous);
+        toast.warning(describeSave(result, "Entry deleted"));
+      } else {
+        toast.success(describeSave(result, "Entry deleted"));
+      }
     } catch (err) {
-      setSpending(previous);
+      setServerSpending(previous);
       console.error("Delete entry error:", err);
       toast.error("Failed to delete entry");
     }
@@ -378,13 +555,15 @@ export default function Spending() {
               {showConversion && !ratesLoading && (
                 <p className="text-xs text-muted-foreground/70 mt-0.5">
                   ≈ {getSymbol(localCurrency)}
-                  {(convert(totalToday, homeCurrency, localCurrency) || totalToday).toLocaleString(undefined, { maximumFractionDigits: 0 })} local
+                  {(convert(totalToday, primaryCurrency, localCurrency) || totalToday).toLocaleString(undefined, { maximumFractionDigits: 0 })} local
                 </p>
               )}
-              <div className="flex items-center gap-1 mt-1 text-xs text-success">
-                <TrendingUp className="h-3 w-3" />
-                <span>On budget</span>
-              </div>
+              {budgetSummary && (
+                <div className={`flex items-center gap-1 mt-1 text-xs ${isOverToday ? "text-warning" : "text-success"}`}>
+                  {isOverToday ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                  <span>{isOverToday ? "Over today's budget" : "On budget"}</span>
+                </div>
+              )}
             </motion.div>
             <motion.div 
               className="bg-card rounded-2xl p-4 border border-border/50"
@@ -397,7 +576,7 @@ export default function Spending() {
               {showConversion && !ratesLoading && (
                 <p className="text-xs text-muted-foreground/70 mt-0.5">
                   ≈ {getSymbol(localCurrency)}
-                  {(convert(totalTrip, homeCurrency, localCurrency) || totalTrip).toLocaleString(undefined, { maximumFractionDigits: 0 })} local
+                  {(convert(totalTrip, primaryCurrency, localCurrency) || totalTrip).toLocaleString(undefined, { maximumFractionDigits: 0 })} local
                 </p>
               )}
               <p className="text-xs text-muted-foreground mt-1">
@@ -418,6 +597,87 @@ export default function Spending() {
             </motion.div>
           )}
 
+          {/* Trip Budget */}
+          {selectedTripData && (
+            <motion.div variants={fadeInUp}>
+              {budgetSummary ? (
+                <TripBudgetCard
+                  summary={budgetSummary}
+                  getSymbol={getSymbol}
+                  action={
+                    canEditTrip(selectedRole) && (
+                      <TripBudgetDialog
+                        trip={selectedTripData}
+                        categories={categories}
+                        defaultCurrency={activeCurrency}
+                        onSaved={fetchTrips}
+                        trigger={
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
+                    )
+                  }
+                />
+              ) : canEditTrip(selectedRole) && (
+                <TripBudgetDialog
+                  trip={selectedTripData}
+                  categories={categories}
+                  defaultCurrency={activeCurrency}
+                  onSaved={fetchTrips}
+                  trigger={
+                    <Button variant="outline" className="w-full gap-2">
+                      <Wallet className="h-4 w-4" />
+                      Set a budget for {selectedTripData.name}
+                    </Button>
+                  }
+                />
+              )}
+            </motion.div>
+          )}
+
+          {/* Shared Expenses */}
+          {selectedTripData && (
+            <motion.div variants={fadeInUp}>
+              {settlement ? (
+                <SettleUpCard
+                  members={selectedTripMembers}
+                  settlement={settlement}
+                  getSymbol={getSymbol}
+                  action={
+                    selectedRole === "owner" && (
+                      <TripMembersDialog
+                        tripId={selectedTripData.id}
+                        tripName={selectedTripData.name}
+                        members={selectedTripMembers}
+                        onChanged={fetchMembers}
+                        trigger={
+                          <Button variant="ghost" size="icon" className="h-8 w-8">
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
+                    )
+                  }
+                />
+              ) : selectedRole === "owner" && (
+                <TripMembersDialog
+                  tripId={selectedTripData.id}
+                  tripName={selectedTripData.name}
+                  members={selectedTripMembers}
+                  onChanged={fetchMembers}
+                  trigger={
+                    <Button variant="outline" className="w-full gap-2">
+                      <Users className="h-4 w-4" />
+                      Split costs with travel companions
+                    </Button>
+                  }
+                />
+              )}
+            </motion.div>
+          )}
+
           {/* Currency Converter */}
           <motion.div variants={fadeInUp}>
             <CurrencyConverter />
@@ -440,6 +700,11 @@ export default function Spending() {
                 </>
               )}
             </Button>
+            {waitingReceipts > 0 && (
+              <p className="text-xs text-muted-foreground mt-2 text-center">
+                {waitingReceipts} receipt{waitingReceipts > 1 ? "s" : ""} waiting to be scanned once you're online
+              </p>
+            )}
           </motion.div>
 
           {/* Category Breakdown */}
@@ -466,6 +731,9 @@ export default function Spending() {
                 spending={spending}
                 trips={trips}
                 getSymbol={getSymbol}
+                convert={convert}
+                defaultCurrency={activeCurrency}
+                members={members}
                 trigger={
                   <Button variant="outline" className="w-full gap-2">
                     <FileText className="h-4 w-4" />
@@ -498,7 +766,16 @@ export default function Spending() {
                     </SelectContent>
                   </Select>
                 )}
-                <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <Dialog
+                  open={dialogOpen}
+                  onOpenChange={(open) => {
+                    if (open) {
+                      setNewTripId(targetTripId ?? "none");
+                      setNewSplit(defaultSplitFor(targetTripId));
+                    }
+                    setDialogOpen(open);
+                  }}
+                >
                   <DialogTrigger asChild>
                     <Button variant="ghost" size="sm" className="text-primary">
                       <Plus className="h-4 w-4 mr-1" />
@@ -512,7 +789,7 @@ export default function Spending() {
                     <div className="space-y-4 pt-4">
                       <Input
                         type="number"
-                        placeholder={`Amount (${symbol})`}
+                        placeholder={`Amount (${getSymbol(activeCurrency)})`}
                         value={newAmount}
                         onChange={(e) => setNewAmount(e.target.value)}
                         className="bg-background"
@@ -535,6 +812,36 @@ export default function Spending() {
                         onChange={(e) => setNewMerchant(e.target.value)}
                         className="bg-background"
                       />
+                      {editableTrips.length > 0 && (
+                        <Select
+                          value={newTripId}
+                          onValueChange={(tripId) => {
+                            setNewTripId(tripId);
+                            setNewSplit(defaultSplitFor(tripId === "none" ? null : tripId));
+                          }}
+                        >
+                          <SelectTrigger className="bg-background">
+                            <SelectValue placeholder="Trip" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No Trip</SelectItem>
+                            {editableTrips.map((trip) => (
+                              <SelectItem key={trip.id} value={trip.id}>
+                                {trip.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {membersOf(newTripId === "none" ? null : newTripId).length > 1 && (
+                        <SplitEditor
+                          members={membersOf(newTripId)}
+                          value={newSplit}
+                          onChange={setNewSplit}
+                          amount={parseFloat(newAmount) || 0}
+                          symbol={getSymbol(activeCurrency)}
+                        />
+                      )}
                       <Button
                         onClick={addManualEntry}
                         disabled={isAdding}
@@ -572,7 +879,13 @@ export default function Spending() {
                   <FeatureCard
                     icon={<Receipt className="h-5 w-5" />}
                     title={item.notes || item.merchant || item.category}
-                    subtitle={formatDate(item.date)}
+                    subtitle={
+                      (item.paid_by_member_id && item.split_type
+                        ? `${formatDate(item.date)} · paid by ${
+                            members.find((m) => m.id === item.paid_by_member_id)?.display_name || "?"
+                          }, split ${item.split_shares?.length ?? 0} ways`
+                        : formatDate(item.date)) + (unsyncedIds.has(item.id) ? " · not synced" : "")
+                    }
                     action={
                       <div className="flex items-center gap-2">
                         <span className="font-semibold">{getSymbol(item.currency)}{Number(item.amount).toLocaleString()}</span>
@@ -582,11 +895,24 @@ export default function Spending() {
                         <StatusBadge variant={item.trip_id ? "info" : "default"}>
                           {item.trip_name || "No Trip"}
                         </StatusBadge>
+                        {membersOf(item.trip_id).length > 1 && (
+                          <SplitExpenseDialog
+                            expense={{ ...item, title: item.notes || item.merchant || item.category }}
+                            members={membersOf(item.trip_id)}
+                            symbol={getSymbol(item.currency)}
+                            onSaved={fetchSpending}
+                            trigger={
+                              <Button size="icon" variant="ghost" className="h-8 w-8">
+                                <Users className="h-4 w-4" />
+                              </Button>
+                            }
+                          />
+                        )}
                         <Button
                           size="icon"
                           variant="ghost"
                           className="h-8 w-8"
-                          onClick={() => deleteEntry(item.id)}
+                          onClick={() => deleteEntry(item)}
                         >
                           <Trash2 className="h-4 w-4 text-destructive" />
                         </Button>
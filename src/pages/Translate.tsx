@@ -1,43 +1,43 @@
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
-import { MessageSquare, Volume2, Copy, Loader2, Globe, Mic } from "lucide-react";
+import { MessageSquare, MessagesSquare, Volume2, Copy, Loader2, Globe, Mic, BookmarkPlus } from "lucide-react";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ConversationMode } from "@/components/translate/ConversationMode";
+import { Phrasebook } from "@/components/translate/Phrasebook";
+import { SavePhraseDialog } from "@/components/translate/SavePhraseDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
 import { toast } from "sonner";
 import { useProfile } from "@/contexts/ProfileContext";
 import { useGeolocation } from "@/hooks/useGeolocation";
 import { languages, getLanguageFromCountry, getLanguageName } from "@/lib/languages";
 import { useSpeechRecognition } from "@/hooks/useSpeechRecognition";
 import { VoiceInputButton } from "@/components/voice/VoiceInputButton";
-import { MIC_BLOCKED_HELP } from "@/lib/permissions";
-
-const quickPhrases = [
-  { en: "Where is the bathroom?", category: "Essential" },
-  { en: "How much does this cost?", category: "Shopping" },
-  { en: "I need help", category: "Emergency" },
-  { en: "Can I have the menu?", category: "Restaurant" },
-  { en: "I am allergic to...", category: "Food" },
-  { en: "Please take me to this address", category: "Transport" },
-  { en: "Do you speak English?", category: "Essential" },
-  { en: "I am lost", category: "Emergency" },
-  { en: "Thank you", category: "Essential" },
-  { en: "Where is the train station?", category: "Transport" },
-];
+import { voiceErrorMessage } from "@/lib/permissions";
+import { getCachedTranslation, isOnline } from "@/lib/offlineStorage";
+import { canSpeak, speak } from "@/lib/speech";
+import { phraseCategories } from "@/lib/phrasebook";
+import { usePhrasebook } from "@/hooks/usePhrasebook";
 
 export default function Translate() {
   const { profile } = useProfile();
   const { countryCode } = useGeolocation();
   
   const [inputText, setInputText] = useState("");
+  // What the current translation is of, even if the input is edited since
+  const [translatedFrom, setTranslatedFrom] = useState("");
   const [translatedText, setTranslatedText] = useState("");
   const [pronunciation, setPronunciation] = useState("");
   const [isTranslating, setIsTranslating] = useState(false);
   const [targetLang, setTargetLang] = useState("ja");
+  const [mode, setMode] = useState<"phrase" | "conversation">("phrase");
+  const phrasebook = usePhrasebook();
   
   // Voice input
   const {
@@ -55,15 +55,7 @@ export default function Translate() {
   // failing silently (behaviour varies across Android WebViews).
   useEffect(() => {
     if (!voiceError) return;
-    const messages: Record<string, string> = {
-      "not-allowed": MIC_BLOCKED_HELP,
-      "service-not-allowed": MIC_BLOCKED_HELP,
-      "no-speech": "Didn't catch that — please tap the mic and speak again.",
-      "audio-capture": "No microphone was found on this device.",
-      "network": "Voice input needs an internet connection.",
-      "aborted": "",
-    };
-    const msg = messages[voiceError] ?? "Voice input isn't available right now. You can type instead.";
+    const msg = voiceErrorMessage(voiceError);
     if (msg) toast.error(msg);
   }, [voiceError]);
 
@@ -101,22 +93,28 @@ export default function Translate() {
 
     setIsTranslating(true);
     setInputText(textToTranslate);
+    setTranslatedFrom(textToTranslate);
     setTranslatedText("");
     setPronunciation("");
 
     try {
+      // Offline, only phrases saved with a city pack can be translated
+      if (!isOnline()) {
+        const saved = await getCachedTranslation(textToTranslate, "en", targetLang);
+        if (saved) {
+          setTranslatedText(saved);
+        } else {
+          toast.error(`You're offline. Download a city pack in Settings to use phrases in ${getLanguageName(targetLang)} offline.`);
+        }
+        return;
+      }
+
       const { data, error } = await invokeAI<{ translation: string; pronunciation?: string }>("translate", {
         body: { text: textToTranslate, targetLanguage: getLanguageName(targetLang) },
       });
 
       if (error) {
-        if (error.message?.includes("429")) {
-          toast.error("Rate limit exceeded. Please try again later.");
-        } else if (error.message?.includes("402")) {
-          toast.error("AI usage limit reached.");
-        } else {
-          toast.error("Translation failed. Please try again.");
-        }
+        toast.error(describeAIError(error, "Translation failed. Please try again."));
         return;
       }
 
@@ -134,43 +132,11 @@ export default function Translate() {
 
   const handleSpeak = async () => {
     if (!translatedText) return;
-    if (typeof window === "undefined" || !("speechSynthesis" in window)) {
+    if (!canSpeak()) {
       toast.error("Speech synthesis isn't supported in this browser");
       return;
     }
-
-    const synth = window.speechSynthesis;
-    const langMap: Record<string, string> = {
-      ja: "ja-JP", ko: "ko-KR", zh: "zh-CN", es: "es-ES", fr: "fr-FR",
-      de: "de-DE", it: "it-IT", pt: "pt-PT", ru: "ru-RU", ar: "ar-SA",
-      hi: "hi-IN", th: "th-TH", vi: "vi-VN", en: "en-US",
-    };
-    const utterance = new SpeechSynthesisUtterance(translatedText);
-    const lang = langMap[targetLang] || `${targetLang}-${targetLang.toUpperCase()}`;
-    utterance.lang = lang;
-
-    if (synth.getVoices().length === 0) {
-      await new Promise<void>((resolve) => {
-        const handleVoicesChanged = () => {
-          synth.removeEventListener("voiceschanged", handleVoicesChanged);
-          resolve();
-        };
-        synth.addEventListener("voiceschanged", handleVoicesChanged);
-      });
-    }
-
-    const voices = synth.getVoices();
-    const matchedVoice =
-      voices.find((voice) => voice.lang === lang) ||
-      voices.find((voice) => voice.lang.startsWith(targetLang)) ||
-      voices.find((voice) => voice.lang.startsWith(lang.split("-")[0]));
-
-    if (matchedVoice) {
-      utterance.voice = matchedVoice;
-    }
-
-    synth.cancel();
-    setTimeout(() => synth.speak(utterance), 0);
+    await speak(translatedText, targetLang);
   };
 
   const handleCopy = () => {
@@ -187,139 +153,167 @@ export default function Translate() {
           initial="initial"
           animate="animate"
         >
-          {/* Input Section */}
-          <motion.div className="space-y-3" variants={fadeInUp}>
-            <div className="flex items-center justify-between">
-              <p className="text-sm font-medium text-muted-foreground">English</p>
-              <div className="flex items-center gap-2">
-                <Globe className="h-4 w-4 text-muted-foreground" />
-                <Select value={targetLang} onValueChange={setTargetLang}>
-                  <SelectTrigger className="w-40 h-8 text-xs">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {languages.filter(l => l.code !== "en").map((lang) => (
-                      <SelectItem key={lang.code} value={lang.code}>
-                        {lang.name} ({lang.native})
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-            <div className="relative">
-              <Textarea
-                placeholder={isListening ? "Listening..." : "Type or speak what you want to say..."}
-                value={inputText}
-                onChange={(e) => setInputText(e.target.value)}
-                className="min-h-28 bg-card border-border/50 resize-none text-lg pr-14"
-              />
-              <div className="absolute right-2 top-2">
-                <VoiceInputButton
-                  isListening={isListening}
-                  isSupported={voiceSupported}
-                  onStart={startListening}
-                  onStop={stopListening}
-                />
-              </div>
-              {isListening && (
-                <motion.div
-                  className="absolute bottom-2 left-3 right-14 flex items-center gap-2"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                >
-                  <div className="flex gap-1">
-                    {[0, 1, 2].map((i) => (
-                      <motion.div
-                        key={i}
-                        className="w-1 h-3 bg-primary rounded-full"
-                        animate={{ scaleY: [1, 2, 1] }}
-                        transition={{
-                          repeat: Infinity,
-                          duration: 0.6,
-                          delay: i * 0.2,
-                        }}
-                      />
-                    ))}
-                  </div>
-                  <span className="text-xs text-muted-foreground">Listening...</span>
-                </motion.div>
-              )}
-            </div>
-            <Button
-              className="w-full h-12 bg-gradient-to-r from-primary to-accent text-primary-foreground"
-              onClick={() => handleTranslate()}
-              disabled={isTranslating || !inputText.trim()}
-            >
-              {isTranslating ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Translating...
-                </>
-              ) : (
-                <>
-                  <MessageSquare className="h-4 w-4 mr-2" />
+          <motion.div variants={fadeInUp}>
+            <Tabs value={mode} onValueChange={(v) => setMode(v as "phrase" | "conversation")}>
+              <TabsList className="w-full">
+                <TabsTrigger value="phrase" className="flex-1 text-xs">
+                  <MessageSquare className="h-3 w-3 mr-1" />
                   Translate
-                </>
-              )}
-            </Button>
+                </TabsTrigger>
+                <TabsTrigger value="conversation" className="flex-1 text-xs">
+                  <MessagesSquare className="h-3 w-3 mr-1" />
+                  Conversation
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
           </motion.div>
 
-          {/* Translation Result */}
-          {translatedText && (
-            <motion.div 
-              className="space-y-3"
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-            >
-              <p className="text-sm font-medium text-muted-foreground">{getLanguageName(targetLang)}</p>
-              <div className="bg-card rounded-2xl border border-primary/30 p-6 space-y-2">
-                <p className="text-2xl font-medium leading-relaxed">{translatedText}</p>
-                {pronunciation && (
-                  <p className="text-sm text-muted-foreground italic">{pronunciation}</p>
-                )}
-              </div>
-              <div className="flex gap-3">
-                <Button
-                  variant="outline"
-                  className="flex-1 h-12 border-border/50"
-                  onClick={handleSpeak}
-                >
-                  <Volume2 className="h-4 w-4 mr-2" />
-                  Speak
-                </Button>
+          {mode === "conversation" ? (
+            <ConversationMode theirLang={targetLang} onTheirLangChange={setTargetLang} />
+          ) : (
+            <>
+              {/* Input Section */}
+              <motion.div className="space-y-3" variants={fadeInUp}>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-muted-foreground">English</p>
+                  <div className="flex items-center gap-2">
+                    <Globe className="h-4 w-4 text-muted-foreground" />
+                    <Select value={targetLang} onValueChange={setTargetLang}>
+                      <SelectTrigger className="w-40 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {languages.filter(l => l.code !== "en").map((lang) => (
+                          <SelectItem key={lang.code} value={lang.code}>
+                            {lang.name} ({lang.native})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="relative">
+                  <Textarea
+                    placeholder={isListening ? "Listening..." : "Type or speak what you want to say..."}
+                    value={inputText}
+                    onChange={(e) => setInputText(e.target.value)}
+                    className="min-h-28 bg-card border-border/50 resize-none text-lg pr-14"
+                  />
+                  <div className="absolute right-2 top-2">
+                    <VoiceInputButton
+                      isListening={isListening}
+                      isSupported={voiceSupported}
+                      onStart={startListening}
+                      onStop={stopListening}
+                    />
+                  </div>
+                  {isListening && (
+                    <motion.div
+                      className="absolute bottom-2 left-3 right-14 flex items-center gap-2"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                    >
+                      <div className="flex gap-1">
+                        {[0, 1, 2].map((i) => (
+                          <motion.div
+                            key={i}
+                            className="w-1 h-3 bg-primary rounded-full"
+                            animate={{ scaleY: [1, 2, 1] }}
+                            transition={{
+                              repeat: Infinity,
+                              duration: 0.6,
+                              delay: i * 0.2,
+                            }}
+                          />
+                        ))}
+                      </div>
+                      <span className="text-xs text-muted-foreground">Listening...</span>
+                    </motion.div>
+                  )}
+                </div>
                 <Button
-                  variant="outline"
-                  className="flex-1 h-12 border-border/50"
-                  onClick={handleCopy}
+                  className="w-full h-12 bg-gradient-to-r from-primary to-accent text-primary-foreground"
+                  onClick={() => handleTranslate()}
+                  disabled={isTranslating || !inputText.trim()}
                 >
-                  <Copy className="h-4 w-4 mr-2" />
-                  Copy
+                  {isTranslating ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Translating...
+                    </>
+                  ) : (
+                    <>
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                      Translate
+                    </>
+                  )}
                 </Button>
-              </div>
-            </motion.div>
-          )}
+              </motion.div>
 
-          {/* Quick Phrases */}
-          <motion.div className="space-y-3" variants={fadeInUp}>
-            <h2 className="font-semibold text-lg">Quick Phrases</h2>
-            <div className="grid grid-cols-1 gap-2">
-              {quickPhrases.map((phrase, i) => (
-                <motion.button
-                  key={i}
-                  className="flex items-center justify-between p-4 bg-card rounded-xl border border-border/50 hover:border-primary/30 transition-all text-left"
-                  onClick={() => handleTranslate(phrase.en)}
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.98 }}
+              {/* Translation Result */}
+              {translatedText && (
+                <motion.div 
+                  className="space-y-3"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
                 >
-                  <span className="font-medium">{phrase.en}</span>
-                  <span className="text-xs text-muted-foreground px-2 py-1 bg-muted rounded-full">
-                    {phrase.category}
-                  </span>
-                </motion.button>
-              ))}
-            </div>
-          </motion.div>
+                  <p className="text-sm font-medium text-muted-foreground">{getLanguageName(targetLang)}</p>
+                  <div className="bg-card rounded-2xl border border-primary/30 p-6 space-y-2">
+                    <p className="text-2xl font-medium leading-relaxed">{translatedText}</p>
+                    {pronunciation && (
+                      <p className="text-sm text-muted-foreground italic">{pronunciation}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="outline"
+                      className="flex-1 h-12 border-border/50"
+                      onClick={handleSpeak}
+                    >
+                      <Volume2 className="h-4 w-4 mr-2" />
+                      Speak
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="flex-1 h-12 border-border/50"
+                      onClick={handleCopy}
+                    >
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </Button>
+                    {phrasebook.isSignedIn && (
+                      <SavePhraseDialog
+                        language={targetLang}
+                        categories={phraseCategories(phrasebook.phrases)}
+                        initial={{ text: translatedFrom, translation: translatedText, pronunciation }}
+                        onSave={phrasebook.save}
+                        trigger={
+                          <Button variant="outline" className="flex-1 h-12 border-border/50">
+                            <BookmarkPlus className="h-4 w-4 mr-2" />
+                            Save
+                          </Button>
+                        }
+                      />
+                    )}
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Phrasebook */}
+              <motion.div variants={fadeInUp}>
+                <Phrasebook
+                  language={targetLang}
+                  phrases={phrasebook.phrases}
+                  unsyncedIds={phrasebook.unsyncedIds}
+                  isSignedIn={phrasebook.isSignedIn}
+                  onSave={phrasebook.save}
+                  onUpdate={phrasebook.update}
+                  onRemove={phrasebook.remove}
+                  onTranslate={handleTranslate}
+                />
+              </motion.div>
+            </>
+          )}
         </motion.div>
       </AnimatedPage>
     </AppLayout>
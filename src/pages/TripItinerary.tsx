@@ -0,0 +1,367 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { CalendarPlus, ChevronLeft, Loader2, Map as MapIcon, Save, Sparkles } from "lucide-react";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
+import { Button } from "@/components/ui/button";
+import { MapView, type MapMarker } from "@/components/map/MapView";
+import { ItineraryDayCard, type DragItem } from "@/components/trip/ItineraryDayCard";
+import { ItineraryStopDialog } from "@/components/trip/ItineraryStopDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAIUsage } from "@/contexts/AIUsageContext";
+import { useSavedPlaces } from "@/hooks/useSavedPlaces";
+import { invokeAI } from "@/lib/aiInvoke";
+import { describeAIError } from "@/lib/aiErrors";
+import type { PlanDayResult } from "@/lib/aiSchemas";
+import { geocodeDestination } from "@/lib/places";
+import { describeSave, saveChangeVersioned } from "@/lib/syncOutbox";
+import {
+  addDay,
+  addStop,
+  emptyStop,
+  hasLocation,
+  loadItinerary,
+  locateStops,
+  moveDay,
+  moveStop,
+  removeDay,
+  removeStop,
+  replaceDay,
+  updateDay,
+  updateStop,
+  withDates,
+  type Itinerary,
+  type ItineraryStop,
+  type StopPosition,
+} from "@/lib/itinerary";
+import { toast } from "sonner";
+
+interface Trip {
+  id: string;
+  name: string;
+  destination: string | null;
+  start_date: string | null;
+  itinerary: unknown;
+  ai_itinerary: unknown;
+  updated_at?: string;
+}
+
+export default function TripItinerary() {
+  const { tripId } = useParams<{ tripId: string }>();
+  const navigate = useNavigate();
+  const { canUseAI, incrementUsage } = useAIUsage();
+  const { places: savedPlaces } = useSavedPlaces();
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [itinerary, setItinerary] = useState<Itinerary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedDay, setSelectedDay] = useState(0);
+  const [editing, setEditing] = useState<StopPosition | null>(null);
+  const [regeneratingDay, setRegeneratingDay] = useState<number | null>(null);
+  const [locatingDay, setLocatingDay] = useState<number | null>(null);
+  const [destinationCenter, setDestinationCenter] = useState<[number, number] | null>(null);
+  const dragRef = useRef<DragItem | null>(null);
+
+  useEffect(() => {
+    async function fetchTrip() {
+      if (!tripId) return;
+      try {
+        const { data, error } = await supabase
+          .from("trips")
+          .select("id, name, destination, start_date, itinerary, ai_itinerary, updated_at")
+          .eq("id", tripId)
+          .single();
+        if (error) throw error;
+        setTrip(data);
+        const loaded = loadItinerary(data);
+        setItinerary(loaded ? withDates(loaded, data.start_date) : null);
+      } catch (err) {
+        console.error("Error fetching trip:", err);
+        toast.error("Couldn't load this trip");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchTrip();
+  }, [tripId]);
+
+  // Somewhere to point the map before any stop has coordinates
+  useEffect(() => {
+    if (!trip?.destination) return;
+    const controller = new AbortController();
+    geocodeDestination(trip.destination, controller.signal)
+      .then((hit) => hit && setDestinationCenter([hit.lat, hit.lng]))
+      .catch(() => undefined);
+    return () => controller.abort();
+  }, [trip?.destination]);
+
+  const edit = (next: Itinerary) => {
+    setItinerary(next);
+    setIsDirty(true);
+  };
+
+  const day = itinerary?.days[Math.min(selectedDay, itinerary.days.length - 1)];
+
+  const dayMarkers = useMemo<MapMarker[]>(
+    () =>
+      (day?.stops || []).flatMap((stop, i) =>
+        hasLocation(stop)
+          ? [{
+              id: stop.id,
+              lat: stop.lat,
+              lng: stop.lng,
+              title: stop.title,
+              description: [stop.time, stop.placeName].filter(Boolean).join(" • ") || undefined,
+              type: "poi" as const,
+              icon: String(i + 1),
+            }]
+          : []
+      ),
+    [day]
+  );
+  const dayPath = useMemo<[number, number][]>(() => dayMarkers.map((m) => [m.lat, m.lng]), [dayMarkers]);
+  const center = useMemo<[number, number] | null>(
+    () => (dayPath.length > 0 ? dayPath[0] : destinationCenter),
+    [dayPath, destinationCenter]
+  );
+
+  const handleDrop = (target: StopPosition) => {
+    const item = dragRef.current;
+    dragRef.current = null;
+    if (!item || !itinerary) return;
+    if (item.kind === "day") {
+      edit(moveDay(itinerary, item.day, target.day));
+      setSelectedDay(target.day);
+    } else {
+      edit(moveStop(itinerary, item, target));
+    }
+  };
+
+  const regenerateDay = async (dayIndex: number, instructions: string) => {
+    if (!itinerary || !trip) return;
+    if (!canUseAI || !(await incrementUsage())) {
+      toast.error("AI usage limit reached for today");
+      return;
+    }
+
+    const target = itinerary.days[dayIndex];
+    setRegeneratingDay(dayIndex);
+    try {
+      const { data, error } = await invokeAI<PlanDayResult>("plan-day", {
+        body: {
+          destination: trip.destination || trip.name,
+          dayNumber: dayIndex + 1,
+          date: target.date || undefined,
+          otherDays: itinerary.days
+            .map((d, i) => (i === dayIndex ? null : `Day ${i + 1}: ${d.title || d.stops.map((s) => s.title).join(", ")}`))
+            .filter(Boolean),
+          fixedStops: target.stops
+            .filter((s) => s.bookings.length > 0)
+            .map((s) => [s.time, s.title].filter(Boolean).join(" ")),
+          instructions,
+        },
+      });
+      if (error) throw error;
+
+      const generated = {
+        title: data.day.title,
+        tips: data.day.tips,
+        stops: data.day.stops.map((stop) => emptyStop(stop as Partial<ItineraryStop>)),
+      };
+      // Setter form: the user may have kept editing other days meanwhile
+      setItinerary((current) => (current ? replaceDay(current, dayIndex, generated) : current));
+      setIsDirty(true);
+      setSelectedDay(dayIndex);
+      toast.success(`Day ${dayIndex + 1} re-planned. Save to keep it.`);
+    } catch (err) {
+      console.error("Error regenerating day:", err);
+      toast.error(describeAIError(err, "Couldn't re-plan this day"));
+    } finally {
+      setRegeneratingDay(null);
+    }
+  };
+
+  const locateDay = async (dayIndex: number) => {
+    if (!itinerary || !trip) return;
+    setLocatingDay(dayIndex);
+    try {
+      const located = await locateStops(itinerary.days[dayIndex], trip.destination);
+      const found = located.stops.filter(hasLocation).length - itinerary.days[dayIndex].stops.filter(hasLocation).length;
+      setItinerary((current) => (current ? updateDay(current, dayIndex, { stops: located.stops }) : current));
+      setIsDirty(true);
+      setSelectedDay(dayIndex);
+      if (found > 0) toast.success(`Found ${found} place${found === 1 ? "" : "s"} on the map`);
+      else toast.info("Couldn't find those places. Try a more specific name.");
+    } finally {
+      setLocatingDay(null);
+    }
+  };
+
+  const saveItinerary = async () => {
+    if (!trip || !itinerary) return;
+    setIsSaving(true);
+    try {
+      const { result, updatedAt } = await saveChangeVersioned({
+        type: "update",
+        table: "trips",
+        data: { id: trip.id, itinerary },
+        label: `${trip.name} itinerary`,
+        baseUpdatedAt: trip.updated_at,
+      });
+      if (result === "conflict") {
+        // Leave the edits marked unsaved until the conflict is settled
+        toast.warning(describeSave(result, "Itinerary saved"));
+        return;
+      }
+      toast.success(describeSave(result, "Itinerary saved"));
+      setIsDirty(false);
+      if (updatedAt) setTrip((prev) => (prev ? { ...prev, updated_at: updatedAt } : prev));
+    } catch (err) {
+      console.error("Error saving itinerary:", err);
+      toast.error("Failed to save itinerary");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <AppLayout title="Itinerary">
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <AppLayout title="Itinerary">
+        <div className="flex flex-col items-center justify-center py-16 gap-4 px-4">
+          <p className="text-muted-foreground">Trip not found</p>
+          <Button onClick={() => navigate("/journal")} variant="outline">
+            Back to Journal
+          </Button>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const editingStop = editing && itinerary ? itinerary.days[editing.day]?.stops[editing.index] ?? null : null;
+
+  return (
+    <AppLayout title={`${trip.name} itinerary`}>
+      <AnimatedPage>
+        <motion.div
+          className="px-4 py-4 space-y-4 pb-24"
+          variants={staggerContainer}
+          initial="initial"
+          animate="animate"
+        >
+          <motion.div variants={fadeInUp} className="flex items-center justify-between gap-2">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/journal")} className="-ml-2">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Journal
+            </Button>
+            {itinerary && (
+              <Button size="sm" onClick={saveItinerary} disabled={!isDirty || isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                {isDirty ? "Save" : "Saved"}
+              </Button>
+            )}
+          </motion.div>
+
+          {!itinerary ? (
+            <motion.div variants={fadeInUp} className="text-center py-8 space-y-3">
+              <MapIcon className="h-12 w-12 mx-auto opacity-30" />
+              <p className="text-muted-foreground">This trip has no itinerary yet.</p>
+              <div className="flex gap-2 justify-center">
+                <Button variant="outline" onClick={() => edit(withDates(addDay({ version: 1, days: [] }), trip.start_date))}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Start from scratch
+                </Button>
+                <Button onClick={() => navigate("/plan")}>
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Plan with AI
+                </Button>
+              </div>
+            </motion.div>
+          ) : (
+            <>
+              {/* Map for the selected day */}
+              <motion.div variants={fadeInUp} className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {day ? `Day ${Math.min(selectedDay, itinerary.days.length - 1) + 1}${day.title ? `: ${day.title}` : ""}` : ""}
+                  {day && dayMarkers.length < day.stops.length && ` · ${day.stops.length - dayMarkers.length} stop(s) not on the map`}
+                </p>
+                <div className="h-56">
+                  {center ? (
+                    <MapView center={center} zoom={13} markers={dayMarkers} route={dayPath} />
+                  ) : (
+                    <div className="h-full rounded-xl border border-dashed border-border/50 flex items-center justify-center text-xs text-muted-foreground px-6 text-center">
+                      Add places to this day's stops to see them on a map.
+                    </div>
+                  )}
+                </div>
+              </motion.div>
+
+              <motion.div variants={fadeInUp} className="space-y-3">
+                {itinerary.days.map((d, i) => (
+                  <ItineraryDayCard
+                    key={d.id}
+                    day={d}
+                    index={i}
+                    total={itinerary.days.length}
+                    isSelected={i === selectedDay}
+                    isRegenerating={regeneratingDay === i}
+                    isLocating={locatingDay === i}
+                    onSelect={() => setSelectedDay(i)}
+                    onTitleChange={(title) => edit(updateDay(itinerary, i, { title }))}
+                    onMoveDay={(to) => {
+                      edit(moveDay(itinerary, i, to));
+                      setSelectedDay(to);
+                    }}
+                    onRemove={() => {
+                      edit(removeDay(itinerary, i));
+                      setSelectedDay(0);
+                    }}
+                    onAddStop={() => {
+                      edit(addStop(itinerary, i));
+                      setEditing({ day: i, index: d.stops.length });
+                    }}
+                    onEditStop={(index) => setEditing({ day: i, index })}
+                    onRemoveStop={(index) => edit(removeStop(itinerary, { day: i, index }))}
+                    onRegenerate={(instructions) => regenerateDay(i, instructions)}
+                    onLocate={() => locateDay(i)}
+                    onDragStart={(item) => {
+                      dragRef.current = item;
+                    }}
+                    onDrop={handleDrop}
+                  />
+                ))}
+
+                <Button variant="outline" className="w-full" onClick={() => edit(withDates(addDay(itinerary), trip.start_date))}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Add day
+                </Button>
+              </motion.div>
+            </>
+          )}
+        </motion.div>
+      </AnimatedPage>
+
+      <ItineraryStopDialog
+        stop={editingStop}
+        savedPlaces={[
+          ...savedPlaces.filter((p) => p.trip_id === trip.id),
+          ...savedPlaces.filter((p) => p.trip_id !== trip.id),
+        ]}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={(patch) => editing && itinerary && edit(updateStop(itinerary, editing, patch))}
+      />
+    </AppLayout>
+  );
+}
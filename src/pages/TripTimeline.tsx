@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Camera, ChevronLeft, Loader2, MapPin, Pause, Play, Receipt, RotateCcw } from "lucide-react";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { AnimatedPage, fadeInUp, staggerContainer } from "@/components/AnimatedPage";
+import { Button } from "@/components/ui/button";
+import { MapView, type MapMarker } from "@/components/map/MapView";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrency } from "@/hooks/useCurrency";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useTripRealtime } from "@/hooks/useTripRealtime";
+import { formatCurrency } from "@/lib/currency";
+import { loadItinerary, withDates } from "@/lib/itinerary";
+import {
+  buildTimeline,
+  timelinePath,
+  type TimelineItem,
+  type TimelineKind,
+  type TimelineScan,
+  type TimelineSpending,
+} from "@/lib/tripTimeline";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+
+interface Trip {
+  id: string;
+  name: string;
+  destination: string | null;
+  start_date: string | null;
+  budget_currency: string | null;
+  itinerary: unknown;
+  ai_itinerary: unknown;
+}
+
+const REPLAY_STEP_MS = 900;
+
+const KIND_ICONS: Record<TimelineKind, typeof Camera> = {
+  stop: MapPin,
+  scan: Camera,
+  spending: Receipt,
+};
+
+export default function TripTimeline() {
+  const { tripId } = useParams<{ tripId: string }>();
+  const navigate = useNavigate();
+  const { activeCurrency } = useCurrency();
+  const { convert } = useExchangeRates();
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [scans, setScans] = useState<TimelineScan[]>([]);
+  const [spending, setSpending] = useState<TimelineSpending[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // How many points of the path the replay has reached; null when not replaying
+  const [replayStep, setReplayStep] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const fetchTimeline = useCallback(async () => {
+    if (!tripId) return;
+    try {
+      const [tripRes, scansRes, spendingRes] = await Promise.all([
+        supabase
+          .from("trips")
+          .select("id, name, destination, start_date, budget_currency, itinerary, ai_itinerary")
+          .eq("id", tripId)
+          .single(),
+        supabase
+          .from("scan_entries")
+          .select("id, name, category, location_name, latitude, longitude, image_url, created_at")
+          .eq("trip_id", tripId),
+        supabase
+          .from("spending_records")
+          .select("id, amount, currency, category, merchant, notes, location_name, date, created_at")
+          .eq("trip_id", tripId),
+      ]);
+      if (tripRes.error) throw tripRes.error;
+      if (scansRes.error) throw scansRes.error;
+      if (spendingRes.error) throw spendingRes.error;
+      setTrip(tripRes.data);
+      setScans(scansRes.data);
+      setSpending(spendingRes.data);
+    } catch (err) {
+      console.error("Error fetching trip timeline:", err);
+      toast.error("Couldn't load this trip");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tripId]);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [fetchTimeline]);
+
+  // Companions' scans and expenses appear as they add them
+  useTripRealtime(tripId ? [tripId] : [], (changes) => {
+    if (changes.some((change) => change.fromOthers)) fetchTimeline();
+  });
+
+  const currency = trip?.budget_currency || activeCurrency;
+  const days = useMemo(() => {
+    if (!trip) return [];
+    const itinerary = loadItinerary(trip);
+    return buildTimeline(
+      { scans, spending, itinerary: itinerary ? withDates(itinerary, trip.start_date) : null },
+      currency,
+      convert
+    );
+  }, [trip, scans, spending, currency, convert]);
+
+  const path = useMemo(() => timelinePath(days), [days]);
+  const route = useMemo<[number, number][]>(() => path.map((p) => [p.lat, p.lng]), [path]);
+  const currentId = replayStep !== null && replayStep > 0 ? path[replayStep - 1]?.id : null;
+
+  const items = useMemo(() => new Map(days.flatMap((d) => d.items.map((item) => [item.id, item] as const))), [days]);
+  const markers = useMemo<MapMarker[]>(() => {
+    const shown = replayStep === null ? path : path.slice(0, replayStep);
+    return shown.map((point, i) => {
+      const item = items.get(point.id);
+      return {
+        id: point.id,
+        lat: point.lat,
+        lng: point.lng,
+        title: item.title,
+        description: [item.time, item.subtitle].filter(Boolean).join(" • ") || undefined,
+        type: item.kind === "stop" ? ("poi" as const) : ("scan" as const),
+        icon: point.id === currentId ? "⭐" : String(i + 1),
+      };
+    });
+  }, [path, items, replayStep, currentId]);
+
+  // Advance the replay one point at a time, stopping at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setReplayStep((step) => {
+        const next = (step ?? 0) + 1;
+        if (next >= path.length) setIsPlaying(false);
+        return Math.min(next, path.length);
+      });
+    }, REPLAY_STEP_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, path.length]);
+
+  // Keep the entry being replayed in view in the list
+  useEffect(() => {
+    if (currentId) document.getElementById(`timeline-${currentId}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [currentId]);
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (replayStep === null || replayStep >= path.length) setReplayStep(1);
+    setIsPlaying(true);
+  };
+
+  const stopReplay = () => {
+    setIsPlaying(false);
+    setReplayStep(null);
+  };
+
+  const tripStart = trip?.start_date ? parseISO(trip.start_date) : days.length > 0 ? parseISO(days[0].day) : null;
+  const center: [number, number] | null = route.length > 0 ? route[0] : null;
+
+  const renderItem = (item: TimelineItem) => {
+    const Icon = KIND_ICONS[item.kind];
+    const isCurrent = item.id === currentId;
+    return (
+      <div
+        key={`${item.kind}-${item.id}`}
+        id={`timeline-${item.id}`}
+        className={`flex items-center gap-3 rounded-xl border p-2 bg-card transition-colors ${
+          isCurrent ? "border-primary bg-primary/5" : "border-border/50"
+        } ${item.kind === "stop" ? "border-dashed" : ""}`}
+      >
+        <span className="w-10 text-xs text-muted-foreground text-right flex-shrink-0">{item.time ?? ""}</span>
+        {item.image ? (
+          <img src={item.image} alt={item.title} className="h-10 w-10 rounded-lg object-cover flex-shrink-0" />
+        ) : (
+          <div className="h-10 w-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+            <Icon className="h-4 w-4 text-primary" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{item.title}</p>
+          {item.subtitle && <p className="text-xs text-muted-foreground truncate">{item.subtitle}</p>}
+        </div>
+        {item.amount !== null && (
+          <span className="text-sm font-semibold flex-shrink-0">{formatCurrency(item.amount, item.currency)}</span>
+        )}
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <AppLayout title="Timeline">
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout title={trip?.name || "Timeline"}>
+      <AnimatedPage>
+        <motion.div className="px-4 py-4 space-y-4 pb-24" variants={staggerContainer} initial="initial" animate="animate">
+          <motion.div variants={fadeInUp} className="flex items-center justify-between gap-2">
+            <Button variant="ghost" size="sm" onClick={() => navigate("/journal")} className="-ml-2">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Journal
+            </Button>
+            {route.length > 1 && (
+              <div className="flex gap-2">
+                {replayStep !== null && (
+                  <Button variant="outline" size="sm" onClick={stopReplay} title="Show the whole trip">
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button size="sm" onClick={togglePlay}>
+                  {isPlaying ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                  {isPlaying ? "Pause" : "Replay"}
+                </Button>
+              </div>
+            )}
+          </motion.div>
+
+          {center && (
+            <motion.div variants={fadeInUp} className="h-64">
+              <MapView
+                center={center}
+                zoom={12}
+                markers={markers}
+                route={route.length > 1 ? route : undefined}
+                routeProgress={replayStep ?? undefined}
+              />
+            </motion.div>
+          )}
+
+          {days.length === 0 ? (
+            <motion.p variants={fadeInUp} className="text-center text-sm text-muted-foreground py-10">
+              Nothing on this trip yet. Scans, spending and dated itinerary stops show up here in order.
+            </motion.p>
+          ) : (
+            <motion.div variants={fadeInUp} className="space-y-5">
+              {days.map((day) => {
+                const dayNumber = tripStart ? differenceInCalendarDays(parseISO(day.day), tripStart) + 1 : null;
+                return (
+                  <section key={day.day} className="space-y-2">
+                    <div className="sticky top-0 z-10 -mx-4 px-4 py-2 bg-background/95 backdrop-blur flex items-baseline justify-between gap-2 border-b border-border/50">
+                      <h3 className="text-sm font-semibold">
+                        {dayNumber !== null && dayNumber >= 1 && <span className="text-primary">Day {dayNumber} · </span>}
+                        {format(parseISO(day.day), "EEEE, MMM d")}
+                      </h3>
+                      {(day.spent > 0 || day.unconverted > 0) && (
+                        <span className="text-xs text-muted-foreground">
+                          {formatCurrency(day.spent, currency)}
+                          {day.unconverted > 0 && ` + ${day.unconverted} not converted`}
+                        </span>
+                      )}
+                    </div>
+                    {day.items.map(renderItem)}
+                  </section>
+                );
+              })}
+            </motion.div>
+          )}
+        </motion.div>
+      </AnimatedPage>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { invokeAI } from "@/lib/aiInvoke";
+import { AIError, aiErrorFromResponse, aiErrorFromStatus } from "@/lib/aiErrors";
+import { setAIProvider } from "@/lib/aiProviders";
+import type { ChatMessage } from "@/lib/openrouter";
+
+afterEach(() => setAIProvider(null));
+
+const safety = {
+  safetyLevel: "caution",
+  tips: ["Watch for pickpockets"],
+  emergencyNumbers: { police: "17", ambulance: "15", fire: "18" },
+};
+
+function scripted(...answers: string[]) {
+  const chat = vi.fn(async (_messages: ChatMessage[]) => answers.shift() ?? "");
+  setAIProvider({ id: "mock", needsUserKey: () => false, chat });
+  return chat;
+}
+
+describe("invokeAI validation", () => {
+  it("fills safe defaults without a retry", async () => {
+    const chat = scripted(JSON.stringify(safety));
+
+    const { data, error } = await invokeAI("get-safety-info", { body: { locationName: "Paris" } });
+
+    expect(error).toBeNull();
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(data).toMatchObject({ alerts: [], customsInfo: "", emergencyNumbers: { tourist_hotline: "" } });
+  });
+
+  it("sends validation problems back to the model and uses the repaired answer", async () => {
+    const chat = scripted(
+      JSON.stringify({ tips: ["Watch for pickpockets"] }),
+      JSON.stringify(safety)
+    );
+
+    const { data, error } = await invokeAI("get-safety-info", { body: { locationName: "Paris" } });
+
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ safetyLevel: "caution" });
+    expect(chat).toHaveBeenCalledTimes(2);
+    const repairPrompt = chat.mock.calls[1][0].at(-1)?.content as string;
+    expect(repairPrompt).toContain("safetyLevel");
+    expect(repairPrompt).toContain("emergencyNumbers");
+  });
+
+  it("gives up with an invalid_response error after the repair attempts", async () => {
+    const chat = scripted("not json", "still not json", "nope");
+
+    const { data, error } = await invokeAI("translate", { body: { text: "Hello", targetLanguage: "French" } });
+
+    expect(data).toBeNull();
+    expect(chat).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(AIError);
+    expect(error?.code).toBe("invalid_response");
+    expect(error?.issues).toEqual(["The response was not valid JSON."]);
+  });
+
+  it("requires the itinerary to match the requested duration", async () => {
+    const day = { day: 1, title: "Arrival", morning: "", afternoon: "", evening: "" };
+    const plan = (days: number) =>
+      JSON.stringify({
+        plan: {
+          overview: "Short break",
+          itinerary: Array.from({ length: days }, (_, i) => ({ ...day, day: i + 1 })),
+          budgetEstimate: { budget: "$", midRange: "$$", luxury: "$$$" },
+        },
+      });
+    const chat = scripted(plan(2), plan(3));
+
+    const { data, error } = await invokeAI<{ plan: { itinerary: unknown[] } }>("plan-trip", {
+      body: { destination: "Rome", duration: 3 },
+    });
+
+    expect(error).toBeNull();
+    expect(chat).toHaveBeenCalledTimes(2);
+    expect(data?.plan.itinerary).toHaveLength(3);
+  });
+});
+
+describe("AIError", () => {
+  it("maps HTTP statuses to codes", () => {
+    expect(aiErrorFromStatus(429, "slow down").code).toBe("rate_limited");
+    expect(aiErrorFromStatus(402, "").code).toBe("quota_exceeded");
+    expect(aiErrorFromStatus(401, "bad key").code).toBe("unauthorized");
+    expect(aiErrorFromStatus(503, "").retryable).toBe(true);
+  });
+
+  it("tells the proxy's daily quota apart from a provider rate limit", async () => {
+    const quota = await aiErrorFromResponse(
+      new Response(JSON.stringify({ error: "Daily AI limit reached", code: "quota_exceeded" }), { status: 429 })
+    );
+    const rateLimit = await aiErrorFromResponse(
+      new Response(JSON.stringify({ error: { message: "Rate limited upstream" } }), { status: 429 })
+    );
+
+    expect(quota.code).toBe("quota_exceeded");
+    expect(quota.message).toBe("Daily AI limit reached");
+    expect(rateLimit.code).toBe("rate_limited");
+  });
+
+  it("is returned as-is from a failing provider", async () => {
+    setAIProvider({
+      id: "mock",
+      needsUserKey: () => false,
+      chat: () => Promise.reject(aiErrorFromStatus(429, "Too many requests")),
+    });
+
+    const { error } = await invokeAI("translate", { body: { text: "Hi", targetLanguage: "German" } });
+
+    expect(error?.code).toBe("rate_limited");
+    expect(error?.status).toBe(429);
+    expect(error?.message).toBe("Too many requests");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { invokeAI } from "@/lib/aiInvoke";
+import { setAIProvider, type AIProvider } from "@/lib/aiProviders";
+
+afterEach(() => setAIProvider(null));
+
+describe("invokeAI with the mock provider", () => {
+  it("returns a plan with the requested number of days", async () => {
+    setAIProvider("mock");
+    const { data, error } = await invokeAI<{ plan: { itinerary: unknown[] } }>("plan-trip", {
+      body: { destination: "Lisbon", duration: 4 },
+    });
+
+    expect(error).toBeNull();
+    expect(data?.plan.itinerary).toHaveLength(4);
+  });
+
+  it("re-plans a single day", async () => {
+    setAIProvider("mock");
+    const { data, error } = await invokeAI<{ day: { title: string; stops: unknown[] } }>("plan-day", {
+      body: { destination: "Lisbon", dayNumber: 2, otherDays: ["Day 1: Alfama"] },
+    });
+
+    expect(error).toBeNull();
+    expect(data?.day.title).toBe("A fresh day 2 in Lisbon");
+    expect(data?.day.stops.length).toBeGreaterThan(0);
+  });
+
+  it("extracts bookings from a confirmation", async () => {
+    setAIProvider("mock");
+    const { data, error } = await invokeAI<{ bookings: { kind: string; cost: number }[] }>("extract-booking", {
+      body: { text: "Your stay is confirmed" },
+    });
+
+    expect(error).toBeNull();
+    expect(data?.bookings[0]).toMatchObject({ kind: "hotel", cost: 360 });
+  });
+
+  it("answers from the journal entries it was given", async () => {
+    setAIProvider("mock");
+    const { data, error } = await invokeAI<{ answer: string; sources: string[] }>("ask-journal", {
+      body: {
+        question: "What was that ramen place in Osaka?",
+        entries: [{ id: "s1", kind: "scan", title: "Ichiran", subtitle: "menu · Osaka", date: "2026-03-02", body: "Tonkotsu ramen" }],
+      },
+    });
+
+    expect(error).toBeNull();
+    expect(data).toEqual({ answer: "From your journal: Ichiran.", sources: ["s1"] });
+  });
+
+  it("translates several lines in one call, in order", async () => {
+    setAIProvider("mock");
+    const { data, error } = await invokeAI<{ translations: string[] }>("translate-lines", {
+      body: { lines: ["出口", "切符売り場"], targetLanguage: "English" },
+    });
+
+    expect(error).toBeNull();
+    expect(data?.translations).toEqual(["[English] 出口", "[English] 切符売り場"]);
+  });
+
+  it("is deterministic", async () => {
+    setAIProvider("mock");
+    const body = { text: "Where is the station?", targetLanguage: "Portuguese" };
+    const first = await invokeAI("translate", { body });
+    const second = await invokeAI("translate", { body });
+
+    expect(first.data).toEqual(second.data);
+    expect(first.data).toEqual({ translation: "[Portuguese] Where is the station?", pronunciation: "" });
+  });
+});
+
+describe("invokeAI provider routing", () => {
+  it("passes the task and vision flag to the provider", async () => {
+    const chat = vi.fn().mockResolvedValue("{}");
+    const provider: AIProvider = { id: "mock", needsUserKey: () => false, chat };
+    setAIProvider(provider);
+
+    await invokeAI("analyze-image", { body: { image: "data:image/png;base64,AAAA" } });
+
+    expect(chat).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ task: "analyze-image", vision: true, jsonMode: true })
+    );
+  });
+
+  it("surfaces provider failures as errors", async () => {
+    setAIProvider({ id: "mock", needsUserKey: () => false, chat: () => Promise.reject(new Error("503 down")) });
+
+    const { data, error } = await invokeAI("get-safety-info", { body: { locationName: "Paris" } });
+
+    expect(data).toBeNull();
+    expect(error?.message).toBe("503 down");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { bookingStops, spendingCategoryFor, spendingRecordFromBooking, type ExtractedBooking } from "@/lib/bookings";
+import { emptyDay, emptyStop, placeDatedStops } from "@/lib/itinerary";
+
+const booking = (patch: Partial<ExtractedBooking>): ExtractedBooking => ({
+  kind: "other",
+  title: "",
+  provider: null,
+  confirmationNumber: null,
+  start: { date: "2026-05-01", time: null },
+  end: null,
+  startAddress: null,
+  endAddress: null,
+  cost: null,
+  currency: null,
+  notes: null,
+  ...patch,
+});
+
+const hotel = booking({
+  kind: "hotel",
+  title: "Hotel Avenida",
+  provider: "Hotel Avenida",
+  confirmationNumber: "55512",
+  start: { date: "2026-05-01", time: "15:00" },
+  end: { date: "2026-05-04", time: "11:00" },
+  startAddress: "Av. da Liberdade 1, Lisbon",
+  cost: 360,
+  currency: "EUR",
+});
+
+const flight = booking({
+  kind: "flight",
+  title: "TP 1351 London → Lisbon",
+  provider: "TAP",
+  confirmationNumber: "X7K2PQ",
+  start: { date: "2026-05-01", time: "07:15" },
+  end: { date: "2026-05-01", time: "09:50" },
+  startAddress: "London Heathrow",
+  endAddress: "Lisbon Airport",
+});
+
+describe("bookingStops", () => {
+  it("checks in and out of hotels", () => {
+    const stops = bookingStops(hotel);
+    expect(stops.map(({ date, stop }) => [date, stop.time, stop.title])).toEqual([
+      ["2026-05-01", "15:00", "Check in: Hotel Avenida"],
+      ["2026-05-04", "11:00", "Check out: Hotel Avenida"],
+    ]);
+    expect(stops[0].stop.bookings).toEqual([{ label: "Hotel", reference: "55512", url: null }]);
+  });
+
+  it("notes where and when a flight arrives", () => {
+    const [{ stop }] = bookingStops(flight);
+    expect(stop).toMatchObject({ placeName: "London Heathrow", notes: "Arrives 09:50 at Lisbon Airport." });
+  });
+
+  it("picks up and drops off rental cars", () => {
+    const stops = bookingStops(booking({ kind: "car_rental", title: "Compact car", end: { date: "2026-05-03", time: "10:00" }, startAddress: "Airport" }));
+    expect(stops.map(({ stop }) => [stop.title, stop.placeName])).toEqual([
+      ["Pick up: Compact car", "Airport"],
+      ["Drop off: Compact car", "Airport"],
+    ]);
+  });
+});
+
+describe("spending from bookings", () => {
+  it("files costs as accommodation or transport", () => {
+    expect(["hotel", "flight", "train", "car_rental", "other"].map((k) => spendingCategoryFor(k as ExtractedBooking["kind"]))).toEqual([
+      "Accommodation",
+      "Transport",
+      "Transport",
+      "Transport",
+      "Other",
+    ]);
+    expect(spendingRecordFromBooking(hotel, { userId: "u1", tripId: "t1", currency: "USD" })).toEqual({
+      user_id: "u1",
+      amount: 360,
+      currency: "EUR",
+      category: "Accommodation",
+      merchant: "Hotel Avenida",
+      location_name: "Av. da Liberdade 1, Lisbon",
+      date: "2026-05-01",
+      notes: "Hotel Avenida · Confirmation 55512",
+      trip_id: "t1",
+    });
+  });
+
+  it("skips bookings without a cost", () => {
+    expect(spendingRecordFromBooking(flight, { userId: "u1", tripId: "t1", currency: "USD" })).toBeNull();
+  });
+});
+
+describe("placeDatedStops", () => {
+  it("adds stops in time order and grows the trip to fit", () => {
+    const itinerary = {
+      version: 1 as const,
+      days: [
+        emptyDay({ title: "Alfama", stops: [emptyStop({ time: "10:00", title: "Castle" }), emptyStop({ time: "16:00", title: "Tram 28" })] }),
+        emptyDay({ title: "Belém" }),
+      ],
+    };
+    const placed = placeDatedStops(itinerary, { start_date: "2026-05-01", end_date: "2026-05-02" }, [...bookingStops(hotel), ...bookingStops(flight)]);
+
+    expect(placed).toMatchObject({ start_date: "2026-05-01", end_date: "2026-05-04", skipped: 0 });
+    expect(placed.itinerary.days.map((d) => d.date)).toEqual(["2026-05-01", "2026-05-02", "2026-05-03", "2026-05-04"]);
+    expect(placed.itinerary.days[0].stops.map((s) => s.title)).toEqual([
+      "TP 1351 London → Lisbon",
+      "Castle",
+      "Check in: Hotel Avenida",
+      "Tram 28",
+    ]);
+    expect(placed.itinerary.days[0].title).toBe("Alfama");
+    expect(placed.itinerary.days[3].title).toBe("Check out: Hotel Avenida");
+    expect(placed.itinerary.days[2].stops).toEqual([]);
+  });
+
+  it("starts a trip without dates and ignores a second import", () => {
+    const first = placeDatedStops(null, { start_date: null, end_date: null }, bookingStops(hotel));
+    expect(first.itinerary.days).toHaveLength(4);
+
+    const again = placeDatedStops(first.itinerary, first, bookingStops(hotel));
+    expect(again.itinerary.days.flatMap((d) => d.stops)).toHaveLength(2);
+  });
+
+  it("leaves out stops far from the trip", () => {
+    const placed = placeDatedStops(null, { start_date: "2026-05-01", end_date: null }, bookingStops(booking({ title: "Next year", start: { date: "2027-05-01", time: null } })));
+    expect(placed).toMatchObject({ skipped: 1, end_date: "2026-05-01" });
+  });
+});
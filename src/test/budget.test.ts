@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { convertTotals, summarizeBudget, type ConvertFn } from "@/lib/budget";
+
+// Fixed rates relative to EUR, the same shape useExchangeRates().convert uses.
+const rates: Record<string, number> = { EUR: 1, CHF: 0.5, GBP: 0.8 };
+const convert: ConvertFn = (amount, from, to) => {
+  if (!rates[from] || !rates[to]) return null;
+  return (amount / rates[from]) * rates[to];
+};
+
+describe("convertTotals", () => {
+  it("converts mixed currencies into one before summing", () => {
+    const totals = convertTotals(
+      [
+        { amount: 10, currency: "EUR", category: "Food", date: "2026-05-01" },
+        { amount: 20, currency: "CHF", category: "Food", date: "2026-05-01" },
+        { amount: 8, currency: "GBP", category: "Transport", date: "2026-05-02" },
+      ],
+      "EUR",
+      convert
+    );
+
+    expect(totals.total).toBeCloseTo(10 + 40 + 10);
+    expect(totals.byCategory.Food).toBeCloseTo(50);
+    expect(totals.byDate["2026-05-02"]).toBeCloseTo(10);
+    expect(totals.unconverted).toBe(0);
+  });
+
+  it("leaves records without a rate out of the totals", () => {
+    const totals = convertTotals(
+      [
+        { amount: 10, currency: "EUR", category: "Food", date: "2026-05-01" },
+        { amount: 1000, currency: "JPY", category: "Food", date: "2026-05-01" },
+      ],
+      "EUR",
+      convert
+    );
+
+    expect(totals.total).toBe(10);
+    expect(totals.unconverted).toBe(1);
+    expect(totals.unconvertedCurrencies).toEqual(["JPY"]);
+  });
+});
+
+describe("summarizeBudget", () => {
+  const budget = {
+    amount: 1000,
+    currency: "EUR",
+    categories: { Food: 300 },
+    startDate: "2026-05-01",
+    endDate: "2026-05-10",
+  };
+
+  it("projects what is left per remaining day", () => {
+    const summary = summarizeBudget(
+      [
+        { amount: 100, currency: "EUR", category: "Food", date: "2026-05-01" },
+        { amount: 200, currency: "CHF", category: "Food", date: "2026-05-02" },
+      ],
+      budget,
+      convert,
+      new Date(2026, 4, 3)
+    );
+
+    expect(summary.spent).toBeCloseTo(500);
+    expect(summary.remaining).toBeCloseTo(500);
+    expect(summary.daysLeft).toBe(8);
+    expect(summary.remainingPerDay).toBeCloseTo(62.5);
+    expect(summary.categories).toEqual([{ category: "Food", budget: 300, spent: 500, remaining: -200 }]);
+  });
+
+  it("builds a burn-down across the whole trip", () => {
+    const summary = summarizeBudget(
+      [{ amount: 100, currency: "EUR", category: "Food", date: "2026-05-01" }],
+      budget,
+      convert,
+      new Date(2026, 4, 2)
+    );
+
+    expect(summary.burnDown).toHaveLength(10);
+    expect(summary.burnDown[0]).toMatchObject({ date: "2026-05-01", remaining: 900 });
+    expect(summary.burnDown[1]).toMatchObject({ date: "2026-05-02", remaining: 900, projected: 900 });
+    // Two elapsed days at 50/day.
+    expect(summary.burnDown[9].remaining).toBeNull();
+    expect(summary.burnDown[9].projected).toBeCloseTo(900 - 50 * 8);
+    expect(summary.burnDown[9].ideal).toBeCloseTo(0);
+  });
+
+  it("has no daily allowance once the trip is over", () => {
+    const summary = summarizeBudget([], budget, convert, new Date(2026, 5, 1));
+    expect(summary.daysLeft).toBe(0);
+    expect(summary.remainingPerDay).toBeNull();
+  });
+});
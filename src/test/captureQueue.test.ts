@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { CapturedPhoto } from "@/lib/offlineStorage";
+import { AIError } from "@/lib/aiErrors";
+
+let captures: CapturedPhoto[] = [];
+
+vi.mock("@/lib/offlineStorage", () => ({
+  addCapture: async (capture: CapturedPhoto) => {
+    captures.push(capture);
+  },
+  getCaptures: async () => captures.map((capture) => ({ ...capture })),
+  updateCapture: async (capture: CapturedPhoto) => {
+    captures = captures.map((existing) => (existing.id === capture.id ? capture : existing));
+  },
+  deleteCapture: async (id: string) => {
+    captures = captures.filter((capture) => capture.id !== id);
+  },
+}));
+
+const invokeAI = vi.fn();
+vi.mock("@/lib/aiInvoke", () => ({ invokeAI: (...args: unknown[]) => invokeAI(...args) }));
+
+const saveChange = vi.fn(async (..._args: unknown[]) => "saved");
+vi.mock("@/lib/syncOutbox", () => ({ saveChange: (...args: unknown[]) => saveChange(...args) }));
+
+import { MAX_CAPTURE_ATTEMPTS, processCaptureQueue, queueCapture } from "@/lib/captureQueue";
+
+const photo = { image: "data:image/jpeg;base64,AAAA", latitude: 38.7, longitude: -9.1, locationName: "Lisbon", tripId: "trip-1" };
+
+beforeEach(() => {
+  captures = [];
+  invokeAI.mockReset();
+  saveChange.mockClear();
+});
+
+describe("processCaptureQueue", () => {
+  it("turns a queued scan into a journal entry dated when the photo was taken", async () => {
+    await queueCapture({ ...photo, kind: "scan", currency: null });
+    const takenAt = captures[0].capturedAt;
+    invokeAI.mockResolvedValue({
+      data: { category: "monument", name: "Belém Tower", description: "A fortified tower" },
+      error: null,
+    });
+    const onProcessed = vi.fn();
+
+    const processed = await processCaptureQueue("user-1", { onProcessed });
+
+    expect(processed).toBe(1);
+    expect(captures).toEqual([]);
+    expect(invokeAI).toHaveBeenCalledWith("analyze-image", { body: { image: photo.image } });
+    expect(saveChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        table: "scan_entries",
+        data: expect.objectContaining({ created_at: takenAt, latitude: 38.7, trip_id: "trip-1", user_id: "user-1" }),
+      })
+    );
+    expect(onProcessed).toHaveBeenCalledWith(expect.objectContaining({ body: "Belém Tower" }));
+  });
+
+  it("adds one expense per receipt line in the captured currency", async () => {
+    await queueCapture({ ...photo, kind: "receipt", currency: "EUR" });
+    const takenOn = captures[0].capturedAt.split("T")[0];
+    invokeAI.mockResolvedValue({
+      data: {
+        items: [
+          { name: "Pastel de nata", price: 1.5, category: "Food" },
+          { name: "Coffee", price: 1, category: "Food" },
+        ],
+        merchant: "Pastéis de Belém",
+        currency: "",
+        location: "",
+        date: "",
+      },
+      error: null,
+    });
+
+    await processCaptureQueue("user-1");
+
+    expect(saveChange).toHaveBeenCalledTimes(2);
+    expect(saveChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        table: "spending_records",
+        data: expect.objectContaining({ amount: 1.5, currency: "EUR", date: takenOn, merchant: "Pastéis de Belém" }),
+      })
+    );
+  });
+
+  it("retries a partly saved receipt with the same records and no new AI call", async () => {
+    await queueCapture({ ...photo, kind: "receipt", currency: "EUR" });
+    invokeAI.mockResolvedValue({
+      data: {
+        items: [
+          { name: "Pastel de nata", price: 1.5, category: "Food" },
+          { name: "Coffee", price: 1, category: "Food" },
+        ],
+        merchant: "",
+        currency: "",
+        location: "",
+        date: "",
+      },
+      error: null,
+    });
+    saveChange.mockResolvedValueOnce("saved").mockRejectedValueOnce(new Error("Server error"));
+
+    expect(await processCaptureQueue("user-1")).toBe(0);
+    const beforeEach = vi.fn(async () => true);
+    expect(await processCaptureQueue("user-1", { beforeEach })).toBe(1);
+
+    expect(invokeAI).toHaveBeenCalledTimes(1);
+    expect(beforeEach).not.toHaveBeenCalled();
+    const ids = saveChange.mock.calls.map(([change]) => (change as { data: { id: string } }).data.id);
+    expect(ids).toHaveLength(4);
+    expect(ids.slice(2)).toEqual(ids.slice(0, 2));
+  });
+
+  it("keeps photos queued while the network or quota is unavailable", async () => {
+    await queueCapture({ ...photo, kind: "scan", currency: null });
+    await queueCapture({ ...photo, kind: "scan", currency: null });
+    invokeAI.mockResolvedValue({ data: null, error: new AIError("network", "Failed to fetch") });
+
+    expect(await processCaptureQueue("user-1")).toBe(0);
+    expect(invokeAI).toHaveBeenCalledTimes(1);
+    expect(captures.map((c) => [c.status, c.attempts])).toEqual([["queued", 0], ["queued", 0]]);
+
+    const beforeEach = vi.fn(async () => false);
+    await processCaptureQueue("user-1", { beforeEach });
+    expect(invokeAI).toHaveBeenCalledTimes(1);
+  });
+
+  it("sets a photo aside after repeated bad answers", async () => {
+    await queueCapture({ ...photo, kind: "scan", currency: null });
+    invokeAI.mockResolvedValue({ data: null, error: new AIError("invalid_response", "Unreadable") });
+
+    for (let i = 0; i < MAX_CAPTURE_ATTEMPTS; i++) {
+      await processCaptureQueue("user-1");
+    }
+
+    expect(captures[0]).toMatchObject({ status: "failed", attempts: MAX_CAPTURE_ATTEMPTS, lastError: "Unreadable" });
+    await processCaptureQueue("user-1");
+    expect(invokeAI).toHaveBeenCalledTimes(MAX_CAPTURE_ATTEMPTS);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/aiInvoke", () => ({ invokeAI: vi.fn() }));
+vi.mock("@/lib/offlineStorage", () => ({}));
+
+import {
+  bboxAround,
+  findPackFor,
+  placesFromPack,
+  rebaseRates,
+  splitTranslatedLines,
+  tilesForBBox,
+  type CityPack,
+} from "@/lib/cityPacks";
+import { OFFLINE_TILES_ALLOWED, tileUrl } from "@/lib/mapTiles";
+
+function pack(overrides: Partial<CityPack>): CityPack {
+  return {
+    id: "lisbon-portugal",
+    name: "Lisbon, Portugal",
+    countryCode: "PT",
+    latitude: 38.7223,
+    longitude: -9.1393,
+    bbox: bboxAround(38.7223, -9.1393),
+    places: { tourist: [], essentials: [] },
+    safety: null,
+    currency: "EUR",
+    rates: null,
+    language: "pt",
+    phrases: [],
+    tileCount: 0,
+    sizeBytes: 0,
+    downloadedAt: "2026-10-01T10:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("tilesForBBox", () => {
+  it("covers the box at every zoom when it fits", () => {
+    const tiles = tilesForBBox(bboxAround(38.7223, -9.1393, 1), [12, 13, 14]);
+    expect(new Set(tiles.map((t) => t.z))).toEqual(new Set([12, 13, 14]));
+    // Lisbon at zoom 12
+    expect(tiles).toContainEqual({ z: 12, x: 1943, y: 1569 });
+  });
+
+  it("drops the deepest zooms to stay under the cap", () => {
+    const tiles = tilesForBBox(bboxAround(38.7223, -9.1393), [12, 13, 14, 15, 16, 17], 300);
+    expect(tiles.length).toBeLessThanOrEqual(300);
+    expect(tiles.some((t) => t.z === 17)).toBe(false);
+    expect(tiles.some((t) => t.z === 12)).toBe(true);
+  });
+});
+
+describe("tileUrl", () => {
+  it("fills in the template like Leaflet", () => {
+    expect(tileUrl(12, 1943, 1569, "https://{s}.tiles.example/{z}/{x}/{y}{r}.png")).toBe(
+      "https://c.tiles.example/12/1943/1569.png"
+    );
+  });
+
+  it("doesn't download OpenStreetMap tiles for packs by default", () => {
+    expect(OFFLINE_TILES_ALLOWED).toBe(false);
+  });
+});
+
+describe("findPackFor", () => {
+  it("picks the pack covering the point with the closest centre", () => {
+    const wide = pack({ id: "wide", latitude: 38.7, longitude: -9.2, bbox: bboxAround(38.7, -9.2, 20) });
+    const city = pack({});
+    expect(findPackFor([wide, city], 38.72, -9.14)?.id).toBe("lisbon-portugal");
+    expect(findPackFor([wide, city], 38.75, -9.35)?.id).toBe("wide");
+    expect(findPackFor([city], 41.15, -8.61)).toBeNull();
+  });
+});
+
+describe("placesFromPack", () => {
+  it("measures distances from the current position", () => {
+    const p = pack({
+      places: {
+        tourist: [
+          { id: "far", name: "Belém Tower", lat: 38.6916, lng: -9.216, type: "monument", icon: "🏛️", distanceMeters: 10 },
+          { id: "near", name: "Rossio", lat: 38.7139, lng: -9.1394, type: "square", icon: "⭐", distanceMeters: 9000 },
+        ],
+        essentials: [],
+      },
+    });
+    const places = placesFromPack(p, "tourist", 38.714, -9.14);
+    expect(places.map((place) => place.id)).toEqual(["near", "far"]);
+    expect(places[0].distanceMeters).toBeLessThan(100);
+  });
+});
+
+describe("splitTranslatedLines", () => {
+  it("strips the numbering from a batch translation", () => {
+    expect(splitTranslatedLines("1. Obrigado\n\n2) Estou perdido\n", 2)).toEqual(["Obrigado", "Estou perdido"]);
+  });
+
+  it("rejects answers with missing lines", () => {
+    expect(splitTranslatedLines("1. Obrigado", 2)).toBeNull();
+  });
+});
+
+describe("rebaseRates", () => {
+  it("converts a EUR table into a USD one", () => {
+    const rates = rebaseRates({ EUR: 1, USD: 1.25, GBP: 0.85 }, "EUR", "USD");
+    expect(rates?.USD).toBe(1);
+    expect(rates?.EUR).toBeCloseTo(0.8);
+    expect(rates?.GBP).toBeCloseTo(0.68);
+  });
+
+  it("gives up when the base is missing", () => {
+    expect(rebaseRates({ EUR: 1 }, "EUR", "JPY")).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { conversationEntry, detectLanguage, transcriptText, turnDirection, type ConversationTurn } from "@/lib/conversation";
+
+const turn = (speaker: ConversationTurn["speaker"], text: string, translation: string): ConversationTurn => ({
+  id: `${speaker}-${text}`,
+  speaker,
+  text,
+  translation,
+  pronunciation: "",
+  at: "2026-05-02T12:00:00Z",
+});
+
+describe("detectLanguage", () => {
+  it("tells languages apart by writing system", () => {
+    expect(detectLanguage("駅はどこですか", ["en", "ja"], "en")).toBe("ja");
+    expect(detectLanguage("Where is the station?", ["en", "ja"], "ja")).toBe("en");
+    expect(detectLanguage("Спасибо большое", ["ru", "de"], "de")).toBe("ru");
+  });
+
+  it("prefers Japanese over Chinese when kana appear", () => {
+    expect(detectLanguage("これは何ですか", ["zh", "ja"], "zh")).toBe("ja");
+    expect(detectLanguage("这个多少钱", ["zh", "ja"], "ja")).toBe("zh");
+  });
+
+  it("uses common words for two Latin-script languages", () => {
+    expect(detectLanguage("¿Dónde está el baño, por favor?", ["en", "es"], "en")).toBe("es");
+    expect(detectLanguage("Thank you, where is the museum?", ["en", "es"], "es")).toBe("en");
+  });
+
+  it("falls back to the tapped side when it can't tell", () => {
+    expect(detectLanguage("Taxi", ["en", "fr"], "fr")).toBe("fr");
+    expect(detectLanguage("OK", ["en", "fr"], "en")).toBe("en");
+  });
+});
+
+describe("turnDirection", () => {
+  it("translates into the other language even when the wrong mic was used", () => {
+    const languages = { you: "en", them: "ja" };
+    expect(turnDirection("ありがとう", "you", languages)).toEqual({ speaker: "them", from: "ja", to: "en" });
+    expect(turnDirection("How much is this?", "you", languages)).toEqual({ speaker: "you", from: "en", to: "ja" });
+  });
+});
+
+describe("conversationEntry", () => {
+  it("files the transcript as a journal entry", () => {
+    const turns = [turn("you", "Where is the station?", "駅はどこですか"), turn("them", "まっすぐです", "It's straight ahead")];
+    const languages = { you: "en", them: "ja" };
+
+    expect(transcriptText(turns, languages)).toBe(
+      "Me: Where is the station?\n  → Japanese: 駅はどこですか\nThem: まっすぐです\n  → English: It's straight ahead"
+    );
+
+    const entry = conversationEntry(turns, {
+      userId: "u1",
+      tripId: "t1",
+      languages,
+      latitude: 35.68,
+      longitude: 139.76,
+      locationName: "Tokyo",
+    });
+    expect(entry).toMatchObject({
+      user_id: "u1",
+      trip_id: "t1",
+      category: "other",
+      name: "Conversation in Japanese",
+      description: "2 turns · English ↔ Japanese",
+      created_at: "2026-05-02T12:00:00Z",
+    });
+  });
+});
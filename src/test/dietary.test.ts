@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  allergyCardText,
+  describeDietaryProfile,
+  dietaryProfileFrom,
+  dishVerdict,
+  hasDietaryProfile,
+  sortConflicts,
+  splitList,
+  type DietConflict,
+} from "@/lib/dietary";
+import { analyzeMenuSchema } from "@/lib/aiSchemas";
+
+const conflict = (patch: Partial<DietConflict>): DietConflict => ({
+  kind: "allergen",
+  item: "peanuts",
+  confidence: "high",
+  reason: "",
+  ...patch,
+});
+
+describe("dietaryProfileFrom", () => {
+  it("treats a profile from before the dietary columns as empty", () => {
+    const profile = dietaryProfileFrom({});
+    expect(profile).toEqual({ allergens: [], diets: [], dislikes: [], severe: false });
+    expect(hasDietaryProfile(profile)).toBe(false);
+  });
+});
+
+describe("splitList", () => {
+  it("trims, drops blanks and keeps the first spelling of duplicates", () => {
+    expect(splitList("kiwi, Coriander ,, kiwi; KIWI\nlatex  gloves")).toEqual(["kiwi", "Coriander", "latex gloves"]);
+  });
+});
+
+describe("allergy card", () => {
+  const profile = { allergens: ["peanuts", "tree_nuts", "kiwi"], diets: ["vegan"], dislikes: ["coriander"], severe: true };
+
+  it("spells out severe allergies and diet rules, but not dislikes", () => {
+    const text = allergyCardText(profile);
+    expect(text).toContain("severe allergy to peanuts, tree nuts and kiwi");
+    expect(text).toContain("same utensils");
+    expect(text).toContain("no meat, fish, eggs, dairy");
+    expect(text).not.toContain("coriander");
+  });
+
+  it("is empty when there is nothing staff need to know", () => {
+    expect(allergyCardText({ allergens: [], diets: [], dislikes: ["olives"], severe: false })).toBe("");
+  });
+
+  it("describes the whole profile to the model", () => {
+    expect(describeDietaryProfile(profile)).toBe(
+      "Allergies (SEVERE: traces and cross-contact are dangerous): Peanuts, Tree nuts, kiwi\nDiet: Vegan\nDislikes: coriander"
+    );
+  });
+});
+
+describe("dish conflicts", () => {
+  const dish = (conflicts: DietConflict[]) => ({ name: "ผัดไทย", translation: "Pad thai", conflicts });
+
+  it("says avoid only for a sure allergen or diet conflict", () => {
+    expect(dishVerdict(dish([conflict({ confidence: "high" })]))).toBe("avoid");
+    expect(dishVerdict(dish([conflict({ kind: "diet", item: "vegan", confidence: "low" })]))).toBe("ask");
+    expect(dishVerdict(dish([conflict({ kind: "dislike", item: "coriander" })]))).toBe("ok");
+    expect(dishVerdict(dish([]))).toBe("ok");
+  });
+
+  it("never says ok with a severe allergy", () => {
+    expect(dishVerdict(dish([]), { severe: true })).toBe("ask");
+    expect(dishVerdict(dish([conflict({ confidence: "high" })]), { severe: true })).toBe("avoid");
+  });
+
+  it("lists allergens first and surest first", () => {
+    const sorted = sortConflicts([
+      conflict({ kind: "dislike", item: "coriander" }),
+      conflict({ item: "sesame", confidence: "low" }),
+      conflict({ kind: "diet", item: "vegan" }),
+      conflict({ item: "peanuts", confidence: "high" }),
+    ]);
+    expect(sorted.map((c) => c.item)).toEqual(["peanuts", "sesame", "vegan", "coriander"]);
+  });
+
+  it("keeps a conflict of unknown kind as an allergen", () => {
+    const menu = analyzeMenuSchema.parse({
+      language: "TH",
+      dishes: [{ name: "ผัดไทย", translation: "Pad thai", conflicts: [{ kind: "nuts", item: "peanuts", confidence: "sure" }] }],
+    });
+    expect(menu.language).toBe("th");
+    expect(menu.dishes[0].conflicts[0]).toEqual({ kind: "allergen", item: "peanuts", confidence: "medium", reason: "" });
+    expect(menu.allergy_card).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import { parseExif } from "@/lib/exif";
+import { groupPhotosByDay, photoPlace, plainScanEntry, sortPhotos, type ImportedPhoto } from "@/lib/photoImport";
+
+interface Tag {
+  tag: number;
+  type: number;
+  count: number;
+  /** Inline value (≤ 4 bytes) or bytes written to the data area. */
+  data: number[];
+}
+
+const ascii = (tag: number, text: string): Tag => ({
+  tag,
+  type: 2,
+  count: text.length + 1,
+  data: [...text].map((c) => c.charCodeAt(0)).concat(0),
+});
+
+const rationals = (tag: number, values: [number, number][], le: boolean): Tag => ({
+  tag,
+  type: 5,
+  count: values.length,
+  data: values.flatMap(([num, den]) => [...u32(num, le), ...u32(den, le)]),
+});
+
+function u16(value: number, le: boolean): number[] {
+  const bytes = [(value >> 8) & 0xff, value & 0xff];
+  return le ? bytes.reverse() : bytes;
+}
+
+function u32(value: number, le: boolean): number[] {
+  const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  return le ? bytes.reverse() : bytes;
+}
+
+/** A JPEG header with an Exif APP1 segment holding IFD0, the Exif IFD and the GPS IFD. */
+function jpegWithExif(exif: Tag[], gps: Tag[], le = false): ArrayBuffer {
+  const tiff: number[] = [...(le ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42, le), ...u32(8, le)];
+  const ifdSize = (tags: Tag[]) => 2 + tags.length * 12 + 4;
+  const dataSize = (tags: Tag[]) => tags.reduce((sum, t) => sum + (t.data.length > 4 ? t.data.length : 0), 0);
+
+  const ifd0At = 8;
+  const exifAt = ifd0At + ifdSize([{} as Tag, {} as Tag]);
+  const gpsAt = exifAt + ifdSize(exif) + dataSize(exif);
+
+  const writeIfd = (tags: Tag[], at: number) => {
+    let dataAt = at + ifdSize(tags);
+    const data: number[] = [];
+    tiff.push(...u16(tags.length, le));
+    for (const t of tags) {
+      tiff.push(...u16(t.tag, le), ...u16(t.type, le), ...u32(t.count, le));
+      if (t.data.length <= 4) {
+        tiff.push(...t.data, ...Array(4 - t.data.length).fill(0));
+      } else {
+        tiff.push(...u32(dataAt, le));
+        data.push(...t.data);
+        dataAt += t.data.length;
+      }
+    }
+    tiff.push(...u32(0, le), ...data);
+  };
+
+  writeIfd(
+    [
+      { tag: 0x8769, type: 4, count: 1, data: u32(exifAt, le) },
+      { tag: 0x8825, type: 4, count: 1, data: u32(gpsAt, le) },
+    ],
+    ifd0At
+  );
+  writeIfd(exif, exifAt);
+  writeIfd(gps, gpsAt);
+
+  const segment = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff];
+  const bytes = [0xff, 0xd8, 0xff, 0xe1, ...u16(segment.length + 2, false), ...segment, 0xff, 0xda, 0, 2];
+  return new Uint8Array(bytes).buffer;
+}
+
+const lisbonGps = (le: boolean): Tag[] => [
+  ascii(0x0001, "N"),
+  rationals(0x0002, [[38, 1], [42, 1], [3090, 100]], le),
+  ascii(0x0003, "W"),
+  rationals(0x0004, [[9, 1], [8, 1], [2520, 100]], le),
+];
+
+const photo = (patch: Partial<ImportedPhoto>): ImportedPhoto => ({
+  id: "p",
+  fileName: "IMG.jpg",
+  image: "data:image/jpeg;base64,AAAA",
+  latitude: null,
+  longitude: null,
+  takenAt: null,
+  include: true,
+  analyze: false,
+  status: "ready",
+  ...patch,
+});
+
+describe("parseExif", () => {
+  it("reads the GPS position and the capture time with its offset", () => {
+    const buffer = jpegWithExif(
+      [ascii(0x9003, "2026:03:02 14:05:09"), ascii(0x9011, "+01:00")],
+      lisbonGps(false)
+    );
+    expect(parseExif(buffer)).toEqual({
+      latitude: 38.708583,
+      longitude: -9.140333,
+      takenAt: "2026-03-02T13:05:09.000Z",
+    });
+  });
+
+  it("handles little-endian files", () => {
+    const buffer = jpegWithExif([ascii(0x9003, "2026:03:02 14:05:09"), ascii(0x9011, "-05:00")], lisbonGps(true), true);
+    const metadata = parseExif(buffer);
+    expect(metadata.latitude).toBeCloseTo(38.7086, 4);
+    expect(metadata.takenAt).toBe("2026-03-02T19:05:09.000Z");
+  });
+
+  it("falls back to the GPS clock when there is no offset", () => {
+    const buffer = jpegWithExif(
+      [ascii(0x9003, "2026:03:02 14:05:09")],
+      [...lisbonGps(false), rationals(0x0007, [[13, 1], [5, 1], [9, 1]], false), ascii(0x001d, "2026:03:02")]
+    );
+    expect(parseExif(buffer).takenAt).toBe("2026-03-02T13:05:09.000Z");
+  });
+
+  it("ignores zeroed coordinates from cameras without a fix", () => {
+    const buffer = jpegWithExif(
+      [],
+      [ascii(0x0001, "N"), rationals(0x0002, [[0, 1], [0, 1], [0, 1]], false), ascii(0x0003, "E"), rationals(0x0004, [[0, 1], [0, 1], [0, 1]], false)]
+    );
+    expect(parseExif(buffer)).toEqual({ latitude: null, longitude: null, takenAt: null });
+  });
+
+  it("returns nothing for files without EXIF", () => {
+    expect(parseExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toEqual({ latitude: null, longitude: null, takenAt: null });
+    expect(parseExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]).buffer).takenAt).toBeNull();
+  });
+
+  it("survives a truncated segment", () => {
+    const buffer = jpegWithExif([ascii(0x9003, "2026:03:02 14:05:09")], lisbonGps(false));
+    expect(() => parseExif(buffer.slice(0, 40))).not.toThrow();
+  });
+});
+
+describe("photoPlace", () => {
+  const here = { latitude: 38.7119, longitude: -9.1405, locationName: "Baixa, Lisbon" };
+
+  it("keeps the current place when the photo has no position", () => {
+    expect(photoPlace(null, here)).toEqual(here);
+    expect(photoPlace({ latitude: null, longitude: null, takenAt: null }, here)).toEqual(here);
+  });
+
+  it("uses the photo's position and keeps the place name only nearby", () => {
+    expect(photoPlace({ latitude: 38.712, longitude: -9.1407, takenAt: null }, here)).toEqual({
+      latitude: 38.712,
+      longitude: -9.1407,
+      locationName: "Baixa, Lisbon",
+    });
+    expect(photoPlace({ latitude: 41.1579, longitude: -8.6291, takenAt: null }, here).locationName).toBeNull();
+  });
+});
+
+describe("photo timeline", () => {
+  const photos = [
+    photo({ id: "undated" }),
+    photo({ id: "b", takenAt: "2026-03-03T11:00:00.000Z" }),
+    photo({ id: "a", takenAt: "2026-03-02T12:00:00.000Z" }),
+    photo({ id: "c", takenAt: "2026-03-03T13:00:00.000Z" }),
+  ];
+
+  it("sorts oldest first with undated photos last", () => {
+    expect(sortPhotos(photos).map((p) => p.id)).toEqual(["a", "b", "c", "undated"]);
+  });
+
+  it("groups photos by day", () => {
+    const days = groupPhotosByDay(photos);
+    expect(days.map((d) => d.photos.map((p) => p.id))).toEqual([["a"], ["b", "c"], ["undated"]]);
+    expect(days[days.length - 1].day).toBeNull();
+  });
+
+  it("builds a plain journal entry dated when the photo was taken", () => {
+    const entry = plainScanEntry(photo({ takenAt: "2026-03-02T10:00:00.000Z", latitude: 38.7, longitude: -9.1 }), {
+      userId: "u1",
+      tripId: "t1",
+    });
+    expect(entry).toMatchObject({
+      user_id: "u1",
+      category: "other",
+      latitude: 38.7,
+      longitude: -9.1,
+      trip_id: "t1",
+      created_at: "2026-03-02T10:00:00.000Z",
+    });
+    expect(plainScanEntry(photo({}), { userId: "u1", tripId: null })).not.toHaveProperty("created_at");
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { buildTripCalendar, classifyEvent, findBookingReference, parseCalendar, tripFromCalendar } from "@/lib/ical";
+import { emptyDay, emptyStop } from "@/lib/itinerary";
+
+const trip = { id: "t1", name: "Lisbon, finally", destination: "Lisbon", start_date: "2026-05-01", end_date: "2026-05-03" };
+
+describe("buildTripCalendar", () => {
+  const itinerary = {
+    version: 1 as const,
+    days: [
+      emptyDay({
+        date: "2026-05-01",
+        stops: [
+          emptyStop({ id: "s1", time: "09:00", title: "Castelo de São Jorge", placeName: "Castelo", lat: 38.7139, lng: -9.1334, notes: "Buy tickets online; queue is long" }),
+          emptyStop({ id: "s2", time: "13:30", title: "Lunch", bookings: [{ label: "Table", reference: "ABC123", url: null }] }),
+          emptyStop({ id: "s3", title: "Wander" }),
+        ],
+      }),
+      emptyDay({ date: null, stops: [emptyStop({ id: "s4", time: "10:00", title: "Undated" })] }),
+    ],
+  };
+  const ics = buildTripCalendar(trip, itinerary, new Date("2026-04-01T12:00:00Z"));
+
+  it("writes the trip and each dated stop", () => {
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(4);
+    expect(ics).toContain("SUMMARY:Lisbon\\, finally");
+    expect(ics).toContain("DTEND;VALUE=DATE:20260504");
+    expect(ics).not.toContain("Undated");
+  });
+
+  it("gives timed stops a window, coordinates and escaped notes", () => {
+    expect(ics).toContain("DTSTART:20260501T090000\r\nDTEND:20260501T133000");
+    expect(ics).toContain("DTSTART:20260501T133000\r\nDTEND:20260501T143000");
+    expect(ics).toContain("GEO:38.713900;-9.133400");
+    expect(ics).toContain("DESCRIPTION:Buy tickets online\\; queue is long");
+    expect(ics).toContain("DESCRIPTION:Table: ABC123");
+    expect(ics).toContain("UID:s3@worldlens\r\nSUMMARY:Wander\r\nDTSTART;VALUE=DATE:20260501");
+  });
+
+  it("folds long lines and reads back what it wrote", () => {
+    const long = buildTripCalendar({ ...trip, name: "Ó".repeat(60) }, null);
+    expect(long.split("\r\n").every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+
+    const [event] = parseCalendar(long);
+    expect(event.summary).toBe("Ó".repeat(60));
+    expect(parseCalendar(ics).find((e) => e.uid === "s1@worldlens")).toMatchObject({
+      startDate: "2026-05-01",
+      startTime: "09:00",
+      geo: { lat: 38.7139, lng: -9.1334 },
+      description: "Buy tickets online; queue is long",
+    });
+  });
+});
+
+const confirmations = [
+  "BEGIN:VCALENDAR",
+  "BEGIN:VEVENT",
+  "UID:f1",
+  "SUMMARY:Flight to Lisbon (TP 1351)",
+  "DESCRIPTION:Booking reference: X7K2PQ\\nSeat 14C",
+  "LOCATION:London Heathrow (LHR)",
+  "DTSTART;TZID=Europe/London:20260501T071500",
+  "DTEND;TZID=Europe/Lisbon:20260501T095000",
+  "BEGIN:VALARM",
+  "DESCRIPTION:Reminder",
+  "END:VALARM",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:h1",
+  "SUMMARY:Stay at Hotel Avenida",
+  "DESCRIPTION:Confirmation number 55512",
+  "LOCATION:Av. da Liberdade 1\\, Lisbon",
+  "GEO:38.7167;-9.1423",
+  "DTSTART;VALUE=DATE:20260501",
+  "DTEND;VALUE=DATE:20260504",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "SUMMARY:Dentist",
+  "DTSTART:20260502T100000",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("parseCalendar", () => {
+  it("unfolds lines and ignores nested alarms", () => {
+    const events = parseCalendar(confirmations.replace("Seat 14C", "Seat\r\n  14C"));
+    expect(events).toHaveLength(3);
+    expect(events[0]).toMatchObject({ description: "Booking reference: X7K2PQ\nSeat 14C", startTime: "07:15", endTime: "09:50" });
+    expect(events[1]).toMatchObject({ location: "Av. da Liberdade 1, Lisbon", startTime: null, endDate: "2026-05-04" });
+  });
+});
+
+describe("importing bookings", () => {
+  it("classifies events and finds references", () => {
+    const [flight, hotel, other] = parseCalendar(confirmations);
+    expect([classifyEvent(flight), classifyEvent(hotel), classifyEvent(other)]).toEqual(["flight", "hotel", null]);
+    expect(findBookingReference("Your booking details. Reservation code: ZZ9PLZ")).toBe("ZZ9PLZ");
+    expect(findBookingReference("See booking details below")).toBeNull();
+  });
+
+  it("builds a trip with flight, check-in and check-out stops", () => {
+    const imported = tripFromCalendar(parseCalendar(confirmations));
+    expect(imported).toMatchObject({
+      name: "Lisbon Trip",
+      destination: "Lisbon",
+      start_date: "2026-05-01",
+      end_date: "2026-05-04",
+      flights: 1,
+      hotels: 1,
+      skipped: 1,
+    });
+    expect(imported.itinerary.days).toHaveLength(4);
+
+    const [first, , , last] = imported.itinerary.days;
+    expect(first.stops.map((s) => [s.time, s.title])).toEqual([
+      ["07:15", "Flight to Lisbon (TP 1351)"],
+      [null, "Check in: Stay at Hotel Avenida"],
+    ]);
+    expect(first.stops[0].bookings[0]).toEqual({ label: "Flight", reference: "X7K2PQ", url: null });
+    expect(first.stops[0].notes).toBe("Arrives 09:50.");
+    expect(first.stops[1]).toMatchObject({ lat: 38.7167, lng: -9.1423 });
+    expect(last.stops.map((s) => s.title)).toEqual(["Check out: Stay at Hotel Avenida"]);
+  });
+
+  it("refuses files without bookings", () => {
+    expect(() => tripFromCalendar(parseCalendar("BEGIN:VCALENDAR\nBEGIN:VEVENT\nSUMMARY:Dentist\nDTSTART:20260502\nEND:VEVENT\nEND:VCALENDAR"))).toThrow(
+      "No flight or hotel bookings"
+    );
+  });
+});
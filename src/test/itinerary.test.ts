@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  emptyDay,
+  emptyStop,
+  itineraryFromPlan,
+  loadItinerary,
+  moveDay,
+  moveStop,
+  replaceDay,
+  withDates,
+  type Itinerary,
+} from "@/lib/itinerary";
+
+const plannedDays = [
+  { day: 2, title: "Belém", morning: "Jerónimos Monastery", afternoon: "Pastéis de Belém", evening: "", tips: [] },
+  { day: 1, title: "Alfama", morning: "Castelo de São Jorge", afternoon: "Tram 28", evening: "Fado dinner", tips: ["Wear flat shoes"] },
+];
+
+const titles = (itinerary: Itinerary) => itinerary.days.map((d) => d.stops.map((s) => s.title));
+
+function sample(): Itinerary {
+  return {
+    version: 1,
+    days: [
+      emptyDay({ title: "One", date: "2026-05-01", stops: ["a", "b", "c"].map((title) => emptyStop({ title })) }),
+      emptyDay({ title: "Two", date: "2026-05-02", stops: ["d"].map((title) => emptyStop({ title })) }),
+    ],
+  };
+}
+
+describe("itineraryFromPlan", () => {
+  it("turns each time slot into a stop, in day order, skipping empty slots", () => {
+    const itinerary = itineraryFromPlan(plannedDays);
+    expect(itinerary.days.map((d) => d.title)).toEqual(["Alfama", "Belém"]);
+    expect(itinerary.days[0].stops.map((s) => [s.time, s.title])).toEqual([
+      ["09:00", "Castelo de São Jorge"],
+      ["14:00", "Tram 28"],
+      ["19:00", "Fado dinner"],
+    ]);
+    expect(itinerary.days[1].stops).toHaveLength(2);
+    expect(itinerary.days[0].tips).toEqual(["Wear flat shoes"]);
+  });
+});
+
+describe("loadItinerary", () => {
+  it("prefers the edited itinerary and repairs missing fields", () => {
+    const loaded = loadItinerary({
+      itinerary: { version: 1, days: [{ id: "d1", title: "Edited", stops: [{ title: "Lunch", time: "noon", lat: "x" }] }] },
+      ai_itinerary: plannedDays,
+    });
+    expect(loaded.days).toHaveLength(1);
+    expect(loaded.days[0].stops[0]).toMatchObject({ title: "Lunch", time: null, lat: null, bookings: [] });
+    expect(loaded.days[0].stops[0].id).toBeTruthy();
+  });
+
+  it("falls back to the planner's answer, or null", () => {
+    expect(loadItinerary({ itinerary: null, ai_itinerary: plannedDays }).days).toHaveLength(2);
+    expect(loadItinerary({ itinerary: "garbage", ai_itinerary: null })).toBeNull();
+  });
+
+  it("dates undated days from the trip start", () => {
+    const dated = withDates(itineraryFromPlan(plannedDays), "2026-05-01");
+    expect(dated.days.map((d) => d.date)).toEqual(["2026-05-01", "2026-05-02"]);
+  });
+});
+
+describe("moveStop", () => {
+  it("reorders within a day using before-the-move drop indexes", () => {
+    expect(titles(moveStop(sample(), { day: 0, index: 0 }, { day: 0, index: 2 }))[0]).toEqual(["b", "a", "c"]);
+    expect(titles(moveStop(sample(), { day: 0, index: 0 }, { day: 0, index: 3 }))[0]).toEqual(["b", "c", "a"]);
+    expect(titles(moveStop(sample(), { day: 0, index: 2 }, { day: 0, index: 0 }))[0]).toEqual(["c", "a", "b"]);
+  });
+
+  it("moves stops between days", () => {
+    expect(titles(moveStop(sample(), { day: 0, index: 1 }, { day: 1, index: 0 }))).toEqual([["a", "c"], ["b", "d"]]);
+  });
+
+  it("returns the same itinerary for a no-op drop", () => {
+    const itinerary = sample();
+    expect(moveStop(itinerary, { day: 0, index: 1 }, { day: 0, index: 2 })).toBe(itinerary);
+  });
+});
+
+describe("moveDay", () => {
+  it("moves the plans but keeps dates in calendar order", () => {
+    const moved = moveDay(sample(), 1, 0);
+    expect(moved.days.map((d) => [d.title, d.date])).toEqual([["Two", "2026-05-01"], ["One", "2026-05-02"]]);
+  });
+});
+
+describe("replaceDay", () => {
+  it("keeps booked stops and sorts by time", () => {
+    const itinerary = sample();
+    itinerary.days[0].stops[1] = emptyStop({ title: "Dinner", time: "20:00", bookings: [{ label: "Table", reference: "X1", url: null }] });
+
+    const replaced = replaceDay(itinerary, 0, {
+      title: "New",
+      tips: [],
+      stops: [emptyStop({ title: "Museum", time: "10:00" }), emptyStop({ title: "Walk", time: "21:00" })],
+    });
+    expect(replaced.days[0].title).toBe("New");
+    expect(titles(replaced)[0]).toEqual(["Museum", "Dinner", "Walk"]);
+    expect(replaced.days[1]).toBe(itinerary.days[1]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from "vitest";
+
+const rpc = vi.fn(async (..._args: unknown[]) => ({ data: null, error: new Error("offline") }));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc: (...args: unknown[]) => rpc(...args) } }));
+
+const scans = [
+  {
+    id: "s1",
+    category: "menu",
+    name: "Ichiran Dōtonbori",
+    description: "Tonkotsu ramen counter with private booths",
+    location_name: "Osaka, Japan",
+    extracted_text: "ラーメン 980円",
+    notes: "Order the extra-firm noodles",
+    tips: ["Queue moves fast after 10pm"],
+    trip_id: "t1",
+    image_url: null,
+    image_data: null,
+    ai_analysis: null,
+    is_favorite: false,
+    created_at: "2026-03-02T12:00:00Z",
+    synced: true,
+  },
+  {
+    id: "s2",
+    category: "monument",
+    name: "Osaka Castle",
+    description: "Rebuilt keep with a museum inside",
+    location_name: "Osaka, Japan",
+    extracted_text: null,
+    image_url: null,
+    image_data: null,
+    ai_analysis: null,
+    is_favorite: true,
+    created_at: "2026-03-01T09:00:00Z",
+    synced: true,
+  },
+];
+const trips = [{ id: "t1", name: "Kansai spring", destination: "Osaka", ai_summary: "Ramen, castles and cherry blossoms.", ai_overview: null, created_at: "2026-02-20T00:00:00Z" }];
+
+vi.mock("@/lib/offlineStorage", () => ({
+  getCachedScans: async () => scans,
+  getCachedTrips: async () => trips,
+}));
+
+import {
+  highlightParts,
+  makeSnippet,
+  questionTerms,
+  scanDocument,
+  searchDocuments,
+  searchJournal,
+  tripDocument,
+} from "@/lib/journalSearch";
+
+const documents = [...scans.map(scanDocument), ...trips.map(tripDocument)];
+
+describe("searchDocuments", () => {
+  it("matches word prefixes regardless of case and accents", () => {
+    expect(searchDocuments(documents, "dotonbori").map((h) => h.id)).toEqual(["s1"]);
+    expect(searchDocuments(documents, "RAM").map((h) => h.id)).toEqual(["s1", "t1"]);
+    expect(searchDocuments(documents, "amen")).toEqual([]);
+  });
+
+  it("finds text in scripts written without spaces", () => {
+    expect(searchDocuments(documents, "ラーメン").map((h) => h.id)).toEqual(["s1"]);
+  });
+
+  it("requires every word unless asked to match any", () => {
+    expect(searchDocuments(documents, "osaka museum").map((h) => h.id)).toEqual(["s2"]);
+    expect(searchDocuments(documents, "castle noodles", { matchAny: true }).map((h) => h.id)).toEqual(["s2", "s1", "t1"]);
+  });
+
+  it("ranks a match in the name above others, then newer entries first", () => {
+    expect(searchDocuments(documents, "osaka").map((h) => h.id)).toEqual(["s2", "s1", "t1"]);
+  });
+});
+
+describe("snippets", () => {
+  it("cuts around the first match and highlights it", () => {
+    const body = `${"Lorem ipsum dolor sit amet. ".repeat(6)}Order the extra-firm noodles here.`;
+    const snippet = makeSnippet(body, ["noodles"], 20);
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet).toContain("extra-firm noodles here.");
+
+    expect(highlightParts("Café noodles", ["cafe"])).toEqual([
+      { text: "Café", match: true },
+      { text: " noodles", match: false },
+    ]);
+  });
+
+  it("drops filler words from questions", () => {
+    expect(questionTerms("What was that ramen place in Osaka?")).toEqual(["ramen", "osaka"]);
+  });
+});
+
+describe("searchJournal", () => {
+  it("falls back to the offline copies when the server search fails", async () => {
+    const result = await searchJournal("ramen", { online: true });
+    expect(rpc).toHaveBeenCalledWith("search_journal", { _query: "ramen", _match_any: false, _limit: 30 });
+    expect(result.source).toBe("device");
+    expect(result.hits.map((h) => h.id)).toEqual(["s1", "t1"]);
+  });
+
+  it("uses the server's results when it answers", async () => {
+    rpc.mockResolvedValueOnce({
+      data: [{ kind: "trip", id: "t1", trip_id: "t1", title: "Kansai spring", subtitle: "Osaka", body: "", created_at: "2026-02-20T00:00:00Z", rank: 0.6 }],
+      error: null,
+    });
+    const result = await searchJournal("kansai", { online: true });
+    expect(result).toMatchObject({ source: "server", hits: [{ kind: "trip", id: "t1", score: 0.6 }] });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  coverBox,
+  frameDifference,
+  ocrLanguages,
+  regionsFromPage,
+  trackRegions,
+  type LiveRegion,
+  type TextRegion,
+} from "@/lib/liveOcr";
+
+const box = { x0: 10, y0: 20, x1: 110, y1: 50 };
+const region = (text: string, patch: Partial<TextRegion> = {}): TextRegion => ({ text, box, confidence: 90, ...patch });
+
+describe("ocrLanguages", () => {
+  it("adds English to the sign's language", () => {
+    expect(ocrLanguages("ja")).toBe("jpn+eng");
+    expect(ocrLanguages("en")).toBe("eng");
+    expect(ocrLanguages("xx")).toBe("eng");
+  });
+});
+
+describe("regionsFromPage", () => {
+  it("keeps confident lines with letters, whitespace tidied", () => {
+    const line = (text: string, confidence: number) => ({ text, confidence, bbox: box });
+    const page = {
+      blocks: [
+        {
+          paragraphs: [
+            { lines: [line("  出口\n", 91), line("Sortie  Exit", 80), line("12:45", 95), line("~~", 90), line("Gare", 30)] },
+          ],
+        },
+      ],
+    } as never;
+    expect(regionsFromPage(page).map((r) => r.text)).toEqual(["出口", "Sortie Exit"]);
+    expect(regionsFromPage({ blocks: null })).toEqual([]);
+  });
+});
+
+describe("trackRegions", () => {
+  it("keeps translations for text still in view and returns only new lines", () => {
+    const previous: LiveRegion[] = [
+      { ...region("出口"), id: "a", translation: "Exit" },
+      { ...region("切符"), id: "b", translation: "Tickets" },
+    ];
+    const moved = { x0: 40, y0: 60, x1: 140, y1: 90 };
+    const { regions, changed } = trackRegions(previous, [region("出口", { box: moved }), region("のりば")]);
+
+    expect(regions[0]).toMatchObject({ id: "a", translation: "Exit", box: moved });
+    expect(regions[1]).toMatchObject({ text: "のりば", translation: null });
+    expect(changed.map((r) => r.text)).toEqual(["のりば"]);
+  });
+
+  it("treats a line misread by a letter as the same line", () => {
+    const previous: LiveRegion[] = [{ ...region("EXIT B2"), id: "a", translation: "Sortie B2" }];
+    const { regions, changed } = trackRegions(previous, [region("EXlT B2"), region("EXIT C")]);
+
+    expect(regions[0]).toMatchObject({ id: "a", text: "EXIT B2", translation: "Sortie B2" });
+    expect(changed.map((r) => r.text)).toEqual(["EXIT C"]);
+  });
+});
+
+describe("frameDifference", () => {
+  it("is zero for the same frame and large for a different one", () => {
+    const dark = new Uint8ClampedArray([0, 0, 0, 255, 10, 10, 10, 255]);
+    const light = new Uint8ClampedArray([200, 200, 200, 255, 210, 210, 210, 255]);
+    expect(frameDifference(dark, dark)).toBe(0);
+    expect(frameDifference(dark, light)).toBeCloseTo(200);
+    expect(frameDifference(dark, new Uint8ClampedArray(4))).toBe(255);
+  });
+});
+
+describe("coverBox", () => {
+  it("maps frame pixels onto a cropped, scaled preview", () => {
+    // A 4:3 frame filling a square view is scaled by 2 and cropped at the sides
+    expect(coverBox(box, { width: 400, height: 300 }, { width: 600, height: 600 })).toEqual({
+      left: 10 * 2 - 100,
+      top: 40,
+      width: 200,
+      height: 60,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { analyzeMenuSchema, type AnalyzeMenuResult } from "@/lib/aiSchemas";
+import {
+  addToOrder,
+  menuSections,
+  orderLines,
+  orderTotal,
+  recommendedDishes,
+  spendingRecordFromOrder,
+} from "@/lib/menu";
+
+const menu: AnalyzeMenuResult = analyzeMenuSchema.parse({
+  language: "th",
+  currency: "thb",
+  dishes: [
+    { section: "Mains", name: "ผัดไทย", translation: "Pad thai", price: "120",
+      conflicts: [{ kind: "allergen", item: "peanuts", confidence: "high" }] },
+    { section: "Desserts", name: "ข้าวเหนียวมะม่วง", translation: "Mango sticky rice", price: 90 },
+    { section: "mains", name: "ต้มยำกุ้ง", translation: "Tom yum goong", price: 180 },
+    { section: "Drinks", name: "ชาไทย", translation: "Thai tea", price: "ask" },
+  ],
+  recommendation: { dishes: ["ผัดไทย", "Tom yum goong"], reason: "House specialities." },
+});
+
+describe("menuSections", () => {
+  it("groups by section in menu order and keeps each dish's index", () => {
+    expect(menuSections(menu.dishes).map((s) => [s.title, s.dishes.map((d) => d.index)])).toEqual([
+      ["Mains", [0, 2]],
+      ["Desserts", [1]],
+      ["Drinks", [3]],
+    ]);
+    expect(menu.currency).toBe("THB");
+    expect(menu.dishes[3].price).toBeNull();
+  });
+});
+
+describe("recommendedDishes", () => {
+  const profile = { allergens: ["peanuts", "shellfish"], diets: [], dislikes: [], severe: false };
+
+  it("matches by original or translated name and drops dishes to avoid", () => {
+    expect(recommendedDishes(menu, profile).map((d) => d.translation)).toEqual(["Tom yum goong"]);
+  });
+
+  it("drops a pick that might clash, and every pick under a severe allergy", () => {
+    const unsure = analyzeMenuSchema.parse({
+      ...menu,
+      dishes: menu.dishes.map((dish, i) =>
+        i === 2 ? { ...dish, conflicts: [{ kind: "allergen", item: "shellfish", confidence: "medium" }] } : dish
+      ),
+    });
+    expect(recommendedDishes(unsure, profile)).toEqual([]);
+    expect(recommendedDishes(menu, { ...profile, severe: true })).toEqual([]);
+  });
+});
+
+describe("menu estimate", () => {
+  let order = addToOrder({}, 1, 1);
+  order = addToOrder(order, 2, 1);
+  order = addToOrder(order, 2, 1);
+  order = addToOrder(order, 3, 1);
+  order = addToOrder(addToOrder(order, 0, 1), 0, -1);
+  const lines = orderLines(menu.dishes, order);
+
+  it("adds up the priced dishes and counts the rest", () => {
+    expect(order).toEqual({ 1: 1, 2: 2, 3: 1 });
+    expect(orderTotal(lines)).toEqual({ amount: 450, unpriced: 1 });
+  });
+
+  it("becomes one food spending record", () => {
+    expect(
+      spendingRecordFromOrder(lines, {
+        userId: "u1",
+        currency: "THB",
+        locationName: "Bangkok",
+        date: "2026-10-19",
+        tripId: null,
+      })
+    ).toMatchObject({
+      amount: 450,
+      currency: "THB",
+      category: "Food",
+      notes: "Mango sticky rice, 2× Tom yum goong, Thai tea",
+    });
+  });
+});
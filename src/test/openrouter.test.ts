@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { parsePartialJson, readChatStream } from "@/lib/openrouter";
+import { invokeAI } from "@/lib/aiInvoke";
+import { setAIProvider } from "@/lib/aiProviders";
+
+afterEach(() => setAIProvider(null));
+
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+describe("parsePartialJson", () => {
+  it("closes open strings, arrays and objects", () => {
+    expect(parsePartialJson('{"plan": {"itinerary": [{"day": 1, "title": "Arr')).toEqual({
+      plan: { itinerary: [{ day: 1, title: "Arr" }] },
+    });
+  });
+
+  it("drops a dangling key", () => {
+    expect(parsePartialJson('{"overview": "Sunny", "itin')).toEqual({ overview: "Sunny" });
+    expect(parsePartialJson('{"overview": "Sunny", "itinerary":')).toEqual({ overview: "Sunny" });
+  });
+
+  it("returns null before anything arrives", () => {
+    expect(parsePartialJson("```json\n")).toBeNull();
+  });
+});
+
+describe("readChatStream", () => {
+  it("joins deltas split across network chunks", async () => {
+    const onDelta = vi.fn();
+    const whole = event("Hello") + ": OPENROUTER PROCESSING\n\n" + event(", world") + "data: [DONE]\n\n";
+    const text = await readChatStream(sseResponse([whole.slice(0, 20), whole.slice(20, 57), whole.slice(57)]), onDelta);
+
+    expect(text).toBe("Hello, world");
+    expect(onDelta).toHaveBeenLastCalledWith(", world", "Hello, world");
+  });
+
+  it("raises errors sent inside the stream", async () => {
+    const response = sseResponse([`data: ${JSON.stringify({ error: { message: "overloaded" } })}\n\n`]);
+    await expect(readChatStream(response)).rejects.toMatchObject({ code: "provider_error", message: "overloaded" });
+  });
+});
+
+describe("invokeAI streaming", () => {
+  it("reports partial plans before the validated result", async () => {
+    setAIProvider("mock");
+    const partials: unknown[] = [];
+
+    const { data, error } = await invokeAI<{ plan: { itinerary: unknown[] } }>("plan-trip", {
+      body: { destination: "Porto", duration: 2 },
+      onPartial: (partial) => partials.push(partial),
+    });
+
+    expect(error).toBeNull();
+    expect(data?.plan.itinerary).toHaveLength(2);
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[partials.length - 1]).toEqual(data);
+  });
+
+  it("returns an aborted error when cancelled", async () => {
+    setAIProvider("mock");
+    const controller = new AbortController();
+
+    const { error } = await invokeAI("plan-trip", {
+      body: { destination: "Porto", duration: 2 },
+      signal: controller.signal,
+      onPartial: () => controller.abort(),
+    });
+
+    expect(error?.code).toBe("aborted");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { DEFAULT_PHRASE_CATEGORIES, groupPhrases, normalizeCategory, phraseCategories, type Phrase } from "@/lib/phrasebook";
+
+const phrase = (id: string, patch: Partial<Phrase> = {}): Phrase => ({
+  id,
+  user_id: "u1",
+  trip_id: null,
+  source_language: "en",
+  language: "ja",
+  text: `Phrase ${id}`,
+  translation: `訳 ${id}`,
+  pronunciation: null,
+  category: "Essential",
+  pinned: false,
+  created_at: `2026-05-0${id}T10:00:00Z`,
+  ...patch,
+});
+
+describe("phraseCategories", () => {
+  it("keeps the defaults first and adds the user's own once, sorted", () => {
+    const categories = phraseCategories([
+      phrase("1", { category: "Medical" }),
+      phrase("2", { category: "Kids" }),
+      phrase("3", { category: "kids" }),
+      phrase("4", { category: "Bike repairs" }),
+    ]);
+    expect(categories).toEqual([...DEFAULT_PHRASE_CATEGORIES, "Bike repairs", "Kids"]);
+  });
+
+  it("matches typed categories to existing ones regardless of case", () => {
+    expect(normalizeCategory("  dietary   NEEDS ", DEFAULT_PHRASE_CATEGORIES)).toBe("Dietary needs");
+    expect(normalizeCategory("Vegan", DEFAULT_PHRASE_CATEGORIES)).toBe("Vegan");
+    expect(normalizeCategory("  ", DEFAULT_PHRASE_CATEGORIES)).toBe("Essential");
+  });
+});
+
+describe("groupPhrases", () => {
+  const phrases = [
+    phrase("1", { category: "Allergies" }),
+    phrase("2", { category: "Essential", pinned: true }),
+    phrase("3", { category: "Essential" }),
+    phrase("4", { category: "Essential", language: "ko" }),
+    phrase("5", { category: "Allergies", trip_id: "t1" }),
+  ];
+
+  it("shows one language, pinned first, then categories in order, newest first", () => {
+    const { pinned, groups } = groupPhrases(phrases, { language: "ja" });
+    expect(pinned.map((p) => p.id)).toEqual(["2"]);
+    expect(groups.map((g) => [g.category, g.phrases.map((p) => p.id)])).toEqual([
+      ["Essential", ["3"]],
+      ["Allergies", ["5", "1"]],
+    ]);
+  });
+
+  it("narrows to a trip", () => {
+    const { pinned, groups } = groupPhrases(phrases, { language: "ja", tripId: "t1" });
+    expect(pinned).toEqual([]);
+    expect(groups.map((g) => g.phrases.map((p) => p.id))).toEqual([["5"]]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const fetchMock = vi.fn();
+
+const tomtomResponse = {
+  results: [
+    {
+      id: "far",
+      dist: 900,
+      position: { lat: 38.72, lon: -9.15 },
+      poi: { name: "Farmácia Estácio", categories: ["pharmacy"], classifications: [{ code: "PHARMACY", names: [{ name: "pharmacy" }] }] },
+      address: { freeformAddress: "Rua Augusta 10, Lisboa" },
+    },
+    {
+      id: "near",
+      dist: 100,
+      position: { lat: 38.7101, lon: -9.1401 },
+      poi: { name: "Multibanco", categories: ["atm"], classifications: [{ code: "ATM" }] },
+    },
+    { id: "broken", position: {} },
+  ],
+};
+
+let places: typeof import("@/lib/places");
+
+beforeAll(async () => {
+  vi.stubEnv("VITE_TOMTOM_API_KEY", "test-key");
+  vi.stubGlobal("fetch", fetchMock);
+  places = await import("@/lib/places");
+});
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  fetchMock.mockImplementation(async () => new Response(JSON.stringify(tomtomResponse)));
+});
+
+const search = { lat: 38.71, lon: -9.14, radius: 2000, limit: 10, categories: ["pharmacy" as const] };
+
+describe("searchPlaces", () => {
+  it("normalizes results and sorts them by distance from the caller", async () => {
+    const results = await places.searchPlaces({ ...search, lat: 38.7101 });
+
+    expect(results.map((p) => p.id)).toEqual(["near", "far"]);
+    expect(results[1]).toMatchObject({
+      name: "Farmácia Estácio",
+      address: "Rua Augusta 10, Lisboa",
+      classifications: ["PHARMACY"],
+      typeName: "pharmacy",
+      category: "pharmacy",
+    });
+    expect(results[0].distanceMeters).toBeLessThan(20);
+    expect(fetchMock.mock.calls[0][0]).toContain("categorySet=7326");
+  });
+
+  it("asks TomTom once per category, by text where it has no category id", async () => {
+    await places.searchPlaces({ ...search, lat: 38.72, categories: ["atm", "toilet"] });
+
+    const urls = fetchMock.mock.calls.map((call) => String(call[0]));
+    expect(urls).toHaveLength(2);
+    expect(urls[0]).toContain("categorySet=7397");
+    expect(urls[1]).toContain("/search/public%20toilet.json");
+  });
+
+  it("shares one request between concurrent callers and caches it", async () => {
+    const lisbon = { ...search, lat: 38.701 };
+    await Promise.all([places.searchPlaces(lisbon), places.searchPlaces(lisbon), places.searchPlaces(lisbon)]);
+    await places.searchPlaces({ ...lisbon, lat: 38.7012 }); // same ~100 m cell
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await places.searchPlaces({ ...lisbon, fresh: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("lets one caller give up without cancelling the others", async () => {
+    const porto = { ...search, lat: 41.15, lon: -8.61 };
+    const controller = new AbortController();
+    const cancelled = places.searchPlaces(porto, controller.signal);
+    const kept = places.searchPlaces(porto);
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ name: "AbortError" });
+    await expect(kept).resolves.toHaveLength(2);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("geocodeDestination", () => {
+  it("names the destination after its city and country", async () => {
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({
+        results: [{ position: { lat: 35.01, lon: 135.77 }, address: { municipality: "Kyoto", country: "Japan", countryCode: "JP" } }],
+      }))
+    );
+
+    expect(await places.geocodeDestination("kyoto")).toEqual({ name: "Kyoto, Japan", countryCode: "JP", lat: 35.01, lng: 135.77 });
+    expect(fetchMock.mock.calls[0][0]).toContain("/geocode/kyoto.json");
+  });
+});
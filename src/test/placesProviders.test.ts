@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  buildOverpassQuery,
+  createFixtureProvider,
+  fixtureProvider,
+  normalizeOsm,
+  overpassProvider,
+  setPlacesProvider,
+} from "@/lib/placesProviders";
+import { searchPlaces, geocodeDestination, type Place } from "@/lib/places";
+import { normalizeTomTom } from "@/lib/tomtomPlaces";
+
+const lisbon = { lat: 38.7139, lon: -9.1394 };
+
+afterEach(() => {
+  setPlacesProvider(null);
+  vi.unstubAllGlobals();
+});
+
+describe("TomTom results", () => {
+  it("keeps places on the equator or the prime meridian", () => {
+    expect(normalizeTomTom({ id: "gh", position: { lat: 5.55, lon: 0 }, poi: { name: "Tema" } }, "Place")).toMatchObject({
+      lat: 5.55,
+      lng: 0,
+      name: "Tema",
+    });
+    expect(normalizeTomTom({ id: "x", position: { lat: 1 } }, "Place")).toBeNull();
+  });
+});
+
+describe("Overpass provider", () => {
+  it("asks for every tag of every category around the point", () => {
+    const query = buildOverpassQuery({ ...lisbon, radius: 1500, limit: 5, categories: ["toilet", "pharmacy"] });
+    expect(query).toContain('nwr["amenity"~"^(toilets)$"](around:1500,38.7139,-9.1394);');
+    expect(query).toContain('nwr["amenity"~"^(pharmacy)$"]');
+    expect(query).toContain("out center tags 40;");
+  });
+
+  it("names unnamed elements after their category", () => {
+    const place = normalizeOsm(
+      { type: "way", id: 42, center: { lat: 38.714, lon: -9.14 }, tags: { amenity: "toilets", "addr:street": "Praça do Rossio" } },
+      ["toilet"]
+    );
+    expect(place).toMatchObject({
+      id: "osm:way/42",
+      name: "Public toilet",
+      category: "toilet",
+      classifications: ["TOILETS"],
+      typeName: "Toilets",
+      address: "Praça do Rossio",
+    });
+    expect(normalizeOsm({ type: "node", id: 1, lat: 1, lon: 1, tags: { amenity: "bench" } }, ["toilet"])).toBeNull();
+  });
+
+  it("keeps the closest results per category", async () => {
+    const elements = [
+      { type: "node", id: 1, lat: 38.73, lon: -9.14, tags: { amenity: "pharmacy", name: "Far" } },
+      { type: "node", id: 2, lat: 38.714, lon: -9.1394, tags: { amenity: "pharmacy", name: "Near" } },
+      { type: "node", id: 3, lat: 38.72, lon: -9.14, tags: { amenity: "toilets" } },
+    ];
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ elements }))));
+
+    const places = await overpassProvider.search(
+      { ...lisbon, radius: 3000, limit: 1, categories: ["pharmacy", "toilet"] },
+      new AbortController().signal
+    );
+    expect(places.map((p) => p.name)).toEqual(["Near", "Public toilet"]);
+  });
+});
+
+describe("fixture provider", () => {
+  it("makes up places around any point, for each requested category", async () => {
+    setPlacesProvider("fixture");
+    const places = await searchPlaces({ lat: 35.0116, lon: 135.7681, radius: 1000, limit: 10, categories: ["atm", "toilet"] });
+
+    expect(places).toHaveLength(6);
+    expect(new Set(places.map((p) => p.category))).toEqual(new Set(["atm", "toilet"]));
+    expect(places.every((p) => p.distanceMeters <= 1000)).toBe(true);
+
+    const again = await fixtureProvider.search({ lat: 35.0116, lon: 135.7681, radius: 1000, limit: 10, categories: ["atm"] }, new AbortController().signal);
+    expect(again.map((p) => [p.lat, p.lng])).toEqual(places.filter((p) => p.category === "atm").sort((a, b) => a.id.localeCompare(b.id)).map((p) => [p.lat, p.lng]));
+  });
+
+  it("answers from the given places", async () => {
+    const kyoto: Place = {
+      id: "kyoto",
+      name: "Kyoto",
+      lat: 35.0116,
+      lng: 135.7681,
+      distanceMeters: null,
+      address: null,
+      categories: [],
+      classifications: [],
+      typeName: null,
+      category: null,
+      municipality: "Kyoto",
+      country: "Japan",
+      countryCode: "JP",
+    };
+    const shrine: Place = { ...kyoto, id: "shrine", name: "Yasaka Shrine", lat: 35.0037, lng: 135.7785, category: "worship", municipality: null };
+    setPlacesProvider(createFixtureProvider([kyoto, shrine]));
+
+    const near = await searchPlaces({ lat: 35.0116, lon: 135.7681, radius: 2000, limit: 5, categories: ["worship"] });
+    expect(near.map((p) => p.id)).toEqual(["shrine"]);
+    expect(await searchPlaces({ lat: 35.0116, lon: 135.7681, radius: 500, limit: 5, categories: ["worship"], fresh: true })).toEqual([]);
+    expect(await geocodeDestination("kyoto")).toEqual({ name: "Kyoto, Japan", countryCode: "JP", lat: 35.0116, lng: 135.7681 });
+  });
+});
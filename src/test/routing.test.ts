@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  decodePolyline,
+  describeOsrmStep,
+  directionsPath,
+  formatDuration,
+  osrmProvider,
+  valhallaProvider,
+} from "@/lib/routing";
+
+const from = { lat: 38.7139, lng: -9.1394 };
+const to = { lat: 38.7107, lng: -9.1365 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("describeOsrmStep", () => {
+  const step = (maneuver: Record<string, unknown>, name = "") =>
+    describeOsrmStep({ distance: 10, duration: 8, name, maneuver: { location: [0, 0], ...maneuver } as never });
+
+  it("turns maneuver codes into sentences", () => {
+    expect(step({ type: "depart", bearing_after: 178 }, "Rua Augusta")).toBe("Head south on Rua Augusta");
+    expect(step({ type: "turn", modifier: "left" }, "Rua da Prata")).toBe("Turn left onto Rua da Prata");
+    expect(step({ type: "turn", modifier: "slight right" })).toBe("Bear right");
+    expect(step({ type: "roundabout", exit: 2 }, "Avenida")).toBe("At the roundabout, take exit 2 onto Avenida");
+    expect(step({ type: "new name", modifier: "straight" }, "Rua Nova")).toBe("Continue onto Rua Nova");
+    expect(step({ type: "arrive" })).toBe("Arrive at your destination");
+  });
+});
+
+describe("osrmProvider", () => {
+  it("normalizes the route into [lat, lng] geometry and steps", async () => {
+    const fetchMock = vi.fn(async (..._args: unknown[]) => new Response(JSON.stringify({
+      code: "Ok",
+      routes: [{
+        distance: 420,
+        duration: 300,
+        geometry: { coordinates: [[-9.1394, 38.7139], [-9.1365, 38.7107]] },
+        legs: [{
+          steps: [
+            { distance: 420, duration: 300, name: "Rua Augusta", maneuver: { type: "depart", bearing_after: 180, location: [-9.1394, 38.7139] } },
+            { distance: 0, duration: 0, name: "", maneuver: { type: "arrive", location: [-9.1365, 38.7107] } },
+          ],
+        }],
+      }],
+    })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const route = await osrmProvider.route(from, to);
+    expect(fetchMock.mock.calls[0][0]).toContain("/route/v1/foot/-9.1394,38.7139;-9.1365,38.7107?");
+    expect(route.geometry).toEqual([[38.7139, -9.1394], [38.7107, -9.1365]]);
+    expect(route.steps.map((s) => s.instruction)).toEqual(["Head south on Rua Augusta", "Arrive at your destination"]);
+    expect(route.steps[1].location).toEqual([38.7107, -9.1365]);
+  });
+
+  it("reports when there is no route", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ code: "NoRoute", message: "Impossible route" }))));
+    await expect(osrmProvider.route(from, to)).rejects.toThrow("Impossible route");
+  });
+});
+
+describe("valhallaProvider", () => {
+  it("decodes the shape and keeps Valhalla's own instructions", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({
+      trip: {
+        summary: { length: 0.42, time: 310 },
+        legs: [{
+          // The classic polyline sample; only the point count matters here
+          shape: "_p~iF~ps|U_ulLnnqC_mqNvxq`@",
+          maneuvers: [
+            { instruction: "Walk south on Rua Augusta.", length: 0.42, time: 310, begin_shape_index: 0 },
+            { instruction: "You have arrived.", length: 0, time: 0, begin_shape_index: 2 },
+          ],
+        }],
+      },
+    }))));
+
+    const route = await valhallaProvider.route(from, to);
+    expect(route.distanceMeters).toBe(420);
+    expect(route.durationSeconds).toBe(310);
+    expect(route.geometry).toHaveLength(3);
+    expect(route.steps.map((s) => s.instruction)).toEqual(["Walk south on Rua Augusta.", "You have arrived."]);
+    expect(route.steps[1].location).toEqual(route.geometry[2]);
+  });
+});
+
+describe("helpers", () => {
+  it("decodes a Google-style polyline at precision 5", () => {
+    expect(decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@", 5)).toEqual([[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]]);
+  });
+
+  it("formats durations and links", () => {
+    expect(formatDuration(30)).toBe("1 min");
+    expect(formatDuration(3900)).toBe("1 h 5 min");
+    expect(directionsPath({ lat: 38.71, lng: -9.14, name: "Hospital de São José" }))
+      .toBe("/map?to=38.710000%2C-9.140000&name=Hospital+de+S%C3%A3o+Jos%C3%A9");
+  });
+});
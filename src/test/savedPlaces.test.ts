@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+vi.mock("@/lib/offlineStorage", () => ({ getPendingOperations: async () => [] }));
+
+import { localToSaved, placesToMigrate, savedPlaceKey, type SavedPlace } from "@/lib/savedPlaces";
+import type { NearbyPlace } from "@/lib/places";
+
+const local = (name: string, lat: number, lng: number): NearbyPlace => ({
+  id: `${name}-id`,
+  name,
+  lat,
+  lng,
+  type: "cafe",
+  icon: "☕",
+});
+
+describe("savedPlaceKey", () => {
+  it("treats the same name within ~10 m as the same place", () => {
+    expect(savedPlaceKey({ name: "Café A Brasileira", lat: 38.710_71, lng: -9.142_08 }))
+      .toBe(savedPlaceKey({ name: "café a brasileira", lat: 38.710_74, lng: -9.142_11 }));
+    expect(savedPlaceKey({ name: "Café A Brasileira", lat: 38.7107, lng: -9.1421 }))
+      .not.toBe(savedPlaceKey({ name: "Café A Brasileira", lat: 38.7117, lng: -9.1421 }));
+  });
+});
+
+describe("placesToMigrate", () => {
+  it("skips places the account already has and duplicates, oldest first", () => {
+    // The local list is newest first
+    const list = [local("Pastéis de Belém", 38.6975, -9.2032), local("Time Out Market", 38.7069, -9.1459), local("Pastéis de Belém", 38.6975, -9.2032)];
+    const existing: SavedPlace[] = [{ ...localToSaved(local("Time Out Market", 38.7069, -9.1459)), id: "server-1" }];
+
+    expect(placesToMigrate(list, existing).map((p) => p.name)).toEqual(["Pastéis de Belém"]);
+    expect(placesToMigrate(list, []).map((p) => p.name)).toEqual(["Pastéis de Belém", "Time Out Market"]);
+  });
+
+  it("drops entries without a name or coordinates", () => {
+    const broken = [{ ...local("", 1, 1) }, { ...local("Nowhere", Number.NaN, 2) }];
+    expect(placesToMigrate(broken, [])).toEqual([]);
+  });
+});
+
+describe("localToSaved", () => {
+  it("maps a local bookmark into the table shape", () => {
+    const saved = localToSaved(local("Miradouro", 38.7139, -9.1334));
+    expect(saved).toMatchObject({
+      id: "Miradouro-id",
+      name: "Miradouro",
+      latitude: 38.7139,
+      longitude: -9.1334,
+      place_type: "cafe",
+      trip_id: null,
+      tags: [],
+      visited: false,
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeBalances,
+  minimizeTransfers,
+  splitExpense,
+  validateSplit,
+  type MemberBalance,
+} from "@/lib/settlement";
+
+const sameCurrency = (amount: number) => amount;
+
+const balance = (memberId: string, net: number): MemberBalance => ({ memberId, paid: 0, owed: 0, net });
+
+describe("splitExpense", () => {
+  it("splits equally and hands leftover cents out", () => {
+    const shares = splitExpense(1000, "equal", [
+      { member_id: "a", share: 1 },
+      { member_id: "b", share: 1 },
+      { member_id: "c", share: 1 },
+    ]);
+    expect(Object.values(shares).reduce((sum, v) => sum + v, 0)).toBe(1000);
+    expect(Object.values(shares).sort()).toEqual([333, 333, 334]);
+  });
+
+  it("splits by percentage and exact amounts", () => {
+    expect(splitExpense(2000, "percentage", [
+      { member_id: "a", share: 75 },
+      { member_id: "b", share: 25 },
+    ])).toEqual({ a: 1500, b: 500 });
+    expect(splitExpense(2000, "exact", [
+      { member_id: "a", share: 12 },
+      { member_id: "b", share: 8 },
+    ])).toEqual({ a: 1200, b: 800 });
+  });
+});
+
+describe("validateSplit", () => {
+  it("rejects percentages that do not add up to 100", () => {
+    expect(validateSplit(50, "percentage", [{ member_id: "a", share: 60 }])).toMatch(/100%/);
+    expect(validateSplit(50, "exact", [{ member_id: "a", share: 50 }])).toBeNull();
+  });
+});
+
+describe("computeBalances", () => {
+  it("ignores personal expenses and nets out shared ones", () => {
+    const { balances } = computeBalances(
+      [
+        {
+          amount: 90,
+          currency: "EUR",
+          paid_by_member_id: "a",
+          split_type: "equal",
+          split_shares: [
+            { member_id: "a", share: 1 },
+            { member_id: "b", share: 1 },
+            { member_id: "c", share: 1 },
+          ],
+        },
+        { amount: 500, currency: "EUR", paid_by_member_id: null, split_type: null, split_shares: null },
+      ],
+      ["a", "b", "c"],
+      "EUR",
+      sameCurrency
+    );
+
+    expect(balances.map((b) => b.net)).toEqual([60, -30, -30]);
+  });
+});
+
+describe("minimizeTransfers", () => {
+  it("settles independent pairs with one transfer each", () => {
+    // Greedy largest-first would pair a->c and need three transfers here.
+    const transfers = minimizeTransfers([
+      balance("a", -10),
+      balance("b", -7),
+      balance("c", 7),
+      balance("d", 10),
+    ]);
+
+    expect(transfers).toHaveLength(2);
+    expect(transfers).toEqual(
+      expect.arrayContaining([
+        { from: "a", to: "d", amount: 10 },
+        { from: "b", to: "c", amount: 7 },
+      ])
+    );
+  });
+
+  it("clears every balance", () => {
+    const balances = [balance("a", 45.5), balance("b", -20.25), balance("c", -15.25), balance("d", -10)];
+    const transfers = minimizeTransfers(balances);
+    const net: Record<string, number> = {};
+    for (const t of transfers) {
+      net[t.from] = (net[t.from] || 0) + t.amount;
+      net[t.to] = (net[t.to] || 0) - t.amount;
+    }
+    for (const b of balances) {
+      expect((net[b.memberId] || 0) + b.net).toBeCloseTo(0);
+    }
+    expect(transfers).toHaveLength(3);
+  });
+});
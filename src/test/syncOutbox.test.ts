@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PendingOperation } from "@/lib/offlineStorage";
+
+// Each Supabase query resolves to the next scripted response.
+const responses: Array<{ data?: unknown; error?: { message: string } | null; status: number }> = [];
+const calls: string[] = [];
+
+function query(): unknown {
+  const builder: Record<string, unknown> = {};
+  for (const method of ["upsert", "update", "delete", "select", "eq", "maybeSingle"]) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push(`${method}(${args.map((a) => JSON.stringify(a)).join(", ")})`);
+      return builder;
+    };
+  }
+  builder.then = (resolve: (value: unknown) => void) =>
+    resolve({ data: null, error: null, ...responses.shift() });
+  return builder;
+}
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { from: () => query() } }));
+
+let store: PendingOperation[] = [];
+let nextId = 1;
+
+vi.mock("@/lib/offlineStorage", () => ({
+  getPendingOperations: async () => store.map((op) => ({ ...op })),
+  addPendingOperation: async (op: Partial<PendingOperation>) => {
+    store.push({
+      id: nextId++,
+      label: null,
+      baseUpdatedAt: null,
+      timestamp: Date.now(),
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: 0,
+      lastError: null,
+      serverRow: null,
+      rowId: String(op.data?.id),
+      ...op,
+    } as PendingOperation);
+    return nextId - 1;
+  },
+  updatePendingOperation: async (op: PendingOperation) => {
+    store = store.map((existing) => (existing.id === op.id ? op : existing));
+  },
+  clearPendingOperation: async (id: number) => {
+    store = store.filter((op) => op.id !== id);
+  },
+}));
+
+import {
+  applyPendingChanges,
+  mergeChange,
+  queueChange,
+  retryDelay,
+  saveChangeVersioned,
+  syncOutbox,
+  MAX_ATTEMPTS,
+  RETRY_BASE_MS,
+  RETRY_MAX_MS,
+} from "@/lib/syncOutbox";
+
+beforeEach(() => {
+  store = [];
+  nextId = 1;
+  responses.length = 0;
+  calls.length = 0;
+});
+
+const expense = (id: string, amount: number) => ({ id, amount, currency: "EUR", category: "Food" });
+
+describe("mergeChange", () => {
+  it("folds edits into a queued create", () => {
+    const merged = mergeChange(
+      { type: "create", data: expense("a", 5), baseUpdatedAt: null },
+      { type: "update", data: { id: "a", amount: 7 }, baseUpdatedAt: null }
+    );
+    expect(merged).toEqual({ type: "create", data: expense("a", 7), baseUpdatedAt: null });
+  });
+
+  it("drops a row created and deleted before it was sent", () => {
+    expect(
+      mergeChange({ type: "create", data: expense("a", 5), baseUpdatedAt: null }, { type: "delete", data: { id: "a" } , baseUpdatedAt: null })
+    ).toBeNull();
+  });
+
+  it("keeps the version the first edit was based on", () => {
+    const merged = mergeChange(
+      { type: "update", data: { id: "a", amount: 7 }, baseUpdatedAt: "v1" },
+      { type: "delete", data: { id: "a" }, baseUpdatedAt: "v2" }
+    );
+    expect(merged).toMatchObject({ type: "delete", baseUpdatedAt: "v1" });
+  });
+});
+
+describe("retryDelay", () => {
+  it("doubles up to a cap", () => {
+    expect(retryDelay(1)).toBe(RETRY_BASE_MS);
+    expect(retryDelay(3)).toBe(RETRY_BASE_MS * 4);
+    expect(retryDelay(30)).toBe(RETRY_MAX_MS);
+  });
+});
+
+describe("queueChange", () => {
+  it("merges changes to the same unsent row", async () => {
+    await queueChange({ type: "create", table: "spending_records", data: expense("a", 5) });
+    await queueChange({ type: "update", table: "spending_records", data: { id: "a", amount: 9 } });
+    await queueChange({ type: "create", table: "spending_records", data: expense("b", 1) });
+    await queueChange({ type: "delete", table: "spending_records", data: { id: "b" } });
+
+    expect(store).toHaveLength(1);
+    expect(store[0]).toMatchObject({ type: "create", rowId: "a", data: { amount: 9 } });
+  });
+});
+
+describe("syncOutbox", () => {
+  it("sends queued work in order and clears it", async () => {
+    await queueChange({ type: "create", table: "trips", data: { id: "t1", name: "Lisbon" } });
+    await queueChange({ type: "delete", table: "spending_records", data: { id: "s1" }, baseUpdatedAt: "v1" });
+    responses.push({ status: 201 }, { data: [{ id: "s1" }], status: 200 });
+
+    const summary = await syncOutbox();
+
+    expect(summary).toEqual({ synced: 2, failed: 0, conflicts: 0 });
+    expect(store).toEqual([]);
+    expect(calls).toContain('eq("updated_at", "v1")');
+  });
+
+  it("parks a change as a conflict when the row moved on", async () => {
+    await queueChange({ type: "update", table: "trips", data: { id: "t1", name: "Porto" }, baseUpdatedAt: "v1" });
+    const serverRow = { id: "t1", name: "Oporto", updated_at: "v2" };
+    responses.push({ data: [], status: 200 }, { data: serverRow, status: 200 });
+
+    const summary = await syncOutbox();
+
+    expect(summary.conflicts).toBe(1);
+    expect(store[0]).toMatchObject({ status: "conflict", serverRow });
+  });
+
+  it("backs off after a server error and gives up eventually", async () => {
+    await queueChange({ type: "create", table: "scan_entries", data: { id: "x", category: "sign" } });
+    responses.push({ error: { message: "violates foreign key" }, status: 409 });
+
+    const summary = await syncOutbox();
+
+    expect(summary.failed).toBe(1);
+    expect(store[0]).toMatchObject({ status: "pending", attempts: 1, lastError: "violates foreign key" });
+    expect(store[0].nextAttemptAt).toBeGreaterThan(Date.now());
+
+    // Still backing off: nothing is sent
+    await syncOutbox();
+    expect(store[0].attempts).toBe(1);
+
+    store[0] = { ...store[0], attempts: MAX_ATTEMPTS - 1, nextAttemptAt: 0 };
+    responses.push({ error: { message: "violates foreign key" }, status: 409 });
+    await syncOutbox();
+    expect(store[0].status).toBe("failed");
+  });
+
+  it("does not count attempts while the network is down", async () => {
+    await queueChange({ type: "create", table: "trips", data: { id: "t1", name: "Lisbon" } });
+    await queueChange({ type: "create", table: "trips", data: { id: "t2", name: "Faro" } });
+    responses.push({ error: { message: "TypeError: Failed to fetch" }, status: 0 });
+
+    const summary = await syncOutbox();
+
+    expect(summary.failed).toBe(1);
+    expect(store.map((op) => op.attempts)).toEqual([0, 0]);
+    expect(calls.filter((call) => call.startsWith("upsert"))).toHaveLength(1);
+  });
+});
+
+describe("saveChangeVersioned", () => {
+  it("returns the stamp the server gave the update", async () => {
+    responses.push({ data: [{ id: "t1", updated_at: "v2" }], status: 200 });
+
+    const saved = await saveChangeVersioned({
+      type: "update",
+      table: "trips",
+      data: { id: "t1", name: "Porto" },
+      baseUpdatedAt: "v1",
+    });
+
+    expect(saved).toEqual({ result: "saved", updatedAt: "v2" });
+    expect(calls).toContain('select("id, updated_at")');
+  });
+});
+
+describe("applyPendingChanges", () => {
+  it("shows queued creates, edits and deletes on top of server rows", () => {
+    const op = (id: number, type: PendingOperation["type"], data: Record<string, unknown>) =>
+      ({ id, type, table: "spending_records", rowId: data.id, data }) as PendingOperation;
+
+    const { rows, unsyncedIds } = applyPendingChanges(
+      [expense("a", 5), expense("b", 6)],
+      [op(1, "create", expense("c", 3)), op(2, "update", { id: "a", amount: 8 }), op(3, "delete", { id: "b" })],
+      "spending_records"
+    );
+
+    expect(rows.map((r) => [r.id, r.amount])).toEqual([["c", 3], ["a", 8]]);
+    expect([...unsyncedIds].sort()).toEqual(["a", "c"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import {
+  canEditTrip,
+  isValidEmail,
+  pendingInvitations,
+  sortCollaborators,
+  tripRoleFor,
+  type TripCollaborator,
+  type TripInvitation,
+} from "@/lib/tripMembers";
+
+const person = (id: string, role: TripCollaborator["role"], userId: string | null = id): TripCollaborator => ({
+  id,
+  userId,
+  displayName: id,
+  email: null,
+  role,
+});
+
+const invitation = (id: string, patch: Partial<TripInvitation> = {}): TripInvitation => ({
+  id,
+  tripId: "t1",
+  email: null,
+  role: "editor",
+  token: `token-${id}`,
+  expiresAt: "2026-06-15T00:00:00Z",
+  acceptedAt: null,
+  ...patch,
+});
+
+describe("tripRoleFor", () => {
+  const trip = { id: "t1", user_id: "owner" };
+  const memberships = [
+    { trip_id: "t1", user_id: "ed", role: "editor" },
+    { trip_id: "t1", user_id: "vi", role: "viewer" },
+    { trip_id: "t2", user_id: "other", role: "editor" },
+  ];
+
+  it("reads the owner from the trip and everyone else from their member row", () => {
+    expect(tripRoleFor(trip, "owner", memberships)).toBe("owner");
+    expect(tripRoleFor(trip, "ed", memberships)).toBe("editor");
+    expect(tripRoleFor(trip, "vi", memberships)).toBe("viewer");
+    expect(tripRoleFor(trip, "other", memberships)).toBeNull();
+  });
+
+  it("only lets owners and editors edit", () => {
+    expect(canEditTrip("owner")).toBe(true);
+    expect(canEditTrip("editor")).toBe(true);
+    expect(canEditTrip("viewer")).toBe(false);
+    expect(canEditTrip(null)).toBe(false);
+  });
+});
+
+describe("sortCollaborators", () => {
+  it("lists the owner first and companions without an account last", () => {
+    const sorted = sortCollaborators([
+      person("zoe", "viewer"),
+      person("sam", "editor", null),
+      person("ana", "editor"),
+      person("max", "owner"),
+    ]);
+    expect(sorted.map((p) => p.id)).toEqual(["max", "ana", "zoe", "sam"]);
+  });
+});
+
+describe("pendingInvitations", () => {
+  it("drops expired invitations and accepted email invitations, but keeps used links", () => {
+    const now = new Date("2026-06-01T00:00:00Z");
+    const pending = pendingInvitations(
+      [
+        invitation("link", { acceptedAt: "2026-05-30T00:00:00Z" }),
+        invitation("email", { email: "a@b.co" }),
+        invitation("used", { email: "c@d.co", acceptedAt: "2026-05-30T00:00:00Z" }),
+        invitation("old", { expiresAt: "2026-05-31T00:00:00Z" }),
+      ],
+      now
+    );
+    expect(pending.map((i) => i.id)).toEqual(["link", "email"]);
+  });
+});
+
+describe("isValidEmail", () => {
+  it("accepts addresses with a domain and ignores surrounding spaces", () => {
+    expect(isValidEmail(" ana@example.com ")).toBe(true);
+    expect(isValidEmail("ana@example")).toBe(false);
+    expect(isValidEmail("ana example.com")).toBe(false);
+  });
+});
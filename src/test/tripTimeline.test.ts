@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { emptyDay, emptyStop, type Itinerary } from "@/lib/itinerary";
+import { buildTimeline, timelinePath, type TimelineScan, type TimelineSpending } from "@/lib/tripTimeline";
+
+// Local times without an offset, so the test doesn't depend on the time zone.
+const scan = (id: string, createdAt: string, patch: Partial<TimelineScan> = {}): TimelineScan => ({
+  id,
+  name: `Scan ${id}`,
+  category: "food",
+  location_name: null,
+  latitude: null,
+  longitude: null,
+  image_url: null,
+  created_at: createdAt,
+  ...patch,
+});
+
+const record = (id: string, date: string, createdAt: string, amount: number, currency = "EUR"): TimelineSpending => ({
+  id,
+  amount,
+  currency,
+  category: "Food",
+  merchant: `Shop ${id}`,
+  notes: null,
+  location_name: null,
+  date,
+  created_at: createdAt,
+});
+
+const itinerary: Itinerary = {
+  version: 1,
+  days: [
+    emptyDay({
+      date: "2026-05-01",
+      stops: [
+        emptyStop({ id: "museum", title: "Museum", time: "10:00", lat: 38.7, lng: -9.1 }),
+        emptyStop({ id: "dinner", title: "Dinner", time: "20:00" }),
+      ],
+    }),
+    // Undated days can't be placed on a timeline
+    emptyDay({ stops: [emptyStop({ id: "someday", title: "Someday" })] }),
+  ],
+};
+
+const toEur = (amount: number, from: string, to: string) => (from === "USD" && to === "EUR" ? amount * 0.9 : null);
+
+describe("buildTimeline", () => {
+  const days = buildTimeline(
+    {
+      scans: [
+        scan("coffee", "2026-05-01T09:15:00", { latitude: 38.71, longitude: -9.14 }),
+        scan("tram", "2026-05-02T11:00:00", { latitude: 38.72, longitude: -9.13 }),
+        scan("tiles", "2026-05-01T10:00:00", { latitude: 38.7, longitude: -9.12 }),
+      ],
+      spending: [
+        record("lunch", "2026-05-01", "2026-05-01T13:30:00", 20),
+        // Entered two days later: keeps its date, without a time
+        record("taxi", "2026-05-01", "2026-05-03T08:00:00", 10, "USD"),
+        record("gift", "2026-05-02", "2026-05-02T12:00:00", 5, "JPY"),
+      ],
+      itinerary,
+    },
+    "EUR",
+    toEur
+  );
+
+  it("merges everything into days in time order, untimed entries last", () => {
+    expect(days.map((d) => d.day)).toEqual(["2026-05-01", "2026-05-02"]);
+    expect(days[0].items.map((i) => i.id)).toEqual(["coffee", "museum", "tiles", "lunch", "dinner", "taxi"]);
+    expect(days[1].items.map((i) => i.id)).toEqual(["tram", "gift"]);
+    expect(days[0].items.find((i) => i.id === "taxi").time).toBeNull();
+  });
+
+  it("totals each day's spending in the reporting currency", () => {
+    expect(days[0].spent).toBeCloseTo(29);
+    expect(days[0].unconverted).toBe(0);
+    expect(days[1]).toMatchObject({ spent: 0, unconverted: 1 });
+  });
+
+  it("draws the path through geotagged entries in order", () => {
+    expect(timelinePath(days).map((p) => p.id)).toEqual(["coffee", "museum", "tiles", "tram"]);
+  });
+});
@@ -0,0 +1,51 @@
+// =============================================================
+// Shared AI gateway for the edge functions.
+//
+// Every function used to hard-code the Lovable gateway and its own model.
+// They now go through chatCompletion(), which talks to any OpenAI-compatible
+// chat completions endpoint. Configure with function secrets:
+//   AI_BASE_URL      default https://ai.gateway.lovable.dev/v1
+//                    (e.g. https://openrouter.ai/api/v1, http://host:11434/v1)
+//   AI_API_KEY       falls back to LOVABLE_API_KEY; optional when AI_BASE_URL
+//                    points at a local server that does not check keys
+//   AI_MODEL         overrides each function's default text model
+//   AI_VISION_MODEL  overrides the model for image requests
+// =============================================================
+
+const DEFAULT_BASE_URL = "https://ai.gateway.lovable.dev/v1";
+
+interface ChatCompletionPayload {
+  model: string;
+  messages: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * POSTs a chat completion and returns the raw Response so callers keep
+ * their own status handling (429 / 402 etc.).
+ */
+export function chatCompletion(
+  payload: ChatCompletionPayload,
+  options: { vision?: boolean } = {}
+): Promise<Response> {
+  const baseUrl = (Deno.env.get("AI_BASE_URL") || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const apiKey = Deno.env.get("AI_API_KEY") || Deno.env.get("LOVABLE_API_KEY");
+
+  if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
+    throw new Error("AI_API_KEY (or LOVABLE_API_KEY) is not configured");
+  }
+
+  const model =
+    (options.vision ? Deno.env.get("AI_VISION_MODEL") : undefined) ||
+    Deno.env.get("AI_MODEL") ||
+    payload.model;
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  return fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ ...payload, model }),
+  });
+}
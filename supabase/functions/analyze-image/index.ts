@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion } from "../_shared/ai.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,11 +13,6 @@ serve(async (req) => {
 
   try {
     const { image } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
 
     // Validate and ensure proper image format
     if (!image || typeof image !== 'string') {
@@ -51,26 +47,19 @@ Analyze the image and respond with ONLY valid JSON in this format:
 IMPORTANT: For landmarks, monuments, and recognizable locations, always set "detected_location" to where that landmark actually exists in the world.
 Be accurate and helpful. Extract prices with their currency if visible.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: "Analyze this image and provide travel intelligence." },
-              { type: "image_url", image_url: { url: imageUrl } },
-            ],
-          },
-        ],
-      }),
-    });
+    const response = await chatCompletion({
+      model: "google/gemini-2.5-flash",
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Analyze this image and provide travel intelligence." },
+            { type: "image_url", image_url: { url: imageUrl } },
+          ],
+        },
+      ],
+    }, { vision: true });
 
     if (!response.ok) {
       if (response.status === 429) {
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion } from "../_shared/ai.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,12 +13,6 @@ serve(async (req) => {
 
   try {
     const { locationName, countryCode, latitude, longitude } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     const systemPrompt = `You are a travel safety advisor. Provide accurate, helpful safety information for travelers.
 
 Respond with ONLY valid JSON in this format:
@@ -45,22 +40,15 @@ Provide real, accurate emergency numbers for the country.
 Include 3-5 relevant safety tips for tourists.
 Include any active travel advisories or common scams.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { 
-            role: "user", 
-            content: `Provide safety information for a tourist visiting ${locationName || "this location"}, ${countryCode || "Unknown Country"}. Coordinates: ${latitude}, ${longitude}` 
-          },
-        ],
-      }),
+    const response = await chatCompletion({
+      model: "google/gemini-3-flash-preview",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { 
+          role: "user", 
+          content: `Provide safety information for a tourist visiting ${locationName || "this location"}, ${countryCode || "Unknown Country"}. Coordinates: ${latitude}, ${longitude}` 
+        },
+      ],
     });
 
     if (!response.ok) {
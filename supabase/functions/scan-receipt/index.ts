@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion } from "../_shared/ai.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,12 +13,6 @@ serve(async (req) => {
 
   try {
     const { image, currency } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     const defaultCurrency = currency || "USD";
 
     const systemPrompt = `You are a receipt scanner for a travel expense tracking app. Extract spending information from receipt images.
@@ -38,26 +33,19 @@ Extract all line items with prices. Be accurate with numbers.
 Detect the currency from the receipt if visible, otherwise use ${defaultCurrency}.
 If something isn't visible, use null.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: "Extract spending information from this receipt." },
-              { type: "image_url", image_url: { url: image } },
-            ],
-          },
-        ],
-      }),
-    });
+    const response = await chatCompletion({
+      model: "google/gemini-3-flash-preview",
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Extract spending information from this receipt." },
+            { type: "image_url", image_url: { url: image } },
+          ],
+        },
+      ],
+    }, { vision: true });
 
     if (!response.ok) {
       if (response.status === 429) {
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { chatCompletion } from "../_shared/ai.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,12 +13,6 @@ serve(async (req) => {
 
   try {
     const { text, targetLanguage } = await req.json();
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     const systemPrompt = `You are a travel translation assistant. Translate the given text to ${targetLanguage}.
 
 Respond with ONLY valid JSON in this format:
@@ -30,19 +25,12 @@ Respond with ONLY valid JSON in this format:
 For languages with non-Latin scripts (Japanese, Chinese, Korean, Arabic, etc.), include romanized pronunciation.
 Be accurate and natural-sounding for a traveler using this in real situations.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: `Translate: "${text}"` },
-        ],
-      }),
+    const response = await chatCompletion({
+      model: "google/gemini-3-flash-preview",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: `Translate: "${text}"` },
+      ],
     });
 
     if (!response.ok) {
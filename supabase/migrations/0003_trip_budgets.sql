@@ -0,0 +1,29 @@
+-- =============================================================
+-- Trip budgets
+-- Run this in the Supabase SQL Editor after 0001_init.sql.
+-- Safe to re-run.
+--
+-- A trip gets one budget currency, an optional total and optional
+-- per-category limits ({"Food": 400, "Transport": 150, ...}). Spending
+-- records can now point at a trip directly; before this they were only
+-- linked through a scan entry, so manual entries never counted.
+-- =============================================================
+
+alter table public.trips
+  add column if not exists budget_amount numeric,
+  add column if not exists budget_currency text,
+  add column if not exists category_budgets jsonb not null default '{}'::jsonb;
+
+alter table public.spending_records
+  add column if not exists trip_id uuid references public.trips(id) on delete set null;
+
+create index if not exists spending_records_trip_id_idx
+  on public.spending_records (trip_id);
+
+-- Backfill the direct link for records that were created from a scan.
+update public.spending_records sr
+set trip_id = se.trip_id
+from public.scan_entries se
+where sr.scan_entry_id = se.id
+  and sr.trip_id is null
+  and se.trip_id is not null;
@@ -0,0 +1,95 @@
+-- =============================================================
+-- Trip members + shared expenses
+-- Run this in the Supabase SQL Editor after 0003_trip_budgets.sql.
+-- Safe to re-run.
+--
+-- A trip can list the companions it is shared with. Members do not need
+-- an account: user_id is only set when the companion is also an app user.
+-- Spending records can then say who paid and how the cost is split:
+--   split_type   'equal' | 'percentage' | 'exact'
+--   split_shares [{"member_id": uuid, "share": number}]
+--                equal      -> share is ignored, listed members split evenly
+--                percentage -> share is a percent, totals 100
+--                exact      -> share is an amount in the record's currency
+-- =============================================================
+
+create table if not exists public.trip_members (
+  id uuid primary key default gen_random_uuid(),
+  trip_id uuid not null references public.trips(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  display_name text not null,
+  email text,
+  created_at timestamptz not null default now(),
+  unique (trip_id, user_id)
+);
+
+create index if not exists trip_members_trip_id_idx on public.trip_members (trip_id);
+
+alter table public.spending_records
+  add column if not exists paid_by_member_id uuid references public.trip_members(id) on delete set null,
+  add column if not exists split_type text,
+  add column if not exists split_shares jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'spending_records_split_type_check'
+  ) then
+    alter table public.spending_records
+      add constraint spending_records_split_type_check
+      check (split_type is null or split_type in ('equal', 'percentage', 'exact'));
+  end if;
+end$$;
+
+-- The payer has to be on the same trip as the expense. A plain foreign key
+-- only checks that the member exists somewhere, so this is a trigger.
+create or replace function public.check_spending_payer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.paid_by_member_id is not null and not exists (
+    select 1 from public.trip_members
+    where id = new.paid_by_member_id and trip_id = new.trip_id
+  ) then
+    raise exception 'The payer must be a member of the expense''s trip';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists spending_records_check_payer on public.spending_records;
+create trigger spending_records_check_payer
+  before insert or update of paid_by_member_id, trip_id on public.spending_records
+  for each row execute function public.check_spending_payer();
+
+-- is_trip_member helper (security definer to avoid RLS recursion, like has_role)
+create or replace function public.is_trip_member(_trip_id uuid, _user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.trip_members
+    where trip_id = _trip_id and user_id = _user_id
+  );
+$$;
+
+-- ----- RLS -------------------------------------------------------
+alter table public.trip_members enable row level security;
+
+-- The trip owner manages the member list.
+drop policy if exists "trip_members_owner_all" on public.trip_members;
+create policy "trip_members_owner_all" on public.trip_members
+  for all
+  using (exists (select 1 from public.trips t where t.id = trip_id and t.user_id = auth.uid()))
+  with check (exists (select 1 from public.trips t where t.id = trip_id and t.user_id = auth.uid()));
+
+-- Linked members can see who else is on the trip.
+drop policy if exists "trip_members_select_member" on public.trip_members;
+create policy "trip_members_select_member" on public.trip_members
+  for select using (public.is_trip_member(trip_id, auth.uid()));
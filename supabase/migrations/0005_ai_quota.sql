@@ -0,0 +1,156 @@
+-- =============================================================
+-- Server-enforced AI quota
+-- Run this in the Supabase SQL Editor after 0004_trip_members_splits.sql.
+-- Safe to re-run.
+--
+-- The Netlify AI proxy calls consume_ai_quota() with the service role key
+-- before forwarding a request, so the daily counter in ai_usage can no
+-- longer be skipped or reset from the browser:
+--   * signed-in users are counted per user_id,
+--   * anonymous visitors per client IP; the proxy passes a salted hash of
+--     the address as the session id, so the browser can't pick a new one.
+-- Daily limits come from the caller's roles in user_roles, looked up in
+-- ai_role_limits (the highest limit wins). Anonymous callers get 3.
+-- =============================================================
+
+-- A paid tier between "user" and "admin". Grant it with:
+--   insert into public.user_roles (user_id, role) values ('<uuid>', 'subscriber');
+alter type public.app_role add value if not exists 'subscriber';
+
+-- ----- Limits per role --------------------------------------------
+-- role is text rather than app_role so the 'subscriber' row can be seeded
+-- in the same run that adds the enum value.
+create table if not exists public.ai_role_limits (
+  role text primary key,
+  daily_limit integer not null check (daily_limit >= 0)
+);
+
+insert into public.ai_role_limits (role, daily_limit) values
+  ('user', 7),
+  ('subscriber', 50),
+  ('admin', 1000)
+on conflict (role) do nothing;
+
+alter table public.ai_role_limits enable row level security;
+
+drop policy if exists "ai_role_limits_select_all" on public.ai_role_limits;
+create policy "ai_role_limits_select_all" on public.ai_role_limits
+  for select using (true);
+
+-- ----- Anonymous counters -----------------------------------------
+-- unique (user_id, date) does not cover rows without a user, so anonymous
+-- sessions get their own partial unique index for the upsert below.
+create unique index if not exists ai_usage_session_date_key
+  on public.ai_usage (session_id, date)
+  where user_id is null;
+
+-- ----- Request ids ------------------------------------------------
+-- An earlier version let schema-repair retries that shared a client-chosen
+-- request id count once. Every upstream call counts now.
+drop function if exists public.consume_ai_quota(uuid, text, text);
+drop table if exists public.ai_requests;
+
+-- ----- Functions --------------------------------------------------
+create or replace function public.ai_daily_limit(_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when _user_id is null then 3
+    else coalesce(
+      (select max(l.daily_limit)
+         from public.user_roles r
+         join public.ai_role_limits l on l.role = r.role::text
+        where r.user_id = _user_id),
+      7
+    )
+  end;
+$$;
+
+-- Atomically counts one AI call. Returns
+--   {"allowed": bool, "used": int, "limit": int, "reset_at": timestamptz}
+create or replace function public.consume_ai_quota(_user_id uuid, _session_id text)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _limit integer := public.ai_daily_limit(_user_id);
+  _used integer;
+  _reset_at timestamptz := (current_date + 1)::timestamptz;
+begin
+  if _user_id is null and coalesce(_session_id, '') = '' then
+    raise exception 'consume_ai_quota needs a user id or a session id';
+  end if;
+
+  if _user_id is not null then
+    insert into public.ai_usage as u (user_id, date, call_count)
+    values (_user_id, current_date, 1)
+    on conflict (user_id, date) do update
+      set call_count = u.call_count + 1
+      where u.call_count < _limit
+    returning call_count into _used;
+  else
+    insert into public.ai_usage as u (session_id, date, call_count)
+    values (_session_id, current_date, 1)
+    on conflict (session_id, date) where user_id is null do update
+      set call_count = u.call_count + 1
+      where u.call_count < _limit
+    returning call_count into _used;
+  end if;
+
+  -- No row came back: the update's where clause refused, so we are at the limit.
+  if _used is null then
+    return json_build_object('allowed', false, 'used', _limit, 'limit', _limit, 'reset_at', _reset_at);
+  end if;
+
+  return json_build_object('allowed', true, 'used', _used, 'limit', _limit, 'reset_at', _reset_at);
+end;
+$$;
+
+-- Read-only view of the caller's quota for the app's usage badge.
+-- Signed-in callers are identified by their JWT. Anonymous counters are
+-- keyed by the proxy's IP hash, which the app never sees; it learns those
+-- counts from the proxy's response headers instead.
+create or replace function public.get_ai_quota(_session_id text default null)
+returns json
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select json_build_object(
+    'used', coalesce((
+      select max(call_count) from public.ai_usage
+       where date = current_date
+         and (
+           (auth.uid() is not null and user_id = auth.uid())
+           or (auth.uid() is null and user_id is null and session_id = _session_id)
+         )
+    ), 0),
+    'limit', public.ai_daily_limit(auth.uid()),
+    'reset_at', (current_date + 1)::timestamptz
+  );
+$$;
+
+revoke all on function public.consume_ai_quota(uuid, text) from public, anon, authenticated;
+grant execute on function public.consume_ai_quota(uuid, text) to service_role;
+grant execute on function public.get_ai_quota(text) to anon, authenticated;
+
+-- ----- RLS --------------------------------------------------------
+-- Counters are written only by consume_ai_quota now; users keep read access.
+-- Every write policy is dropped, including the ones the older timestamped
+-- migrations created under other names, and the grants go too so a policy
+-- added later can't quietly reopen the table.
+drop policy if exists "ai_usage_insert_own" on public.ai_usage;
+drop policy if exists "ai_usage_update_own" on public.ai_usage;
+drop policy if exists "Users can insert their own usage" on public.ai_usage;
+drop policy if exists "Users can update their own usage" on public.ai_usage;
+drop policy if exists "Users can insert their own ai usage" on public.ai_usage;
+drop policy if exists "Users can update their own ai usage" on public.ai_usage;
+drop policy if exists "Service role can manage all usage" on public.ai_usage;
+revoke insert, update, delete on public.ai_usage from anon, authenticated;
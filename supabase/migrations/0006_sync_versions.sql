@@ -0,0 +1,27 @@
+-- =============================================================
+-- Row versions for offline sync
+-- Run this in the Supabase SQL Editor after 0005_ai_quota.sql.
+-- Safe to re-run.
+--
+-- The offline outbox (src/lib/syncOutbox.ts) only applies a queued update
+-- or delete when the row's updated_at still matches the value the change
+-- was based on; otherwise the change is parked as a conflict for the user
+-- to resolve. trips already had updated_at; scan entries and spending
+-- records get it here, maintained by the same set_updated_at() trigger.
+-- =============================================================
+
+alter table public.scan_entries
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.spending_records
+  add column if not exists updated_at timestamptz not null default now();
+
+drop trigger if exists scan_entries_updated_at on public.scan_entries;
+create trigger scan_entries_updated_at
+  before update on public.scan_entries
+  for each row execute function public.set_updated_at();
+
+drop trigger if exists spending_records_updated_at on public.spending_records;
+create trigger spending_records_updated_at
+  before update on public.spending_records
+  for each row execute function public.set_updated_at();
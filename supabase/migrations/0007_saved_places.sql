@@ -0,0 +1,62 @@
+-- =============================================================
+-- Saved places
+-- Run this in the Supabase SQL Editor after 0006_sync_versions.sql.
+-- Safe to re-run.
+--
+-- Places bookmarked from the map, Location or Human Needs. They used to
+-- live only in the browser's localStorage ("ww_saved_places"); the app
+-- copies those into this table the first time the user signs in.
+-- A place can belong to a trip (the Journal lists it under that trip) and
+-- carries the user's notes, tags and whether / when they went.
+-- Client-generated ids and updated_at let the offline outbox
+-- (src/lib/syncOutbox.ts) queue changes like it does for trips.
+-- =============================================================
+
+create table if not exists public.saved_places (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  trip_id uuid references public.trips(id) on delete set null,
+  name text not null,
+  latitude double precision not null,
+  longitude double precision not null,
+  place_type text,
+  icon text,
+  address text,
+  notes text,
+  tags text[] not null default '{}',
+  visited boolean not null default false,
+  visited_on date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_places_user_id_idx on public.saved_places (user_id);
+create index if not exists saved_places_trip_id_idx on public.saved_places (trip_id);
+
+drop trigger if exists saved_places_updated_at on public.saved_places;
+create trigger saved_places_updated_at
+  before update on public.saved_places
+  for each row execute function public.set_updated_at();
+
+-- ----- RLS -------------------------------------------------------
+alter table public.saved_places enable row level security;
+
+drop policy if exists "saved_places_select_own" on public.saved_places;
+create policy "saved_places_select_own" on public.saved_places
+  for select using (auth.uid() = user_id);
+drop policy if exists "saved_places_insert_own" on public.saved_places;
+create policy "saved_places_insert_own" on public.saved_places
+  for insert with check (
+    auth.uid() = user_id
+    and (trip_id is null or exists (select 1 from public.trips t where t.id = trip_id and t.user_id = auth.uid()))
+  );
+drop policy if exists "saved_places_update_own" on public.saved_places;
+create policy "saved_places_update_own" on public.saved_places
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (trip_id is null or exists (select 1 from public.trips t where t.id = trip_id and t.user_id = auth.uid()))
+  );
+drop policy if exists "saved_places_delete_own" on public.saved_places;
+create policy "saved_places_delete_own" on public.saved_places
+  for delete using (auth.uid() = user_id);
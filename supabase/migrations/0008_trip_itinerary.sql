@@ -0,0 +1,16 @@
+-- =============================================================
+-- Editable trip itineraries
+-- Run this in the Supabase SQL Editor after 0007_saved_places.sql.
+-- Safe to re-run.
+--
+-- ai_itinerary keeps the planner's raw answer (morning / afternoon /
+-- evening strings per day). itinerary holds the structured, user-edited
+-- version: { "version": 1, "days": [{ "id", "date", "title", "tips",
+-- "stops": [{ "id", "time", "title", "place", "lat", "lng", "notes",
+-- "bookings": [...] }] }] }. See src/lib/itinerary.ts for the shape.
+-- Trips planned before this migration are converted in the app the
+-- first time their itinerary is opened and saved.
+-- =============================================================
+
+alter table public.trips
+  add column if not exists itinerary jsonb;
@@ -0,0 +1,142 @@
+-- =============================================================
+-- Journal search
+-- Run this in the Supabase SQL Editor after 0008_trip_itinerary.sql.
+-- Safe to re-run.
+--
+-- Full-text search over the user's scans and trips for the Journal's
+-- search box and "ask my journal". Both tables get a search_vector kept up
+-- to date by a trigger (scan tips are an array, and array_to_string isn't
+-- immutable enough for a generated column), weighted so a match in the
+-- name outranks one in OCR'd menu text.
+--
+-- The 'simple' text search configuration is deliberate: entries mix
+-- languages (a ramen menu in Japanese, a sign in Portuguese) and English
+-- stemming would mangle the rest.
+--
+-- search_journal() runs with the caller's rights, so RLS still decides
+-- which rows it can see.
+-- =============================================================
+
+create or replace function public.journal_search_vector(_a text, _b text, _c text, _d text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('simple', coalesce(_a, '')), 'A')
+      || setweight(to_tsvector('simple', coalesce(_b, '')), 'B')
+      || setweight(to_tsvector('simple', coalesce(_c, '')), 'C')
+      || setweight(to_tsvector('simple', coalesce(_d, '')), 'D');
+$$;
+
+-- ----- Scans -----------------------------------------------------
+alter table public.scan_entries add column if not exists search_vector tsvector;
+
+create or replace function public.scan_entries_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.journal_search_vector(
+    new.name,
+    new.location_name,
+    concat_ws(' ', new.description, new.notes),
+    concat_ws(' ', array_to_string(new.tips, ' '), new.extracted_text)
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists scan_entries_search_vector on public.scan_entries;
+create trigger scan_entries_search_vector
+  before insert or update of name, location_name, description, notes, tips, extracted_text
+  on public.scan_entries
+  for each row execute function public.scan_entries_search_vector();
+
+create index if not exists scan_entries_search_idx on public.scan_entries using gin (search_vector);
+
+-- ----- Trips -----------------------------------------------------
+alter table public.trips add column if not exists search_vector tsvector;
+
+create or replace function public.trips_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.journal_search_vector(new.name, new.destination, new.ai_summary, new.ai_overview);
+  return new;
+end;
+$$;
+
+drop trigger if exists trips_search_vector on public.trips;
+create trigger trips_search_vector
+  before insert or update of name, destination, ai_summary, ai_overview
+  on public.trips
+  for each row execute function public.trips_search_vector();
+
+create index if not exists trips_search_idx on public.trips using gin (search_vector);
+
+-- ----- Backfill --------------------------------------------------
+-- With triggers off (updated_at's name differs between older setups), so
+-- filling the column doesn't look like an edit to the offline outbox's
+-- conflict check.
+alter table public.scan_entries disable trigger user;
+update public.scan_entries
+   set search_vector = public.journal_search_vector(
+     name,
+     location_name,
+     concat_ws(' ', description, notes),
+     concat_ws(' ', array_to_string(tips, ' '), extracted_text)
+   )
+ where search_vector is null;
+alter table public.scan_entries enable trigger user;
+
+alter table public.trips disable trigger user;
+update public.trips
+   set search_vector = public.journal_search_vector(name, destination, ai_summary, ai_overview)
+ where search_vector is null;
+alter table public.trips enable trigger user;
+
+-- ----- Search ----------------------------------------------------
+-- Every word of _query is matched as a prefix ("ram" finds "ramen"). By
+-- default all of them must match; _match_any = true ranks entries matching
+-- any of them, which is what "ask my journal" uses for its questions.
+-- body is the searchable text, trimmed, for the app to cut a snippet from.
+create or replace function public.search_journal(_query text, _match_any boolean default false, _limit integer default 30)
+returns table (
+  kind text,
+  id uuid,
+  trip_id uuid,
+  title text,
+  subtitle text,
+  body text,
+  created_at timestamptz,
+  rank real
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with q as (
+    select to_tsquery(
+      'simple',
+      string_agg(quote_literal(lexeme) || ':*', case when _match_any then ' | ' else ' & ' end)
+    ) as query
+    from unnest(tsvector_to_array(to_tsvector('simple', coalesce(_query, '')))) as lexeme
+  )
+  select * from (
+    select 'scan'::text, s.id, s.trip_id, coalesce(s.name, s.category), concat_ws(' · ', s.category, s.location_name),
+           left(concat_ws(E'\n', s.description, s.notes, array_to_string(s.tips, E'\n'), s.extracted_text), 1500),
+           s.created_at, ts_rank(s.search_vector, q.query)
+      from public.scan_entries s, q
+     where s.user_id = auth.uid() and s.search_vector @@ q.query
+    union all
+    select 'trip'::text, t.id, t.id, t.name, t.destination,
+           left(concat_ws(E'\n', t.ai_summary, t.ai_overview), 1500),
+           t.created_at, ts_rank(t.search_vector, q.query)
+      from public.trips t, q
+     where t.user_id = auth.uid() and t.search_vector @@ q.query
+  ) hits
+  order by 8 desc, 7 desc
+  limit least(greatest(coalesce(_limit, 30), 1), 100);
+$$;
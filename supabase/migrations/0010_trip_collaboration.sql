@@ -0,0 +1,318 @@
+-- =============================================================
+-- Collaborative trips
+-- Run this in the Supabase SQL Editor after 0009_journal_search.sql.
+-- Safe to re-run.
+--
+-- Companions in trip_members (0004) who have an account become
+-- collaborators with a role:
+--   owner  -> the trip's creator (trips.user_id); everything
+--   editor -> edits the trip, adds scans and expenses to it
+--   viewer -> sees the trip and everything on it
+-- Members without a user_id are still just names for splitting costs.
+--
+-- The owner invites people by email or with a link. Both are rows in
+-- trip_invitations holding a random token; an email invitation can only
+-- be accepted by that address and only once, a link works for anyone
+-- until it expires or is revoked. accept_trip_invitation() turns a token
+-- into a membership, linking the companion row with the same email when
+-- there is one so existing expense splits keep pointing at it.
+--
+-- Scans and expenses stay owned by whoever added them; members see the
+-- ones filed under the trip, and both tables are published to Supabase
+-- Realtime so open apps pick up new entries straight away.
+-- =============================================================
+
+alter table public.trip_members
+  add column if not exists role text not null default 'editor';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'trip_members_role_check'
+  ) then
+    alter table public.trip_members
+      add constraint trip_members_role_check
+      check (role in ('owner', 'editor', 'viewer'));
+  end if;
+end$$;
+
+-- The owner's own companion row, added when they first listed companions.
+update public.trip_members m
+  set role = 'owner'
+  from public.trips t
+  where t.id = m.trip_id and t.user_id = m.user_id and m.role <> 'owner';
+
+create table if not exists public.trip_invitations (
+  id uuid primary key default gen_random_uuid(),
+  trip_id uuid not null references public.trips(id) on delete cascade,
+  -- null for a link anyone can use
+  email text,
+  role text not null default 'editor' check (role in ('editor', 'viewer')),
+  token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  invited_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '14 days',
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users(id) on delete set null
+);
+
+create index if not exists trip_invitations_trip_id_idx on public.trip_invitations (trip_id);
+
+-- ----- Roles -----------------------------------------------------
+-- security definer to avoid RLS recursion, like is_trip_member()
+
+create or replace function public.trip_role(_trip_id uuid, _user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from public.trips where id = _trip_id and user_id = _user_id) then 'owner'
+    else (
+      select role from public.trip_members
+      where trip_id = _trip_id and user_id = _user_id
+      limit 1
+    )
+  end;
+$$;
+
+create or replace function public.can_edit_trip(_trip_id uuid, _user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.trip_role(_trip_id, _user_id) in ('owner', 'editor'), false);
+$$;
+
+-- Editors may update a trip, but not hand it to someone else or change
+-- who can see it through its public link.
+create or replace function public.protect_trip_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is distinct from old.user_id then
+    if new.user_id is distinct from old.user_id then
+      raise exception 'Only the owner can transfer a trip';
+    end if;
+    if new.is_public is distinct from old.is_public or new.share_code is distinct from old.share_code then
+      raise exception 'Only the owner can share a trip publicly';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trips_protect_owner on public.trips;
+create trigger trips_protect_owner
+  before update on public.trips
+  for each row execute function public.protect_trip_owner();
+
+-- ----- Invitations -----------------------------------------------
+
+-- What an invitation is for, shown before accepting it. Only someone
+-- holding the token can look it up.
+create or replace function public.trip_invitation_preview(_token text)
+returns table (
+  trip_id uuid,
+  trip_name text,
+  destination text,
+  role text,
+  invited_by_name text,
+  email text,
+  expired boolean,
+  accepted boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    t.id,
+    t.name,
+    t.destination,
+    i.role,
+    coalesce(p.display_name, 'A fellow traveller'),
+    i.email,
+    i.expires_at < now(),
+    i.email is not null and i.accepted_at is not null
+  from public.trip_invitations i
+  join public.trips t on t.id = i.trip_id
+  left join public.profiles p on p.user_id = i.invited_by
+  where i.token = _token;
+$$;
+
+-- Joins the trip an invitation is for and returns its id.
+create or replace function public.accept_trip_invitation(_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _email text := lower(coalesce(auth.jwt() ->> 'email', ''));
+  _invite public.trip_invitations%rowtype;
+  _name text;
+begin
+  if _uid is null then
+    raise exception 'Sign in to accept an invitation';
+  end if;
+
+  select * into _invite from public.trip_invitations where token = _token for update;
+  if not found then
+    raise exception 'This invitation does not exist or was revoked';
+  end if;
+  if _invite.expires_at < now() then
+    raise exception 'This invitation has expired';
+  end if;
+  if _invite.email is not null then
+    if _invite.accepted_at is not null and _invite.accepted_by is distinct from _uid then
+      raise exception 'This invitation has already been used';
+    end if;
+    if lower(_invite.email) <> _email then
+      raise exception 'This invitation is for %', _invite.email;
+    end if;
+  end if;
+
+  -- Already on the trip (or its owner): nothing to change.
+  if public.trip_role(_invite.trip_id, _uid) is not null then
+    return _invite.trip_id;
+  end if;
+
+  -- A companion listed under this email becomes the account.
+  update public.trip_members
+    set user_id = _uid, role = _invite.role
+    where id = (
+      select id from public.trip_members
+      where trip_id = _invite.trip_id and user_id is null and lower(email) = _email
+      order by created_at
+      limit 1
+    );
+
+  if not found then
+    select display_name into _name from public.profiles where user_id = _uid;
+    insert into public.trip_members (trip_id, user_id, display_name, email, role)
+      values (
+        _invite.trip_id,
+        _uid,
+        coalesce(nullif(_name, ''), nullif(split_part(_email, '@', 1), ''), 'Traveller'),
+        nullif(_email, ''),
+        _invite.role
+      );
+  end if;
+
+  -- The owner is listed too once there is someone to share with, so they
+  -- can be picked as the payer of shared expenses.
+  insert into public.trip_members (trip_id, user_id, display_name, role)
+    select t.id, t.user_id, coalesce(p.display_name, 'Trip owner'), 'owner'
+    from public.trips t
+    left join public.profiles p on p.user_id = t.user_id
+    where t.id = _invite.trip_id
+    on conflict (trip_id, user_id) do nothing;
+
+  if _invite.email is not null then
+    update public.trip_invitations
+      set accepted_at = now(), accepted_by = _uid
+      where id = _invite.id;
+  end if;
+
+  return _invite.trip_id;
+end;
+$$;
+
+-- ----- RLS -------------------------------------------------------
+alter table public.trip_invitations enable row level security;
+
+drop policy if exists "trip_invitations_owner_all" on public.trip_invitations;
+create policy "trip_invitations_owner_all" on public.trip_invitations
+  for all
+  using (public.trip_role(trip_id, auth.uid()) = 'owner')
+  with check (public.trip_role(trip_id, auth.uid()) = 'owner' and invited_by = auth.uid());
+
+-- Members can leave a trip.
+drop policy if exists "trip_members_delete_self" on public.trip_members;
+create policy "trip_members_delete_self" on public.trip_members
+  for delete using (user_id = auth.uid() and role <> 'owner');
+
+-- trips: members read, editors update; only the owner deletes
+drop policy if exists "trips_select_member" on public.trips;
+create policy "trips_select_member" on public.trips
+  for select using (public.is_trip_member(id, auth.uid()));
+drop policy if exists "trips_update_editor" on public.trips;
+create policy "trips_update_editor" on public.trips
+  for update using (public.can_edit_trip(id, auth.uid()));
+
+-- The older timestamped migrations created owner-only write policies under
+-- other names. Permissive policies are OR'd together, so left in place they
+-- would let anyone file a scan or expense under any trip, whatever their role.
+drop policy if exists "Users can update their own trips" on public.trips;
+drop policy if exists "Users can insert their own scans" on public.scan_entries;
+drop policy if exists "Users can update their own scans" on public.scan_entries;
+drop policy if exists "Users can insert their own spending" on public.spending_records;
+drop policy if exists "Users can update their own spending" on public.spending_records;
+
+-- scan_entries: your own, plus everything filed under a trip you're on.
+-- New entries can only be filed under trips you can edit.
+drop policy if exists "scan_entries_select_member" on public.scan_entries;
+create policy "scan_entries_select_member" on public.scan_entries
+  for select using (trip_id is not null and public.is_trip_member(trip_id, auth.uid()));
+drop policy if exists "scan_entries_insert_own" on public.scan_entries;
+create policy "scan_entries_insert_own" on public.scan_entries
+  for insert with check (
+    auth.uid() = user_id
+    and (trip_id is null or public.can_edit_trip(trip_id, auth.uid()))
+  );
+drop policy if exists "scan_entries_update_own" on public.scan_entries;
+create policy "scan_entries_update_own" on public.scan_entries
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (trip_id is null or public.can_edit_trip(trip_id, auth.uid()))
+  );
+-- The owner can tidy up entries on their trip.
+drop policy if exists "scan_entries_delete_trip_owner" on public.scan_entries;
+create policy "scan_entries_delete_trip_owner" on public.scan_entries
+  for delete using (trip_id is not null and public.trip_role(trip_id, auth.uid()) = 'owner');
+
+-- spending_records: same rules as scans
+drop policy if exists "spending_select_member" on public.spending_records;
+create policy "spending_select_member" on public.spending_records
+  for select using (trip_id is not null and public.is_trip_member(trip_id, auth.uid()));
+drop policy if exists "spending_insert_own" on public.spending_records;
+create policy "spending_insert_own" on public.spending_records
+  for insert with check (
+    auth.uid() = user_id
+    and (trip_id is null or public.can_edit_trip(trip_id, auth.uid()))
+  );
+drop policy if exists "spending_update_own" on public.spending_records;
+create policy "spending_update_own" on public.spending_records
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (trip_id is null or public.can_edit_trip(trip_id, auth.uid()))
+  );
+drop policy if exists "spending_delete_trip_owner" on public.spending_records;
+create policy "spending_delete_trip_owner" on public.spending_records
+  for delete using (trip_id is not null and public.trip_role(trip_id, auth.uid()) = 'owner');
+
+-- ----- Realtime --------------------------------------------------
+-- Realtime applies the select policies above to what each client receives.
+do $$
+declare
+  _table text;
+begin
+  foreach _table in array array['scan_entries', 'spending_records'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = _table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', _table);
+    end if;
+  end loop;
+end$$;
@@ -0,0 +1,58 @@
+-- =============================================================
+-- Personal phrasebook
+-- Run this in the Supabase SQL Editor after 0010_trip_collaboration.sql.
+-- Safe to re-run.
+--
+-- Phrases the user saved from Translate or wrote themselves, already
+-- translated into one language so the app can show and speak them
+-- offline. Each sits in a category (the defaults or the user's own, such
+-- as "Allergies"), can be pinned to the top and can belong to a trip.
+-- Client-generated ids and updated_at let the offline outbox
+-- (src/lib/syncOutbox.ts) queue changes like it does for saved places.
+-- =============================================================
+
+create table if not exists public.phrases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  trip_id uuid references public.trips(id) on delete set null,
+  source_language text not null default 'en',
+  language text not null,
+  text text not null,
+  translation text not null,
+  pronunciation text,
+  category text not null default 'Essential',
+  pinned boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists phrases_user_id_idx on public.phrases (user_id);
+create index if not exists phrases_trip_id_idx on public.phrases (trip_id);
+
+drop trigger if exists phrases_updated_at on public.phrases;
+create trigger phrases_updated_at
+  before update on public.phrases
+  for each row execute function public.set_updated_at();
+
+-- ----- RLS -------------------------------------------------------
+alter table public.phrases enable row level security;
+
+drop policy if exists "phrases_select_own" on public.phrases;
+create policy "phrases_select_own" on public.phrases
+  for select using (auth.uid() = user_id);
+drop policy if exists "phrases_insert_own" on public.phrases;
+create policy "phrases_insert_own" on public.phrases
+  for insert with check (
+    auth.uid() = user_id
+    and (trip_id is null or public.is_trip_member(trip_id, auth.uid()))
+  );
+drop policy if exists "phrases_update_own" on public.phrases;
+create policy "phrases_update_own" on public.phrases
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (trip_id is null or public.is_trip_member(trip_id, auth.uid()))
+  );
+drop policy if exists "phrases_delete_own" on public.phrases;
+create policy "phrases_delete_own" on public.phrases
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,18 @@
+-- =============================================================
+-- Dietary profile
+-- Run this in the Supabase SQL Editor after 0011_phrasebook.sql.
+-- Safe to re-run.
+--
+-- What the user can't or won't eat, used when a menu or dish is scanned
+-- to flag conflicts and to write an allergy card for restaurant staff.
+-- Allergens are keys from src/lib/dietary.ts ("peanuts", "tree_nuts",
+-- ...) or the user's own words; diets are vegetarian, vegan, pescatarian,
+-- halal or kosher. allergy_severe marks allergies where even traces and
+-- cross-contact matter.
+-- =============================================================
+
+alter table public.profiles
+  add column if not exists allergens text[] not null default '{}',
+  add column if not exists diets text[] not null default '{}',
+  add column if not exists food_dislikes text[] not null default '{}',
+  add column if not exists allergy_severe boolean not null default false;